@@ -8,6 +8,12 @@
  *   2. 이후 테스트 실행 시 자동으로 세션 확인 및 갱신
  *
  * Playwright globalSetup에서 자동 호출됨
+ *
+ * 로컬 Google OAuth stand-in(scripts/stand-ins/google-oauth-server.js)으로 실행할 때:
+ *   ADMIN_BASE_URL            — Admin origin (기본: STG Admin)
+ *   SESSION_FILE_PATH         — playwright-session.json 대체 경로
+ *   GOOGLE_LOGIN_HEADLESS     — true면 --setup도 headless로 실행
+ *   GOOGLE_LOGIN_TIMEOUT_MS   — --setup 로그인 대기 시간 (기본 3분)
  */
 
 const { chromium } = require("@playwright/test");
@@ -18,44 +24,31 @@ const {
   extractTokenPairFromCookies,
   extractTokenPairFromLocalStorage,
   extractTokenPairFromUrl,
-  getAdminTokenExpiryMs,
   getLatestRefreshTokenExpiry,
   getRemainingParts,
   mergeTokenPairs,
-  readStorageState,
-  resolveTargetDomain,
 } = require("./scripts/auth-state");
-
-// 환경별 파일 경로: STG → stg-auth.json, Prod → auth.json
-const isSTG = process.env.MAKESTAR_BASE_URL?.includes("stage");
-const SESSION_FILE = path.join(__dirname, "playwright-session.json");
-const ADMIN_TOKENS_FILE =
-  process.env.ADMIN_TOKENS_FILE_PATH ||
-  path.join(__dirname, "admin-tokens.json");
-const AUTH_FILE =
-  process.env.AUTH_FILE_PATH ||
-  path.join(__dirname, isSTG ? "stg-auth.json" : "auth.json");
-const BASE_URL = "https://stage-new-admin.makeuni2026.com";
-const TARGET_REFRESH_DOMAIN = resolveTargetDomain({
-  ...process.env,
-  ENVIRONMENT_INPUT: process.env.ENVIRONMENT_INPUT || (isSTG ? "stg" : "prod"),
-});
-
-function getBestTokenExpiryMs() {
-  const candidates = [];
-  const adminTokenExpiry = getAdminTokenExpiryMs(ADMIN_TOKENS_FILE);
-  if (adminTokenExpiry) candidates.push(adminTokenExpiry);
-
-  const authState = readStorageState(AUTH_FILE);
-  if (authState.ok) {
-    const refreshTokenExpiry = getLatestRefreshTokenExpiry(
-      authState.cookies,
-      TARGET_REFRESH_DOMAIN,
-    );
-    if (refreshTokenExpiry) candidates.push(refreshTokenExpiry);
-  }
-
-  return candidates.length > 0 ? Math.max(...candidates) : null;
+const { AuthStore } = require("./scripts/auth-store");
+const {
+  ensureFreshToken,
+  formatRefreshOutcome,
+} = require("./scripts/refresh-coordinator");
+
+// 환경별 파일 경로 / refresh_token 도메인은 AuthStore가 결정한다
+// (STG → stg-auth.json 우선, Prod → auth.json, admin-tokens.json)
+const adminAuth = new AuthStore("admin");
+const SESSION_FILE =
+  process.env.SESSION_FILE_PATH ||
+  path.join(__dirname, "playwright-session.json");
+const BASE_URL =
+  process.env.ADMIN_BASE_URL || "https://stage-new-admin.makeuni2026.com";
+const ADMIN_ORIGIN = new URL(BASE_URL).origin;
+const LOGIN_TIMEOUT_MS = Number(process.env.GOOGLE_LOGIN_TIMEOUT_MS) || 180000;
+const TARGET_REFRESH_DOMAIN = adminAuth.targetDomain;
+
+/** Admin 앱 화면인지 (인증 서버 / Google 화면 / logout 경로 제외) */
+function isAdminAppUrl(url) {
+  return url.origin === ADMIN_ORIGIN && !url.pathname.startsWith("/auth");
 }
 
 async function readPageLocalStorage(page) {
@@ -88,7 +81,7 @@ function saveAdminTokens(tokens, userInfoOverride = null) {
     userInfo: userInfoOverride || tokens.userInfo,
     expiresAt: tokens.expiresAt,
   });
-  fs.writeFileSync(ADMIN_TOKENS_FILE, JSON.stringify(tokenData, null, 2));
+  adminAuth.writeAdminTokens(tokenData);
   return tokenData;
 }
 
@@ -101,7 +94,7 @@ async function saveCurrentAuthState(context, page) {
     localStorage,
     savedAt: new Date().toISOString(),
   };
-  fs.writeFileSync(AUTH_FILE, JSON.stringify(authData, null, 2));
+  adminAuth.writeStorageState(authData);
   console.log(`💾 auth.json 업데이트됨 (쿠키 ${cookies.length}개)`);
   return { cookies, localStorage };
 }
@@ -119,22 +112,17 @@ function logTokenSaved(tokenData) {
 /**
  * 토큰 유효성 확인
  *
- * 1순위: admin-tokens.json의 expiresAt 확인
- * 2순위: auth.json의 refresh_token 쿠키 확인
+ * admin-tokens.json의 expiresAt / auth.json의 refresh_token 쿠키 중 늦은 만료 기준
  */
 function isTokenValid() {
-  const bufferTime = 1 * 60 * 1000; // 1분 여유
-  const expiresAt = getBestTokenExpiryMs();
-  return expiresAt !== null && expiresAt - bufferTime > Date.now();
+  return adminAuth.isValid(1 * 60 * 1000); // 1분 여유
 }
 
 /**
  * 토큰 남은 시간 가져오기 (시간, 분 반환)
  */
 function getTokenRemaining() {
-  const expiresAt = getBestTokenExpiryMs();
-  if (!expiresAt) return { hours: 0, minutes: 0 };
-  return getRemainingParts(expiresAt);
+  return adminAuth.getRemaining();
 }
 
 /**
@@ -151,7 +139,9 @@ async function setupGoogleSession() {
   console.log("🔐 Google 세션 설정을 시작합니다...");
   console.log("   브라우저가 열리면 Google 계정으로 로그인해주세요.\n");
 
-  const browser = await chromium.launch({ headless: false });
+  const browser = await chromium.launch({
+    headless: process.env.GOOGLE_LOGIN_HEADLESS === "true",
+  });
   const context = await browser.newContext();
   const page = await context.newPage();
 
@@ -169,15 +159,25 @@ async function setupGoogleSession() {
       console.log("ℹ️ 이미 로그인 페이지에 있습니다.");
     }
 
-    console.log("⏳ Google 로그인을 완료해주세요... (최대 3분 대기)");
+    console.log(
+      `⏳ Google 로그인을 완료해주세요... (최대 ${Math.round(LOGIN_TIMEOUT_MS / 1000)}초 대기)`,
+    );
 
     // 로그인 완료 후 관리자 도메인으로 돌아올 때까지 대기 (URL 파라미터 토큰 유무 무관)
-    // stage-auth 도메인을 지나 최종 관리자 도메인(BASE_URL) 도달을 기다림
-    await page.waitForURL("**stage-new-admin.makeuni2026.com/**", {
-      timeout: 180000,
-    });
+    // stage-auth 도메인을 지나 최종 관리자 도메인(BASE_URL) 도달을 기다림.
+    // OAuth 취소(error=access_denied)로 로그인 페이지에 돌아오면 바로 실패 처리.
+    await page.waitForURL(
+      (url) =>
+        isAdminAppUrl(url) || url.searchParams.get("error") === "access_denied",
+      { timeout: LOGIN_TIMEOUT_MS },
+    );
     await page.waitForLoadState("domcontentloaded");
     const currentUrl = page.url();
+    if (!isAdminAppUrl(new URL(currentUrl))) {
+      console.log("⚠️ Google 로그인이 취소되었습니다 (access_denied)");
+      await browser.close();
+      return false;
+    }
     console.log("✅ 로그인 리다이렉트 감지:", currentUrl);
 
     const tokenSource = await collectTokenPair(page, context, currentUrl);
@@ -312,7 +312,7 @@ async function autoRefreshToken() {
           await googleBtn.click();
 
           // 리다이렉트 대기 (토큰 쿼리 유무 무관)
-          await page.waitForURL("**makeuni2026.com/**", { timeout: 30000 });
+          await page.waitForURL(isAdminAppUrl, { timeout: 30000 });
           currentUrl = page.url();
 
           const retryTokenSource = await collectTokenPair(
@@ -359,37 +359,43 @@ async function main() {
     // 최초 설정 모드 (브라우저 열어서 수동 로그인)
     await setupGoogleSession();
   } else if (args.includes("--force")) {
-    // 강제 갱신
-    await autoRefreshToken();
+    // 강제 갱신 (다른 프로세스가 갱신 중이면 끝난 뒤 실행)
+    const outcome = await ensureFreshToken(adminAuth, {
+      owner: "auto-refresh-token --force",
+      force: true,
+      refresh: autoRefreshToken,
+    });
+    console.log(formatRefreshOutcome(outcome));
   } else if (args.includes("--auto")) {
     // 자동 갱신 모드 (VS Code 테스트 탐색기에서 호출됨)
-    // 토큰이 만료되었을 때만 갱신 시도, 성공/실패 결과를 반환
-    if (isTokenValid()) {
+    // 남은 시간이 임계값(AUTH_REFRESH_THRESHOLD_MIN) 미만일 때만 갱신, 유효 여부로 종료 코드 반환
+    const outcome = await ensureFreshToken(adminAuth, {
+      owner: "auto-refresh-token --auto",
+      refresh: autoRefreshToken,
+    });
+    if (outcome.valid) {
       const { hours, minutes } = getTokenRemaining();
       console.log(`✅ 토큰 유효 (남은 시간: ${hours}시간 ${minutes}분)`);
+      if (outcome.status !== "fresh")
+        console.log(formatRefreshOutcome(outcome));
       process.exit(0);
     }
 
-    console.log("🔄 토큰 만료 - 자동 갱신 시도...");
-    const success = await autoRefreshToken();
-
-    if (success) {
-      console.log("✅ 토큰 자동 갱신 성공!");
-      process.exit(0);
-    } else {
-      console.log("❌ 토큰 자동 갱신 실패");
-      console.log("   수동 로그인 필요: node auto-refresh-token.js --setup");
-      process.exit(1);
-    }
+    console.log(`❌ ${formatRefreshOutcome(outcome)}`);
+    console.log("   수동 로그인 필요: node auto-refresh-token.js --setup");
+    process.exit(1);
   } else {
-    // 기본 모드: 토큰이 유효하면 스킵, 아니면 갱신
-    if (isTokenValid()) {
+    // 기본 모드: 남은 시간이 임계값 이상이면 스킵, 아니면 갱신
+    const outcome = await ensureFreshToken(adminAuth, {
+      owner: "auto-refresh-token",
+      refresh: autoRefreshToken,
+    });
+    if (outcome.status === "fresh") {
       console.log("✅ 토큰이 아직 유효합니다.");
       const { hours, minutes } = getTokenRemaining();
       console.log(`   남은 시간: ${hours}시간 ${minutes}분`);
     } else {
-      console.log("⚠️ 토큰이 만료되었거나 곧 만료됩니다.");
-      await autoRefreshToken();
+      console.log(formatRefreshOutcome(outcome));
     }
   }
 }
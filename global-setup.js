@@ -7,10 +7,23 @@
  * 인증 정책 또는 refresh token 만료 시 재로그인이 필요할 수 있습니다.
  */
 
-const { isTokenValid, autoRefreshToken, hasSession, getTokenRemaining, setupGoogleSession } = require('./auto-refresh-token');
+const { autoRefreshToken, hasSession, setupGoogleSession } = require('./auto-refresh-token');
+const { AuthStore } = require('./scripts/auth-store');
+const {
+  createRefreshGrantRefresher,
+  ensureFreshToken,
+  formatRefreshOutcome,
+} = require('./scripts/refresh-coordinator');
+const {
+  collectAuthHealth,
+  isProjectRunnable,
+  writeAuthHealthReport,
+} = require('./scripts/auth-health');
 const fs = require('fs');
 const path = require('path');
 
+const ADMIN_ORIGIN = new URL(process.env.ADMIN_BASE_URL || 'https://stage-new-admin.makeuni2026.com').origin;
+
 // ANSI 색상 코드
 const colors = {
   red: '\x1b[31m',
@@ -45,34 +58,86 @@ function printInfo(message) {
   console.log(`${colors.cyan}ℹ️  ${message}${colors.reset}`);
 }
 
-async function globalSetup() {
+/**
+ * 토큰 갱신: refresh grant(브라우저 없음) → 저장된 세션으로 브라우저 갱신 순
+ */
+async function refreshAdminToken(adminAuth) {
+  try {
+    await createRefreshGrantRefresher(adminAuth, { appOrigin: ADMIN_ORIGIN })();
+    printSuccess('refresh grant로 토큰 재발급 완료');
+    return true;
+  } catch (e) {
+    printWarning(`refresh grant 실패 (${e.message}) — 브라우저 갱신으로 전환`);
+  }
+  if (!hasSession()) return false;
+  printInfo('자동 갱신을 시도합니다... (최대 1~2분 소요)');
+  return autoRefreshToken();
+}
+
+/**
+ * 인증 상태 리포트(.auth-health.json, scripts/auth-health.js)를 남기고
+ * 이번 설정의 project 중 인증이 불충분한 project를 알린다.
+ * project는 그대로 실행한다 — AUTH_HEALTH_GATE=true면 인증이 필요한 spec만
+ * tests/helpers/auth-gate.ts가 이 리포트를 읽어 사유와 함께 skip한다.
+ */
+async function reportAuthHealth(config) {
+  const report = await collectAuthHealth();
+  const reportPath = path.relative(process.cwd(), writeAuthHealthReport(report));
+  // testMatch가 빈 project(opt-in 안 된 cmr-har / cmr-payment-stg)는 이번 실행에 없다
+  const blocked = (config?.projects || [])
+    .filter((project) => !Array.isArray(project.testMatch) || project.testMatch.length > 0)
+    .map((project) => project.name)
+    .filter((name) => !isProjectRunnable(report, name));
+  if (blocked.length === 0) {
+    printInfo(`인증 상태 리포트: ${reportPath}`);
+    return;
+  }
+  printWarning(`인증 불충분 project: ${blocked.join(', ')} (상세: ${reportPath})`);
+  for (const product of report.products) {
+    if (product.environment !== report.environment || product.usable) continue;
+    printWarning(`  ${product.product}: ${product.problems.join(' / ')}`);
+  }
+  if (process.env.AUTH_HEALTH_GATE !== 'true') {
+    printInfo('경고만 하고 그대로 실행합니다 (인증 필요 테스트 skip: AUTH_HEALTH_GATE=true)');
+  }
+}
+
+async function globalSetup(config) {
   printHeader('🔧 Playwright Global Setup - 토큰 검증', colors.blue);
   
-  // 1. 토큰 유효성 확인
-  if (isTokenValid()) {
-    const { hours, minutes } = getTokenRemaining();
+  // Admin API stand-in(ADMIN_STAND_IN=true)은 인증 없이 응답하므로 토큰 검증 / 로그인 유도를 건너뛴다
+  if (process.env.ADMIN_STAND_IN === 'true') {
+    printInfo(`Admin API stand-in(${ADMIN_ORIGIN}) 실행 — 토큰 검증 생략`);
+    console.log('');
+    return;
+  }
+
+  // 1. 토큰 확인 + 선제 갱신 (admin-tokens.json / storageState refresh_token)
+  //    남은 시간이 AUTH_REFRESH_THRESHOLD_MIN(기본 30분) 미만이면 lock을 잡고 갱신한다.
+  //    다른 프로세스가 갱신 중이면 끝날 때까지 기다렸다가 새 토큰을 쓴다.
+  const adminAuth = new AuthStore('admin');
+  printInfo(`인증 파일: ${path.relative(process.cwd(), adminAuth.storageStatePath)} (${adminAuth.environment})`);
+  const outcome = await ensureFreshToken(adminAuth, {
+    owner: 'global-setup',
+    refresh: () => refreshAdminToken(adminAuth),
+  });
+
+  if (outcome.valid) {
+    const { hours, minutes } = adminAuth.getRemaining();
+    if (outcome.status === 'failed' || outcome.status === 'skipped') {
+      printWarning(`선제 갱신 실패 — 기존 토큰으로 진행합니다 (${formatRefreshOutcome(outcome)})`);
+    } else if (outcome.status !== 'fresh') {
+      printSuccess(formatRefreshOutcome(outcome));
+    }
     printSuccess(`토큰 유효 (남은 시간: ${hours}시간 ${minutes}분)`);
+    await reportAuthHealth(config);
     console.log('');
     return; // 테스트 계속 진행
   }
-  
-  // 2. 토큰 만료 - 자동 갱신 시도
-  printWarning('토큰이 만료되었습니다!');
-  printInfo('자동 갱신을 시도합니다... (최대 1~2분 소요)');
+  printWarning(formatRefreshOutcome(outcome));
   console.log('');
   
-  // 3. 세션이 있으면 먼저 자동 갱신 시도
-  if (hasSession()) {
-    const success = await autoRefreshToken();
-    
-    if (success) {
-      printSuccess('토큰 자동 갱신 완료!');
-      console.log('');
-      return; // 테스트 계속 진행
-    }
-  }
-  
-  // 4. 자동 갱신 실패 또는 세션 없음 - 브라우저 열어서 로그인 유도
+  // 2. 자동 갱신 실패 또는 세션 없음 - 브라우저 열어서 로그인 유도
   printHeader('🔐 Google 로그인 필요', colors.yellow);
   console.log(`${colors.yellow}${colors.bold}브라우저가 열립니다. Google 계정으로 로그인해주세요!${colors.reset}`);
   console.log('💡 저장된 refresh token이 없거나 만료되어 재로그인이 필요합니다.\n');
@@ -83,11 +148,12 @@ async function globalSetup() {
   
   if (loginSuccess) {
     printSuccess('Google 로그인 완료! 테스트를 시작합니다.');
+    await reportAuthHealth(config);
     console.log('');
     return; // 테스트 계속 진행
   }
   
-  // 5. 로그인도 실패한 경우
+  // 3. 로그인도 실패한 경우
   printHeader('❌ 로그인 실패', colors.red);
   console.log('Google 로그인이 완료되지 않았습니다.\n');
   console.log('다시 시도하려면 테스트를 재실행하거나,');
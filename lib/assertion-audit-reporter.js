@@ -0,0 +1,208 @@
+// @ts-check
+/**
+ * Assertion Audit Reporter — 실제로 실행된 assertion 수로 "suspicious green"(의심스러운 통과)을 찾는다
+ *
+ * 정적 검사(scripts/check-false-green.js)가 보지 못하는 실행 경로를 본다.
+ *  - 실행된 expect 수: category "expect" step (POM / helper 안에서 호출된 것 포함). expect.poll 재시도는 1회
+ *  - hard / soft 구분: tests/fixtures/assertion-audit.ts가 step의 soft 메타데이터로 센 `assertion-counts`
+ *    annotation. Reporter API의 step에는 soft 여부가 없으므로(제목은 메시지로 바뀔 수 있음) fixture를 쓰지
+ *    않은 테스트는 hardExpects / softExpects를 null(미분류)로 남기고 전체 expect 수만 센다.
+ *  - runOptionalStep 실패 수: tests/helpers/optional-step.ts가 남기는 `optional-step-failed` annotation
+ *
+ * 재시도가 끝난 최종 결과가 통과(passed)인데 실행된 expect가 0개이거나 선택 단계 에러를 삼킨 테스트는
+ * `suspicious-green` annotation을 붙여 HTML report / results.json에 표시하고,
+ * test-results/assertion-audit.json에 테스트별 집계를 남긴다. 결과(passed)를 바꾸지는 않는다.
+ *
+ * 환경변수:
+ *   ASSERTION_AUDIT_FILE — 결과 파일 경로 (기본: test-results/assertion-audit.json)
+ *   GITHUB_RUN_ID / GITHUB_RUN_ATTEMPT — 파일에 run 식별자로 기록
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+const REPORT_VERSION = 1;
+const DEFAULT_OUTPUT_FILE = path.join("test-results", "assertion-audit.json");
+const OPTIONAL_STEP_FAILED_ANNOTATION = "optional-step-failed";
+const SUSPICIOUS_GREEN_ANNOTATION = "suspicious-green";
+const ASSERTION_COUNTS_ANNOTATION = "assertion-counts";
+
+/** @typedef {"no-assertions" | "optional-step-failed"} SuspiciousReason */
+
+/**
+ * @typedef {object} AuditedResult
+ * @property {string} title
+ * @property {string | null} file
+ * @property {number | null} line
+ * @property {string | null} project
+ * @property {string} status
+ * @property {number} expects
+ * @property {number | null} hardExpects - assertion-audit fixture 미사용이면 null
+ * @property {number | null} softExpects - assertion-audit fixture 미사용이면 null
+ * @property {number} optionalStepFailures
+ * @property {string[]} optionalStepErrors - annotation description (`label: 메시지`)
+ * @property {boolean} suspicious
+ * @property {SuspiciousReason[]} reasons
+ */
+
+/** @param {{ category?: string, parent?: any }} step */
+function isNestedInExpect(step) {
+  for (let parent = step.parent; parent; parent = parent.parent) {
+    if (parent.category === "expect") return true;
+  }
+  return false;
+}
+
+/**
+ * assertion-audit fixture가 남긴 hard / soft 집계. 없거나 깨졌으면 null
+ * @param {{ type: string, description?: string }[]} annotations
+ * @returns {{ hard: number, soft: number } | null}
+ */
+function readAssertionCounts(annotations) {
+  const annotation = annotations.find(
+    (item) => item.type === ASSERTION_COUNTS_ANNOTATION,
+  );
+  if (!annotation?.description) return null;
+  try {
+    const { hard, soft } = JSON.parse(annotation.description);
+    return Number.isInteger(hard) && Number.isInteger(soft)
+      ? { hard, soft }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+class AssertionAuditReporter {
+  /** @param {{ outputFile?: string }} [options] */
+  constructor(options = {}) {
+    this.outputFile =
+      options.outputFile ||
+      process.env.ASSERTION_AUDIT_FILE ||
+      DEFAULT_OUTPUT_FILE;
+    /** @type {Map<object, number>} 진행 중인 result → 실행된 expect 수 */
+    this.counts = new Map();
+    /** @type {Map<string, AuditedResult>} test.id → 마지막 결과 */
+    this.results = new Map();
+  }
+
+  onStepEnd(test, result, step) {
+    if (step.category !== "expect" || isNestedInExpect(step)) return;
+    this.counts.set(result, (this.counts.get(result) ?? 0) + 1);
+  }
+
+  onTestEnd(test, result) {
+    const stepCount = this.counts.get(result) ?? 0;
+    this.counts.delete(result);
+    // 재시도 예정인 실패는 마지막 시도에서 판정
+    if (
+      (result.status === "failed" || result.status === "timedOut") &&
+      result.retry < test.retries
+    ) {
+      return;
+    }
+
+    const annotations = result.annotations ?? test.annotations ?? [];
+    const classified = readAssertionCounts(annotations);
+    const expects = classified ? classified.hard + classified.soft : stepCount;
+    const optionalStepErrors = annotations
+      .filter(
+        (annotation) => annotation.type === OPTIONAL_STEP_FAILED_ANNOTATION,
+      )
+      .map((annotation) => annotation.description || "unnamed");
+    /** @type {SuspiciousReason[]} */
+    const reasons = [];
+    if (result.status === "passed") {
+      if (expects === 0) reasons.push("no-assertions");
+      if (optionalStepErrors.length > 0) reasons.push("optional-step-failed");
+    }
+
+    if (reasons.length > 0) {
+      const annotation = {
+        type: SUSPICIOUS_GREEN_ANNOTATION,
+        description: [
+          reasons.includes("no-assertions") ? "실행된 assertion 0개" : null,
+          optionalStepErrors.length > 0
+            ? `선택 단계 실패 ${optionalStepErrors.length}건 (${optionalStepErrors.join("; ")})`
+            : null,
+        ]
+          .filter(Boolean)
+          .join(", "),
+      };
+      // onEnd에서 직렬화하는 HTML / JSON reporter가 같은 객체를 읽는다
+      result.annotations?.push(annotation);
+      test.annotations?.push(annotation);
+    }
+
+    const titlePath = test.titlePath().filter(Boolean);
+    this.results.set(test.id, {
+      // 첫 번째는 project / 파일 경로이므로 제외 (lib/live-reporter.js와 같은 제목)
+      title: titlePath.length > 1 ? titlePath.slice(1).join(" > ") : test.title,
+      file: test.location?.file
+        ? path.relative(process.cwd(), test.location.file)
+        : null,
+      line: test.location?.line ?? null,
+      project: test.parent?.project()?.name || null,
+      status: result.status,
+      expects,
+      hardExpects: classified?.hard ?? null,
+      softExpects: classified?.soft ?? null,
+      optionalStepFailures: optionalStepErrors.length,
+      optionalStepErrors,
+      suspicious: reasons.length > 0,
+      reasons,
+    });
+  }
+
+  onEnd() {
+    const report = this.buildReport();
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(this.outputFile, JSON.stringify(report, null, 2) + "\n");
+
+    const { summary } = report;
+    if (summary.suspicious === 0) return;
+    console.log(
+      `\n[assertion-audit] suspicious green ${summary.suspicious}/${summary.passed} — assertion 0개 ${summary.noAssertions}, 선택 단계 에러 삼킴 ${summary.swallowedOptionalSteps} (${this.outputFile})`,
+    );
+  }
+
+  buildReport() {
+    const results = [...this.results.values()].sort(
+      (a, b) =>
+        Number(b.suspicious) - Number(a.suspicious) ||
+        a.title.localeCompare(b.title),
+    );
+    const passed = results.filter((item) => item.status === "passed");
+    return {
+      version: REPORT_VERSION,
+      generatedAt: new Date().toISOString(),
+      runId: process.env.GITHUB_RUN_ID
+        ? `${process.env.GITHUB_RUN_ID}-${process.env.GITHUB_RUN_ATTEMPT || "1"}`
+        : null,
+      summary: {
+        tests: results.length,
+        passed: passed.length,
+        suspicious: passed.filter((item) => item.suspicious).length,
+        noAssertions: passed.filter((item) =>
+          item.reasons.includes("no-assertions"),
+        ).length,
+        swallowedOptionalSteps: passed.filter((item) =>
+          item.reasons.includes("optional-step-failed"),
+        ).length,
+        expects: results.reduce((sum, item) => sum + item.expects, 0),
+        softExpects: results.reduce(
+          (sum, item) => sum + (item.softExpects ?? 0),
+          0,
+        ),
+        // fixture 없이 실행돼 hard / soft를 구분하지 못한 expect 수
+        unclassifiedExpects: results.reduce(
+          (sum, item) => sum + (item.softExpects === null ? item.expects : 0),
+          0,
+        ),
+      },
+      results,
+    };
+  }
+}
+
+module.exports = AssertionAuditReporter;
@@ -0,0 +1,126 @@
+// @ts-check
+/**
+ * Failure Class Reporter — 실패 / skip을 분류(lib/failure-classifier.js)해 run별 집계를 남긴다
+ *
+ * 재시도가 끝난 최종 결과만 분류하고 (재시도로 통과한 테스트는 제외),
+ * 종료 시 분류별 개수를 콘솔에 출력하고 test-results/failure-classes.json에 기록한다.
+ * CI 요약(GITHUB_STEP_SUMMARY)의 "실패 분류" 표가 이 파일을 읽는다.
+ *
+ * 환경변수:
+ *   FAILURE_CLASSES_FILE — 결과 파일 경로 (기본: test-results/failure-classes.json)
+ *   GITHUB_RUN_ID / GITHUB_RUN_ATTEMPT — 파일에 run 식별자로 기록
+ *
+ * spec에서 분류를 직접 지정하려면 tests/helpers/failure-class.ts의 markFailureClass / skipDataUnavailable.
+ */
+
+const fs = require("fs");
+const path = require("path");
+const { classifyResult, countByCategory } = require("./failure-classifier");
+
+const REPORT_VERSION = 1;
+const DEFAULT_OUTPUT_FILE = path.join("test-results", "failure-classes.json");
+
+/**
+ * @typedef {object} ClassifiedResult
+ * @property {string} title
+ * @property {string | null} file
+ * @property {number | null} line
+ * @property {string | null} project
+ * @property {"failed" | "skipped"} status
+ * @property {import("./failure-classifier").FailureCategory} category
+ * @property {import("./failure-classifier").FailureClassification["source"]} source
+ * @property {string} reason
+ * @property {string | null} errorMessage
+ */
+
+class FailureClassReporter {
+  /** @param {{ outputFile?: string }} [options] */
+  constructor(options = {}) {
+    this.outputFile =
+      options.outputFile ||
+      process.env.FAILURE_CLASSES_FILE ||
+      DEFAULT_OUTPUT_FILE;
+    /** @type {Map<string, ClassifiedResult>} test.id → 마지막 결과 */
+    this.results = new Map();
+  }
+
+  onTestEnd(test, result) {
+    // 재시도 예정인 실패는 마지막 시도에서 판정
+    if (
+      (result.status === "failed" || result.status === "timedOut") &&
+      result.retry < test.retries
+    ) {
+      return;
+    }
+    const errors = result.errors?.length
+      ? result.errors
+      : result.error
+        ? [result.error]
+        : [];
+    const classification = classifyResult({
+      status: result.status,
+      annotations: [...(test.annotations ?? []), ...(result.annotations ?? [])],
+      errors,
+    });
+    if (!classification) {
+      this.results.delete(test.id);
+      return;
+    }
+
+    const titlePath = test.titlePath().filter(Boolean);
+    this.results.set(test.id, {
+      // 첫 번째는 project / 파일 경로이므로 제외 (lib/live-reporter.js와 같은 제목)
+      title: titlePath.length > 1 ? titlePath.slice(1).join(" > ") : test.title,
+      file: test.location?.file
+        ? path.relative(process.cwd(), test.location.file)
+        : null,
+      line: test.location?.line ?? null,
+      project: test.parent?.project()?.name || null,
+      status: result.status === "skipped" ? "skipped" : "failed",
+      ...classification,
+      errorMessage: errors[0]?.message?.split("\n")[0].slice(0, 500) || null,
+    });
+  }
+
+  onEnd() {
+    const report = this.buildReport();
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(this.outputFile, JSON.stringify(report, null, 2) + "\n");
+
+    const { summary } = report;
+    if (summary.failed + summary.skipped === 0) return;
+    const counts = Object.entries(summary.byCategory)
+      .filter(([, count]) => count > 0)
+      .map(([category, count]) => `${category} ${count}`)
+      .join(", ");
+    console.log(
+      `\n[failure-class] 실패 ${summary.failed} · skip ${summary.skipped} — ${counts} (${this.outputFile})`,
+    );
+  }
+
+  buildReport() {
+    const results = [...this.results.values()].sort(
+      (a, b) =>
+        a.category.localeCompare(b.category) || a.title.localeCompare(b.title),
+    );
+    const failed = results.filter((item) => item.status === "failed");
+    const skipped = results.filter((item) => item.status === "skipped");
+    return {
+      version: REPORT_VERSION,
+      generatedAt: new Date().toISOString(),
+      runId: process.env.GITHUB_RUN_ID
+        ? `${process.env.GITHUB_RUN_ID}-${process.env.GITHUB_RUN_ATTEMPT || "1"}`
+        : null,
+      summary: {
+        failed: failed.length,
+        skipped: skipped.length,
+        byCategory: countByCategory(results),
+        failedByCategory: countByCategory(failed),
+        skippedByCategory: countByCategory(skipped),
+      },
+      results,
+    };
+  }
+}
+
+module.exports = FailureClassReporter;
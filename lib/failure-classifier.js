@@ -0,0 +1,217 @@
+// @ts-check
+/**
+ * 실패 / skip 분류 — 트리아지를 어느 버킷부터 볼지 정하기 위한 규칙
+ *
+ * 분류 (FAILURE_CATEGORIES):
+ *   app-defect            — 앱 동작이 기대와 다름 (assertion 실패 등, 다른 규칙에 안 걸린 실패의 기본값)
+ *   test-data-unavailable — 조건에 맞는 테스트 데이터 / seed가 없음 (docs/cmr-test-products.md의 data-unavailable)
+ *   auth-expired          — 인증 파일 / 세션 만료, 로그인 페이지로 튕김, 401 / 403
+ *   environment           — 네트워크 / 서버 5xx / 브라우저 종료 / 타임아웃 등 실행 환경 문제
+ *   selector-drift        — locator가 요소를 못 찾거나 여러 개를 찾음 (DOM 변경 의심)
+ *   unclassified          — 이유를 알 수 없는 skip
+ *
+ * 판정 순서:
+ *   1. annotation — `{ type: "failure-class", description: "<분류>[: 사유]" }` 또는
+ *      분류 이름 / ANNOTATION_ALIASES의 type (tests/helpers/failure-class.ts)
+ *   2. skip은 skip annotation 사유, 실패는 에러 메시지를 ERROR_RULES 순서대로 매칭
+ *   3. 매칭이 없으면 실패는 app-defect, skip은 unclassified
+ */
+
+const FAILURE_CLASS_ANNOTATION = "failure-class";
+
+const FAILURE_CATEGORIES = [
+  "app-defect",
+  "test-data-unavailable",
+  "auth-expired",
+  "environment",
+  "selector-drift",
+  "unclassified",
+];
+
+/** @typedef {"app-defect" | "test-data-unavailable" | "auth-expired" | "environment" | "selector-drift" | "unclassified"} FailureCategory */
+
+/**
+ * @typedef {object} FailureClassification
+ * @property {FailureCategory} category
+ * @property {"annotation" | "error" | "skip-reason" | "default"} source
+ * @property {string} reason - 판정 근거 (annotation 설명 / 매칭된 규칙)
+ */
+
+/** 기존 spec의 annotation type → 분류 */
+const ANNOTATION_ALIASES = {
+  "data-unavailable": "test-data-unavailable",
+  "STG seed required": "test-data-unavailable",
+};
+
+/**
+ * 에러 메시지 / skip 사유 규칙 (위에서부터 먼저 매칭된 것).
+ * 네트워크 / 인증처럼 원인이 분명한 신호를 locator 실패보다 먼저 본다.
+ * @type {Array<{ category: FailureCategory, name: string, pattern: RegExp }>}
+ */
+const ERROR_RULES = [
+  {
+    category: "environment",
+    name: "network",
+    pattern:
+      /net::ERR_|ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up|fetch failed/i,
+  },
+  {
+    category: "environment",
+    name: "server-5xx",
+    pattern:
+      /\b(?:status|HTTP)\s*:?\s*5\d\d\b|\b50[234] (?:Bad Gateway|Service Unavailable|Gateway Time-?out)|Bad Gateway|Service Unavailable/i,
+  },
+  {
+    category: "environment",
+    name: "browser-closed",
+    pattern:
+      /Target page, context or browser has been closed|Browser has been closed|browser has disconnected/i,
+  },
+  {
+    category: "auth-expired",
+    name: "auth",
+    pattern:
+      /\b(?:status|HTTP)\s*:?\s*40[13]\b|Unauthori[sz]ed|token (?:has )?expired|session (?:has )?expired|인증|세션.*만료|토큰.*만료|로그인 (?:필요|페이지|화면)|로그인.*튕|auth(?:entication)? (?:file|state|expired|required)|storageState|accounts\.google\.com|\/login\b/i,
+  },
+  {
+    category: "test-data-unavailable",
+    name: "data",
+    pattern:
+      /data-unavailable|test data|seed (?:required|data|필요)|데이터(?:가|는)? 없|상품(?:이|을)? (?:찾지 못|없)|fixture .*갱신|후보.*없/i,
+  },
+  {
+    category: "selector-drift",
+    name: "locator",
+    pattern:
+      /strict mode violation|resolved to \d+ elements|element\(s\) not found|Element is not attached|waiting for (?:getBy|locator\()|locator\.[a-zA-Z]+: Timeout/i,
+  },
+  {
+    category: "environment",
+    name: "navigation-timeout",
+    pattern:
+      /page\.goto: Timeout|Navigation timeout|waitForLoadState: Timeout|Test timeout of \d+ms exceeded/i,
+  },
+];
+
+/** @param {string} value @returns {FailureCategory | null} */
+function toCategory(value) {
+  const name = value.trim();
+  if (FAILURE_CATEGORIES.includes(name)) {
+    return /** @type {FailureCategory} */ (name);
+  }
+  return ANNOTATION_ALIASES[name] ?? null;
+}
+
+/**
+ * @param {Array<{ type: string, description?: string }>} annotations
+ * @returns {FailureClassification | null}
+ */
+function classifyByAnnotation(annotations) {
+  for (const annotation of annotations) {
+    if (annotation.type === FAILURE_CLASS_ANNOTATION) {
+      const [name, ...rest] = String(annotation.description ?? "").split(":");
+      const category = toCategory(name);
+      if (category) {
+        return {
+          category,
+          source: "annotation",
+          reason: rest.join(":").trim() || category,
+        };
+      }
+      continue;
+    }
+    const category = toCategory(annotation.type);
+    if (category) {
+      return {
+        category,
+        source: "annotation",
+        reason: annotation.description || annotation.type,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * @param {string} text
+ * @returns {{ category: FailureCategory, name: string } | null}
+ */
+function matchErrorRule(text) {
+  for (const rule of ERROR_RULES) {
+    if (rule.pattern.test(text)) {
+      return { category: rule.category, name: rule.name };
+    }
+  }
+  return null;
+}
+
+/**
+ * 최종 결과 하나를 분류한다. 통과(passed)는 분류하지 않는다.
+ * @param {object} input
+ * @param {string} input.status - Playwright TestResult status
+ * @param {Array<{ type: string, description?: string }>} [input.annotations]
+ * @param {Array<{ message?: string, value?: string }>} [input.errors]
+ * @returns {FailureClassification | null}
+ */
+function classifyResult({ status, annotations = [], errors = [] }) {
+  if (status === "passed") return null;
+
+  const byAnnotation = classifyByAnnotation(annotations);
+  if (byAnnotation) return byAnnotation;
+
+  if (status === "skipped") {
+    const reason = annotations
+      .filter((annotation) => annotation.type === "skip")
+      .map((annotation) => annotation.description ?? "")
+      .join(" ")
+      .trim();
+    const rule = reason ? matchErrorRule(reason) : null;
+    return rule
+      ? { category: rule.category, source: "skip-reason", reason }
+      : {
+          category: "unclassified",
+          source: "default",
+          reason: reason || "skip 사유 없음",
+        };
+  }
+  if (status === "interrupted") {
+    return {
+      category: "environment",
+      source: "default",
+      reason: "interrupted",
+    };
+  }
+
+  const message = errors
+    .map((error) => error.message ?? error.value ?? "")
+    .join("\n");
+  const rule = matchErrorRule(message);
+  if (rule) {
+    return { category: rule.category, source: "error", reason: rule.name };
+  }
+  return {
+    category: "app-defect",
+    source: "default",
+    reason: message ? "assertion" : "에러 메시지 없음",
+  };
+}
+
+/**
+ * @param {Array<{ category: FailureCategory }>} items
+ * @returns {Record<FailureCategory, number>}
+ */
+function countByCategory(items) {
+  const counts = /** @type {Record<FailureCategory, number>} */ (
+    Object.fromEntries(FAILURE_CATEGORIES.map((category) => [category, 0]))
+  );
+  for (const item of items) counts[item.category]++;
+  return counts;
+}
+
+module.exports = {
+  ERROR_RULES,
+  FAILURE_CATEGORIES,
+  FAILURE_CLASS_ANNOTATION,
+  classifyResult,
+  countByCategory,
+};
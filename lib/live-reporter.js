@@ -1,15 +1,30 @@
 // @ts-check
 /**
- * Live Reporter — 테스트 실행 중 개별 결과를 대시보드 API로 실시간 전송
+ * Live Reporter — 테스트 실행 중 개별 결과를 sink(대시보드 / JSONL / JUnit / webhook)로 실시간 전달
  *
  * 환경변수:
+ *   LIVE_REPORTER_SINKS   — 사용할 sink 목록 (쉼표 구분, 기본: dashboard). 종류와 sink별 설정은 lib/live-sinks.js
  *   DASHBOARD_URL         — 대시보드 URL (예: https://makestar-qa-dashboard.vercel.app)
  *   DASHBOARD_API_SECRET  — API 인증 토큰
  *   GITHUB_RUN_ID         — GitHub Actions run ID (자동 제공)
+ *   GITHUB_RUN_ATTEMPT    — 재실행 차수 (idempotency key에 포함, 자동 제공)
+ *   LIVE_RESULTS_SPOOL=false — spool 기록 비활성화
+ *   LIVE_RESULTS_FLUSH_TIMEOUT_MS — 종료 시 남은 전송을 기다리는 최대 시간 (기본 30초)
  *
- * 위 환경변수가 하나라도 없으면 무동작 (로컬 실행 안전)
+ * dashboard sink는 위 환경변수가 하나라도 없으면 전송하지 않음 (로컬 실행 안전)
+ *
+ * GITHUB_RUN_ID가 있으면 모든 payload를 spool(test-results/live-results-spool.jsonl)에 남기고
+ * backoff 재시도로 순서대로 전송한다. 끝내 못 보낸 payload는
+ * `node scripts/replay-live-results.js`로 나중에 다시 보낼 수 있다 (lib/live-results-spool.js).
+ *
+ * playwright config에서 sink를 직접 지정할 수도 있다:
+ *   ["./lib/live-reporter.js", { sinks: ["dashboard", "junit"] }]
  */
 
+const { createSinks } = require("./live-sinks");
+
+const DEFAULT_FLUSH_TIMEOUT_MS = 30000;
+
 function parseList(value, separator) {
   if (!value) return [];
   return value
@@ -19,70 +34,70 @@ function parseList(value, separator) {
 }
 
 class LiveReporter {
-  constructor() {
-    this.dashboardUrl = process.env.DASHBOARD_URL || "";
-    this.apiSecret = process.env.DASHBOARD_API_SECRET || "";
-    this.runId = process.env.GITHUB_RUN_ID || "";
-    this.suite = process.env.SUITE_INPUT || process.env.RUN_SUITE || "cmr";
-    this.requestedSuite = process.env.RUN_REQUESTED_SUITE || this.suite;
-    this.effectiveTargets = parseList(
-      process.env.RUN_EFFECTIVE_TARGETS || "",
-      ",",
-    );
-    this.skipReasons = parseList(process.env.RUN_SKIP_REASONS || "", "||");
-    this.branch = process.env.GITHUB_REF_NAME || "";
-    this.commitSha = process.env.GITHUB_SHA || "";
-    this.triggeredBy = process.env.GITHUB_EVENT_NAME || "manual";
-    this.environment = process.env.ENVIRONMENT_INPUT || "prod";
-
-    this.enabled =
-      Boolean(this.dashboardUrl) &&
-      Boolean(this.apiSecret) &&
-      Boolean(this.runId);
+  /** @param {{ sinks?: string[] }} [options] */
+  constructor(options = {}) {
+    /** @type {import("./live-sinks").RunMeta} */
+    this.meta = {
+      runId: process.env.GITHUB_RUN_ID || "",
+      runAttempt: process.env.GITHUB_RUN_ATTEMPT || "1",
+      suite: process.env.SUITE_INPUT || process.env.RUN_SUITE || "cmr",
+      requestedSuite: "",
+      effectiveTargets: parseList(process.env.RUN_EFFECTIVE_TARGETS || "", ","),
+      skipReasons: parseList(process.env.RUN_SKIP_REASONS || "", "||"),
+      branch: process.env.GITHUB_REF_NAME || "",
+      commitSha: process.env.GITHUB_SHA || "",
+      triggeredBy: process.env.GITHUB_EVENT_NAME || "manual",
+      environment: process.env.ENVIRONMENT_INPUT || "prod",
+    };
+    this.meta.requestedSuite =
+      process.env.RUN_REQUESTED_SUITE || this.meta.suite;
+
+    this.sinks = createSinks(process.env, this.meta, options.sinks);
+    this.flushTimeoutMs =
+      Number(process.env.LIVE_RESULTS_FLUSH_TIMEOUT_MS) ||
+      DEFAULT_FLUSH_TIMEOUT_MS;
 
     this.completed = 0;
     this.totalTests = 0;
   }
 
-  /** Fire-and-forget POST — 절대 테스트 실행을 블로킹하지 않음 */
-  _post(payload) {
-    if (!this.enabled) return;
-
-    const url = `${this.dashboardUrl}/api/live-results`;
-    const body = JSON.stringify({ runId: Number(this.runId), ...payload });
-
-    fetch(url, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${this.apiSecret}`,
-        "Content-Type": "application/json",
-      },
-      body,
-      signal: AbortSignal.timeout(10000),
-    }).catch(() => {
-      // 실패해도 무시 — 테스트 실행에 영향 없음
-    });
+  /** 모든 sink에 전달 — sink 오류는 경고만 남기고 절대 테스트 실행을 막지 않음 */
+  _emit(payload, id) {
+    for (const sink of this.sinks) {
+      try {
+        sink.onEvent(payload, id);
+      } catch (error) {
+        console.warn(
+          `[live-reporter] ${sink.name} sink 오류 (${payload.event}): ${error.message}`,
+        );
+      }
+    }
   }
 
   onBegin(_config, suite) {
     this.totalTests = suite.allTests().length;
-    this._post({
+    this._emit({
       event: "begin",
-      suite: this.suite,
+      suite: this.meta.suite,
       total: this.totalTests,
-      branch: this.branch,
-      commitSha: this.commitSha,
-      triggeredBy: this.triggeredBy,
-      environment: this.environment,
-      requestedSuite: this.requestedSuite,
-      effectiveTargets: this.effectiveTargets,
-      skipReasons: this.skipReasons,
+      branch: this.meta.branch,
+      commitSha: this.meta.commitSha,
+      triggeredBy: this.meta.triggeredBy,
+      environment: this.meta.environment,
+      requestedSuite: this.meta.requestedSuite,
+      effectiveTargets: this.meta.effectiveTargets,
+      skipReasons: this.meta.skipReasons,
     });
   }
 
   onTestEnd(test, result) {
-    // 재시도 예정인 경우 (아직 마지막 시도가 아님) 스킵
-    if (result.status === "failed" && result.retry < test.retries) {
+    // 재시도 예정인 시도(failed / timedOut)는 보내지 않는다.
+    // test-end key에 retry가 없어 먼저 보낸 중간 결과가 최종 결과를 가리기 때문.
+    // interrupted는 실행 자체가 중단돼 재시도가 오지 않으므로 retry가 남아 있어도 최종 결과로 보낸다
+    if (
+      (result.status === "failed" || result.status === "timedOut") &&
+      result.retry < test.retries
+    ) {
       return;
     }
 
@@ -103,25 +118,49 @@ class LiveReporter {
     const title =
       titlePath.length > 1 ? titlePath.slice(1).join(" > ") : test.title;
 
-    this._post({
-      event: "test-end",
-      title,
-      file: test.location?.file || null,
-      project: test.parent?.project()?.name || null,
-      status,
-      durationMs: Math.round(result.duration),
-      errorMessage: result.error?.message?.slice(0, 2000) || null,
-      errorStack: result.error?.stack?.slice(0, 4000) || null,
-    });
+    this._emit(
+      {
+        event: "test-end",
+        title,
+        file: test.location?.file || null,
+        project: test.parent?.project()?.name || null,
+        status,
+        durationMs: Math.round(result.duration),
+        errorMessage: result.error?.message?.slice(0, 2000) || null,
+        errorStack: result.error?.stack?.slice(0, 4000) || null,
+      },
+      test.id,
+    );
   }
 
   async onEnd(result) {
     // 최종 상태 전송
     const status = result.status === "passed" ? "passed" : "failed";
-    this._post({ event: "end", status });
-
-    // 마지막 POST가 전송될 시간 확보
-    await new Promise((resolve) => setTimeout(resolve, 2000));
+    this._emit({ event: "end", status });
+
+    // 남은 전송(재시도 포함)을 flushTimeoutMs까지만 기다린다
+    let timer;
+    const flushed = await Promise.race([
+      Promise.all(
+        this.sinks.map((sink) =>
+          Promise.resolve(sink.flush?.()).catch((error) => {
+            console.warn(
+              `[live-reporter] ${sink.name} sink flush 실패: ${error.message}`,
+            );
+          }),
+        ),
+      ).then(() => true),
+      new Promise((resolve) => {
+        timer = setTimeout(() => resolve(false), this.flushTimeoutMs);
+      }),
+    ]);
+    clearTimeout(timer);
+
+    if (!flushed) {
+      console.warn(
+        `[live-reporter] ${this.flushTimeoutMs}ms 안에 sink 전송이 끝나지 않았습니다.`,
+      );
+    }
   }
 }
 
@@ -0,0 +1,291 @@
+// @ts-check
+/**
+ * Live results spool — 대시보드 `/api/live-results` 전송을 디스크에 남기고 재시도한다
+ *
+ * 모든 payload를 JSONL spool에 먼저 append하고, 전송에 성공하면 같은 key로 ack를 append한다.
+ * append-only라 프로세스가 중간에 죽어도 ack 없는 payload = 미전송으로 판단할 수 있고,
+ * `scripts/replay-live-results.js`가 그 payload만 순서대로 다시 보낸다.
+ * payload마다 idempotency key(`Idempotency-Key` 헤더 + body `idempotencyKey`)를 붙여
+ * 재전송돼도 대시보드가 중복 결과를 만들지 않게 한다.
+ *
+ * spool 줄 형식:
+ *   {"type":"payload","key":"...","at":"...","body":{...}}
+ *   {"type":"ack","key":"...","at":"...","status":200}
+ *
+ * 환경변수:
+ *   LIVE_RESULTS_SPOOL_FILE       — spool 경로 (기본: test-results/live-results-spool.jsonl, artifact로 함께 업로드)
+ *   LIVE_RESULTS_MAX_ATTEMPTS     — payload당 최대 전송 시도 (기본 4)
+ *   LIVE_RESULTS_RETRY_BASE_MS    — 재시도 backoff 시작값, 시도마다 2배 (기본 1000)
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+const DEFAULT_MAX_ATTEMPTS = 4;
+const DEFAULT_RETRY_BASE_MS = 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * @typedef {object} SpoolPayloadEntry
+ * @property {"payload"} type
+ * @property {string} key - idempotency key
+ * @property {string} at
+ * @property {Record<string, unknown>} body
+ */
+
+/**
+ * @typedef {object} SpoolAckEntry
+ * @property {"ack"} type
+ * @property {string} key
+ * @property {string} at
+ * @property {number} status
+ */
+
+/** @typedef {SpoolPayloadEntry | SpoolAckEntry} SpoolEntry */
+
+/**
+ * @typedef {object} RetryPostOptions
+ * @property {Record<string, string>} [headers]
+ * @property {number} [maxAttempts]
+ * @property {number} [retryBaseMs]
+ * @property {typeof fetch} [fetchImpl] - 테스트용 주입
+ * @property {(ms: number) => Promise<void>} [sleep] - 테스트용 주입
+ */
+
+/**
+ * @typedef {object} PostOptions
+ * @property {string} dashboardUrl
+ * @property {string} apiSecret
+ * @property {number} [maxAttempts]
+ * @property {number} [retryBaseMs]
+ * @property {typeof fetch} [fetchImpl] - 테스트용 주입
+ * @property {(ms: number) => Promise<void>} [sleep] - 테스트용 주입
+ */
+
+/**
+ * @typedef {object} PostResult
+ * @property {boolean} ok
+ * @property {number} status - 네트워크 오류면 0
+ * @property {number} attempts
+ * @property {string | null} error
+ */
+
+/** @param {NodeJS.ProcessEnv} [env] */
+function getSpoolPath(env = process.env) {
+  return path.resolve(
+    env.LIVE_RESULTS_SPOOL_FILE ||
+      path.join("test-results", "live-results-spool.jsonl"),
+  );
+}
+
+/** @param {NodeJS.ProcessEnv} [env] */
+function getRetryOptions(env = process.env) {
+  const maxAttempts = Number(env.LIVE_RESULTS_MAX_ATTEMPTS);
+  const retryBaseMs = Number(env.LIVE_RESULTS_RETRY_BASE_MS);
+  return {
+    maxAttempts: maxAttempts > 0 ? maxAttempts : DEFAULT_MAX_ATTEMPTS,
+    retryBaseMs:
+      env.LIVE_RESULTS_RETRY_BASE_MS && retryBaseMs >= 0
+        ? retryBaseMs
+        : DEFAULT_RETRY_BASE_MS,
+  };
+}
+
+/**
+ * 같은 GitHub run / attempt 안에서 이벤트마다 고정된 key.
+ * 재실행(run attempt)은 별도 결과이므로 attempt를 포함한다.
+ * @param {string} runId
+ * @param {string} runAttempt
+ * @param {string} event
+ * @param {string} [id] - test-end면 Playwright test.id
+ */
+function buildIdempotencyKey(runId, runAttempt, event, id) {
+  return [`${runId}-${runAttempt}`, event, id].filter(Boolean).join(":");
+}
+
+/**
+ * 마지막 줄이 쓰다 끊겨 개행이 없으면 새 줄에서 시작해 다음 entry까지 깨지지 않게 한다.
+ * @param {string} spoolPath
+ * @param {SpoolEntry} entry
+ */
+function appendSpoolEntry(spoolPath, entry) {
+  fs.mkdirSync(path.dirname(spoolPath), { recursive: true });
+  let prefix = "";
+  if (fs.existsSync(spoolPath)) {
+    const { size } = fs.statSync(spoolPath);
+    if (size > 0) {
+      const fd = fs.openSync(spoolPath, "r");
+      const last = Buffer.alloc(1);
+      fs.readSync(fd, last, 0, 1, size - 1);
+      fs.closeSync(fd);
+      if (last[0] !== 0x0a) prefix = "\n";
+    }
+  }
+  fs.appendFileSync(spoolPath, prefix + JSON.stringify(entry) + "\n");
+}
+
+/**
+ * spool 전체 (기록 순). 없는 파일은 빈 배열, 깨진 줄(쓰다 죽은 마지막 줄 등)은 건너뛴다.
+ * @param {string} spoolPath
+ * @returns {SpoolEntry[]}
+ */
+function readSpool(spoolPath) {
+  if (!fs.existsSync(spoolPath)) return [];
+  /** @type {SpoolEntry[]} */
+  const entries = [];
+  for (const line of fs.readFileSync(spoolPath, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line);
+      if (
+        (entry?.type === "payload" || entry?.type === "ack") &&
+        typeof entry.key === "string"
+      ) {
+        entries.push(entry);
+      }
+    } catch {
+      // 깨진 줄은 무시
+    }
+  }
+  return entries;
+}
+
+/**
+ * ack가 없는 payload (기록 순, key당 첫 payload만).
+ * @param {SpoolEntry[]} entries
+ * @returns {SpoolPayloadEntry[]}
+ */
+function getUnsentPayloads(entries) {
+  const acked = new Set(
+    entries.filter((entry) => entry.type === "ack").map((entry) => entry.key),
+  );
+  const seen = new Set();
+  /** @type {SpoolPayloadEntry[]} */
+  const unsent = [];
+  for (const entry of entries) {
+    if (entry.type !== "payload" || acked.has(entry.key) || seen.has(entry.key))
+      continue;
+    seen.add(entry.key);
+    unsent.push(entry);
+  }
+  return unsent;
+}
+
+/** @param {number} status */
+function isRetryableStatus(status) {
+  return status === 0 || status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * JSON POST. 2xx는 성공, 네트워크 오류 / 408 / 429 / 5xx만 backoff 후 재시도한다.
+ * @param {string} url
+ * @param {unknown} body
+ * @param {RetryPostOptions} [options]
+ * @returns {Promise<PostResult>}
+ */
+async function postJsonWithRetry(url, body, options = {}) {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const retryBaseMs = options.retryBaseMs ?? DEFAULT_RETRY_BASE_MS;
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const sleep =
+    options.sleep ??
+    ((/** @type {number} */ ms) =>
+      new Promise((resolve) => setTimeout(resolve, ms)));
+
+  let status = 0;
+  let error = null;
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      const response = await fetchImpl(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...options.headers },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      status = response.status;
+      error = response.ok ? null : `HTTP ${response.status}`;
+    } catch (e) {
+      status = 0;
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    if (status >= 200 && status < 300) {
+      return { ok: true, status, attempts: attempt, error: null };
+    }
+    if (!isRetryableStatus(status) || attempt === maxAttempts) {
+      return { ok: false, status, attempts: attempt, error };
+    }
+    await sleep(retryBaseMs * 2 ** (attempt - 1));
+  }
+  return { ok: false, status, attempts: maxAttempts, error };
+}
+
+/**
+ * `/api/live-results` 전송. 409(이미 같은 key로 기록됨)도 성공으로 본다.
+ * @param {string} key
+ * @param {Record<string, unknown>} body
+ * @param {PostOptions} options
+ * @returns {Promise<PostResult>}
+ */
+async function postLiveResult(key, body, options) {
+  const { dashboardUrl, apiSecret, ...retryOptions } = options;
+  const result = await postJsonWithRetry(
+    `${dashboardUrl}/api/live-results`,
+    { ...body, idempotencyKey: key },
+    {
+      ...retryOptions,
+      headers: {
+        Authorization: `Bearer ${apiSecret}`,
+        "Idempotency-Key": key,
+      },
+    },
+  );
+  return result.status === 409 ? { ...result, ok: true, error: null } : result;
+}
+
+/**
+ * 미전송 payload를 기록 순서대로 다시 보낸다. 대시보드는 begin → test-end → end 순서를
+ * 가정하므로 하나라도 끝내 실패하면 거기서 멈추고 나머지는 다음 replay로 남긴다.
+ * @param {string} spoolPath
+ * @param {PostOptions & { dryRun?: boolean }} options
+ */
+async function replaySpool(spoolPath, options) {
+  const unsent = getUnsentPayloads(readSpool(spoolPath));
+  let sent = 0;
+  /** @type {(PostResult & { key: string }) | null} */
+  let failure = null;
+  if (!options.dryRun) {
+    for (const entry of unsent) {
+      const result = await postLiveResult(entry.key, entry.body, options);
+      if (!result.ok) {
+        failure = { ...result, key: entry.key };
+        break;
+      }
+      appendSpoolEntry(spoolPath, {
+        type: "ack",
+        key: entry.key,
+        at: new Date().toISOString(),
+        status: result.status,
+      });
+      sent++;
+    }
+  }
+  return {
+    pending: unsent.length,
+    sent,
+    remaining: unsent.length - sent,
+    failure,
+  };
+}
+
+module.exports = {
+  appendSpoolEntry,
+  buildIdempotencyKey,
+  getRetryOptions,
+  getSpoolPath,
+  getUnsentPayloads,
+  postJsonWithRetry,
+  postLiveResult,
+  readSpool,
+  replaySpool,
+};
@@ -0,0 +1,445 @@
+// @ts-check
+/**
+ * Live reporter sinks — 실행 중 이벤트(begin / test-end / end)를 받는 출력 대상
+ *
+ * lib/live-reporter.js가 이벤트마다 payload를 만들고, 설정된 sink 모두에 같은 payload를 넘긴다.
+ * sink 하나가 실패해도 다른 sink와 테스트 실행에는 영향이 없다.
+ *
+ *   dashboard — 대시보드 `/api/live-results` 전송 + spool / 재시도 (lib/live-results-spool.js)
+ *   jsonl     — 로컬 JSONL 파일에 이벤트를 한 줄씩 기록
+ *   junit     — project별 JUnit XML (종료 시 기록)
+ *   webhook   — Slack 호환 webhook (`{ text, metadata }`) 전송
+ *
+ * 모든 sink는 실행 메타데이터(suite / requestedSuite / effectiveTargets / skipReasons 등)를 함께 남긴다.
+ *
+ * 환경변수:
+ *   LIVE_REPORTER_SINKS            — 사용할 sink 목록 (쉼표 구분, 기본: dashboard)
+ *   LIVE_RESULTS_JSONL_FILE        — jsonl 경로 (기본: test-results/live-results.jsonl)
+ *   LIVE_RESULTS_JUNIT_DIR         — junit 출력 디렉터리 (기본: test-results/junit, <project>.xml)
+ *   LIVE_RESULTS_WEBHOOK_URL       — webhook URL (Slack Incoming Webhook 또는 scripts/stand-ins/webhook-server.js)
+ *   LIVE_RESULTS_WEBHOOK_EVENTS    — webhook으로 보낼 이벤트 (기본: end, test-end는 실패한 테스트만)
+ */
+
+const fs = require("fs");
+const path = require("path");
+const {
+  appendSpoolEntry,
+  buildIdempotencyKey,
+  getRetryOptions,
+  getSpoolPath,
+  postJsonWithRetry,
+  postLiveResult,
+} = require("./live-results-spool");
+
+const SINK_NAMES = ["dashboard", "jsonl", "junit", "webhook"];
+const DEFAULT_SINKS = ["dashboard"];
+const WEBHOOK_FAILURE_LIMIT = 5;
+
+/**
+ * @typedef {object} RunMeta
+ * @property {string} runId
+ * @property {string} runAttempt
+ * @property {string} suite
+ * @property {string} requestedSuite
+ * @property {string[]} effectiveTargets
+ * @property {string[]} skipReasons
+ * @property {string} branch
+ * @property {string} commitSha
+ * @property {string} triggeredBy
+ * @property {string} environment
+ */
+
+/**
+ * live-reporter payload. event별 필드는 live-reporter.js 참고.
+ * @typedef {{ event: "begin" | "test-end" | "end" } & Record<string, any>} LiveEvent
+ */
+
+/**
+ * @typedef {object} LiveSink
+ * @property {string} name
+ * @property {(event: LiveEvent, id?: string) => void} onEvent - id: test-end면 Playwright test.id
+ * @property {() => Promise<void>} [flush] - 종료 시 남은 작업 대기
+ */
+
+/** @param {string | undefined} value */
+function parseNames(value) {
+  return (value || "")
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/** @param {unknown} value */
+function escapeXml(value) {
+  return String(value ?? "").replace(
+    /[<>&"']/g,
+    (char) =>
+      /** @type {Record<string, string>} */ ({
+        "<": "&lt;",
+        ">": "&gt;",
+        "&": "&amp;",
+        '"': "&quot;",
+        "'": "&apos;",
+      })[char],
+  );
+}
+
+/** XML 1.0에서 허용되지 않는 제어 문자(ANSI 색상 코드 등) 제거 */
+function stripInvalidXmlChars(value) {
+  return String(value ?? "")
+    .replace(/\u001b\[[0-9;]*m/g, "")
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+}
+
+/**
+ * 대시보드 전송. 전송 설정이 없어도 run ID가 있으면 spool은 남겨 나중에 replay할 수 있게 한다.
+ * @param {NodeJS.ProcessEnv} env
+ * @param {RunMeta} meta
+ * @returns {LiveSink | null}
+ */
+function createDashboardSink(env, meta) {
+  const dashboardUrl = env.DASHBOARD_URL || "";
+  const apiSecret = env.DASHBOARD_API_SECRET || "";
+  const enabled = Boolean(dashboardUrl && apiSecret && meta.runId);
+  /** @type {string | null} */
+  let spoolPath =
+    meta.runId && env.LIVE_RESULTS_SPOOL !== "false" ? getSpoolPath(env) : null;
+  if (!enabled && !spoolPath) return null;
+
+  const retryOptions = getRetryOptions(env);
+  let unsent = 0;
+  /** 대시보드가 begin → test-end → end 순서를 가정하므로 전송은 한 줄로 세운다 */
+  let queue = Promise.resolve();
+
+  /** spool 기록 실패는 전송 / 테스트 실행을 막지 않는다 */
+  function spool(entry) {
+    if (!spoolPath) return;
+    try {
+      appendSpoolEntry(spoolPath, entry);
+    } catch (error) {
+      console.warn(`[live-reporter] spool 기록 실패: ${error.message}`);
+      spoolPath = null;
+    }
+  }
+
+  return {
+    name: "dashboard",
+    onEvent(event, id) {
+      const key = buildIdempotencyKey(
+        meta.runId,
+        meta.runAttempt,
+        event.event,
+        id,
+      );
+      const body = { runId: Number(meta.runId), ...event };
+      spool({ type: "payload", key, at: new Date().toISOString(), body });
+      if (!enabled) {
+        unsent++;
+        return;
+      }
+
+      queue = queue
+        .then(() =>
+          postLiveResult(key, body, {
+            dashboardUrl,
+            apiSecret,
+            ...retryOptions,
+          }),
+        )
+        .then((result) => {
+          if (!result.ok) {
+            unsent++;
+            return;
+          }
+          spool({
+            type: "ack",
+            key,
+            at: new Date().toISOString(),
+            status: result.status,
+          });
+        })
+        .catch(() => {
+          // 실패해도 무시 — 테스트 실행에 영향 없음 (spool에 남아 replay 대상)
+          unsent++;
+        });
+    },
+    async flush() {
+      await queue;
+      if (unsent > 0 && spoolPath) {
+        console.warn(
+          `[live-reporter] 대시보드로 보내지 못한 결과가 있습니다. 재전송: node scripts/replay-live-results.js ${spoolPath}`,
+        );
+      }
+    },
+  };
+}
+
+/**
+ * 이벤트마다 `{ at, runId, suite, ...payload }` 한 줄. begin 줄에 실행 메타데이터 전체가 들어간다.
+ * @param {NodeJS.ProcessEnv} env
+ * @param {RunMeta} meta
+ * @returns {LiveSink}
+ */
+function createJsonlSink(env, meta) {
+  const filePath = path.resolve(
+    env.LIVE_RESULTS_JSONL_FILE ||
+      path.join("test-results", "live-results.jsonl"),
+  );
+  return {
+    name: "jsonl",
+    onEvent(event) {
+      const line = JSON.stringify({
+        at: new Date().toISOString(),
+        runId: meta.runId || null,
+        suite: meta.suite,
+        ...event,
+      });
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      // 실행마다 새 파일로 시작
+      if (event.event === "begin") fs.writeFileSync(filePath, line + "\n");
+      else fs.appendFileSync(filePath, line + "\n");
+    },
+  };
+}
+
+/**
+ * test-end 결과를 모아 종료 시 project별 `<project>.xml`을 쓴다.
+ * 실행 메타데이터는 각 testsuite의 `<properties>`로 남긴다.
+ * @param {NodeJS.ProcessEnv} env
+ * @param {RunMeta} meta
+ * @returns {LiveSink}
+ */
+function createJunitSink(env, meta) {
+  const outputDir = path.resolve(
+    env.LIVE_RESULTS_JUNIT_DIR || path.join("test-results", "junit"),
+  );
+  /** @type {Map<string, LiveEvent[]>} */
+  const byProject = new Map();
+  const startedAt = new Date().toISOString();
+
+  function renderProject(project, cases) {
+    const count = (status) => cases.filter((c) => c.status === status).length;
+    const seconds = (ms) => ((ms || 0) / 1000).toFixed(3);
+    const totalMs = cases.reduce((sum, c) => sum + (c.durationMs || 0), 0);
+    const properties = [
+      ["suite", meta.suite],
+      ["requestedSuite", meta.requestedSuite],
+      ["effectiveTargets", meta.effectiveTargets.join(",")],
+      ["skipReasons", meta.skipReasons.join(" || ")],
+      ["environment", meta.environment],
+      ["runId", meta.runId],
+      ["branch", meta.branch],
+      ["commitSha", meta.commitSha],
+    ]
+      .filter(([, value]) => value)
+      .map(
+        ([name, value]) =>
+          `      <property name="${escapeXml(name)}" value="${escapeXml(value)}"/>`,
+      );
+    const testcases = cases.map((c) => {
+      const open = `    <testcase name="${escapeXml(c.title)}" classname="${escapeXml(c.file ? path.relative(process.cwd(), c.file) : project)}" time="${seconds(c.durationMs)}"`;
+      if (c.status === "failed") {
+        const message = stripInvalidXmlChars(c.errorMessage || "failed");
+        const detail = stripInvalidXmlChars(
+          c.errorStack || c.errorMessage || "",
+        );
+        return `${open}>\n      <failure message="${escapeXml(message.split("\n")[0])}">${escapeXml(detail)}</failure>\n    </testcase>`;
+      }
+      if (c.status === "skipped")
+        return `${open}>\n      <skipped/>\n    </testcase>`;
+      if (c.status === "flaky") {
+        return `${open}>\n      <system-out>flaky: 재시도 후 통과</system-out>\n    </testcase>`;
+      }
+      return `${open}/>`;
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="${escapeXml(meta.suite)}" tests="${cases.length}" failures="${count("failed")}" skipped="${count("skipped")}" time="${seconds(totalMs)}">`,
+      `  <testsuite name="${escapeXml(project)}" timestamp="${startedAt}" tests="${cases.length}" failures="${count("failed")}" skipped="${count("skipped")}" errors="0" time="${seconds(totalMs)}">`,
+      "    <properties>",
+      ...properties,
+      "    </properties>",
+      ...testcases,
+      "  </testsuite>",
+      "</testsuites>",
+      "",
+    ].join("\n");
+  }
+
+  return {
+    name: "junit",
+    onEvent(event) {
+      if (event.event === "test-end") {
+        const project = event.project || "default";
+        if (!byProject.has(project)) byProject.set(project, []);
+        byProject.get(project)?.push(event);
+        return;
+      }
+      if (event.event !== "end") return;
+
+      fs.mkdirSync(outputDir, { recursive: true });
+      for (const [project, cases] of byProject) {
+        const fileName = `${project.replace(/[^\w.-]/g, "_")}.xml`;
+        fs.writeFileSync(
+          path.join(outputDir, fileName),
+          renderProject(project, cases),
+        );
+      }
+    },
+  };
+}
+
+/**
+ * Slack 호환 payload. `text`는 Slack 메시지 본문, `metadata`는 Slack message metadata 형식
+ * (`event_type` + `event_payload`)으로 실행 메타데이터와 이벤트 원문을 담는다.
+ * @param {LiveEvent} event
+ * @param {RunMeta} meta
+ * @param {{ passed: number, failed: number, flaky: number, skipped: number, failures: string[] }} counts
+ */
+function buildWebhookPayload(event, meta, counts) {
+  const header = `*Playwright ${meta.suite.toUpperCase()} (${meta.environment})*`;
+  const lines = [];
+  if (event.event === "begin") {
+    lines.push(`▶️ ${header} — 시작 (${event.total}개 테스트)`);
+  } else if (event.event === "test-end") {
+    lines.push(`🔴 ${header} — 실패: ${event.title}`);
+    if (event.errorMessage) {
+      lines.push("```" + String(event.errorMessage).slice(0, 500) + "```");
+    }
+  } else {
+    const emoji = event.status === "passed" ? "✅" : "🔴";
+    const label = event.status === "passed" ? "성공" : "실패";
+    lines.push(`${emoji} ${header} — ${label}`);
+    lines.push(
+      `통과: ${counts.passed} | 실패: ${counts.failed} | Flaky: ${counts.flaky} | 스킵: ${counts.skipped}`,
+    );
+    if (counts.failures.length > 0) {
+      lines.push("", "*실패 테스트:*");
+      for (const title of counts.failures.slice(0, WEBHOOK_FAILURE_LIMIT)) {
+        lines.push(`• ${title}`);
+      }
+      if (counts.failures.length > WEBHOOK_FAILURE_LIMIT) {
+        lines.push(
+          `  ...외 ${counts.failures.length - WEBHOOK_FAILURE_LIMIT}건`,
+        );
+      }
+    }
+  }
+  if (meta.requestedSuite !== meta.suite) {
+    lines.push(`요청 suite: ${meta.requestedSuite}`);
+  }
+  if (meta.effectiveTargets.length > 0) {
+    lines.push(`실행 대상: ${meta.effectiveTargets.join(", ")}`);
+  }
+  for (const reason of meta.skipReasons) lines.push(`⏭️ ${reason}`);
+
+  return {
+    text: lines.join("\n"),
+    metadata: {
+      event_type: `playwright_${event.event.replace("-", "_")}`,
+      event_payload: {
+        runId: meta.runId || null,
+        suite: meta.suite,
+        requestedSuite: meta.requestedSuite,
+        effectiveTargets: meta.effectiveTargets,
+        skipReasons: meta.skipReasons,
+        environment: meta.environment,
+        branch: meta.branch,
+        commitSha: meta.commitSha,
+        triggeredBy: meta.triggeredBy,
+        ...(event.event === "end" ? counts : {}),
+        ...event,
+      },
+    },
+  };
+}
+
+/**
+ * @param {NodeJS.ProcessEnv} env
+ * @param {RunMeta} meta
+ * @returns {LiveSink | null}
+ */
+function createWebhookSink(env, meta) {
+  const url = env.LIVE_RESULTS_WEBHOOK_URL || "";
+  if (!url) {
+    console.warn(
+      "[live-reporter] LIVE_RESULTS_WEBHOOK_URL이 없어 webhook sink를 건너뜁니다.",
+    );
+    return null;
+  }
+  const events = new Set(parseNames(env.LIVE_RESULTS_WEBHOOK_EVENTS || "end"));
+  const retryOptions = getRetryOptions(env);
+  const counts = { passed: 0, failed: 0, flaky: 0, skipped: 0, failures: [] };
+  let queue = Promise.resolve();
+
+  return {
+    name: "webhook",
+    onEvent(event) {
+      if (event.event === "test-end") {
+        if (event.status in counts) counts[event.status]++;
+        if (event.status === "failed") counts.failures.push(event.title);
+      }
+      if (!events.has(event.event)) return;
+      if (event.event === "test-end" && event.status !== "failed") return;
+
+      const payload = buildWebhookPayload(event, meta, {
+        ...counts,
+        failures: [...counts.failures],
+      });
+      queue = queue
+        .then(() => postJsonWithRetry(url, payload, retryOptions))
+        .then((result) => {
+          if (!result.ok) {
+            console.warn(
+              `[live-reporter] webhook 전송 실패 (${event.event}): ${result.error}`,
+            );
+          }
+        });
+    },
+    flush: () => queue,
+  };
+}
+
+const SINK_FACTORIES = {
+  dashboard: createDashboardSink,
+  jsonl: createJsonlSink,
+  junit: createJunitSink,
+  webhook: createWebhookSink,
+};
+
+/**
+ * @param {NodeJS.ProcessEnv} env
+ * @param {RunMeta} meta
+ * @param {string[]} [names] - reporter 옵션 `{ sinks }`. 없으면 LIVE_REPORTER_SINKS
+ * @returns {LiveSink[]}
+ */
+function createSinks(env, meta, names) {
+  const requested = names?.length
+    ? names.map((name) => name.trim().toLowerCase())
+    : parseNames(env.LIVE_REPORTER_SINKS);
+  /** @type {LiveSink[]} */
+  const sinks = [];
+  for (const name of requested.length > 0 ? requested : DEFAULT_SINKS) {
+    if (!SINK_NAMES.includes(name)) {
+      console.warn(
+        `[live-reporter] 알 수 없는 sink "${name}" (지원: ${SINK_NAMES.join(", ")})`,
+      );
+      continue;
+    }
+    if (sinks.some((sink) => sink.name === name)) continue;
+    const sink = SINK_FACTORIES[name](env, meta);
+    if (sink) sinks.push(sink);
+  }
+  return sinks;
+}
+
+module.exports = {
+  SINK_NAMES,
+  buildWebhookPayload,
+  createDashboardSink,
+  createJsonlSink,
+  createJunitSink,
+  createSinks,
+  createWebhookSink,
+};
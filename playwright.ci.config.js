@@ -1,8 +1,14 @@
 // @ts-check
 import { defineConfig, devices } from "@playwright/test";
+import { materializeStorageState } from "./scripts/auth-crypto";
 
-const AUTH_STORAGE_STATE = process.env.AUTH_FILE_PATH || "./auth.json";
-const AB_AUTH_STORAGE_STATE = process.env.AB_AUTH_FILE_PATH || "./ab-auth.json";
+// AUTH_ENCRYPTION_KEY로 암호화된 파일이면 임시 복호화본 경로 (scripts/auth-crypto.js)
+const AUTH_STORAGE_STATE = materializeStorageState(
+  process.env.AUTH_FILE_PATH || "./auth.json",
+);
+const AB_AUTH_STORAGE_STATE = materializeStorageState(
+  process.env.AB_AUTH_FILE_PATH || "./ab-auth.json",
+);
 const INCLUDE_CMR_PAYMENT = process.env.INCLUDE_CMR_PAYMENT === "true";
 
 /**
@@ -32,6 +38,8 @@ export default defineConfig({
     ["list"],
     ["json", { outputFile: "test-results/results.json" }],
     ["./lib/live-reporter.js"],
+    ["./lib/failure-class-reporter.js"],
+    ["./lib/assertion-audit-reporter.js"],
   ],
 
   timeout: 90000,
@@ -79,6 +87,44 @@ export default defineConfig({
         storageState: AB_AUTH_STORAGE_STATE,
       },
     },
+    {
+      // 토큰 갱신 / auth-state 로직 회귀. 브라우저·외부 네트워크 없이 로컬 stand-in
+      // (scripts/stand-ins/token-refresh-server.js)으로만 실행된다.
+      name: "auth-offline",
+      testMatch: ["**/auth_*.spec.ts"],
+    },
+    {
+      // Google 로그인(performGoogleLogin) 성공/실패 분기 회귀. 로컬 Google OAuth stand-in
+      // (scripts/stand-ins/google-oauth-server.js)만 사용한다.
+      name: "google-login-offline",
+      testMatch: ["**/google_login_*.spec.ts"],
+      use: {
+        ...devices["Desktop Chrome"],
+        viewport: { width: 1920, height: 1080 },
+      },
+    },
+    {
+      // 엑셀 파서 / export 스키마 / 엑셀↔API 대조 엔진 회귀. 브라우저 없이 로컬 파일과
+      // admin-api-server stand-in만 사용한다.
+      name: "excel-offline",
+      testMatch: ["**/excel_*.spec.ts"],
+    },
+    {
+      // live-reporter spool / 대시보드 전송 등 리포팅 도구 회귀. 로컬 HTTP stand-in만 사용한다.
+      name: "reporting-offline",
+      testMatch: ["**/reporting_*.spec.ts"],
+    },
+    {
+      // POM DOM snapshot 회귀. 실캡처본은 커밋하지 않으므로 Admin / AlbumBuddy 마크업을 본뜬
+      // 합성 snapshot(tests/fixtures/dom-snapshots-ci/)으로 SNAP-* 테스트를 실제로 실행한다.
+      name: "pom-snapshot-offline",
+      testMatch: ["**/pom_snapshot.spec.ts"],
+      use: {
+        ...devices["Desktop Chrome"],
+        viewport: { width: 1920, height: 1080 },
+        domSnapshotDir: "tests/fixtures/dom-snapshots-ci",
+      },
+    },
     {
       name: "admin-setup",
       testMatch: ["**/admin_auth_pom.spec.ts"],
@@ -1,49 +1,56 @@
 import { defineConfig, devices } from "@playwright/test";
 import * as fs from "fs";
+import * as path from "path";
+import type { CmrHarOptions } from "./tests/fixtures/cmr-har";
+import { resolveHarMode } from "./tests/helpers/cmr-har";
+import { AuthStore } from "./scripts/auth-store";
 
-type StoredCookie = {
-  name: string;
-  value: string;
-  expires?: number;
-  domain?: string;
-};
-
-function getRefreshTokenExpiresAt(cookie: StoredCookie): Date | null {
-  if (cookie.value) {
-    try {
-      const payload = JSON.parse(
-        Buffer.from(cookie.value.split(".")[1], "base64").toString(),
-      );
-      if (payload.exp) {
-        return new Date(payload.exp * 1000);
-      }
-    } catch {
-      // JWT 파싱 실패 시 cookie expires를 확인
-    }
-  }
-
-  if (cookie.expires && cookie.expires > 0) {
-    return new Date(cookie.expires * 1000);
+// GOOGLE_OAUTH_STAND_IN=true면 로컬 Google OAuth/인증/Admin stand-in
+// (scripts/stand-ins/google-oauth-server.js)을 띄우고 admin-setup 로그인을 headless로 돌린다.
+// 실제 auth.json / admin-tokens.json을 덮어쓰지 않도록 인증 파일도 .stand-in/ 아래로 돌린다.
+const useGoogleOAuthStandIn = process.env.GOOGLE_OAUTH_STAND_IN === "true";
+const googleOAuthStandInPort =
+  Number(process.env.GOOGLE_OAUTH_STAND_IN_PORT) || 4330;
+if (useGoogleOAuthStandIn) {
+  if (process.env.ADMIN_STAND_IN === "true") {
+    throw new Error(
+      "ADMIN_STAND_IN과 GOOGLE_OAUTH_STAND_IN은 함께 사용할 수 없습니다 (ADMIN_BASE_URL 충돌)",
+    );
   }
-
-  return null;
+  const standInAuthDir = path.join(__dirname, ".stand-in", "google-oauth");
+  fs.mkdirSync(standInAuthDir, { recursive: true });
+  process.env.ADMIN_BASE_URL = `http://127.0.0.1:${googleOAuthStandInPort + 2}`;
+  process.env.GOOGLE_LOGIN_HEADLESS = "true";
+  process.env.GOOGLE_LOGIN_TIMEOUT_MS ??= "30000";
+  process.env.AUTH_TARGET_DOMAIN ??= "127.0.0.1";
+  process.env.AUTH_FILE_PATH ??= path.join(standInAuthDir, "auth.json");
+  process.env.ADMIN_TOKENS_FILE_PATH ??= path.join(
+    standInAuthDir,
+    "admin-tokens.json",
+  );
+  process.env.SESSION_FILE_PATH ??= path.join(
+    standInAuthDir,
+    "playwright-session.json",
+  );
 }
 
-// 환경별 auth 파일 선택:
+// 환경별 auth 파일 선택 (scripts/auth-store.js):
 // - STG는 stg-auth.json을 우선 사용하되, 없으면 auth.json의 .makeuni2026.com 토큰을 fallback으로 사용
 // - Prod는 auth.json만 사용
-const isSTG = process.env.MAKESTAR_BASE_URL?.includes("stage");
-const authFileCandidates = isSTG
-  ? [process.env.AUTH_FILE_PATH, "./stg-auth.json", "./auth.json"]
-  : [process.env.AUTH_FILE_PATH, "./auth.json"];
-const authFile =
-  authFileCandidates.find(
-    (candidate): candidate is string => !!candidate && fs.existsSync(candidate),
-  ) ??
-  authFileCandidates.find((candidate): candidate is string => !!candidate) ??
-  "./auth.json";
+const cmrAuth = new AuthStore("cmr");
+const authFile = cmrAuth.storageStatePath;
+const authFileLabel = path.relative(process.cwd(), authFile) || authFile;
 let hasValidAuthFile = false;
 const includeCmrPayment = process.env.INCLUDE_CMR_PAYMENT === "true";
+// CMR_HAR_MODE=record|replay일 때만 cmr-har project가 spec을 수집한다.
+const cmrHarMode = resolveHarMode();
+// ADMIN_STAND_IN=true면 로컬 admin API stand-in을 띄우고 ADMIN_BASE_URL을 그쪽으로 돌린다.
+// (config는 worker에서도 다시 로드되므로 worker의 process.env에도 반영된다)
+const useAdminStandIn = process.env.ADMIN_STAND_IN === "true";
+const adminStandInPort = Number(process.env.ADMIN_STAND_IN_PORT) || 4310;
+if (useAdminStandIn) {
+  process.env.ADMIN_BASE_URL = `http://127.0.0.1:${adminStandInPort}`;
+}
 const excludeAuthTests = process.env.EXCLUDE_AUTH_TESTS === "true";
 const manualAuthSpecPatterns = [
   "**/save-auth.spec.ts",
@@ -53,6 +60,8 @@ const testIgnorePatterns = ["**/backup/**"];
 const nonAdminIgnorePatterns = [
   "**/admin_*.spec.ts",
   "**/cmr_*.spec.ts",
+  // DOM snapshot 회귀는 pom-snapshot project에서만 실행 (chromium에서 중복 실행 방지)
+  "**/pom_snapshot.spec.ts",
   "**/backup/**",
 ];
 
@@ -61,68 +70,51 @@ if (excludeAuthTests) {
   nonAdminIgnorePatterns.push(...manualAuthSpecPatterns);
 }
 
-if (fs.existsSync(authFile)) {
-  try {
-    const authData = JSON.parse(fs.readFileSync(authFile, "utf-8"));
-    // mock 데이터가 아닌 실제 세션인지 확인
-    const hasMockData = authData.cookies?.some(
-      (c: StoredCookie) =>
-        c.value?.includes("mock_session") || c.value?.includes("mock_token"),
+const authStatus = cmrAuth.inspect();
+if (authStatus.error && authStatus.exists) {
+  console.log(`⚠️ ${authFileLabel} 파싱 실패`);
+} else if (authStatus.exists) {
+  // refresh_token 유효성 확인
+  // STG 실행은 .makeuni2026.com 토큰만 storageState로 자동 적용한다.
+  // 기본 실행(auth.json)에 STG Admin 토큰만 있는 경우에는 유효성을 로그로만 알리고
+  // prod storageState로 오인 적용하지 않는다.
+  const { refreshExpiresAtMs, otherValidRefreshTokens } = authStatus;
+  const hasValidRefreshToken =
+    refreshExpiresAtMs !== null && refreshExpiresAtMs > Date.now();
+  if (hasValidRefreshToken) {
+    console.log(
+      `✅ ${authFileLabel} refresh_token 유효 (${cmrAuth.targetDomain}, 만료: ${new Date(refreshExpiresAtMs).toISOString()})`,
     );
+  }
 
-    // refresh_token 유효성 확인
-    // STG 실행은 .makeuni2026.com 토큰만 storageState로 자동 적용한다.
-    // 기본 실행(auth.json)에 STG Admin 토큰만 있는 경우에는 유효성을 로그로만 알리고
-    // prod storageState로 오인 적용하지 않는다.
-    let hasValidRefreshToken = false;
-    const targetDomain = isSTG ? ".makeuni2026.com" : ".makestar.com";
-    const refreshCookies = (authData.cookies ?? []).filter(
-      (c: StoredCookie) => c.name === "refresh_token",
+  // mock 데이터가 아닌 실제 세션인지 확인
+  hasValidAuthFile =
+    !authStatus.hasMockCookies &&
+    authStatus.cookieCount > 5 &&
+    hasValidRefreshToken;
+  if (hasValidAuthFile) {
+    console.log(
+      `✅ ${authFileLabel} 로드됨 (쿠키 ${authStatus.cookieCount}개)`,
     );
-    const refreshCookie = refreshCookies.find(
-      (c: StoredCookie) =>
-        c.name === "refresh_token" && c.domain === targetDomain,
-    );
-    if (refreshCookie?.value) {
-      const expiresAt = getRefreshTokenExpiresAt(refreshCookie);
-      hasValidRefreshToken = !!expiresAt && expiresAt > new Date();
-      if (hasValidRefreshToken) {
-        console.log(
-          `✅ ${authFile} refresh_token 유효 (${targetDomain}, 만료: ${expiresAt?.toISOString()})`,
-        );
-      }
-    }
-
-    hasValidAuthFile =
-      !hasMockData && authData.cookies?.length > 5 && hasValidRefreshToken;
-    if (hasValidAuthFile) {
-      console.log(`✅ ${authFile} 로드됨 (쿠키 ${authData.cookies.length}개)`);
-    } else if (!hasValidRefreshToken) {
-      const otherValidDomains = refreshCookies
-        .map((cookie: StoredCookie) => {
-          const expiresAt = getRefreshTokenExpiresAt(cookie);
-          if (!expiresAt || expiresAt <= new Date()) return null;
-          return `${cookie.domain ?? "unknown"} (${expiresAt.toISOString()})`;
-        })
-        .filter((value: string | null): value is string => !!value);
-
-      if (otherValidDomains.length > 0) {
-        console.log(
-          `ℹ️ ${authFile}에 ${targetDomain} refresh_token은 없지만 다른 유효 토큰이 있습니다: ${otherValidDomains.join(", ")}`,
-        );
-      } else {
-        console.log(`⚠️ ${authFile}의 refresh_token이 없거나 만료됨`);
-      }
+  } else if (!hasValidRefreshToken) {
+    if (otherValidRefreshTokens.length > 0) {
+      const otherValidDomains = otherValidRefreshTokens.map(
+        ({ domain, expiresAtMs }) =>
+          `${domain} (${new Date(expiresAtMs).toISOString()})`,
+      );
+      console.log(
+        `ℹ️ ${authFileLabel}에 ${cmrAuth.targetDomain} refresh_token은 없지만 다른 유효 토큰이 있습니다: ${otherValidDomains.join(", ")}`,
+      );
+    } else {
+      console.log(`⚠️ ${authFileLabel}의 refresh_token이 없거나 만료됨`);
     }
-  } catch (e) {
-    console.log(`⚠️ ${authFile} 파싱 실패`);
   }
 }
 
 /**
  * @see https://playwright.dev/docs/test-configuration
  */
-export default defineConfig({
+export default defineConfig<CmrHarOptions>({
   // Global Setup 활성화 - 토큰 이슈 시 테스트 실행 전 즉시 갱신 시도
   // 갱신 실패 시 모든 테스트를 스킵하여 불필요한 반복 방지
   globalSetup: "./global-setup.js",
@@ -162,8 +154,10 @@ export default defineConfig({
     // viewport 설정 (1920x1080 Full HD) - PC 환경 전용
     viewport: { width: 1920, height: 1080 },
 
-    // 유효한 auth.json이 있으면 자동으로 세션 사용
-    ...(hasValidAuthFile ? { storageState: authFile } : {}),
+    // 유효한 auth.json이 있으면 자동으로 세션 사용 (암호화된 파일은 임시 복호화본)
+    ...(hasValidAuthFile
+      ? { storageState: cmrAuth.getPlaywrightStorageStatePath() }
+      : {}),
   },
 
   /* Configure projects for major browsers */
@@ -179,8 +173,8 @@ export default defineConfig({
       use: {
         ...devices["Desktop Chrome"],
         viewport: { width: 1920, height: 1080 },
-        // Setup은 항상 headed 모드로 실행 (로그인 시 필요)
-        headless: false,
+        // Setup은 headed 모드로 실행 (로그인 시 필요). stand-in 로그인은 headless
+        headless: useGoogleOAuthStandIn,
       },
     },
     // Admin 테스트 전용 (PC 환경만) - Setup 완료 후 실행
@@ -209,6 +203,28 @@ export default defineConfig({
       name: "cmr",
       testMatch: ["**/cmr_*_pom.spec.ts"],
       testIgnore: ["**/cmr_payment_pom.spec.ts"],
+      use: {
+        ...devices["Desktop Chrome"],
+        viewport: { width: 1920, height: 1080 },
+        harMode: "off",
+      },
+    },
+    // CMR HAR record/replay 전용. live 사이트 대신 녹화본으로 POM 변경을 검증한다.
+    // 결제 spec은 실제 주문 생성 흐름이라 녹화 대상에서 제외한다.
+    {
+      name: "cmr-har",
+      testMatch: cmrHarMode !== "off" ? ["**/cmr_0*_pom.spec.ts"] : [],
+      use: {
+        ...devices["Desktop Chrome"],
+        viewport: { width: 1920, height: 1080 },
+        harMode: cmrHarMode,
+      },
+    },
+    // 로컬에서 캡처한 DOM snapshot 위에서 POM 메서드를 실행하는 오프라인 회귀.
+    // 실캡처본은 커밋하지 않으므로 CI 설정(pom-snapshot-offline)은 합성 snapshot을 쓴다.
+    {
+      name: "pom-snapshot",
+      testMatch: ["**/pom_snapshot.spec.ts"],
       use: {
         ...devices["Desktop Chrome"],
         viewport: { width: 1920, height: 1080 },
@@ -226,9 +242,32 @@ export default defineConfig({
   ],
 
   /* Run your local dev server before starting the tests */
-  // webServer: {
-  //   command: 'npm run start',
-  //   url: 'http://localhost:3000',
-  //   reuseExistingServer: !process.env.CI,
-  // },
+  // Admin API stand-in (scripts/stand-ins/admin-api-server.js) - ADMIN_STAND_IN=true일 때만
+  ...(useAdminStandIn
+    ? {
+        webServer: {
+          command: "node scripts/stand-ins/admin-api-server.js",
+          url: `http://127.0.0.1:${adminStandInPort}/__stand-in/state`,
+          env: { ADMIN_STAND_IN_PORT: String(adminStandInPort) },
+          reuseExistingServer: !process.env.CI,
+          timeout: 15000,
+        },
+      }
+    : {}),
+  // Google OAuth stand-in (scripts/stand-ins/google-oauth-server.js) - GOOGLE_OAUTH_STAND_IN=true일 때만
+  ...(useGoogleOAuthStandIn
+    ? {
+        webServer: {
+          command: "node scripts/stand-ins/google-oauth-server.js",
+          url: `http://127.0.0.1:${googleOAuthStandInPort}/__stand-in/state`,
+          env: {
+            GOOGLE_OAUTH_STAND_IN_PORT: String(googleOAuthStandInPort),
+            GOOGLE_OAUTH_STAND_IN_SCENARIO:
+              process.env.GOOGLE_OAUTH_STAND_IN_SCENARIO || "success",
+          },
+          reuseExistingServer: !process.env.CI,
+          timeout: 15000,
+        },
+      }
+    : {}),
 });
@@ -0,0 +1,215 @@
+// @ts-check
+/**
+ * 인증 파일 암호화 (AES-256-GCM)
+ *
+ * AUTH_ENCRYPTION_KEY가 있으면 auth.json / stg-auth.json / ab-auth.json / admin-tokens.json을
+ * 암호화된 envelope JSON으로 저장한다. 읽을 때는 envelope 여부를 보고 투명하게 복호화하므로
+ * 평문 파일과 암호화 파일이 섞여 있어도 된다 (키를 새로 설정한 뒤 첫 저장부터 암호화).
+ *
+ * Playwright `storageState`는 파일 경로를 직접 읽으므로, 암호화된 파일은
+ * `materializeStorageState()`로 프로세스 전용 임시 평문 파일(0600)을 만들어 넘기고
+ * 프로세스 종료 시 지운다.
+ *
+ * 키: 임의 문자열. 파일마다 salt를 새로 뽑아 scrypt로 256bit 키를 만든다.
+ *
+ * @example
+ * ```sh
+ * AUTH_ENCRYPTION_KEY=$(openssl rand -base64 32) npx playwright test tests/save-auth.spec.ts --headed
+ * ```
+ */
+
+const crypto = require("crypto");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+
+const ALGORITHM = "aes-256-gcm";
+const ENVELOPE_VERSION = 1;
+
+/**
+ * @typedef {object} EncryptedAuthEnvelope
+ * @property {"aes-256-gcm"} encrypted
+ * @property {number} version
+ * @property {string} salt - base64
+ * @property {string} iv - base64
+ * @property {string} tag - base64
+ * @property {string} data - base64 암호문
+ */
+
+/** @param {NodeJS.ProcessEnv} [env] */
+function getAuthEncryptionKey(env = process.env) {
+  return env.AUTH_ENCRYPTION_KEY || null;
+}
+
+/** @param {NodeJS.ProcessEnv} [env] */
+function isAuthEncryptionEnabled(env = process.env) {
+  return Boolean(getAuthEncryptionKey(env));
+}
+
+/**
+ * @param {unknown} value
+ * @returns {value is EncryptedAuthEnvelope}
+ */
+function isEncryptedAuthEnvelope(value) {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    /** @type {{ encrypted?: unknown }} */ (value).encrypted === ALGORITHM
+  );
+}
+
+/**
+ * @param {string} secret
+ * @param {Buffer} salt
+ */
+function deriveKey(secret, salt) {
+  return crypto.scryptSync(secret, salt, 32);
+}
+
+/**
+ * @param {unknown} value - JSON 직렬화 가능한 값
+ * @param {string} secret
+ * @returns {EncryptedAuthEnvelope}
+ */
+function encryptAuthJson(value, secret) {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, deriveKey(secret, salt), iv);
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(value), "utf-8"),
+    cipher.final(),
+  ]);
+  return {
+    encrypted: ALGORITHM,
+    version: ENVELOPE_VERSION,
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+/**
+ * 키가 틀리거나 내용이 변조됐으면 예외.
+ * @param {EncryptedAuthEnvelope} envelope
+ * @param {string} secret
+ * @returns {any}
+ */
+function decryptAuthJson(envelope, secret) {
+  if (envelope.version !== ENVELOPE_VERSION) {
+    throw new Error(`지원하지 않는 암호화 버전입니다: ${envelope.version}`);
+  }
+  const decipher = crypto.createDecipheriv(
+    ALGORITHM,
+    deriveKey(secret, Buffer.from(envelope.salt, "base64")),
+    Buffer.from(envelope.iv, "base64"),
+  );
+  decipher.setAuthTag(Buffer.from(envelope.tag, "base64"));
+  try {
+    const plain = Buffer.concat([
+      decipher.update(Buffer.from(envelope.data, "base64")),
+      decipher.final(),
+    ]);
+    return JSON.parse(plain.toString("utf-8"));
+  } catch {
+    throw new Error(
+      "인증 파일 복호화 실패: AUTH_ENCRYPTION_KEY가 다르거나 파일이 손상되었습니다",
+    );
+  }
+}
+
+/**
+ * 인증 JSON 파일을 읽는다. 암호화된 파일이면 AUTH_ENCRYPTION_KEY로 복호화.
+ * 파일이 없거나 JSON이 아니면 fs / JSON.parse 예외를 그대로 던진다.
+ * @param {string} filePath
+ * @param {NodeJS.ProcessEnv} [env]
+ * @returns {any}
+ */
+function readAuthJsonFile(filePath, env = process.env) {
+  const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  if (!isEncryptedAuthEnvelope(parsed)) return parsed;
+  const secret = getAuthEncryptionKey(env);
+  if (!secret) {
+    throw new Error(
+      `${path.basename(filePath)}이 암호화되어 있습니다. AUTH_ENCRYPTION_KEY를 설정하세요`,
+    );
+  }
+  return decryptAuthJson(parsed, secret);
+}
+
+/**
+ * 인증 JSON 파일을 저장한다. AUTH_ENCRYPTION_KEY가 있으면 암호화해서 저장.
+ * @param {string} filePath
+ * @param {unknown} value
+ * @param {NodeJS.ProcessEnv} [env]
+ */
+function writeAuthJsonFile(filePath, value, env = process.env) {
+  const secret = getAuthEncryptionKey(env);
+  const content = secret ? encryptAuthJson(value, secret) : value;
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(content, null, 2), {
+    mode: 0o600,
+  });
+}
+
+/** @param {string} filePath */
+function isEncryptedAuthFile(filePath) {
+  try {
+    return isEncryptedAuthEnvelope(
+      JSON.parse(fs.readFileSync(filePath, "utf-8")),
+    );
+  } catch {
+    return false;
+  }
+}
+
+/** @type {Set<string>} */
+const materializedFiles = new Set();
+
+function removeMaterializedFiles() {
+  for (const filePath of materializedFiles) {
+    fs.rmSync(filePath, { force: true });
+  }
+  materializedFiles.clear();
+}
+
+/**
+ * Playwright `storageState`에 넘길 경로. 평문 파일(또는 없는 파일)은 그대로 돌려주고,
+ * 암호화된 파일은 프로세스 전용 임시 평문 파일로 풀어 그 경로를 돌려준다.
+ * 임시 파일은 프로세스 종료 시 삭제된다.
+ * @param {string} filePath
+ * @param {NodeJS.ProcessEnv} [env]
+ */
+function materializeStorageState(filePath, env = process.env) {
+  if (!isEncryptedAuthFile(filePath)) return filePath;
+
+  const dir = path.join(os.tmpdir(), "makestar-auth");
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const hash = crypto
+    .createHash("sha1")
+    .update(path.resolve(filePath))
+    .digest("hex")
+    .slice(0, 8);
+  const target = path.join(
+    dir,
+    `${hash}-${process.pid}-${path.basename(filePath)}`,
+  );
+  fs.writeFileSync(target, JSON.stringify(readAuthJsonFile(filePath, env)), {
+    mode: 0o600,
+  });
+  if (materializedFiles.size === 0) {
+    process.once("exit", removeMaterializedFiles);
+  }
+  materializedFiles.add(target);
+  return target;
+}
+
+module.exports = {
+  decryptAuthJson,
+  encryptAuthJson,
+  isAuthEncryptionEnabled,
+  isEncryptedAuthFile,
+  materializeStorageState,
+  readAuthJsonFile,
+  writeAuthJsonFile,
+};
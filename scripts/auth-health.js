@@ -0,0 +1,672 @@
+// @ts-check
+/**
+ * 인증 상태 종합 리포트 (auth health)
+ *
+ * validate-auth.js / live-auth-check.js는 파일 하나, 도메인 하나씩만 본다.
+ * 이 스크립트는 알려진 인증 파일(auth.json / stg-auth.json / ab-auth.json / admin-tokens.json)을
+ * 모두 읽어 도메인별 refresh / access token 만료, mock 쿠키, 필수 localStorage를 점검하고,
+ * 제품(cmr / admin / albumbuddy) × 환경별로 사용 가능 여부와 그에 따른 project 실행 가능 여부를
+ * 사람이 읽는 표와 JSON 문서로 남긴다. global-setup.js가 실행 전에 같은 JSON을 만들어 경고하고,
+ * AUTH_HEALTH_GATE=true면 인증이 필요한 spec이 이 JSON을 읽어 사유와 함께 skip한다
+ * (tests/helpers/auth-gate.ts). project 자체를 실행에서 빼지는 않는다.
+ *
+ * 사용:
+ *   node scripts/auth-health.js            # 표 출력 + .auth-health.json 저장
+ *   node scripts/auth-health.js --json     # JSON을 stdout으로
+ *   node scripts/auth-health.js --live     # profile/me live 검증 포함 (네트워크 필요)
+ *   node scripts/auth-health.js --strict   # 현재 환경 제품 중 하나라도 못 쓰면 exit 1
+ *
+ * 환경변수:
+ *   AUTH_HEALTH_FILE   — JSON 저장 경로 (기본: .auth-health.json)
+ *   AUTH_HEALTH_LIVE=true — --live와 같음
+ *   AUTH_WARN_HOURS    — 만료 임박 경고 임계치 (기본: 6시간, validate-auth.js와 같음)
+ *   그 외 파일 경로 / 도메인 / 암호화 키는 scripts/auth-store.js 기준
+ */
+
+const fs = require("fs");
+const path = require("path");
+const { isEncryptedAuthFile, readAuthJsonFile } = require("./auth-crypto");
+const {
+  domainMatches,
+  findRefreshTokens,
+  formatRemaining,
+  getCookieExpiresMs,
+  getJwtExpMs,
+} = require("./auth-state");
+const {
+  AUTH_PRODUCTS,
+  AuthStore,
+  resolveAuthEnvironment,
+} = require("./auth-store");
+const { checkLiveAuth } = require("./live-auth-check");
+
+/** @typedef {import("./auth-store").AuthProduct} AuthProduct */
+/** @typedef {import("./auth-store").AuthEnvironment} AuthEnvironment */
+
+/**
+ * @typedef {object} TokenHealth
+ * @property {string} scope - refresh_token 쿠키 도메인 / access_token origin
+ * @property {"cookie" | "localStorage" | "admin-tokens"} source
+ * @property {number | null} expiresAtMs
+ * @property {"valid" | "expired" | "unknown"} status
+ */
+
+/**
+ * @typedef {object} AuthFileHealth
+ * @property {string} path - 저장소 루트 기준
+ * @property {"storageState" | "adminTokens"} kind
+ * @property {boolean} exists
+ * @property {boolean} encrypted
+ * @property {string | null} error - 파싱 / 복호화 실패 사유
+ * @property {number} cookieCount
+ * @property {boolean} hasMockCookies
+ * @property {TokenHealth[]} refreshTokens
+ * @property {TokenHealth[]} accessTokens
+ * @property {string[]} loggedInOrigins - LOGGED_IN_USER localStorage가 있는 origin
+ */
+
+/**
+ * @typedef {object} ProductHealth
+ * @property {AuthProduct} product
+ * @property {AuthEnvironment} environment
+ * @property {string} storageState - 저장소 루트 기준
+ * @property {string} targetDomain
+ * @property {boolean} usable
+ * @property {number | null} expiresAtMs - refresh_token / admin-tokens.json 중 늦은 만료
+ * @property {string[]} problems - usable=false 사유
+ * @property {string[]} warnings
+ * @property {{ ok: boolean; status: number; message: string } | null} live - --live일 때만
+ */
+
+/**
+ * @typedef {object} AuthHealthReport
+ * @property {number} version
+ * @property {string} generatedAt
+ * @property {AuthEnvironment} environment - 현재 실행 환경
+ * @property {AuthFileHealth[]} files
+ * @property {ProductHealth[]} products
+ * @property {Record<string, { product: AuthProduct; environment: AuthEnvironment; usable: boolean }>} projects
+ * @property {string[]} runnableProjects
+ */
+
+/**
+ * @typedef {object} CollectAuthHealthOptions
+ * @property {NodeJS.ProcessEnv} [env]
+ * @property {string} [rootDir] - 기본 파일 위치 (기본: 저장소 루트)
+ * @property {boolean} [live] - profile/me live 검증 (기본: AUTH_HEALTH_LIVE=true)
+ * @property {number} [now]
+ * @property {typeof checkLiveAuth} [checkLive] - 테스트용 주입
+ */
+
+const ROOT_DIR = path.join(__dirname, "..");
+const REPORT_VERSION = 1;
+const DEFAULT_WARN_HOURS = 6;
+const ENVIRONMENTS = /** @type {const} */ (["prod", "stg"]);
+const LOGGED_IN_USER_KEY = "LOGGED_IN_USER";
+// CMR-AUTH-08 / AlbumBuddy 모니터링은 LOGGED_IN_USER localStorage가 있어야 로그인 상태로 본다
+const REQUIRES_LOGGED_IN_USER = {
+  cmr: false,
+  admin: false,
+  albumbuddy: true,
+};
+
+/**
+ * project → 인증 제품. 환경을 고정한 project만 environment를 지정한다.
+ * admin-setup은 인증을 만드는 project라 판단 대상에서 뺀다.
+ * @type {Record<string, { product: AuthProduct; environment?: AuthEnvironment }>}
+ */
+const PROJECT_AUTH_PRODUCTS = {
+  cmr: { product: "cmr" },
+  "cmr-har": { product: "cmr" },
+  "cmr-monitoring": { product: "cmr" },
+  "cmr-payment-stg": { product: "cmr", environment: "stg" },
+  "admin-pc": { product: "admin" },
+  "admin-full": { product: "admin" },
+  "admin-gate": { product: "admin" },
+  "albumbuddy-monitoring": { product: "albumbuddy" },
+};
+
+/** @param {NodeJS.ProcessEnv} [env] */
+function getAuthHealthPath(env = process.env) {
+  return env.AUTH_HEALTH_FILE
+    ? path.resolve(env.AUTH_HEALTH_FILE)
+    : path.join(ROOT_DIR, ".auth-health.json");
+}
+
+/**
+ * @param {number | null} expiresAtMs
+ * @param {number} now
+ * @returns {TokenHealth["status"]}
+ */
+function getTokenStatus(expiresAtMs, now) {
+  if (expiresAtMs === null) return "unknown";
+  return expiresAtMs > now ? "valid" : "expired";
+}
+
+/**
+ * @param {any[]} cookies
+ * @param {any[]} origins
+ * @param {number} now
+ */
+function collectStorageStateTokens(cookies, origins, now) {
+  /** @type {TokenHealth[]} */
+  const refreshTokens = findRefreshTokens(cookies).map((cookie) => {
+    const expiresAtMs = getCookieExpiresMs(cookie);
+    return {
+      scope: cookie.domain || "unknown",
+      source: "cookie",
+      expiresAtMs,
+      status: getTokenStatus(expiresAtMs, now),
+    };
+  });
+
+  /** @type {TokenHealth[]} */
+  const accessTokens = [];
+  for (const cookie of cookies) {
+    if (cookie.name !== "access_token") continue;
+    const expiresAtMs = getCookieExpiresMs(cookie);
+    accessTokens.push({
+      scope: cookie.domain || "unknown",
+      source: "cookie",
+      expiresAtMs,
+      status: getTokenStatus(expiresAtMs, now),
+    });
+  }
+  for (const origin of origins) {
+    const entry = (origin.localStorage || []).find(
+      (/** @type {{ name?: string }} */ item) => item.name === "access_token",
+    );
+    if (!entry) continue;
+    const expiresAtMs = getJwtExpMs(entry.value);
+    accessTokens.push({
+      scope: origin.origin || "unknown",
+      source: "localStorage",
+      expiresAtMs,
+      status: getTokenStatus(expiresAtMs, now),
+    });
+  }
+
+  const loggedInOrigins = origins
+    .filter((origin) =>
+      (origin.localStorage || []).some(
+        (/** @type {{ name?: string; value?: string }} */ item) =>
+          item.name === LOGGED_IN_USER_KEY && Boolean(item.value),
+      ),
+    )
+    .map((origin) => origin.origin || "unknown");
+
+  return { refreshTokens, accessTokens, loggedInOrigins };
+}
+
+/**
+ * @param {number | null} expiresAtMs
+ * @param {number} now
+ * @returns {TokenHealth}
+ */
+function toAdminTokenHealth(expiresAtMs, now) {
+  return {
+    scope: "admin",
+    source: "admin-tokens",
+    expiresAtMs,
+    status: getTokenStatus(expiresAtMs, now),
+  };
+}
+
+/**
+ * @param {string} filePath
+ * @param {"storageState" | "adminTokens"} kind
+ * @param {string} rootDir
+ * @param {NodeJS.ProcessEnv} env
+ * @param {number} now
+ * @returns {AuthFileHealth}
+ */
+function inspectAuthFile(filePath, kind, rootDir, env, now) {
+  /** @type {AuthFileHealth} */
+  const health = {
+    path: path.relative(rootDir, filePath) || filePath,
+    kind,
+    exists: fs.existsSync(filePath),
+    encrypted: false,
+    error: null,
+    cookieCount: 0,
+    hasMockCookies: false,
+    refreshTokens: [],
+    accessTokens: [],
+    loggedInOrigins: [],
+  };
+  if (!health.exists) return health;
+  health.encrypted = isEncryptedAuthFile(filePath);
+
+  let data;
+  try {
+    data = readAuthJsonFile(filePath, env);
+  } catch (error) {
+    health.error = error instanceof Error ? error.message : String(error);
+    return health;
+  }
+
+  if (kind === "adminTokens") {
+    // JWT exp가 없으면 저장 시 계산해 둔 expiresAt을 access_token 만료로 쓴다
+    const savedExpiresAtMs = new Date(data.expiresAt).getTime();
+    const accessExpiresAtMs =
+      getJwtExpMs(data.accessToken) ??
+      (Number.isFinite(savedExpiresAtMs) ? savedExpiresAtMs : null);
+    if (data.accessToken) {
+      health.accessTokens.push(toAdminTokenHealth(accessExpiresAtMs, now));
+    }
+    if (data.refreshToken) {
+      health.refreshTokens.push(
+        toAdminTokenHealth(getJwtExpMs(data.refreshToken), now),
+      );
+    }
+    return health;
+  }
+
+  const cookies = Array.isArray(data.cookies) ? data.cookies : [];
+  const origins = Array.isArray(data.origins) ? data.origins : [];
+  health.cookieCount = cookies.length;
+  health.hasMockCookies = cookies.some(
+    (/** @type {{ value?: string }} */ cookie) =>
+      cookie.value?.includes("mock_session") ||
+      cookie.value?.includes("mock_token"),
+  );
+  Object.assign(health, collectStorageStateTokens(cookies, origins, now));
+  return health;
+}
+
+/**
+ * target 도메인에 해당하는 origin인지 (https://www.makestar.com ↔ .makestar.com)
+ * @param {string} origin
+ * @param {string} targetDomain
+ */
+function originMatchesDomain(origin, targetDomain) {
+  try {
+    const host = new URL(origin).hostname;
+    const domain = targetDomain.replace(/^\./, "");
+    return host === domain || host.endsWith(`.${domain}`);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * @param {AuthStore} store
+ * @param {AuthFileHealth | undefined} file
+ * @param {number} warnMs
+ * @param {number} now
+ * @returns {Omit<ProductHealth, "live">}
+ */
+function evaluateProduct(store, file, warnMs, now) {
+  /** @type {string[]} */
+  const problems = [];
+  /** @type {string[]} */
+  const warnings = [];
+  const label = path.basename(store.storageStatePath);
+  const expiresAtMs = store.getExpiryMs();
+  const adminExpiresAtMs = store.getAdminTokenExpiryMs();
+  // admin은 admin-tokens.json이 유효하면 refresh_token 없이도 쓸 수 있다
+  const hasValidAdminTokens =
+    adminExpiresAtMs !== null && adminExpiresAtMs > now;
+  if (adminExpiresAtMs !== null && !hasValidAdminTokens) {
+    warnings.push("admin-tokens.json이 만료되었습니다");
+  }
+
+  if (!file?.exists) {
+    problems.push(`${label} 파일이 없습니다`);
+  } else if (file.error) {
+    problems.push(`${label} 읽기 실패: ${file.error}`);
+  } else {
+    if (file.hasMockCookies) problems.push(`${label}이 mock 세션입니다`);
+    const targetRefresh = file.refreshTokens.filter((token) =>
+      domainMatches(token.scope, store.targetDomain),
+    );
+    const refreshProblem =
+      targetRefresh.length === 0
+        ? `${store.targetDomain} refresh_token이 없습니다`
+        : targetRefresh.some((token) => token.status === "valid")
+          ? null
+          : `${store.targetDomain} refresh_token이 만료되었습니다`;
+    if (refreshProblem) {
+      (hasValidAdminTokens ? warnings : problems).push(refreshProblem);
+    }
+    const hasLoggedInUser = file.loggedInOrigins.some((origin) =>
+      originMatchesDomain(origin, store.targetDomain),
+    );
+    if (!hasLoggedInUser) {
+      const message = `${store.targetDomain} origin에 ${LOGGED_IN_USER_KEY} localStorage가 없습니다`;
+      (REQUIRES_LOGGED_IN_USER[store.product] ? problems : warnings).push(
+        message,
+      );
+    }
+  }
+
+  if (
+    problems.length === 0 &&
+    expiresAtMs !== null &&
+    expiresAtMs - now < warnMs
+  ) {
+    warnings.push(
+      `만료 임박 (${formatRemaining(Math.max(expiresAtMs - now, 0))})`,
+    );
+  }
+
+  return {
+    product: store.product,
+    environment: store.environment,
+    storageState: file?.path ?? label,
+    targetDomain: store.targetDomain,
+    usable: problems.length === 0,
+    expiresAtMs,
+    problems,
+    warnings,
+  };
+}
+
+/**
+ * live 검증은 실제 auth host를 치므로 환경 판별 env를 토큰 도메인의 환경으로 맞춘다.
+ * @param {AuthStore} store
+ * @param {NodeJS.ProcessEnv} env
+ */
+function getLiveCheckEnv(store, env) {
+  return {
+    ...env,
+    ENVIRONMENT_INPUT: store.tokenEnvironment,
+    MAKESTAR_BASE_URL:
+      store.tokenEnvironment === "stg" ? env.MAKESTAR_BASE_URL : undefined,
+    AUTH_TARGET_DOMAIN: store.targetDomain,
+    AUTH_LIVE_CHECK: "true",
+  };
+}
+
+/**
+ * @param {CollectAuthHealthOptions} [options]
+ * @returns {Promise<AuthHealthReport>}
+ */
+async function collectAuthHealth(options = {}) {
+  const env = options.env ?? process.env;
+  const rootDir = options.rootDir ?? ROOT_DIR;
+  const now = options.now ?? Date.now();
+  const live = options.live ?? env.AUTH_HEALTH_LIVE === "true";
+  const checkLive = options.checkLive ?? checkLiveAuth;
+  const warnMs =
+    (Number(env.AUTH_WARN_HOURS) || DEFAULT_WARN_HOURS) * 60 * 60 * 1000;
+
+  /** @type {AuthStore[]} */
+  const stores = [];
+  for (const product of /** @type {AuthProduct[]} */ (
+    Object.keys(AUTH_PRODUCTS)
+  )) {
+    for (const environment of ENVIRONMENTS) {
+      stores.push(new AuthStore(product, { environment, env, rootDir }));
+    }
+  }
+
+  // 환경별 후보 파일 전체 (아직 없는 파일도 "없음"으로 보고)
+  /** @type {Map<string, "storageState" | "adminTokens">} */
+  const filePaths = new Map();
+  for (const [product, config] of Object.entries(AUTH_PRODUCTS)) {
+    for (const environment of ENVIRONMENTS) {
+      const override = env[config.storageStateEnv];
+      const candidates = override
+        ? [path.resolve(override)]
+        : config.storageStateFiles[environment].map((file) =>
+            path.join(rootDir, file),
+          );
+      for (const candidate of candidates) {
+        filePaths.set(candidate, "storageState");
+      }
+    }
+    const adminTokensPath = stores.find(
+      (store) => store.product === product,
+    )?.adminTokensPath;
+    if (adminTokensPath) filePaths.set(adminTokensPath, "adminTokens");
+  }
+  for (const store of stores) {
+    filePaths.set(store.storageStatePath, "storageState");
+  }
+
+  /** @type {Map<string, AuthFileHealth>} */
+  const files = new Map();
+  for (const [filePath, kind] of filePaths) {
+    files.set(filePath, inspectAuthFile(filePath, kind, rootDir, env, now));
+  }
+
+  /** @type {Map<string, Promise<ProductHealth["live"]>>} */
+  const liveResults = new Map();
+  /** @type {ProductHealth[]} */
+  const products = [];
+  for (const store of stores) {
+    const file = files.get(store.storageStatePath);
+    /** @type {ProductHealth} */
+    const health = {
+      ...evaluateProduct(store, file, warnMs, now),
+      live: null,
+    };
+    if (live && file?.exists && !file.error) {
+      const key = `${store.storageStatePath}|${store.tokenEnvironment}|${store.targetDomain}`;
+      if (!liveResults.has(key)) {
+        const liveEnv = getLiveCheckEnv(store, env);
+        liveResults.set(
+          key,
+          checkLive(readAuthJsonFile(store.storageStatePath, env), {
+            env: liveEnv,
+          }).then(({ ok, status, message }) => ({ ok, status, message })),
+        );
+      }
+      health.live = await liveResults.get(key);
+      if (health.live && !health.live.ok) {
+        health.problems.push(`live profile 검증 실패: ${health.live.message}`);
+        health.usable = false;
+      }
+    }
+    products.push(health);
+  }
+
+  const environment = resolveAuthEnvironment(env);
+  /** @type {AuthHealthReport["projects"]} */
+  const projects = {};
+  for (const [name, mapping] of Object.entries(PROJECT_AUTH_PRODUCTS)) {
+    const projectEnvironment = mapping.environment ?? environment;
+    const product = products.find(
+      (item) =>
+        item.product === mapping.product &&
+        item.environment === projectEnvironment,
+    );
+    projects[name] = {
+      product: mapping.product,
+      environment: projectEnvironment,
+      usable: Boolean(product?.usable),
+    };
+  }
+
+  return {
+    version: REPORT_VERSION,
+    generatedAt: new Date(now).toISOString(),
+    environment,
+    files: [...files.values()],
+    products,
+    projects,
+    runnableProjects: Object.keys(projects).filter(
+      (name) => projects[name].usable,
+    ),
+  };
+}
+
+/**
+ * 인증이 필요 없는 project(auth-offline 등)는 항상 실행 가능으로 본다.
+ * @param {AuthHealthReport} report
+ * @param {string} projectName
+ */
+function isProjectRunnable(report, projectName) {
+  return report.projects[projectName]?.usable ?? true;
+}
+
+/**
+ * @param {AuthHealthReport} report
+ * @param {string} [filePath]
+ */
+function writeAuthHealthReport(report, filePath = getAuthHealthPath()) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(report, null, 2) + "\n");
+  return filePath;
+}
+
+/**
+ * 없거나 깨졌으면 null.
+ * @param {string} [filePath]
+ * @returns {AuthHealthReport | null}
+ */
+function readAuthHealthReport(filePath = getAuthHealthPath()) {
+  try {
+    const report = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    return report?.version === REPORT_VERSION ? report : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * @param {number | null} expiresAtMs
+ * @param {number} now
+ */
+function formatExpiry(expiresAtMs, now) {
+  if (expiresAtMs === null) return "만료 시각 없음";
+  const remaining = expiresAtMs - now;
+  return remaining > 0
+    ? `잔여 ${formatRemaining(remaining)}`
+    : `만료됨 (${formatRemaining(-remaining)} 전)`;
+}
+
+/**
+ * @param {string[][]} rows - 첫 행이 header
+ */
+function formatTable(rows) {
+  // 한글은 터미널에서 2칸을 차지한다
+  const width = (/** @type {string} */ text) =>
+    [...text].reduce((sum, char) => sum + (/[ᄀ-ᇿ가-힯]/.test(char) ? 2 : 1), 0);
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => width(row[column]))),
+  );
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => cell + " ".repeat(widths[column] - width(cell)))
+        .join("  ")
+        .trimEnd(),
+    )
+    .join("\n");
+}
+
+/**
+ * @param {AuthHealthReport} report
+ * @param {number} [now]
+ */
+function formatAuthHealthTable(report, now = Date.now()) {
+  const fileRows = [["파일", "상태", "토큰", "도메인 / origin", "만료"]];
+  for (const file of report.files) {
+    const state = !file.exists
+      ? "없음"
+      : file.error
+        ? "읽기 실패"
+        : [
+            file.encrypted ? "암호화" : "평문",
+            file.kind === "storageState" ? `쿠키 ${file.cookieCount}` : "",
+            file.hasMockCookies ? "mock" : "",
+          ]
+            .filter(Boolean)
+            .join(", ");
+    const tokens = [
+      ...file.refreshTokens.map((token) => ["refresh", token]),
+      ...file.accessTokens.map((token) => ["access", token]),
+    ];
+    if (tokens.length === 0) {
+      fileRows.push([file.path, state, "-", "-", "-"]);
+      continue;
+    }
+    tokens.forEach(([name, token], index) => {
+      const health = /** @type {TokenHealth} */ (token);
+      fileRows.push([
+        index === 0 ? file.path : "",
+        index === 0 ? state : "",
+        `${name} (${health.source})`,
+        health.scope,
+        formatExpiry(health.expiresAtMs, now),
+      ]);
+    });
+  }
+
+  const productRows = [["제품", "환경", "파일", "판정", "만료", "사유"]];
+  for (const product of report.products) {
+    productRows.push([
+      product.product,
+      product.environment,
+      product.storageState,
+      product.usable ? (product.warnings.length > 0 ? "⚠️" : "✅") : "❌",
+      formatExpiry(product.expiresAtMs, now),
+      [...product.problems, ...product.warnings].join(" / ") || "-",
+    ]);
+  }
+
+  const blocked = Object.keys(report.projects).filter(
+    (name) => !report.projects[name].usable,
+  );
+  return [
+    `=== 인증 상태 (${report.generatedAt}, 현재 환경: ${report.environment}) ===`,
+    "",
+    formatTable(fileRows),
+    "",
+    formatTable(productRows),
+    "",
+    `실행 가능 project: ${report.runnableProjects.join(", ") || "없음"}`,
+    `인증 불충분 project: ${blocked.join(", ") || "없음"}`,
+  ].join("\n");
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const knownArgs = ["--json", "--live", "--strict"];
+  const unknownArgs = args.filter((arg) => !knownArgs.includes(arg));
+  if (unknownArgs.length > 0) {
+    console.error(`알 수 없는 옵션: ${unknownArgs.join(", ")}`);
+    process.exit(2);
+  }
+
+  const report = await collectAuthHealth({
+    live: args.includes("--live") || undefined,
+  });
+  const outputPath = writeAuthHealthReport(report);
+  if (args.includes("--json")) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(formatAuthHealthTable(report));
+    console.log(`\nJSON: ${path.relative(process.cwd(), outputPath)}`);
+  }
+
+  const unusable = report.products.filter(
+    (product) => product.environment === report.environment && !product.usable,
+  );
+  if (args.includes("--strict") && unusable.length > 0) {
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(
+      `auth health 점검 중 예외 발생: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+    process.exit(1);
+  });
+}
+
+module.exports = {
+  PROJECT_AUTH_PRODUCTS,
+  collectAuthHealth,
+  formatAuthHealthTable,
+  getAuthHealthPath,
+  isProjectRunnable,
+  readAuthHealthReport,
+  writeAuthHealthReport,
+};
@@ -1,4 +1,5 @@
 const fs = require("fs");
+const { readAuthJsonFile } = require("./auth-crypto");
 
 function resolveTargetDomain(env = process.env) {
   if (env.AUTH_TARGET_DOMAIN) return env.AUTH_TARGET_DOMAIN;
@@ -38,7 +39,7 @@ function getCookieExpiresMs(cookie) {
   return null;
 }
 
-function readStorageState(filePath) {
+function readStorageState(filePath, env = process.env) {
   if (!fs.existsSync(filePath)) {
     return {
       ok: false,
@@ -48,7 +49,8 @@ function readStorageState(filePath) {
   }
 
   try {
-    const state = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    // AUTH_ENCRYPTION_KEY로 암호화된 파일도 투명하게 복호화 (scripts/auth-crypto.js)
+    const state = readAuthJsonFile(filePath, env);
     return {
       ok: true,
       state,
@@ -111,10 +113,10 @@ function getRemainingParts(expiresAtMs, now = Date.now()) {
   return { hours, minutes };
 }
 
-function getAdminTokenExpiryMs(filePath) {
+function getAdminTokenExpiryMs(filePath, env = process.env) {
   try {
     if (!fs.existsSync(filePath)) return null;
-    const tokens = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    const tokens = readAuthJsonFile(filePath, env);
     const expiresAt = new Date(tokens.expiresAt).getTime();
     return Number.isFinite(expiresAt) ? expiresAt : null;
   } catch {
@@ -182,6 +184,10 @@ function mergeTokenPairs(...pairs) {
   );
 }
 
+/**
+ * @param {{ accessToken: string; refreshToken: string; userInfo?: object | null;
+ *           expiresAt?: string | null; fallbackExpiresInMs?: number }} params
+ */
 function buildAdminTokenData({
   accessToken,
   refreshToken,
@@ -293,6 +299,7 @@ module.exports = {
   formatRemaining,
   getAdminTokenExpiryMs,
   getCookieExpiresMs,
+  getJwtExpMs,
   getJwtPayload,
   getLatestRefreshTokenExpiry,
   getRefreshTokenStatuses,
@@ -0,0 +1,287 @@
+// @ts-check
+/**
+ * 제품 / 환경별 인증 저장소 (AuthStore)
+ *
+ * storageState 파일 선택, refresh_token / admin-tokens.json 만료 판정, 토큰 반영을
+ * 한 곳에서 처리한다. playwright.config.ts, global-setup.js, auto-refresh-token.js,
+ * scripts/*.js, tests/helpers가 모두 이 모듈을 쓴다 (JWT / 쿠키 파싱은 auth-state.js).
+ *
+ * 제품 / 환경별 파일:
+ *   cmr        prod: auth.json                       stg: stg-auth.json → auth.json
+ *   admin      cmr과 같은 storageState + admin-tokens.json (refresh_token 도메인은 항상 .makeuni2026.com)
+ *   albumbuddy prod / stg: ab-auth.json (refresh_token 도메인은 항상 .makestar.com)
+ * 목록의 앞쪽부터 존재하는 파일을 쓰고, 모두 없으면 첫 파일에 새로 저장한다.
+ *
+ * 환경변수:
+ *   AUTH_FILE_PATH / AB_AUTH_FILE_PATH — storageState 경로 지정 (cmr·admin / albumbuddy)
+ *   ADMIN_TOKENS_FILE_PATH             — admin-tokens.json 경로 지정
+ *   AUTH_TARGET_DOMAIN                 — refresh_token 쿠키 도메인 지정
+ *   ENVIRONMENT_INPUT / MAKESTAR_BASE_URL — stg/prod 판별
+ *   AUTH_ENCRYPTION_KEY                — 설정되면 파일을 암호화해 저장 (scripts/auth-crypto.js)
+ *
+ * CI가 `node scripts/ci-refresh-auth.js` / `node scripts/validate-auth.js`처럼 트랜스파일 없이
+ * 바로 require하므로 `.ts`로 옮기지 않고 `// @ts-check` + JSDoc 타입을 유지한다.
+ * playwright.config.ts / tests가 import하므로 `npm run typecheck`가 이 파일도 검사한다.
+ */
+
+const fs = require("fs");
+const path = require("path");
+const { materializeStorageState, writeAuthJsonFile } = require("./auth-crypto");
+const {
+  applyTokenPair,
+  domainMatches,
+  findRefreshTokens,
+  getAdminTokenExpiryMs,
+  getCookieExpiresMs,
+  getLatestRefreshTokenExpiry,
+  getRemainingParts,
+  readStorageState,
+  resolveTargetDomain,
+} = require("./auth-state");
+
+/** @typedef {"cmr" | "admin" | "albumbuddy"} AuthProduct */
+/** @typedef {"prod" | "stg"} AuthEnvironment */
+
+/**
+ * @typedef {object} AuthProductConfig
+ * @property {Record<AuthEnvironment, string[]>} storageStateFiles - 저장소 루트 기준 후보 (우선순위 순)
+ * @property {string} storageStateEnv - 경로를 직접 지정하는 환경변수
+ * @property {boolean} adminTokens - admin-tokens.json 사용 여부
+ * @property {string} [cookieDomain] - 환경과 무관하게 고정된 refresh_token 도메인
+ */
+
+/**
+ * @typedef {object} AuthStoreOptions
+ * @property {AuthEnvironment} [environment] - 생략하면 env로 판별
+ * @property {NodeJS.ProcessEnv} [env]
+ * @property {string} [rootDir] - 기본 파일 위치 (기본: 저장소 루트)
+ */
+
+/**
+ * @typedef {object} AuthStoreStatus
+ * @property {AuthProduct} product
+ * @property {AuthEnvironment} environment
+ * @property {string} storageStatePath
+ * @property {boolean} exists
+ * @property {string | null} error - 파일 없음 / 파싱 실패 사유
+ * @property {number} cookieCount
+ * @property {boolean} hasMockCookies - mock_session / mock_token 값이 들어간 더미 세션
+ * @property {number | null} refreshExpiresAtMs - target 도메인 refresh_token 만료 (가장 늦은 값)
+ * @property {number | null} adminExpiresAtMs
+ * @property {Array<{ domain: string; expiresAtMs: number }>} otherValidRefreshTokens - target 밖 도메인의 유효 refresh_token
+ */
+
+const ROOT_DIR = path.join(__dirname, "..");
+const DEFAULT_BUFFER_MS = 60 * 1000;
+
+/** @type {Record<AuthProduct, AuthProductConfig>} */
+const AUTH_PRODUCTS = {
+  cmr: {
+    storageStateFiles: {
+      prod: ["auth.json"],
+      stg: ["stg-auth.json", "auth.json"],
+    },
+    storageStateEnv: "AUTH_FILE_PATH",
+    adminTokens: false,
+  },
+  admin: {
+    storageStateFiles: {
+      prod: ["auth.json"],
+      stg: ["stg-auth.json", "auth.json"],
+    },
+    storageStateEnv: "AUTH_FILE_PATH",
+    adminTokens: true,
+    // Admin은 STG(stage-new-admin.makeuni2026.com)에만 있어 기본(prod) 실행에서도 STG 토큰을 본다
+    cookieDomain: ".makeuni2026.com",
+  },
+  albumbuddy: {
+    storageStateFiles: {
+      prod: ["ab-auth.json"],
+      stg: ["ab-auth.json"],
+    },
+    storageStateEnv: "AB_AUTH_FILE_PATH",
+    adminTokens: false,
+    // AlbumBuddy는 prod(.makestar.com) 세션만 있다
+    cookieDomain: ".makestar.com",
+  },
+};
+
+/**
+ * @param {NodeJS.ProcessEnv} [env]
+ * @returns {AuthEnvironment}
+ */
+function resolveAuthEnvironment(env = process.env) {
+  const isStg =
+    env.MAKESTAR_BASE_URL?.includes("stage") || env.ENVIRONMENT_INPUT === "stg";
+  return isStg ? "stg" : "prod";
+}
+
+class AuthStore {
+  /**
+   * @param {AuthProduct} product
+   * @param {AuthStoreOptions} [options]
+   */
+  constructor(product, options = {}) {
+    const config = AUTH_PRODUCTS[product];
+    if (!config) throw new Error(`알 수 없는 인증 제품입니다: ${product}`);
+    const env = options.env ?? process.env;
+    const rootDir = options.rootDir ?? ROOT_DIR;
+
+    /** @readonly */
+    this.product = product;
+    /** 파일 경로 / 암호화 키를 읽는 환경 @private */
+    this.env = env;
+    /** @readonly @type {AuthEnvironment} */
+    this.environment = options.environment ?? resolveAuthEnvironment(env);
+
+    const override = env[config.storageStateEnv];
+    const candidates = override
+      ? [path.resolve(override)]
+      : config.storageStateFiles[this.environment].map((file) =>
+          path.join(rootDir, file),
+        );
+    /** 읽기 / 쓰기 모두 이 경로를 쓴다 (생성 시점에 확정) @readonly */
+    this.storageStatePath =
+      candidates.find((candidate) => fs.existsSync(candidate)) ?? candidates[0];
+    /** @readonly @type {string | null} */
+    this.adminTokensPath = config.adminTokens
+      ? env.ADMIN_TOKENS_FILE_PATH
+        ? path.resolve(env.ADMIN_TOKENS_FILE_PATH)
+        : path.join(rootDir, "admin-tokens.json")
+      : null;
+    /** @readonly */
+    this.targetDomain =
+      env.AUTH_TARGET_DOMAIN ||
+      config.cookieDomain ||
+      resolveTargetDomain({ ...env, ENVIRONMENT_INPUT: this.environment });
+    /**
+     * refresh_token을 발급한 auth host의 환경. 도메인이 고정된 제품(admin → STG,
+     * albumbuddy → prod)은 실행 환경과 다를 수 있다 @readonly @type {AuthEnvironment}
+     */
+    this.tokenEnvironment =
+      /** @type {AuthEnvironment[]} */ (["prod", "stg"]).find((environment) =>
+        domainMatches(
+          this.targetDomain,
+          resolveTargetDomain({ ENVIRONMENT_INPUT: environment }),
+        ),
+      ) ?? this.environment;
+  }
+
+  readStorageState() {
+    return readStorageState(this.storageStatePath, this.env);
+  }
+
+  /** Playwright `storageState`에 넘길 평문 경로 (암호화된 파일이면 임시 복호화본) */
+  getPlaywrightStorageStatePath() {
+    return materializeStorageState(this.storageStatePath, this.env);
+  }
+
+  /** target 도메인 refresh_token 쿠키 중 가장 늦은 만료 시각 (ms) */
+  getRefreshTokenExpiryMs() {
+    const state = this.readStorageState();
+    return state.ok
+      ? getLatestRefreshTokenExpiry(state.cookies, this.targetDomain)
+      : null;
+  }
+
+  /** @returns {number | null} */
+  getAdminTokenExpiryMs() {
+    return this.adminTokensPath
+      ? getAdminTokenExpiryMs(this.adminTokensPath, this.env)
+      : null;
+  }
+
+  /** admin-tokens.json / refresh_token 중 늦은 만료 시각 (ms) */
+  getExpiryMs() {
+    const candidates = [
+      this.getAdminTokenExpiryMs(),
+      this.getRefreshTokenExpiryMs(),
+    ].filter((value) => typeof value === "number");
+    return candidates.length > 0 ? Math.max(...candidates) : null;
+  }
+
+  /** 만료까지 bufferMs(기본 1분) 이상 남았는지 */
+  isValid(bufferMs = DEFAULT_BUFFER_MS, now = Date.now()) {
+    const expiresAt = this.getExpiryMs();
+    return expiresAt !== null && expiresAt - bufferMs > now;
+  }
+
+  /** @returns {{ hours: number; minutes: number }} */
+  getRemaining(now = Date.now()) {
+    const expiresAt = this.getExpiryMs();
+    return expiresAt
+      ? getRemainingParts(expiresAt, now)
+      : { hours: 0, minutes: 0 };
+  }
+
+  /**
+   * 파일 상태 요약. 로그 / 설정 분기용이라 예외를 던지지 않는다.
+   * @returns {AuthStoreStatus}
+   */
+  inspect(now = Date.now()) {
+    const state = this.readStorageState();
+    const cookies = state.ok ? state.cookies : [];
+    return {
+      product: this.product,
+      environment: this.environment,
+      storageStatePath: this.storageStatePath,
+      exists: state.ok || state.code !== "missing",
+      error: state.ok ? null : (state.message ?? null),
+      cookieCount: cookies.length,
+      hasMockCookies: cookies.some(
+        (cookie) =>
+          cookie.value?.includes("mock_session") ||
+          cookie.value?.includes("mock_token"),
+      ),
+      refreshExpiresAtMs: getLatestRefreshTokenExpiry(
+        cookies,
+        this.targetDomain,
+      ),
+      adminExpiresAtMs: this.getAdminTokenExpiryMs(),
+      otherValidRefreshTokens: findRefreshTokens(cookies)
+        .filter((cookie) => !domainMatches(cookie.domain, this.targetDomain))
+        .map((cookie) => ({
+          domain: cookie.domain || "unknown",
+          expiresAtMs: getCookieExpiresMs(cookie),
+        }))
+        .filter(({ expiresAtMs }) => expiresAtMs !== null && expiresAtMs > now),
+    };
+  }
+
+  /**
+   * refresh grant로 받은 토큰을 storageState에 반영해 저장한다.
+   * 파일이 없거나 깨져 있으면 false.
+   * @param {{ access?: string | null; refresh?: string | null; appOrigin: string }} tokens
+   */
+  applyTokens({ access, refresh, appOrigin }) {
+    const state = this.readStorageState();
+    if (!state.ok) return false;
+    applyTokenPair(state.state, {
+      access,
+      refresh,
+      appOrigin,
+      cookieDomain: this.targetDomain,
+    });
+    this.writeStorageState(state.state);
+    return true;
+  }
+
+  /** @param {unknown} state */
+  writeStorageState(state) {
+    writeAuthJsonFile(this.storageStatePath, state, this.env);
+  }
+
+  /** @param {unknown} tokenData - buildAdminTokenData() 결과 */
+  writeAdminTokens(tokenData) {
+    if (!this.adminTokensPath) {
+      throw new Error(`${this.product}는 admin-tokens.json을 쓰지 않습니다`);
+    }
+    writeAuthJsonFile(this.adminTokensPath, tokenData, this.env);
+  }
+}
+
+module.exports = {
+  AUTH_PRODUCTS,
+  AuthStore,
+  resolveAuthEnvironment,
+};
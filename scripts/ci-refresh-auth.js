@@ -20,7 +20,6 @@
  */
 
 const { chromium } = require("@playwright/test");
-const fs = require("fs");
 const path = require("path");
 const {
   applyTokenPair,
@@ -29,22 +28,19 @@ const {
   findRefreshTokens,
   getLatestRefreshTokenExpiry,
   mergeCookies,
-  readStorageState,
-  resolveTargetDomain,
 } = require("./auth-state");
+const { AuthStore } = require("./auth-store");
 const { checkLiveAuth } = require("./live-auth-check");
 const { refreshAccessToken } = require("./refresh-grant");
 
-const AUTH_FILE =
-  process.env.AUTH_FILE_PATH || path.join(process.cwd(), "auth.json");
+const authStore = new AuthStore("cmr");
+const AUTH_FILE = authStore.storageStatePath;
 const AUTH_FILE_LABEL = path.basename(AUTH_FILE);
 const FORCE = process.argv.includes("--force");
 const REFRESH_THRESHOLD_MS = 2 * 60 * 60 * 1000; // 2시간 이내면 갱신 시도
 
-// STG 환경 감지: MAKESTAR_BASE_URL 또는 ENVIRONMENT_INPUT으로 판별
-const isSTG =
-  process.env.MAKESTAR_BASE_URL?.includes("stage") ||
-  process.env.ENVIRONMENT_INPUT === "stg";
+// STG 환경 감지: MAKESTAR_BASE_URL 또는 ENVIRONMENT_INPUT으로 판별 (AuthStore)
+const isSTG = authStore.environment === "stg";
 
 const LOGIN_URL = isSTG
   ? "https://stage-auth.makeuni2026.com/login/?application=MAKESTAR&redirect_url=https://stage-new.makeuni2026.com/my-page"
@@ -57,10 +53,7 @@ const SUCCESS_HOSTNAME = isSTG
   : "www.makestar.com";
 const AUTH_HOST = isSTG ? "stage-auth.makeuni2026.com" : "auth.makestar.com";
 const APP_ORIGIN = `https://${SUCCESS_HOSTNAME}`;
-const TARGET_REFRESH_DOMAIN = resolveTargetDomain({
-  ...process.env,
-  ENVIRONMENT_INPUT: process.env.ENVIRONMENT_INPUT || (isSTG ? "stg" : "prod"),
-});
+const TARGET_REFRESH_DOMAIN = authStore.targetDomain;
 
 function isSuccessUrl(url) {
   try {
@@ -178,7 +171,7 @@ async function tryRefreshGrant(auth, cookies) {
     appOrigin: APP_ORIGIN,
     cookieDomain: TARGET_REFRESH_DOMAIN,
   });
-  fs.writeFileSync(AUTH_FILE, JSON.stringify(auth, null, 2));
+  authStore.writeStorageState(auth);
 
   log(
     `refresh grant로 access 재발급 성공 (rotation: ${result.refresh ? "예" : "아니오"})`,
@@ -188,7 +181,7 @@ async function tryRefreshGrant(auth, cookies) {
 
 async function refreshAuth() {
   // 1. auth.json 로드
-  const authState = readStorageState(AUTH_FILE);
+  const authState = authStore.readStorageState();
   if (!authState.ok && authState.code === "missing") {
     log(`${AUTH_FILE_LABEL} 없음 — 갱신 불가`);
     return false;
@@ -418,7 +411,7 @@ async function saveRefreshedAuth(originalAuth, context, page, currentUrl) {
     ),
   };
 
-  fs.writeFileSync(AUTH_FILE, JSON.stringify(updated, null, 2));
+  authStore.writeStorageState(updated);
 
   // 갱신된 토큰 확인
   const exp = getRefreshTokenExp(merged);
@@ -14,6 +14,7 @@
 import { chromium, type Page, type BrowserContext } from "@playwright/test";
 import * as fs from "fs";
 import * as path from "path";
+import { materializeStorageState } from "./auth-crypto";
 
 type Product = "cmr" | "admin" | "albumbuddy";
 
@@ -200,7 +201,9 @@ async function crawl(product: Product): Promise<CrawlItem[]> {
 
   const browser = await chromium.launch({ headless: true });
   const context: BrowserContext = await browser.newContext({
-    storageState: hasAuth ? cfg.storageState : undefined,
+    storageState: hasAuth
+      ? materializeStorageState(cfg.storageState)
+      : undefined,
   });
   const page = await context.newPage();
 
@@ -0,0 +1,261 @@
+// @ts-check
+/**
+ * False-green 검사(scripts/check-false-green.js) 기준선(ratchet) / SARIF 출력
+ *
+ * strict 패턴은 기존 부채가 많아 그대로는 게이트로 쓸 수 없으므로, 현재 남아 있는 위반을
+ * 기준선 파일에 기록하고 기준선에 없는 "새" 위반만 실패로 본다.
+ *
+ * fingerprint:
+ *   파일 + 규칙 + 코드 조각(공백 정규화)의 sha1 앞 16자. 줄 번호는 넣지 않아 위아래 코드가
+ *   바뀌어도 유지된다. 같은 파일 / 규칙 / 조각이 여러 번 나오면 `#2`, `#3`… 순번을 붙인다
+ *   (앞쪽 하나를 고치면 뒤쪽이 앞 순번을 물려받으므로 새 위반으로 잡히지 않는다).
+ *
+ * 기준선 파일 (기본: scripts/false-green-baseline.json):
+ *   { version, violations: [{ fingerprint, file, rule, snippet }] }
+ *
+ * gate 규칙(test.only / fixme / 무조건 skip)은 기준선에 넣지 않고 항상 실패로 본다.
+ */
+
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+
+const BASELINE_VERSION = 1;
+const DEFAULT_BASELINE_PATH = path.join(__dirname, "false-green-baseline.json");
+const SNIPPET_MAX_LENGTH = 120;
+
+/**
+ * @typedef {object} FalseGreenViolation
+ * @property {string} rule - 규칙 id (check-false-green.js RULES)
+ * @property {boolean} gate - 기준선과 무관하게 항상 실패하는 규칙인지
+ * @property {string} file - 저장소 기준 상대 경로 (`/` 구분)
+ * @property {number} line
+ * @property {number} column
+ * @property {string} location - `file:line:column`
+ * @property {string} reason
+ * @property {string} snippet - fingerprint 대상 코드 조각
+ * @property {string} [fingerprint]
+ */
+
+/**
+ * @typedef {object} BaselineEntry
+ * @property {string} fingerprint
+ * @property {string} file
+ * @property {string} rule
+ * @property {string} snippet - 사람이 읽는 용도 (앞 SNIPPET_MAX_LENGTH자)
+ */
+
+/** @typedef {{ version: number, violations: BaselineEntry[] }} FalseGreenBaseline */
+
+/** @param {string} snippet */
+function normalizeSnippet(snippet) {
+  return snippet.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * 위반마다 fingerprint를 붙인 새 배열을 돌려준다 (입력 순서 유지).
+ * @param {FalseGreenViolation[]} violations
+ * @returns {Array<FalseGreenViolation & { fingerprint: string }>}
+ */
+function fingerprintViolations(violations) {
+  /** @type {Map<string, number>} */
+  const seen = new Map();
+
+  return violations.map((violation) => {
+    const hash = crypto
+      .createHash("sha1")
+      .update(
+        [
+          violation.file,
+          violation.rule,
+          normalizeSnippet(violation.snippet),
+        ].join("\n"),
+      )
+      .digest("hex")
+      .slice(0, 16);
+    const occurrence = (seen.get(hash) ?? 0) + 1;
+    seen.set(hash, occurrence);
+
+    return {
+      ...violation,
+      fingerprint: occurrence === 1 ? hash : `${hash}#${occurrence}`,
+    };
+  });
+}
+
+/**
+ * @param {string} [filePath]
+ * @returns {FalseGreenBaseline | null} 파일이 없으면 null
+ */
+function readBaseline(filePath = DEFAULT_BASELINE_PATH) {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  const baseline = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+
+  if (baseline.version !== BASELINE_VERSION) {
+    throw new Error(
+      `지원하지 않는 false-green 기준선 버전입니다: ${baseline.version} (${filePath})`,
+    );
+  }
+
+  return baseline;
+}
+
+/**
+ * @param {FalseGreenBaseline} baseline
+ * @param {string} [filePath]
+ */
+function writeBaseline(baseline, filePath = DEFAULT_BASELINE_PATH) {
+  fs.writeFileSync(filePath, `${JSON.stringify(baseline, null, 2)}\n`);
+  return filePath;
+}
+
+/** @param {FalseGreenViolation & { fingerprint: string }} violation @returns {BaselineEntry} */
+function toBaselineEntry(violation) {
+  return {
+    fingerprint: violation.fingerprint,
+    file: violation.file,
+    rule: violation.rule,
+    snippet: normalizeSnippet(violation.snippet).slice(0, SNIPPET_MAX_LENGTH),
+  };
+}
+
+/** @param {BaselineEntry[]} entries */
+function sortEntries(entries) {
+  return [...entries].sort(
+    (a, b) =>
+      a.file.localeCompare(b.file) ||
+      a.rule.localeCompare(b.rule) ||
+      a.fingerprint.localeCompare(b.fingerprint),
+  );
+}
+
+/**
+ * 현재 위반을 기준선과 비교한다.
+ * @param {Array<FalseGreenViolation & { fingerprint: string }>} violations
+ * @param {FalseGreenBaseline | null} baseline
+ */
+function compareWithBaseline(violations, baseline) {
+  const known = new Set(
+    (baseline?.violations ?? []).map((entry) => entry.fingerprint),
+  );
+  const current = new Set(violations.map((violation) => violation.fingerprint));
+
+  return {
+    newViolations: violations.filter(
+      (violation) => violation.gate || !known.has(violation.fingerprint),
+    ),
+    baselined: violations.filter(
+      (violation) => !violation.gate && known.has(violation.fingerprint),
+    ),
+    fixed: (baseline?.violations ?? []).filter(
+      (entry) => !current.has(entry.fingerprint),
+    ),
+  };
+}
+
+/**
+ * 기준선을 갱신한다. 고쳐진 항목은 지우고, 새 위반은 acceptNew일 때(또는 기준선이 없을 때)만 넣는다.
+ * gate 규칙 위반은 어떤 경우에도 넣지 않는다.
+ * @param {Array<FalseGreenViolation & { fingerprint: string }>} violations
+ * @param {FalseGreenBaseline | null} baseline
+ * @param {{ acceptNew?: boolean }} [options]
+ */
+function updateBaseline(violations, baseline, options = {}) {
+  const { newViolations, baselined, fixed } = compareWithBaseline(
+    violations,
+    baseline,
+  );
+  const acceptNew = options.acceptNew || baseline === null;
+  const added = acceptNew
+    ? newViolations.filter((violation) => !violation.gate)
+    : [];
+  const rejected = newViolations.filter(
+    (violation) => violation.gate || !acceptNew,
+  );
+
+  return {
+    baseline: {
+      version: BASELINE_VERSION,
+      violations: sortEntries(
+        [...baselined, ...added].map((violation) => toBaselineEntry(violation)),
+      ),
+    },
+    added,
+    removed: fixed,
+    rejected,
+  };
+}
+
+/**
+ * GitHub code scanning 등에서 읽는 SARIF 2.1.0.
+ * newFingerprints(기준선 비교 결과)를 넘기면 기준선 위반은 warning / `unchanged`, 새 위반은 error / `new`로 표시한다.
+ * @param {Array<FalseGreenViolation & { fingerprint: string }>} violations
+ * @param {Record<string, { gate: boolean, description: string }>} rules
+ * @param {{ newFingerprints?: Set<string> | null }} [options]
+ */
+function buildSarif(violations, rules, options = {}) {
+  const ruleIds = Object.keys(rules);
+  const newFingerprints = options.newFingerprints ?? null;
+
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "check-false-green",
+            rules: ruleIds.map((id) => ({
+              id,
+              shortDescription: { text: rules[id].description },
+              defaultConfiguration: {
+                level: rules[id].gate ? "error" : "warning",
+              },
+              properties: { gate: rules[id].gate },
+            })),
+          },
+        },
+        results: violations.map((violation) => {
+          const isNew = newFingerprints
+            ? newFingerprints.has(violation.fingerprint)
+            : null;
+          return {
+            ruleId: violation.rule,
+            ruleIndex: ruleIds.indexOf(violation.rule),
+            level: violation.gate || isNew ? "error" : "warning",
+            message: { text: violation.reason },
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: { uri: violation.file },
+                  region: {
+                    startLine: violation.line,
+                    startColumn: violation.column,
+                  },
+                },
+              },
+            ],
+            partialFingerprints: { "falseGreen/v1": violation.fingerprint },
+            ...(isNew === null
+              ? {}
+              : { baselineState: isNew ? "new" : "unchanged" }),
+          };
+        }),
+      },
+    ],
+  };
+}
+
+module.exports = {
+  BASELINE_VERSION,
+  DEFAULT_BASELINE_PATH,
+  buildSarif,
+  compareWithBaseline,
+  fingerprintViolations,
+  readBaseline,
+  updateBaseline,
+  writeBaseline,
+};
@@ -0,0 +1,706 @@
+// @ts-check
+/**
+ * 기능(@feature 태그) 커버리지 리포트
+ *
+ * spec 파일을 실행하지 않고 TypeScript AST로 읽어 test / describe 제목과 `{ tag }` 옵션의
+ * `@feature:` / `@suite:` 태그를 TC ID와 함께 모은다 (describe 태그는 하위 test에 상속).
+ * 이를 scripts/coverage-seeds.json + 제품별 최신 coverage-crawl-*.json의 라우트와 잇고,
+ * Playwright JSON 결과(test-results/results.json)가 있으면 최근 결과를 붙여
+ * 기능별 매트릭스(연결된 라우트, 테스트 수, 최근 결과)와 테스트 없는 라우트를 Markdown / JSON으로 남긴다.
+ *
+ * 태그 → 라우트: `cmr.search.filters` → `/search/filters`처럼 제품 이후 segment를 경로로 쓰고,
+ * 이름이 다른 경로는 scripts/coverage-feature-routes.json에 등록한다. 기능 경로가 라우트와 같거나
+ * 그 하위(`/purchase/toss/card` → `/purchase`)면 그 라우트를 커버한 것으로 본다.
+ *
+ * 사용:
+ *   node scripts/feature-coverage.js              # 요약 출력 + coverage-report/feature-coverage.{md,json}
+ *   node scripts/feature-coverage.js --markdown   # Markdown 전체를 stdout으로
+ *   node scripts/feature-coverage.js --json       # JSON을 stdout으로
+ *   node scripts/feature-coverage.js --results=path/to/results.json --out-dir=path
+ */
+
+const fs = require("fs");
+const path = require("path");
+const ts = require("typescript");
+
+const ROOT_DIR = path.join(__dirname, "..");
+const REPORT_VERSION = 1;
+const DEFAULT_OUT_DIR = "coverage-report";
+const TAG_PATTERN = /@(feature|suite):([A-Za-z0-9_.-]+)/g;
+const TC_ID_PATTERN = /^([A-Z][A-Z0-9]*(?:-[A-Z0-9]+)+)(?=[:\s]|$)/;
+const CRAWL_FILE_PATTERN = /^coverage-crawl-([a-z]+)(?:[-_.][^/]*)?\.json$/;
+const TEST_MODIFIERS = ["only", "skip", "fixme", "fail", "slow"];
+const DESCRIBE_MODIFIERS = ["only", "skip", "fixme", "serial", "parallel"];
+
+/** 태그 첫 segment → coverage-seeds.json 제품 키 */
+const FEATURE_PRODUCTS = {
+  cmr: "cmr",
+  albumbuddy: "albumbuddy",
+  admin_makestar: "admin",
+  admin_pocaalbum: "admin",
+};
+
+/** 결과 우선순위 (앞일수록 나쁨) — 기능의 최근 결과는 가장 나쁜 테스트 결과 */
+const STATUS_ORDER = ["failed", "flaky", "passed", "skipped", "unknown"];
+const STATUS_ICONS = {
+  failed: "❌",
+  flaky: "⚠️",
+  passed: "✅",
+  skipped: "⏭️",
+  unknown: "—",
+};
+
+/**
+ * @typedef {"failed" | "flaky" | "passed" | "skipped" | "unknown"} CoverageStatus
+ */
+
+/**
+ * @typedef {object} TaggedTest
+ * @property {string} file - rootDir 기준 경로
+ * @property {number} line
+ * @property {string} title - 태그를 뺀 test 제목
+ * @property {string} fullTitle - describe 제목 포함
+ * @property {string | null} tcId
+ * @property {string[]} features
+ * @property {string[]} suites
+ * @property {boolean} dynamic - 제목이 템플릿 / 변수라 실제 제목과 개수를 정적으로 알 수 없음
+ * @property {CoverageStatus} [status]
+ */
+
+/**
+ * @typedef {object} CoverageRoute
+ * @property {string} product
+ * @property {string} route
+ * @property {string[]} sources - "seed" / "crawl"
+ * @property {string | null} title
+ * @property {string[]} features
+ * @property {number} testCount
+ * @property {boolean} covered
+ */
+
+/** @param {ts.Node} node @returns {string[]} */
+function getPropertyChain(node) {
+  if (ts.isIdentifier(node)) return [node.text];
+  if (ts.isPropertyAccessExpression(node)) {
+    return [...getPropertyChain(node.expression), node.name.text];
+  }
+  if (ts.isCallExpression(node)) return getPropertyChain(node.expression);
+  return [];
+}
+
+/**
+ * @param {string} text
+ * @returns {{ features: string[], suites: string[] }}
+ */
+function parseTags(text) {
+  const features = [];
+  const suites = [];
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    (match[1] === "feature" ? features : suites).push(match[2]);
+  }
+  return { features, suites };
+}
+
+/** @param {string} title */
+function stripTags(title) {
+  return title.replace(TAG_PATTERN, "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * 제목 앞의 TC ID (`CMR-SEARCH-01: ...` → `CMR-SEARCH-01`)
+ * @param {string} title
+ * @returns {string | null}
+ */
+function parseTcId(title) {
+  return stripTags(title).match(TC_ID_PATTERN)?.[1] ?? null;
+}
+
+/**
+ * @param {ts.Expression | undefined} node
+ * @returns {{ text: string, dynamic: boolean }}
+ */
+function readTitle(node) {
+  if (!node) return { text: "", dynamic: false };
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return { text: node.text, dynamic: false };
+  }
+  return { text: node.getText().replace(/^`|`$/g, ""), dynamic: true };
+}
+
+/**
+ * `{ tag: "@a" }` / `{ tag: ["@a", "@b"] }`
+ * @param {readonly ts.Expression[]} args
+ */
+function readTagOption(args) {
+  const tags = [];
+  for (const arg of args) {
+    if (!ts.isObjectLiteralExpression(arg)) continue;
+    for (const property of arg.properties) {
+      if (
+        !ts.isPropertyAssignment(property) ||
+        property.name.getText() !== "tag"
+      ) {
+        continue;
+      }
+      const values = ts.isArrayLiteralExpression(property.initializer)
+        ? property.initializer.elements
+        : [property.initializer];
+      for (const value of values) {
+        if (ts.isStringLiteralLike(value)) tags.push(value.text);
+      }
+    }
+  }
+  return tags.join(" ");
+}
+
+/** `import { test }` / `import { test as harTest }`로 들어온 로컬 이름 */
+function getTestIdentifiers(sourceFile) {
+  const names = new Set();
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement)) continue;
+    const bindings = statement.importClause?.namedBindings;
+    if (!bindings || !ts.isNamedImports(bindings)) continue;
+    for (const element of bindings.elements) {
+      const imported = (element.propertyName ?? element.name).text;
+      if (imported === "test") names.add(element.name.text);
+    }
+  }
+  return names;
+}
+
+/**
+ * @param {ts.CallExpression} node
+ * @param {Set<string>} testNames
+ * @returns {"test" | "describe" | null}
+ */
+function classifyCall(node, testNames) {
+  const chain = getPropertyChain(node.expression);
+  if (!testNames.has(chain[0])) return null;
+  const hasCallback = node.arguments.some(
+    (arg) => ts.isArrowFunction(arg) || ts.isFunctionExpression(arg),
+  );
+  if (!hasCallback) return null;
+
+  const rest = chain.slice(1);
+  if (rest[0] === "describe") {
+    return rest.slice(1).every((name) => DESCRIBE_MODIFIERS.includes(name))
+      ? "describe"
+      : null;
+  }
+  const [first] = node.arguments;
+  const hasTitle =
+    first !== undefined &&
+    !ts.isArrowFunction(first) &&
+    !ts.isFunctionExpression(first);
+  return hasTitle && rest.every((name) => TEST_MODIFIERS.includes(name))
+    ? "test"
+    : null;
+}
+
+/**
+ * spec 하나의 test 선언과 태그.
+ * @param {string} filePath
+ * @param {string} [rootDir]
+ * @returns {TaggedTest[]}
+ */
+function extractSpecTags(filePath, rootDir = ROOT_DIR) {
+  const sourceFile = ts.createSourceFile(
+    filePath,
+    fs.readFileSync(filePath, "utf-8"),
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.TS,
+  );
+  const testNames = getTestIdentifiers(sourceFile);
+  const file = path.relative(rootDir, filePath).split(path.sep).join("/");
+  /** @type {TaggedTest[]} */
+  const tests = [];
+
+  /**
+   * @param {ts.Node} node
+   * @param {{ titles: string[], features: string[], suites: string[] }} scope
+   */
+  function visit(node, scope) {
+    const kind = ts.isCallExpression(node)
+      ? classifyCall(node, testNames)
+      : null;
+    if (!kind || !ts.isCallExpression(node)) {
+      ts.forEachChild(node, (child) => visit(child, scope));
+      return;
+    }
+
+    const firstArg = node.arguments[0];
+    const titleArg =
+      firstArg && !ts.isArrowFunction(firstArg) ? firstArg : undefined;
+    const title = readTitle(titleArg);
+    const tags = parseTags(`${title.text} ${readTagOption(node.arguments)}`);
+    const features = [...new Set([...scope.features, ...tags.features])];
+    const suites = [...new Set([...scope.suites, ...tags.suites])];
+    const plainTitle = stripTags(title.text);
+
+    if (kind === "describe") {
+      const callback = node.arguments.find(
+        (arg) => ts.isArrowFunction(arg) || ts.isFunctionExpression(arg),
+      );
+      const titles = plainTitle ? [...scope.titles, plainTitle] : scope.titles;
+      if (callback) visit(callback, { titles, features, suites });
+      return;
+    }
+
+    tests.push({
+      file,
+      line: sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1,
+      title: plainTitle,
+      fullTitle: [...scope.titles, plainTitle].join(" > "),
+      tcId: title.dynamic ? null : parseTcId(plainTitle),
+      features,
+      suites,
+      dynamic: title.dynamic,
+    });
+  }
+
+  visit(sourceFile, { titles: [], features: [], suites: [] });
+  return tests;
+}
+
+/** @param {string} dir @returns {string[]} */
+function collectSpecFiles(dir) {
+  if (!fs.existsSync(dir)) return [];
+  const files = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name !== "backup" && entry.name !== "node_modules") {
+        files.push(...collectSpecFiles(fullPath));
+      }
+    } else if (entry.isFile() && entry.name.endsWith(".spec.ts")) {
+      files.push(fullPath);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * 태그 → { product, route }. 가장 긴 prefix 매핑을 쓰고 남은 segment를 붙인다.
+ * @param {string} feature
+ * @param {Record<string, string>} featureRoutes
+ */
+function resolveFeatureRoute(feature, featureRoutes) {
+  const segments = feature.split(".");
+  const product = FEATURE_PRODUCTS[segments[0]] ?? segments[0];
+  for (let length = segments.length; length >= 1; length--) {
+    const base = featureRoutes[segments.slice(0, length).join(".")];
+    if (base === undefined) continue;
+    const route = path.posix.join(base, ...segments.slice(length));
+    return { product, route: route.replace(/\/+$/, "") || "/" };
+  }
+  return { product, route: `/${segments.slice(1).join("/")}` };
+}
+
+/**
+ * @param {string} featureRoute
+ * @param {string} route
+ */
+function featureCoversRoute(featureRoute, route) {
+  return (
+    featureRoute === route ||
+    (route !== "/" && featureRoute.startsWith(`${route}/`))
+  );
+}
+
+/** @param {string} filePath */
+function readJson(filePath) {
+  return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+}
+
+/**
+ * 제품별 최신(mtime) coverage-crawl-*.json
+ * @param {string} crawlDir
+ * @returns {Record<string, string>}
+ */
+function findLatestCrawlFiles(crawlDir) {
+  /** @type {Record<string, { file: string, mtimeMs: number }>} */
+  const latest = {};
+  if (!fs.existsSync(crawlDir)) return {};
+  for (const name of fs.readdirSync(crawlDir)) {
+    const match = name.match(CRAWL_FILE_PATTERN);
+    if (!match) continue;
+    const file = path.join(crawlDir, name);
+    const { mtimeMs } = fs.statSync(file);
+    if (!latest[match[1]] || latest[match[1]].mtimeMs < mtimeMs) {
+      latest[match[1]] = { file, mtimeMs };
+    }
+  }
+  return Object.fromEntries(
+    Object.entries(latest).map(([product, { file }]) => [product, file]),
+  );
+}
+
+/**
+ * Playwright JSON reporter 결과 → `<testDir 기준 파일>:<line>`별 최근 결과.
+ * 같은 위치(반복문으로 만든 test, 여러 project)는 가장 나쁜 결과로 합친다.
+ * @param {string} resultsPath
+ * @returns {Map<string, CoverageStatus> | null}
+ */
+function readResultStatuses(resultsPath) {
+  if (!fs.existsSync(resultsPath)) return null;
+  let data;
+  try {
+    data = readJson(resultsPath);
+  } catch {
+    return null;
+  }
+  /** @type {Map<string, CoverageStatus>} */
+  const statuses = new Map();
+
+  function toStatus(test) {
+    if (test.status === "unexpected") return "failed";
+    if (test.status === "flaky") return "flaky";
+    if (test.status === "skipped") return "skipped";
+    const last = test.results?.[test.results.length - 1];
+    return last?.status === "skipped" ? "skipped" : "passed";
+  }
+
+  function walk(suite) {
+    for (const spec of suite.specs ?? []) {
+      const key = `${String(spec.file).split(path.sep).join("/")}:${spec.line}`;
+      for (const test of spec.tests ?? []) {
+        statuses.set(key, worstStatus([statuses.get(key), toStatus(test)]));
+      }
+    }
+    for (const child of suite.suites ?? []) walk(child);
+  }
+  for (const suite of data.suites ?? []) walk(suite);
+  return statuses;
+}
+
+/**
+ * @param {Array<CoverageStatus | undefined>} statuses
+ * @returns {CoverageStatus}
+ */
+function worstStatus(statuses) {
+  let worst = STATUS_ORDER.length - 1;
+  for (const status of statuses) {
+    if (status) worst = Math.min(worst, STATUS_ORDER.indexOf(status));
+  }
+  return /** @type {CoverageStatus} */ (STATUS_ORDER[worst]);
+}
+
+/**
+ * @param {object} [options]
+ * @param {string} [options.rootDir]
+ * @param {string} [options.testDir]
+ * @param {string} [options.seedsPath]
+ * @param {string} [options.featureRoutesPath]
+ * @param {string} [options.crawlDir] - coverage-crawl-*.json 위치 (기본: rootDir)
+ * @param {string} [options.resultsPath] - Playwright JSON 결과 (기본: test-results/results.json)
+ * @param {number} [options.now]
+ */
+function buildFeatureCoverage(options = {}) {
+  const rootDir = options.rootDir ?? ROOT_DIR;
+  const testDir = options.testDir ?? path.join(rootDir, "tests");
+  const seedsPath =
+    options.seedsPath ?? path.join(rootDir, "scripts", "coverage-seeds.json");
+  const featureRoutesPath =
+    options.featureRoutesPath ??
+    path.join(rootDir, "scripts", "coverage-feature-routes.json");
+  const resultsPath =
+    options.resultsPath ?? path.join(rootDir, "test-results", "results.json");
+
+  const featureRoutes = fs.existsSync(featureRoutesPath)
+    ? readJson(featureRoutesPath)
+    : {};
+  const statuses = readResultStatuses(resultsPath);
+  const tests = collectSpecFiles(testDir).flatMap((file) =>
+    extractSpecTags(file, rootDir),
+  );
+  if (statuses) {
+    for (const test of tests) {
+      const specFile = path
+        .relative(testDir, path.join(rootDir, test.file))
+        .split(path.sep)
+        .join("/");
+      test.status = statuses.get(`${specFile}:${test.line}`) ?? "unknown";
+    }
+  }
+
+  // 라우트: seed + 제품별 최신 crawl
+  /** @type {Map<string, CoverageRoute>} */
+  const routes = new Map();
+  function addRoute(product, route, source, title = null) {
+    const key = `${product} ${route}`;
+    const existing = routes.get(key);
+    if (existing) {
+      if (!existing.sources.includes(source)) existing.sources.push(source);
+      existing.title = existing.title ?? title;
+      return;
+    }
+    routes.set(key, {
+      product,
+      route,
+      sources: [source],
+      title,
+      features: [],
+      testCount: 0,
+      covered: false,
+    });
+  }
+  const seeds = fs.existsSync(seedsPath) ? readJson(seedsPath) : {};
+  for (const [product, paths] of Object.entries(seeds)) {
+    if (product.startsWith("_") || !Array.isArray(paths)) continue;
+    for (const route of paths) addRoute(product, route, "seed");
+  }
+  const crawlFiles = findLatestCrawlFiles(options.crawlDir ?? rootDir);
+  for (const [product, file] of Object.entries(crawlFiles)) {
+    const items = readJson(file);
+    for (const item of Array.isArray(items) ? items : []) {
+      if (typeof item?.normalizedPath !== "string") continue;
+      addRoute(
+        product,
+        item.normalizedPath,
+        "crawl",
+        item.h1 || item.title || null,
+      );
+    }
+  }
+
+  // 기능별 매트릭스
+  /** @type {Map<string, TaggedTest[]>} */
+  const testsByFeature = new Map();
+  for (const test of tests) {
+    for (const feature of test.features) {
+      if (!testsByFeature.has(feature)) testsByFeature.set(feature, []);
+      testsByFeature.get(feature)?.push(test);
+    }
+  }
+  const features = [...testsByFeature.keys()].sort().map((feature) => {
+    const featureTests = testsByFeature.get(feature) ?? [];
+    const { product, route } = resolveFeatureRoute(feature, featureRoutes);
+    const matched = [...routes.values()].filter(
+      (item) =>
+        item.product === product && featureCoversRoute(route, item.route),
+    );
+    for (const item of matched) {
+      item.features.push(feature);
+      item.testCount += featureTests.length;
+      item.covered = true;
+    }
+    const suites = [...new Set(featureTests.flatMap((test) => test.suites))];
+    return {
+      feature,
+      product,
+      route,
+      routes: matched.map((item) => item.route),
+      testCount: featureTests.length,
+      dynamicTests: featureTests.filter((test) => test.dynamic).length,
+      tcIds: featureTests.flatMap((test) => (test.tcId ? [test.tcId] : [])),
+      suites,
+      // @suite:ops 등 CI 기본 실행에서 빠지는 테스트만 있는 기능
+      suiteOnly: featureTests.every((test) => test.suites.length > 0),
+      lastStatus: worstStatus(featureTests.map((test) => test.status)),
+      tests: featureTests.map(({ features: _features, ...test }) => test),
+    };
+  });
+
+  const routeList = [...routes.values()].sort(
+    (a, b) =>
+      a.product.localeCompare(b.product) || a.route.localeCompare(b.route),
+  );
+  const products = [...new Set(routeList.map((item) => item.product))].map(
+    (product) => {
+      const productRoutes = routeList.filter(
+        (item) => item.product === product,
+      );
+      const productFeatures = features.filter(
+        (item) => item.product === product,
+      );
+      return {
+        product,
+        routes: productRoutes.length,
+        coveredRoutes: productRoutes.filter((item) => item.covered).length,
+        uncoveredRoutes: productRoutes.filter((item) => !item.covered).length,
+        features: productFeatures.length,
+        unmappedFeatures: productFeatures.filter(
+          (item) => item.routes.length === 0,
+        ).length,
+      };
+    },
+  );
+
+  return {
+    version: REPORT_VERSION,
+    generatedAt: new Date(options.now ?? Date.now()).toISOString(),
+    sources: {
+      seeds: fs.existsSync(seedsPath)
+        ? path.relative(rootDir, seedsPath)
+        : null,
+      crawl: Object.fromEntries(
+        Object.entries(crawlFiles).map(([product, file]) => [
+          product,
+          path.relative(rootDir, file),
+        ]),
+      ),
+      results: statuses ? path.relative(rootDir, resultsPath) : null,
+    },
+    summary: {
+      tests: tests.length,
+      taggedTests: tests.filter((test) => test.features.length > 0).length,
+      untaggedTests: tests.filter((test) => test.features.length === 0).length,
+      products,
+    },
+    features,
+    routes: routeList,
+    untaggedFiles: [
+      ...new Set(
+        tests
+          .filter((test) => test.features.length === 0)
+          .map((test) => test.file),
+      ),
+    ],
+  };
+}
+
+/** @param {string} value */
+function escapeCell(value) {
+  return value.replace(/\|/g, "\\|");
+}
+
+/**
+ * @param {ReturnType<typeof buildFeatureCoverage>} report
+ */
+function formatFeatureCoverageMarkdown(report) {
+  const lines = [
+    "# Feature coverage",
+    "",
+    `- 생성: ${report.generatedAt}`,
+    `- 라우트: ${report.sources.seeds ?? "seed 없음"}${Object.values(
+      report.sources.crawl,
+    )
+      .map((file) => `, ${file}`)
+      .join("")}`,
+    `- 최근 결과: ${report.sources.results ?? "없음 (Playwright JSON 결과 미지정)"}`,
+    `- 테스트: ${report.summary.tests}개 중 @feature 태그 ${report.summary.taggedTests}개`,
+    "",
+    "## 제품별 라우트",
+    "",
+    "| 제품 | 라우트 | 테스트 있음 | 테스트 없음 | 기능 | 라우트 미매핑 기능 |",
+    "| --- | ---: | ---: | ---: | ---: | ---: |",
+    ...report.summary.products.map(
+      (item) =>
+        `| ${item.product} | ${item.routes} | ${item.coveredRoutes} | ${item.uncoveredRoutes} | ${item.features} | ${item.unmappedFeatures} |`,
+    ),
+    "",
+    "## 기능별 매트릭스",
+    "",
+    "| 기능 | 라우트 | 테스트 | TC | suite | 최근 결과 |",
+    "| --- | --- | ---: | --- | --- | --- |",
+    ...report.features.map((item) => {
+      const routes =
+        item.routes.length > 0
+          ? item.routes.map((route) => `\`${route}\``).join(", ")
+          : `(미매핑: \`${item.route}\`)`;
+      const count =
+        item.dynamicTests > 0
+          ? `${item.testCount} (반복 ${item.dynamicTests})`
+          : String(item.testCount);
+      return `| ${item.feature} | ${routes} | ${count} | ${escapeCell(item.tcIds.join(", "))} | ${item.suites.join(", ")} | ${STATUS_ICONS[item.lastStatus]} ${item.lastStatus} |`;
+    }),
+    "",
+    "## 테스트 없는 라우트",
+    "",
+  ];
+  const uncovered = report.routes.filter((item) => !item.covered);
+  if (uncovered.length === 0) lines.push("- 없음");
+  for (const item of uncovered) {
+    const title = item.title ? ` — ${item.title}` : "";
+    lines.push(
+      `- ${item.product} \`${item.route}\` (${item.sources.join(", ")})${title}`,
+    );
+  }
+  lines.push("", "## @feature 태그 없는 spec", "");
+  if (report.untaggedFiles.length === 0) lines.push("- 없음");
+  for (const file of report.untaggedFiles) lines.push(`- ${file}`);
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * @param {ReturnType<typeof buildFeatureCoverage>} report
+ * @param {string} [outDir]
+ */
+function writeFeatureCoverage(
+  report,
+  outDir = path.join(ROOT_DIR, DEFAULT_OUT_DIR),
+) {
+  fs.mkdirSync(outDir, { recursive: true });
+  const jsonPath = path.join(outDir, "feature-coverage.json");
+  const markdownPath = path.join(outDir, "feature-coverage.md");
+  fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2) + "\n");
+  fs.writeFileSync(markdownPath, formatFeatureCoverageMarkdown(report));
+  return { jsonPath, markdownPath };
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const flags = ["--json", "--markdown"];
+  const valueOptions = ["--results=", "--out-dir="];
+  const unknownArgs = args.filter(
+    (arg) =>
+      !flags.includes(arg) &&
+      !valueOptions.some((option) => arg.startsWith(option)),
+  );
+  if (unknownArgs.length > 0) {
+    console.error(`알 수 없는 옵션: ${unknownArgs.join(", ")}`);
+    process.exit(2);
+  }
+  const valueOf = (option) =>
+    args.find((arg) => arg.startsWith(option))?.slice(option.length);
+
+  const resultsPath = valueOf("--results=");
+  const report = buildFeatureCoverage({
+    resultsPath: resultsPath ? path.resolve(resultsPath) : undefined,
+  });
+  const outDir = valueOf("--out-dir=");
+  const { jsonPath, markdownPath } = writeFeatureCoverage(
+    report,
+    outDir ? path.resolve(outDir) : undefined,
+  );
+
+  if (args.includes("--json")) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+  if (args.includes("--markdown")) {
+    console.log(formatFeatureCoverageMarkdown(report));
+    return;
+  }
+  for (const item of report.summary.products) {
+    console.log(
+      `${item.product}: 라우트 ${item.coveredRoutes}/${item.routes} 테스트 있음, 기능 ${item.features}개 (라우트 미매핑 ${item.unmappedFeatures})`,
+    );
+  }
+  console.log(
+    `\nMarkdown: ${path.relative(process.cwd(), markdownPath)}\nJSON: ${path.relative(process.cwd(), jsonPath)}`,
+  );
+}
+
+if (require.main === module) {
+  try {
+    main();
+  } catch (error) {
+    console.error(
+      `feature coverage 생성 중 예외 발생: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+    process.exit(1);
+  }
+}
+
+module.exports = {
+  buildFeatureCoverage,
+  extractSpecTags,
+  formatFeatureCoverageMarkdown,
+  parseTcId,
+  resolveFeatureRoute,
+  writeFeatureCoverage,
+};
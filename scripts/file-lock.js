@@ -0,0 +1,193 @@
+// @ts-check
+/**
+ * 파일 기반 lock — 여러 Playwright worker / 프로세스 사이의 상호 배제
+ *
+ * lock 파일을 O_EXCL("wx")로 만들어 소유권을 얻는다. 소유 프로세스가 죽었거나(ESRCH)
+ * staleMs가 지난 lock은 회수한다 (worker가 강제 종료돼 release를 못 한 경우).
+ * 회수는 고유 이름으로 rename한 뒤 확인한 그 lock(token 일치)일 때만 지워,
+ * 같은 stale lock을 동시에 본 다른 프로세스가 새로 잡은 lock을 지우지 않는다.
+ * release는 자기가 만든 lock(token 일치)만 지운다.
+ *
+ * @example
+ * ```js
+ * const lock = await acquireFileLock(".account-locks/edqatest001.lock", { owner: "worker-0" });
+ * try { ... } finally { lock.release(); }
+ * ```
+ */
+
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+
+/**
+ * @typedef {object} FileLockInfo
+ * @property {string} owner
+ * @property {number} pid
+ * @property {string} token
+ * @property {string} acquiredAt
+ */
+
+/**
+ * @typedef {object} FileLock
+ * @property {string} path
+ * @property {string} owner
+ * @property {() => void} release
+ */
+
+/**
+ * @typedef {object} FileLockOptions
+ * @property {string} [owner] - 로그 / 진단용 소유자 이름 (기본: pid-{pid})
+ * @property {number} [staleMs] - 이 시간이 지난 lock은 소유 프로세스가 살아 있어도 회수 (기본 30분)
+ */
+
+const DEFAULT_STALE_MS = 30 * 60 * 1000;
+
+/**
+ * @param {string} lockPath
+ * @returns {FileLockInfo | null}
+ */
+function readFileLock(lockPath) {
+  try {
+    return JSON.parse(fs.readFileSync(lockPath, "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+/** @param {number} pid */
+function isProcessAlive(pid) {
+  if (!Number.isInteger(pid) || pid <= 0) return false;
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // ESRCH만 종료된 프로세스 (EPERM: 다른 사용자의 살아 있는 프로세스)
+    return /** @type {NodeJS.ErrnoException} */ (error).code !== "ESRCH";
+  }
+}
+
+/**
+ * @param {FileLockInfo} info
+ * @param {number} staleMs
+ */
+function isStale(info, staleMs) {
+  if (!isProcessAlive(info.pid)) return true;
+  return Date.now() - new Date(info.acquiredAt).getTime() > staleMs;
+}
+
+/**
+ * stale로 판정한 lock을 원자적으로 가져와 지운다.
+ * 그사이 다른 프로세스가 먼저 회수하고 새 lock을 잡았으면 되돌리고 false.
+ * @param {string} lockPath
+ * @param {FileLockInfo | null} stale - 판정에 쓴 lock 내용 (못 읽었으면 null)
+ * @returns {boolean} lock 경로가 비었으면 true
+ */
+function reclaimStaleLock(lockPath, stale) {
+  const claimedPath = `${lockPath}.${crypto.randomUUID()}.stale`;
+  try {
+    fs.renameSync(lockPath, claimedPath);
+  } catch (error) {
+    // 그사이 release / 회수됨
+    if (/** @type {NodeJS.ErrnoException} */ (error).code === "ENOENT") {
+      return true;
+    }
+    throw error;
+  }
+  const claimed = readFileLock(claimedPath);
+  if ((claimed?.token ?? null) === (stale?.token ?? null)) {
+    fs.rmSync(claimedPath, { force: true });
+    return true;
+  }
+  // 다른 프로세스의 새 lock — 경로가 비어 있을 때만 되돌린다 (link는 기존 파일을 덮지 않음)
+  try {
+    fs.linkSync(claimedPath, lockPath);
+  } catch {
+    // 또 다른 프로세스가 이미 새 lock을 만들었다
+  }
+  fs.rmSync(claimedPath, { force: true });
+  return false;
+}
+
+/**
+ * lock을 한 번 시도한다. 다른 소유자가 잡고 있으면 null.
+ * @param {string} lockPath
+ * @param {FileLockOptions} [options]
+ * @returns {FileLock | null}
+ */
+function tryAcquireFileLock(lockPath, options = {}) {
+  const owner = options.owner ?? `pid-${process.pid}`;
+  const staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+  /** @type {FileLockInfo} */
+  const info = {
+    owner,
+    pid: process.pid,
+    token: crypto.randomUUID(),
+    acquiredAt: new Date().toISOString(),
+  };
+
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      fs.writeFileSync(lockPath, JSON.stringify(info), { flag: "wx" });
+      return {
+        path: lockPath,
+        owner,
+        release: () => {
+          if (readFileLock(lockPath)?.token === info.token) {
+            fs.rmSync(lockPath, { force: true });
+          }
+        },
+      };
+    } catch (error) {
+      if (/** @type {NodeJS.ErrnoException} */ (error).code !== "EEXIST") {
+        throw error;
+      }
+      const current = readFileLock(lockPath);
+      const stat = fs.statSync(lockPath, { throwIfNoEntry: false });
+      // 그사이 release됐으면 재시도. 내용을 못 읽는 lock은 쓰는 도중일 수 있어
+      // 파일 시각이 staleMs를 넘긴 경우에만 회수한다
+      const reclaim =
+        !stat ||
+        (current
+          ? isStale(current, staleMs)
+          : Date.now() - stat.mtimeMs > staleMs);
+      if (attempt > 0 || !reclaim) return null;
+      if (!stat) continue;
+      console.warn(
+        `[file-lock] 만료된 lock 회수: ${lockPath} (owner=${current?.owner ?? "unknown"})`,
+      );
+      if (!reclaimStaleLock(lockPath, current)) return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * lock을 얻을 때까지 pollMs 간격으로 기다린다. timeoutMs가 지나면 예외.
+ * @param {string} lockPath
+ * @param {FileLockOptions & { timeoutMs?: number; pollMs?: number }} [options]
+ * @returns {Promise<FileLock>}
+ */
+async function acquireFileLock(lockPath, options = {}) {
+  const timeoutMs = options.timeoutMs ?? 30_000;
+  const pollMs = options.pollMs ?? 200;
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const lock = tryAcquireFileLock(lockPath, options);
+    if (lock) return lock;
+    if (Date.now() >= deadline) {
+      const holder = readFileLock(lockPath);
+      throw new Error(
+        `lock 대기 시간 초과 (${timeoutMs}ms): ${lockPath} — 소유자 ${holder?.owner ?? "unknown"} (pid ${holder?.pid ?? "?"})`,
+      );
+    }
+    await new Promise((resolve) => setTimeout(resolve, pollMs));
+  }
+}
+
+module.exports = {
+  acquireFileLock,
+  readFileLock,
+  reclaimStaleLock,
+  tryAcquireFileLock,
+};
@@ -0,0 +1,541 @@
+// @ts-check
+/**
+ * 과거 Playwright JSON 결과(test-results/results.json) 이력 기반 flaky 분석
+ *
+ * 이력 디렉터리 아래의 Playwright JSON 결과 파일을 모두 읽어(하위 디렉터리 포함, 실행 시각 순)
+ * 테스트(project + spec 파일 + 제목)별로 다음을 계산한다.
+ *  - flake율: 실행된 run 중 재시도로 통과(status `flaky`)한 비율
+ *  - 실패 signature: 실패한 attempt의 첫 에러 줄에서 숫자 / URL / id를 지워 묶은 클러스터
+ *  - duration 추이: run별 마지막 attempt duration의 앞 절반 / 뒤 절반 중앙값 비교
+ * flake율 순으로 정렬한 TC ID 목록과 주요 실패 signature를 Markdown / JSON으로 남긴다.
+ *
+ * 이력 준비 (CI artifact `test-results-*`):
+ *   gh run download --pattern 'test-results-*' --dir test-history
+ *
+ * 사용:
+ *   node scripts/flakiness-report.js                    # 요약 출력 + flakiness-report/flakiness.{md,json}
+ *   node scripts/flakiness-report.js --markdown         # Markdown 전체를 stdout으로
+ *   node scripts/flakiness-report.js --json             # JSON을 stdout으로
+ *   node scripts/flakiness-report.js --history=path --top=20 --out-dir=path
+ */
+
+const fs = require("fs");
+const path = require("path");
+const { parseTcId } = require("./feature-coverage");
+
+const ROOT_DIR = path.join(__dirname, "..");
+const REPORT_VERSION = 1;
+const DEFAULT_HISTORY_DIR = "test-history";
+const DEFAULT_OUT_DIR = "flakiness-report";
+const DEFAULT_TOP = 20;
+/** 이 비율 이상 느려진 테스트를 duration 증가로 표시 (앞 / 뒤 절반 각각 2 run 이상일 때) */
+const DURATION_INCREASE_PCT = 25;
+const MAX_SIGNATURE_LENGTH = 160;
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+
+/**
+ * @typedef {object} HistoryRun
+ * @property {string} file - 이력 디렉터리 기준 경로
+ * @property {string} startedAt
+ * @property {number} tests
+ */
+
+/**
+ * @typedef {object} FailureSignature
+ * @property {string} signature
+ * @property {number} count - 실패 attempt 수 (재시도 포함)
+ * @property {string} example - 정규화 전 첫 에러 줄
+ */
+
+/**
+ * @typedef {object} TestHistory
+ * @property {string} key
+ * @property {string | null} tcId
+ * @property {string} title - describe 제목 포함
+ * @property {string} file
+ * @property {string} project
+ * @property {number} runs - skip을 뺀 실행 run 수
+ * @property {number} passedRuns - 첫 attempt에서 통과
+ * @property {number} flakyRuns - 재시도로 통과
+ * @property {number} failedRuns - 재시도 후에도 실패
+ * @property {number} skippedRuns
+ * @property {number} flakeRate - flakyRuns / runs (0~1)
+ * @property {number} failureRate - failedRuns / runs (0~1)
+ * @property {string | null} lastFlakyAt
+ * @property {{ medianMs: number | null, previousMedianMs: number | null, recentMedianMs: number | null, changePct: number | null }} duration
+ * @property {FailureSignature[]} signatures
+ */
+
+/**
+ * 에러 첫 줄을 run마다 달라지는 값 없이 묶을 수 있게 정규화
+ * @param {string} message
+ */
+function normalizeSignature(message) {
+  const firstLine =
+    message
+      .replace(ANSI_PATTERN, "")
+      .split("\n")
+      .map((line) => line.trim())
+      .find(Boolean) ?? "";
+  const normalized = firstLine
+    .replace(/https?:\/\/[^\s'"`)]+/g, "<url>")
+    .replace(/\b[0-9a-f]{8,}(?:-[0-9a-f]{4,})*\b/gi, "<id>")
+    .replace(/\d+(?:\.\d+)?/g, "N");
+  return normalized.length > MAX_SIGNATURE_LENGTH
+    ? `${normalized.slice(0, MAX_SIGNATURE_LENGTH - 1)}…`
+    : normalized;
+}
+
+/** @param {any} result @returns {string | null} */
+function firstErrorMessage(result) {
+  const error = result.errors?.[0] ?? result.error;
+  const message = error?.message ?? error?.value;
+  return typeof message === "string" && message.trim() ? message : null;
+}
+
+/** @param {number[]} values */
+function median(values) {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+/** @param {string} dir @returns {string[]} */
+function collectJsonFiles(dir) {
+  if (!fs.existsSync(dir)) return [];
+  const files = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...collectJsonFiles(entryPath));
+    else if (entry.isFile() && entry.name.endsWith(".json")) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * 이력 디렉터리의 Playwright JSON 결과를 실행 시각 순으로 읽는다.
+ * 다른 JSON(crawl 결과 등)이나 깨진 파일은 건너뛴다.
+ * @param {string} historyDir
+ * @returns {Array<{ file: string, startedAt: string, data: any }>}
+ */
+function readHistory(historyDir) {
+  const runs = [];
+  for (const filePath of collectJsonFiles(historyDir)) {
+    let data;
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    } catch {
+      continue;
+    }
+    if (!data || !Array.isArray(data.suites) || !data.config) continue;
+    const startTime = Date.parse(data.stats?.startTime ?? "");
+    runs.push({
+      file: path.relative(historyDir, filePath).split(path.sep).join("/"),
+      startedAt: new Date(
+        Number.isNaN(startTime) ? fs.statSync(filePath).mtimeMs : startTime,
+      ).toISOString(),
+      data,
+    });
+  }
+  return runs.sort(
+    (a, b) =>
+      a.startedAt.localeCompare(b.startedAt) || a.file.localeCompare(b.file),
+  );
+}
+
+/**
+ * run 하나의 테스트 결과를 평탄화
+ * @param {any} data - Playwright JSON reporter 결과
+ */
+function flattenRun(data) {
+  /** @type {Array<{ file: string, titlePath: string[], project: string, test: any }>} */
+  const entries = [];
+  /** @param {any} suite @param {string[]} titles */
+  function walk(suite, titles) {
+    for (const spec of suite.specs ?? []) {
+      for (const test of spec.tests ?? []) {
+        entries.push({
+          file: String(spec.file ?? suite.file ?? "")
+            .split(path.sep)
+            .join("/"),
+          titlePath: [...titles, spec.title],
+          project: test.projectName ?? "",
+          test,
+        });
+      }
+    }
+    for (const child of suite.suites ?? []) {
+      walk(child, [...titles, child.title]);
+    }
+  }
+  // 최상위 suite 제목은 spec 파일명이라 제목에서 뺀다
+  for (const suite of data.suites ?? []) walk(suite, []);
+  return entries;
+}
+
+/**
+ * @param {object} [options]
+ * @param {string} [options.historyDir] - Playwright JSON 결과 이력 (기본: test-history/)
+ * @param {number} [options.top] - 순위 목록 길이
+ * @param {number} [options.now]
+ */
+function buildFlakinessReport(options = {}) {
+  const historyDir =
+    options.historyDir ?? path.join(ROOT_DIR, DEFAULT_HISTORY_DIR);
+  const top = options.top ?? DEFAULT_TOP;
+  const runs = readHistory(historyDir);
+
+  /** @type {Map<string, TestHistory & { durations: number[], signatureMap: Map<string, FailureSignature> }>} */
+  const tests = new Map();
+  /** @type {Map<string, { signature: string, count: number, example: string, tests: Set<string>, firstSeenAt: string, lastSeenAt: string }>} */
+  const clusters = new Map();
+
+  for (const run of runs) {
+    for (const entry of flattenRun(run.data)) {
+      const title = entry.titlePath.join(" > ");
+      const key = `${entry.project} ${entry.file} ${title}`;
+      let history = tests.get(key);
+      if (!history) {
+        history = {
+          key,
+          tcId: parseTcId(entry.titlePath[entry.titlePath.length - 1]),
+          title,
+          file: entry.file,
+          project: entry.project,
+          runs: 0,
+          passedRuns: 0,
+          flakyRuns: 0,
+          failedRuns: 0,
+          skippedRuns: 0,
+          flakeRate: 0,
+          failureRate: 0,
+          lastFlakyAt: null,
+          duration: {
+            medianMs: null,
+            previousMedianMs: null,
+            recentMedianMs: null,
+            changePct: null,
+          },
+          signatures: [],
+          durations: [],
+          signatureMap: new Map(),
+        };
+        tests.set(key, history);
+      }
+
+      const { test } = entry;
+      if (test.status === "skipped") {
+        history.skippedRuns++;
+        continue;
+      }
+      history.runs++;
+      if (test.status === "flaky") {
+        history.flakyRuns++;
+        history.lastFlakyAt = run.startedAt;
+      } else if (test.status === "unexpected") history.failedRuns++;
+      else history.passedRuns++;
+
+      const results = test.results ?? [];
+      const last = results[results.length - 1];
+      if (typeof last?.duration === "number")
+        history.durations.push(last.duration);
+
+      for (const result of results) {
+        if (result.status === "passed" || result.status === "skipped") continue;
+        const message = firstErrorMessage(result) ?? `(${result.status})`;
+        const signature = normalizeSignature(message);
+        const example = message.replace(ANSI_PATTERN, "").trim().split("\n")[0];
+        const perTest = history.signatureMap.get(signature);
+        if (perTest) perTest.count++;
+        else
+          history.signatureMap.set(signature, { signature, count: 1, example });
+
+        const label = history.tcId ?? history.title;
+        const cluster = clusters.get(signature);
+        if (cluster) {
+          cluster.count++;
+          cluster.tests.add(label);
+          cluster.lastSeenAt = run.startedAt;
+        } else {
+          clusters.set(signature, {
+            signature,
+            count: 1,
+            example,
+            tests: new Set([label]),
+            firstSeenAt: run.startedAt,
+            lastSeenAt: run.startedAt,
+          });
+        }
+      }
+    }
+  }
+
+  const histories = [...tests.values()].map(
+    ({ durations, signatureMap, ...history }) => {
+      const half = Math.floor(durations.length / 2);
+      const previous = half >= 2 ? median(durations.slice(0, half)) : null;
+      const recent = half >= 2 ? median(durations.slice(-half)) : null;
+      return {
+        ...history,
+        flakeRate: history.runs ? round(history.flakyRuns / history.runs) : 0,
+        failureRate: history.runs
+          ? round(history.failedRuns / history.runs)
+          : 0,
+        duration: {
+          medianMs: median(durations),
+          previousMedianMs: previous,
+          recentMedianMs: recent,
+          changePct:
+            previous && recent !== null
+              ? Math.round(((recent - previous) / previous) * 100)
+              : null,
+        },
+        signatures: [...signatureMap.values()].sort(
+          (a, b) => b.count - a.count || a.signature.localeCompare(b.signature),
+        ),
+      };
+    },
+  );
+  histories.sort((a, b) => a.key.localeCompare(b.key));
+
+  const flaky = histories
+    .filter((item) => item.flakyRuns > 0)
+    .sort(
+      (a, b) =>
+        b.flakeRate - a.flakeRate ||
+        b.flakyRuns - a.flakyRuns ||
+        b.failedRuns - a.failedRuns ||
+        a.key.localeCompare(b.key),
+    )
+    .slice(0, top);
+  const durationIncreases = histories
+    .filter(
+      (item) =>
+        item.duration.changePct !== null &&
+        item.duration.changePct >= DURATION_INCREASE_PCT,
+    )
+    .sort(
+      (a, b) =>
+        (b.duration.changePct ?? 0) - (a.duration.changePct ?? 0) ||
+        a.key.localeCompare(b.key),
+    );
+
+  return {
+    version: REPORT_VERSION,
+    generatedAt: new Date(options.now ?? Date.now()).toISOString(),
+    sources: {
+      historyDir: path.relative(ROOT_DIR, historyDir).split(path.sep).join("/"),
+      runs: runs.map(
+        /** @returns {HistoryRun} */ (run) => ({
+          file: run.file,
+          startedAt: run.startedAt,
+          tests: flattenRun(run.data).length,
+        }),
+      ),
+    },
+    summary: {
+      runs: runs.length,
+      tests: histories.length,
+      flakyTests: histories.filter((item) => item.flakyRuns > 0).length,
+      failingTests: histories.filter((item) => item.failedRuns > 0).length,
+      durationIncreases: durationIncreases.length,
+    },
+    flaky,
+    clusters: [...clusters.values()]
+      .sort(
+        (a, b) => b.count - a.count || a.signature.localeCompare(b.signature),
+      )
+      .map((cluster) => ({ ...cluster, tests: [...cluster.tests].sort() })),
+    durationIncreases,
+    tests: histories,
+  };
+}
+
+/** @param {number} value */
+function round(value) {
+  return Math.round(value * 1000) / 1000;
+}
+
+/** @param {number} rate */
+function formatPercent(rate) {
+  return `${Math.round(rate * 100)}%`;
+}
+
+/** @param {number | null} ms */
+function formatSeconds(ms) {
+  return ms === null ? "—" : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/** @param {string} value */
+function escapeCell(value) {
+  return value.replace(/\|/g, "\\|").replace(/`/g, "'");
+}
+
+/**
+ * @param {ReturnType<typeof buildFlakinessReport>} report
+ */
+function formatFlakinessMarkdown(report) {
+  const { summary } = report;
+  const lines = [
+    "# Flakiness report",
+    "",
+    `- 생성: ${report.generatedAt}`,
+    `- 이력: ${report.sources.historyDir || "."} (run ${summary.runs}개${
+      report.sources.runs.length > 0
+        ? `, ${report.sources.runs[0].startedAt} ~ ${report.sources.runs[report.sources.runs.length - 1].startedAt}`
+        : ""
+    })`,
+    `- 테스트: ${summary.tests}개 중 flaky ${summary.flakyTests}개, 실패 이력 ${summary.failingTests}개, duration 증가 ${summary.durationIncreases}개`,
+    "",
+    "## flaky 순위 (재시도로 통과한 비율)",
+    "",
+  ];
+  if (report.flaky.length === 0) lines.push("- 없음");
+  else {
+    lines.push(
+      "| # | TC | 테스트 | project | 실행 | flaky | 실패 | flake율 | 주요 실패 signature |",
+      "| ---: | --- | --- | --- | ---: | ---: | ---: | ---: | --- |",
+      ...report.flaky.map((item, index) => {
+        const signature = item.signatures[0];
+        return `| ${index + 1} | ${item.tcId ?? "—"} | ${escapeCell(item.title)} | ${item.project} | ${item.runs} | ${item.flakyRuns} | ${item.failedRuns} | ${formatPercent(item.flakeRate)} | ${
+          signature
+            ? `\`${escapeCell(signature.signature)}\` ×${signature.count}`
+            : ""
+        } |`;
+      }),
+    );
+  }
+
+  lines.push("", "## 실패 signature 클러스터", "");
+  if (report.clusters.length === 0) lines.push("- 없음");
+  else {
+    lines.push(
+      "| signature | 실패 attempt | 테스트 | 마지막 |",
+      "| --- | ---: | --- | --- |",
+      ...report.clusters.map(
+        (cluster) =>
+          `| \`${escapeCell(cluster.signature)}\` | ${cluster.count} | ${escapeCell(cluster.tests.join(", "))} | ${cluster.lastSeenAt} |`,
+      ),
+    );
+  }
+
+  lines.push(
+    "",
+    `## duration 증가 (앞 / 뒤 절반 중앙값 ${DURATION_INCREASE_PCT}% 이상)`,
+    "",
+  );
+  if (report.durationIncreases.length === 0) lines.push("- 없음");
+  else {
+    lines.push(
+      "| TC | 테스트 | project | 이전 | 최근 | 변화 |",
+      "| --- | --- | --- | ---: | ---: | ---: |",
+      ...report.durationIncreases.map(
+        (item) =>
+          `| ${item.tcId ?? "—"} | ${escapeCell(item.title)} | ${item.project} | ${formatSeconds(item.duration.previousMedianMs)} | ${formatSeconds(item.duration.recentMedianMs)} | +${item.duration.changePct}% |`,
+      ),
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * @param {ReturnType<typeof buildFlakinessReport>} report
+ * @param {string} [outDir]
+ */
+function writeFlakinessReport(
+  report,
+  outDir = path.join(ROOT_DIR, DEFAULT_OUT_DIR),
+) {
+  fs.mkdirSync(outDir, { recursive: true });
+  const jsonPath = path.join(outDir, "flakiness.json");
+  const markdownPath = path.join(outDir, "flakiness.md");
+  fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2) + "\n");
+  fs.writeFileSync(markdownPath, formatFlakinessMarkdown(report));
+  return { jsonPath, markdownPath };
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const flags = ["--json", "--markdown"];
+  const valueOptions = ["--history=", "--top=", "--out-dir="];
+  const unknownArgs = args.filter(
+    (arg) =>
+      !flags.includes(arg) &&
+      !valueOptions.some((option) => arg.startsWith(option)),
+  );
+  if (unknownArgs.length > 0) {
+    console.error(`알 수 없는 옵션: ${unknownArgs.join(", ")}`);
+    process.exit(2);
+  }
+  const valueOf = (option) =>
+    args.find((arg) => arg.startsWith(option))?.slice(option.length);
+
+  const topValue = valueOf("--top=");
+  const top = topValue === undefined ? undefined : Number(topValue);
+  if (top !== undefined && (!Number.isInteger(top) || top < 1)) {
+    console.error(`--top은 1 이상의 정수여야 합니다: ${topValue}`);
+    process.exit(2);
+  }
+  const historyDir = path.resolve(valueOf("--history=") ?? DEFAULT_HISTORY_DIR);
+  if (!fs.existsSync(historyDir)) {
+    console.error(
+      `이력 디렉터리가 없습니다: ${historyDir} (CI artifact test-results-*를 내려받아 두세요)`,
+    );
+    process.exit(1);
+  }
+
+  const report = buildFlakinessReport({ historyDir, top });
+  const outDir = valueOf("--out-dir=");
+  const { jsonPath, markdownPath } = writeFlakinessReport(
+    report,
+    outDir ? path.resolve(outDir) : undefined,
+  );
+
+  if (args.includes("--json")) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+  if (args.includes("--markdown")) {
+    console.log(formatFlakinessMarkdown(report));
+    return;
+  }
+  const { summary } = report;
+  console.log(
+    `run ${summary.runs}개, 테스트 ${summary.tests}개: flaky ${summary.flakyTests}개, 실패 이력 ${summary.failingTests}개, duration 증가 ${summary.durationIncreases}개`,
+  );
+  for (const [index, item] of report.flaky.slice(0, 10).entries()) {
+    console.log(
+      `${index + 1}. ${item.tcId ?? item.title} [${item.project}] flake ${formatPercent(item.flakeRate)} (${item.flakyRuns}/${item.runs})${
+        item.signatures[0] ? ` — ${item.signatures[0].signature}` : ""
+      }`,
+    );
+  }
+  console.log(
+    `\nMarkdown: ${path.relative(process.cwd(), markdownPath)}\nJSON: ${path.relative(process.cwd(), jsonPath)}`,
+  );
+}
+
+if (require.main === module) {
+  try {
+    main();
+  } catch (error) {
+    console.error(
+      `flakiness report 생성 중 예외 발생: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+    process.exit(1);
+  }
+}
+
+module.exports = {
+  buildFlakinessReport,
+  formatFlakinessMarkdown,
+  normalizeSignature,
+  writeFlakinessReport,
+};
@@ -1,4 +1,5 @@
 const { resolveTargetDomain } = require("./auth-state");
+const { resolveAuthEnvironment } = require("./auth-store");
 
 function normalizeDomain(domain) {
   return String(domain || "").replace(/^\./, "");
@@ -11,9 +12,7 @@ function cookieAppliesToHost(cookie, host) {
 }
 
 function isStageEnv(env = process.env) {
-  return (
-    env.MAKESTAR_BASE_URL?.includes("stage") || env.ENVIRONMENT_INPUT === "stg"
-  );
+  return resolveAuthEnvironment(env) === "stg";
 }
 
 function getLiveAuthConfig(env = process.env) {
@@ -0,0 +1,371 @@
+// @ts-check
+/**
+ * 토큰 선제 갱신 코디네이터
+ *
+ * 만료 직전이 아니라 남은 시간이 임계값(기본 30분) 아래로 떨어지면 갱신한다.
+ * 갱신은 storageState 파일 단위 lock(scripts/file-lock.js)으로 한 번에 하나만 돌고,
+ * 나머지 worker / 프로세스는 lock을 기다렸다가 새 토큰을 그대로 쓴다.
+ * 갱신 시도 / 대기 결과는 history(JSONL)에 남겨 인증 장애를 추적한다.
+ *
+ * global-setup.js(refresh grant → 브라우저 갱신)와 admin 테스트 worker(refresh grant)가 쓴다.
+ *
+ * 환경변수:
+ *   AUTH_REFRESH_THRESHOLD_MIN     — 남은 시간이 이보다 적으면 갱신 (기본 30분)
+ *   AUTH_REFRESH_LOCK_TIMEOUT_MS   — 다른 프로세스의 갱신을 기다리는 최대 시간 (기본 5분)
+ *   AUTH_REFRESH_HISTORY_FILE      — history 경로 (기본: .auth-refresh-history.jsonl)
+ */
+
+const fs = require("fs");
+const path = require("path");
+const {
+  buildAdminTokenData,
+  findRefreshTokens,
+  formatRemaining,
+} = require("./auth-state");
+const { acquireFileLock } = require("./file-lock");
+const { refreshAccessToken } = require("./refresh-grant");
+
+/** @typedef {import("./auth-store").AuthStore} AuthStore */
+
+/**
+ * @typedef {"fresh" | "refreshed" | "refreshed-by-peer" | "failed" | "skipped"} RefreshStatus
+ * fresh: 임계값 이상 남음 / refreshed: 직접 갱신 / refreshed-by-peer: 대기 중 다른 프로세스가 갱신
+ * failed: 갱신 실패 / skipped: 직전 실패 후 cooldown 중이라 시도하지 않음
+ */
+
+/**
+ * @typedef {object} RefreshOutcome
+ * @property {RefreshStatus} status
+ * @property {boolean} valid - 결과와 무관하게 토큰이 아직 유효한지 (1분 여유)
+ * @property {number | null} expiresAtMs
+ * @property {number} waitedMs - lock 대기 시간
+ * @property {string | null} error
+ */
+
+/**
+ * @typedef {object} RefreshHistoryEntry
+ * @property {string} at
+ * @property {string} owner
+ * @property {number} pid
+ * @property {string} product
+ * @property {string} environment
+ * @property {string} storageState - 파일 이름
+ * @property {Exclude<RefreshStatus, "fresh">} status
+ * @property {"expired" | "threshold" | "force"} trigger
+ * @property {number | null} remainingMsBefore
+ * @property {number | null} expiresAtMs - 결과 만료 시각
+ * @property {number} waitedMs
+ * @property {number} durationMs - 갱신 함수 실행 시간
+ * @property {string | null} error
+ */
+
+/**
+ * @typedef {object} EnsureFreshTokenOptions
+ * @property {() => Promise<boolean>} refresh - 실제 갱신. false / 예외면 실패로 기록
+ * @property {string} [owner] - history / lock 소유자 이름 (기본: pid-{pid})
+ * @property {number} [thresholdMs]
+ * @property {boolean} [force] - 남은 시간과 무관하게 갱신
+ * @property {number} [lockTimeoutMs]
+ * @property {number} [failureCooldownMs] - 직전 실패 후 재시도하지 않는 시간 (기본 5분)
+ * @property {string} [lockPath] - 기본: storageState 옆 .{파일명}.refresh.lock
+ * @property {string} [historyPath]
+ * @property {NodeJS.ProcessEnv} [env]
+ */
+
+const ROOT_DIR = path.join(__dirname, "..");
+const DEFAULT_THRESHOLD_MIN = 30;
+const DEFAULT_LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+// 브라우저 갱신(autoRefreshToken)이 1~2분 걸리므로 그보다 넉넉하게
+const LOCK_STALE_MS = 10 * 60 * 1000;
+const DEFAULT_FAILURE_COOLDOWN_MS = 5 * 60 * 1000;
+const VALID_BUFFER_MS = 60 * 1000;
+const HISTORY_MAX_ENTRIES = 200;
+
+/** @param {NodeJS.ProcessEnv} [env] */
+function getRefreshThresholdMs(env = process.env) {
+  const raw = env.AUTH_REFRESH_THRESHOLD_MIN;
+  const minutes = raw ? Number(raw) : NaN;
+  return (minutes >= 0 ? minutes : DEFAULT_THRESHOLD_MIN) * 60 * 1000;
+}
+
+/** @param {NodeJS.ProcessEnv} [env] */
+function getRefreshHistoryPath(env = process.env) {
+  return env.AUTH_REFRESH_HISTORY_FILE
+    ? path.resolve(env.AUTH_REFRESH_HISTORY_FILE)
+    : path.join(ROOT_DIR, ".auth-refresh-history.jsonl");
+}
+
+/**
+ * 같은 storageState를 쓰는 제품(cmr / admin)이 lock을 공유하도록 파일 기준으로 잡는다.
+ * @param {string} storageStatePath
+ */
+function getRefreshLockPath(storageStatePath) {
+  return path.join(
+    path.dirname(storageStatePath),
+    `.${path.basename(storageStatePath)}.refresh.lock`,
+  );
+}
+
+/**
+ * 최근 history (오래된 것 → 최신 순). 깨진 줄은 건너뛴다.
+ * @param {string} [historyPath]
+ * @returns {RefreshHistoryEntry[]}
+ */
+function readRefreshHistory(historyPath = getRefreshHistoryPath()) {
+  if (!fs.existsSync(historyPath)) return [];
+  return fs
+    .readFileSync(historyPath, "utf-8")
+    .split("\n")
+    .filter(Boolean)
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line)];
+      } catch {
+        return [];
+      }
+    });
+}
+
+/**
+ * history에 한 줄 추가한다. 제품별 lock이 달라도 줄 단위 append라 섞이지 않고,
+ * HISTORY_MAX_ENTRIES의 두 배를 넘으면 최근 HISTORY_MAX_ENTRIES개만 남긴다.
+ * @param {string} historyPath
+ * @param {RefreshHistoryEntry} entry
+ */
+function appendRefreshHistory(historyPath, entry) {
+  fs.mkdirSync(path.dirname(historyPath), { recursive: true });
+  fs.appendFileSync(historyPath, JSON.stringify(entry) + "\n");
+  const entries = readRefreshHistory(historyPath);
+  if (entries.length > HISTORY_MAX_ENTRIES * 2) {
+    fs.writeFileSync(
+      historyPath,
+      entries
+        .slice(-HISTORY_MAX_ENTRIES)
+        .map((item) => JSON.stringify(item))
+        .join("\n") + "\n",
+    );
+  }
+}
+
+/**
+ * storageState의 마지막 갱신 시도(refreshed / failed)가 cooldown 안의 실패면 그 기록.
+ * ensureFreshToken의 재시도 억제와 admin 테스트의 인증 실패 판정이 같이 쓴다.
+ * @param {string} storageStatePath
+ * @param {{ historyPath?: string; cooldownMs?: number; now?: number }} [options]
+ * @returns {RefreshHistoryEntry | null}
+ */
+function getRecentRefreshFailure(storageStatePath, options = {}) {
+  const storageState = path.basename(storageStatePath);
+  const cooldownMs = options.cooldownMs ?? DEFAULT_FAILURE_COOLDOWN_MS;
+  const lastAttempt = readRefreshHistory(options.historyPath)
+    .filter(
+      (entry) =>
+        entry.storageState === storageState &&
+        (entry.status === "refreshed" || entry.status === "failed"),
+    )
+    .at(-1);
+  if (lastAttempt?.status !== "failed") return null;
+  const elapsedMs =
+    (options.now ?? Date.now()) - new Date(lastAttempt.at).getTime();
+  return elapsedMs < cooldownMs ? lastAttempt : null;
+}
+
+/**
+ * @param {AuthStore} store
+ * @param {number} now
+ */
+function getRemainingMs(store, now) {
+  const expiresAt = store.getExpiryMs();
+  return expiresAt === null ? null : expiresAt - now;
+}
+
+/**
+ * 남은 시간이 임계값보다 적으면 lock을 잡고 갱신한다.
+ * lock을 기다린 사이 다른 프로세스가 갱신했으면 다시 갱신하지 않는다.
+ * @param {AuthStore} store
+ * @param {EnsureFreshTokenOptions} options
+ * @returns {Promise<RefreshOutcome>}
+ */
+async function ensureFreshToken(store, options) {
+  const env = options.env ?? process.env;
+  const owner = options.owner ?? `pid-${process.pid}`;
+  const thresholdMs = options.thresholdMs ?? getRefreshThresholdMs(env);
+  const historyPath = options.historyPath ?? getRefreshHistoryPath(env);
+  /** @param {number} [now] @returns {Pick<RefreshOutcome, "valid" | "expiresAtMs">} */
+  const snapshot = (now = Date.now()) => ({
+    valid: store.isValid(VALID_BUFFER_MS, now),
+    expiresAtMs: store.getExpiryMs(),
+  });
+  /** @param {number | null} remainingMs */
+  const needsRefresh = (remainingMs) =>
+    options.force || remainingMs === null || remainingMs < thresholdMs;
+
+  const remainingBefore = getRemainingMs(store, Date.now());
+  if (!needsRefresh(remainingBefore)) {
+    return { status: "fresh", ...snapshot(), waitedMs: 0, error: null };
+  }
+
+  const waitStart = Date.now();
+  const lock = await acquireFileLock(
+    options.lockPath ?? getRefreshLockPath(store.storageStatePath),
+    {
+      owner,
+      staleMs: LOCK_STALE_MS,
+      timeoutMs:
+        options.lockTimeoutMs ??
+        (Number(env.AUTH_REFRESH_LOCK_TIMEOUT_MS) || DEFAULT_LOCK_TIMEOUT_MS),
+    },
+  );
+  const waitedMs = Date.now() - waitStart;
+
+  try {
+    const storageState = path.basename(store.storageStatePath);
+    /** @type {Omit<RefreshHistoryEntry, "status" | "expiresAtMs" | "durationMs" | "error">} */
+    const base = {
+      at: new Date().toISOString(),
+      owner,
+      pid: process.pid,
+      product: store.product,
+      environment: store.environment,
+      storageState,
+      trigger: options.force
+        ? "force"
+        : remainingBefore === null || remainingBefore <= 0
+          ? "expired"
+          : "threshold",
+      remainingMsBefore: remainingBefore,
+      waitedMs,
+    };
+
+    // lock 대기 중 다른 프로세스가 갱신을 끝냈는지 다시 확인
+    if (!options.force && !needsRefresh(getRemainingMs(store, Date.now()))) {
+      const current = snapshot();
+      appendRefreshHistory(historyPath, {
+        ...base,
+        status: "refreshed-by-peer",
+        expiresAtMs: current.expiresAtMs,
+        durationMs: 0,
+        error: null,
+      });
+      return { status: "refreshed-by-peer", ...current, waitedMs, error: null };
+    }
+
+    // 직전 실패 직후면 worker마다 같은 실패를 반복하지 않는다
+    const recentFailure = options.force
+      ? null
+      : getRecentRefreshFailure(store.storageStatePath, {
+          historyPath,
+          cooldownMs: options.failureCooldownMs,
+        });
+    if (recentFailure) {
+      const error = `직전 갱신 실패 후 cooldown 중 (${recentFailure.owner}: ${recentFailure.error ?? "원인 미상"})`;
+      return { status: "skipped", ...snapshot(), waitedMs, error };
+    }
+
+    const refreshStart = Date.now();
+    /** @type {string | null} */
+    let error = null;
+    try {
+      if (!(await options.refresh())) error = "갱신 함수가 실패를 반환";
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+    const status = error ? "failed" : "refreshed";
+    const current = snapshot();
+    appendRefreshHistory(historyPath, {
+      ...base,
+      status,
+      expiresAtMs: current.expiresAtMs,
+      durationMs: Date.now() - refreshStart,
+      error,
+    });
+    return { status, ...current, waitedMs, error };
+  } finally {
+    lock.release();
+  }
+}
+
+/**
+ * @param {import("./auth-store").AuthEnvironment} environment
+ */
+function getAuthHost(environment) {
+  return environment === "stg"
+    ? "stage-auth.makeuni2026.com"
+    : "auth.makestar.com";
+}
+
+/**
+ * refresh_token grant로 access를 재발급해 storageState(admin이면 admin-tokens.json도)에
+ * 반영하는 갱신 함수. 브라우저가 없는 worker에서 쓴다.
+ * @param {AuthStore} store
+ * @param {{ appOrigin: string; authHost?: string; authOrigin?: string }} options
+ * @returns {() => Promise<boolean>}
+ */
+function createRefreshGrantRefresher(store, options) {
+  return async () => {
+    const state = store.readStorageState();
+    if (!state.ok) throw new Error(state.message ?? "storageState 없음");
+    const refreshToken = findRefreshTokens(state.cookies, store.targetDomain)[0]
+      ?.value;
+    if (!refreshToken) {
+      throw new Error(`${store.targetDomain} refresh_token 없음`);
+    }
+
+    const result = await refreshAccessToken({
+      refreshToken,
+      authHost: options.authHost ?? getAuthHost(store.tokenEnvironment),
+      authOrigin: options.authOrigin,
+    });
+    if (result.ok === false) {
+      throw new Error(result.message ?? "refresh grant 실패");
+    }
+
+    store.applyTokens({
+      access: result.access,
+      refresh: result.refresh,
+      appOrigin: options.appOrigin,
+    });
+    if (store.adminTokensPath) {
+      store.writeAdminTokens(
+        buildAdminTokenData({
+          accessToken: result.access,
+          refreshToken: result.refresh ?? refreshToken,
+        }),
+      );
+    }
+    return true;
+  };
+}
+
+/**
+ * 로그용 한 줄 요약
+ * @param {RefreshOutcome} outcome
+ */
+function formatRefreshOutcome(outcome) {
+  const remainingMs =
+    outcome.expiresAtMs === null ? null : outcome.expiresAtMs - Date.now();
+  const remaining =
+    remainingMs === null
+      ? "만료 시각 없음"
+      : remainingMs > 0
+        ? `남은 시간 ${formatRemaining(remainingMs)}`
+        : "만료됨";
+  const waited =
+    outcome.waitedMs > 0
+      ? `, lock 대기 ${Math.round(outcome.waitedMs / 1000)}초`
+      : "";
+  const error = outcome.error ? ` — ${outcome.error}` : "";
+  return `토큰 ${outcome.status} (${remaining}${waited})${error}`;
+}
+
+module.exports = {
+  createRefreshGrantRefresher,
+  ensureFreshToken,
+  formatRefreshOutcome,
+  getAuthHost,
+  getRefreshHistoryPath,
+  getRefreshLockPath,
+  getRecentRefreshFailure,
+  getRefreshThresholdMs,
+  readRefreshHistory,
+};
@@ -13,10 +13,25 @@
 // 축약형 /user/registration/token_refresh/ 는 live 테스트에서 404.
 const TOKEN_REFRESH_PATH = "/apis/user/registration/token_refresh/";
 
+// origin 직접 지정은 로컬 stand-in 전용 — 환경변수 하나로 refresh_token이 외부 호스트로 새지 않도록 loopback만 허용
+const LOOPBACK_HOSTS = new Set(["localhost", "[::1]"]);
+
+/** @param {string} origin */
+function isLoopbackOrigin(origin) {
+  try {
+    const { hostname } = new URL(origin);
+    return LOOPBACK_HOSTS.has(hostname) || /^127(\.\d{1,3}){3}$/.test(hostname);
+  } catch {
+    return false;
+  }
+}
+
 /**
  * @param {object} params
  * @param {string} params.refreshToken  현재 refresh_token (JWT)
- * @param {string} params.authHost      인증 호스트 (stage-auth.makeuni2026.com | auth.makestar.com)
+ * @param {string} [params.authHost]    인증 호스트 (stage-auth.makeuni2026.com | auth.makestar.com)
+ * @param {string} [params.authOrigin]  요청 origin 직접 지정 (기본: AUTH_REFRESH_ORIGIN 환경변수 → https://{authHost}).
+ *                                      로컬 stand-in(scripts/stand-ins/token-refresh-server.js) 검증용이라 loopback만 허용
  * @param {number} [params.timeoutMs=15000]
  * @returns {Promise<{ok:true, status:number, access:string, refresh:string|null}
  *                   | {ok:false, status:number, message?:string}>}
@@ -24,16 +39,25 @@ const TOKEN_REFRESH_PATH = "/apis/user/registration/token_refresh/";
 async function refreshAccessToken({
   refreshToken,
   authHost,
+  authOrigin = process.env.AUTH_REFRESH_ORIGIN,
   timeoutMs = 15000,
 }) {
   if (!refreshToken) {
     return { ok: false, status: 0, message: "refresh_token 없음" };
   }
-  if (!authHost) {
+  if (!authHost && !authOrigin) {
     return { ok: false, status: 0, message: "authHost 없음" };
   }
+  if (authOrigin && !isLoopbackOrigin(authOrigin)) {
+    return {
+      ok: false,
+      status: 0,
+      message: `authOrigin은 loopback 주소만 허용합니다 (${authOrigin})`,
+    };
+  }
 
-  const url = `https://${authHost}${TOKEN_REFRESH_PATH}`;
+  const origin = (authOrigin || `https://${authHost}`).replace(/\/+$/, "");
+  const url = `${origin}${TOKEN_REFRESH_PATH}`;
   const controller = new AbortController();
   const timer = setTimeout(() => controller.abort(), timeoutMs);
 
@@ -94,4 +118,4 @@ async function refreshAccessToken({
   }
 }
 
-module.exports = { refreshAccessToken, TOKEN_REFRESH_PATH };
+module.exports = { isLoopbackOrigin, refreshAccessToken, TOKEN_REFRESH_PATH };
@@ -0,0 +1,83 @@
+// @ts-check
+/**
+ * live-reporter spool 재전송
+ *
+ * lib/live-reporter.js가 남긴 spool에서 대시보드로 보내지 못한(ack 없는) payload만
+ * 기록 순서대로 `/api/live-results`에 다시 보낸다. payload마다 원래의 idempotency key를
+ * 그대로 쓰므로 이미 받은 결과를 다시 보내도 중복되지 않는다.
+ *
+ * 사용:
+ *   node scripts/replay-live-results.js [spool 경로] [--dry-run]
+ *   (CI artifact에서 받은 test-results/live-results-spool.jsonl을 그대로 넘기면 된다)
+ *
+ * 종료 코드: 0 = 남은 payload 없음 / 1 = 일부 전송 실패 / 2 = 설정 오류
+ *
+ * 환경변수:
+ *   DASHBOARD_URL / DASHBOARD_API_SECRET — live-reporter와 같음
+ *   LIVE_RESULTS_SPOOL_FILE / LIVE_RESULTS_MAX_ATTEMPTS / LIVE_RESULTS_RETRY_BASE_MS — lib/live-results-spool.js
+ */
+
+const path = require("path");
+const {
+  getRetryOptions,
+  getSpoolPath,
+  replaySpool,
+} = require("../lib/live-results-spool");
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const positional = args.filter((arg) => !arg.startsWith("--"));
+  const unknownArgs = args.filter(
+    (arg) => arg.startsWith("--") && arg !== "--dry-run",
+  );
+  if (unknownArgs.length > 0 || positional.length > 1) {
+    console.error(
+      "사용법: node scripts/replay-live-results.js [spool 경로] [--dry-run]",
+    );
+    process.exit(2);
+  }
+
+  const spoolPath = positional[0]
+    ? path.resolve(positional[0])
+    : getSpoolPath();
+  const dashboardUrl = process.env.DASHBOARD_URL || "";
+  const apiSecret = process.env.DASHBOARD_API_SECRET || "";
+  if (!dryRun && (!dashboardUrl || !apiSecret)) {
+    console.error("DASHBOARD_URL / DASHBOARD_API_SECRET이 필요합니다.");
+    process.exit(2);
+  }
+
+  const label = path.relative(process.cwd(), spoolPath) || spoolPath;
+  const result = await replaySpool(spoolPath, {
+    dashboardUrl,
+    apiSecret,
+    dryRun,
+    ...getRetryOptions(),
+  });
+
+  if (result.pending === 0) {
+    console.log(`✅ ${label}: 재전송할 결과가 없습니다.`);
+    return;
+  }
+  if (dryRun) {
+    console.log(`ℹ️ ${label}: 미전송 ${result.pending}건 (--dry-run)`);
+    return;
+  }
+  console.log(`📤 ${label}: ${result.sent}/${result.pending}건 재전송`);
+  if (result.failure) {
+    console.error(
+      `❌ ${result.failure.key} 전송 실패 (${result.failure.error}, ${result.failure.attempts}회 시도) — 남은 ${result.remaining}건은 다음 재전송으로 남깁니다.`,
+    );
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(
+    `live results 재전송 중 예외 발생: ${
+      error instanceof Error ? error.message : String(error)
+    }`,
+  );
+  process.exit(1);
+});
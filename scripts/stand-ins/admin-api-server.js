@@ -0,0 +1,556 @@
+#!/usr/bin/env node
+
+/**
+ * Admin API 로컬 stand-in 서버
+ *
+ * STG(stage-new-admin.makeuni2026.com) 없이 fetchJson / captureApi 기반
+ * 엑셀↔API 정합성 로직을 실행할 수 있도록 주요 목록 API를 흉내 낸다.
+ *
+ * 제공 엔드포인트 (prefix: /api/external/admin/apis/admin):
+ *   GET /commerce/order/               — 주문 목록
+ *   GET /user/list_new_commerce_user/  — 회원 목록
+ *   GET /commerce/product/             — 대분류(상품) 목록
+ *   GET /commerce/sku/                 — SKU 목록
+ *
+ * 공통 쿼리: page(1부터), size(기본 10, 최대 1000), search
+ * 응답 형식: { count, next, previous, results } (extractRows 호환)
+ *
+ * 엑셀 export (목록과 같은 필터, 페이지 없이 최신순 전체, Content-Disposition: attachment):
+ *   GET /commerce/order/excel/?version=v1|v2|basic — 주문 엑셀 (1주문 N SKU 연속 행 포함)
+ *   GET /commerce/order/excel_sku/                 — 주문-SKU ZIP (내부 xlsx 1개)
+ *   GET /user/list_new_commerce_user/excel/        — 회원 엑셀
+ *   GET /commerce/product/excel/                   — 대분류 엑셀
+ *   GET /commerce/sku/excel/                       — SKU 엑셀
+ * 실제 Admin의 export 경로가 아니라 stand-in 화면 버튼이 내려받는 경로다.
+ *
+ * 제어 엔드포인트:
+ *   POST /__stand-in/seed   — body: { seed?, counts?, fixtures? } 로 데이터 재생성/교체
+ *   GET  /__stand-in/state  — 현재 데이터 건수 확인
+ *
+ * 그 외 GET 경로(/order/list 등)는 해당 목록 API를 1회 호출하고 Admin과 같은 이름의
+ * 엑셀 다운로드 버튼을 가진 HTML shell을 반환하므로 page.goto + waitForResponse +
+ * clickAndDownloadExcel 흐름도 그대로 동작한다. 인증은 보지 않는다.
+ * 검색 / 필터 UI는 없어 OrderListPage를 쓰는 spec(ORD-FILTER 등)은 이 서버로 통과하지 않는다.
+ *
+ * 사용법:
+ *   node scripts/stand-ins/admin-api-server.js
+ *   npm run test:excel   # tests/excel_admin_stand_in.spec.ts, tests/excel_reconcile.spec.ts
+ *   ADMIN_STAND_IN=true npx playwright test tests/admin_excel_verify_pom.spec.ts --project=admin-pc --no-deps -g "-KEY-|ORD-VERIFY-"
+ *
+ * 환경변수:
+ *   ADMIN_STAND_IN_PORT      — 포트 (기본: 4310)
+ *   ADMIN_STAND_IN_SEED      — 결정적 데이터 생성 seed (기본: 20260101)
+ *   ADMIN_STAND_IN_FIXTURES  — 생성 대신 사용할 fixture JSON 경로
+ */
+
+const fs = require("fs");
+const http = require("http");
+const AdmZip = require("adm-zip");
+const XLSX = require("xlsx");
+
+const API_PREFIX = "/api/external/admin/apis/admin";
+const DEFAULT_PORT = 4310;
+const DEFAULT_SEED = 20260101;
+const DEFAULT_COUNTS = { orders: 120, users: 80, products: 40, skus: 60 };
+const MAX_PAGE_SIZE = 1000;
+
+const ORDER_STATUSES = [
+  "결제완료",
+  "상품준비중",
+  "배송중",
+  "배송완료",
+  "주문취소",
+];
+const PAYMENT_STATUSES = ["paid", "ready", "cancelled", "refunded"];
+const SERVICES = ["makestar", "pocaalbum", "albumbuddy"];
+
+// ============================================================================
+// 결정적 fixture 생성
+// ============================================================================
+
+/** mulberry32 — seed가 같으면 항상 같은 데이터가 생성된다 */
+function createRandom(seed) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick(random, values) {
+  return values[Math.floor(random() * values.length)];
+}
+
+function toDateString(date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function generateFixtures(seed = DEFAULT_SEED, counts = {}) {
+  const random = createRandom(seed);
+  const total = { ...DEFAULT_COUNTS, ...counts };
+  const baseTime = Date.UTC(2026, 0, 1);
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  const users = Array.from({ length: total.users }, (_, index) => {
+    const id = 100000 + index;
+    return {
+      id,
+      email: `qa${String(index).padStart(4, "0")}@example.com`,
+      nickname: `테스트회원${index}`,
+      available_services: SERVICES.filter(() => random() > 0.4),
+      date_joined: new Date(baseTime + index * dayMs).toISOString(),
+    };
+  });
+
+  const products = Array.from({ length: total.products }, (_, index) => ({
+    id: 5000 + index,
+    name: `[자동화테스트] 샘플 대분류 ${index + 1}`,
+    is_display: random() > 0.2,
+    created_at: new Date(baseTime + index * dayMs).toISOString(),
+  }));
+
+  const skus = Array.from({ length: total.skus }, (_, index) => ({
+    id: 70000 + index,
+    sku_code: `SKU-${String(index + 1).padStart(5, "0")}`,
+    name: `[자동화테스트] 샘플 SKU ${index + 1}`,
+    stock: Math.floor(random() * 500),
+    product_id: pick(random, products)?.id ?? null,
+  }));
+
+  const orders = Array.from({ length: total.orders }, (_, index) => {
+    const user = pick(random, users);
+    const createdAt = new Date(baseTime + Math.floor(random() * 180) * dayMs);
+    return {
+      id: 900000 + index,
+      user_order_number: `M-${(0x10000 + index).toString(36).toUpperCase()}`,
+      order_status: pick(random, ORDER_STATUSES),
+      payment_status: pick(random, PAYMENT_STATUSES),
+      user_id: user?.id ?? null,
+      buyer_email: user?.email ?? null,
+      total_price: Math.floor(random() * 200 + 1) * 1000,
+      created_at: createdAt.toISOString(),
+    };
+  });
+
+  return { orders, users, products, skus };
+}
+
+function loadFixtures(env = process.env) {
+  if (env.ADMIN_STAND_IN_FIXTURES) {
+    const data = JSON.parse(
+      fs.readFileSync(env.ADMIN_STAND_IN_FIXTURES, "utf-8"),
+    );
+    return normalizeFixtures(data);
+  }
+  return generateFixtures(Number(env.ADMIN_STAND_IN_SEED) || DEFAULT_SEED);
+}
+
+function normalizeFixtures(data = {}) {
+  return {
+    orders: Array.isArray(data.orders) ? data.orders : [],
+    users: Array.isArray(data.users) ? data.users : [],
+    products: Array.isArray(data.products) ? data.products : [],
+    skus: Array.isArray(data.skus) ? data.skus : [],
+  };
+}
+
+// ============================================================================
+// 필터 / 페이지네이션
+// ============================================================================
+
+function includesText(value, keyword) {
+  return String(value ?? "")
+    .toLowerCase()
+    .includes(keyword.toLowerCase());
+}
+
+function matchesSearch(row, keyword, fields) {
+  if (!keyword) return true;
+  return fields.some((field) => includesText(row[field], keyword));
+}
+
+function withinPeriod(row, params) {
+  const periodType = params.get("period_type") || "all";
+  if (periodType === "all") return true;
+  const date = toDateString(new Date(row.created_at));
+  const start = params.get("start_date");
+  const end = params.get("end_date");
+  if (start && date < start) return false;
+  if (end && date > end) return false;
+  return true;
+}
+
+function equalsIfPresent(row, params, field) {
+  const value = params.get(field);
+  return !value || String(row[field]) === value;
+}
+
+const LIST_ENDPOINTS = {
+  "/commerce/order/": {
+    collection: "orders",
+    filter: (row, params) =>
+      matchesSearch(row, params.get("search"), [
+        "user_order_number",
+        "buyer_email",
+      ]) &&
+      equalsIfPresent(row, params, "user_order_number") &&
+      equalsIfPresent(row, params, "payment_status") &&
+      equalsIfPresent(row, params, "order_status") &&
+      withinPeriod(row, params),
+  },
+  "/user/list_new_commerce_user/": {
+    collection: "users",
+    filter: (row, params) => {
+      const services = (params.get("available_services") || "")
+        .split(",")
+        .map((service) => service.trim())
+        .filter(Boolean);
+      return (
+        matchesSearch(row, params.get("search"), ["email", "nickname"]) &&
+        equalsIfPresent(row, params, "id") &&
+        services.every((service) =>
+          (row.available_services || []).includes(service),
+        )
+      );
+    },
+  },
+  "/commerce/product/": {
+    collection: "products",
+    filter: (row, params) =>
+      matchesSearch(row, params.get("search"), ["name"]) &&
+      equalsIfPresent(row, params, "id"),
+  },
+  "/commerce/sku/": {
+    collection: "skus",
+    filter: (row, params) =>
+      matchesSearch(row, params.get("search"), ["sku_code", "name"]) &&
+      equalsIfPresent(row, params, "sku_code"),
+  },
+};
+
+/** 최신순(id 내림차순) 정렬 후 page/size로 자른다 */
+function paginate(rows, params, requestUrl) {
+  const page = Math.max(1, Number(params.get("page")) || 1);
+  const size = Math.min(
+    MAX_PAGE_SIZE,
+    Math.max(1, Number(params.get("size")) || 10),
+  );
+  const sorted = [...rows].sort((a, b) => Number(b.id) - Number(a.id));
+  const start = (page - 1) * size;
+  const results = sorted.slice(start, start + size);
+
+  const pageUrl = (target) => {
+    const url = new URL(requestUrl);
+    url.searchParams.set("page", String(target));
+    return url.toString();
+  };
+
+  return {
+    count: sorted.length,
+    next: start + size < sorted.length ? pageUrl(page + 1) : null,
+    previous: page > 1 ? pageUrl(page - 1) : null,
+    results,
+  };
+}
+
+// ============================================================================
+// 엑셀 export
+// ============================================================================
+
+/** KST "YYYY-MM-DD HH:mm" (Admin 엑셀 표기) */
+function toKstDateTime(iso) {
+  const kst = new Date(new Date(iso).getTime() + 9 * 60 * 60 * 1000);
+  return kst.toISOString().slice(0, 16).replace("T", " ");
+}
+
+/** 주문마다 1~3개 SKU를 결정적으로 배정한다 (fixture에는 주문-SKU 관계가 없다) */
+function orderSkuLines(order, skus) {
+  const count = 1 + (Number(order.id) % 3);
+  return Array.from({ length: count }, (_, index) => ({
+    sku_code: skus.length
+      ? skus[(Number(order.id) + index) % skus.length].sku_code
+      : "",
+    quantity: 1 + ((Number(order.id) + index) % 2),
+  }));
+}
+
+/**
+ * 실제 주문 엑셀처럼 주문 헤더 행 뒤에 SKU 연속 행을 펼친다.
+ * 배송이 시작된 주문의 연속 행은 주문번호 칸에 숫자 송장번호를 넣는다.
+ */
+function orderSheetRows(orders, data) {
+  const rows = [["주문번호", "주문상태", "주문일시", "결제금액", "SKU코드"]];
+  for (const order of orders) {
+    const [first, ...rest] = orderSkuLines(order, data.skus);
+    rows.push([
+      order.user_order_number,
+      order.order_status,
+      toKstDateTime(order.created_at),
+      Number(order.total_price).toLocaleString("en-US"),
+      first.sku_code,
+    ]);
+    const shipped = ["배송중", "배송완료"].includes(order.order_status);
+    for (const line of rest) {
+      rows.push([
+        shipped ? String(600000000000 + Number(order.id)) : "",
+        "",
+        "",
+        "",
+        line.sku_code,
+      ]);
+    }
+  }
+  return rows;
+}
+
+function toXlsxBuffer(rows) {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.aoa_to_sheet(rows),
+    "Sheet1",
+  );
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
+
+/** list: 같은 필터를 쓰는 목록 API, build: (최신순 rows, data) → { fileName, body } */
+const EXPORT_ENDPOINTS = {
+  "/commerce/order/excel/": {
+    list: "/commerce/order/",
+    build: (rows, data, params) => ({
+      fileName: `주문목록_${params.get("version") || "basic"}.xlsx`,
+      body: toXlsxBuffer(orderSheetRows(rows, data)),
+    }),
+  },
+  "/commerce/order/excel_sku/": {
+    list: "/commerce/order/",
+    build: (rows, data) => {
+      const sheet = [["주문번호", "SKU코드", "수량"]];
+      for (const order of rows) {
+        for (const line of orderSkuLines(order, data.skus)) {
+          sheet.push([order.user_order_number, line.sku_code, line.quantity]);
+        }
+      }
+      const zip = new AdmZip();
+      zip.addFile("주문-SKU.xlsx", toXlsxBuffer(sheet));
+      return { fileName: "주문-SKU.zip", body: zip.toBuffer() };
+    },
+  },
+  "/user/list_new_commerce_user/excel/": {
+    list: "/user/list_new_commerce_user/",
+    build: (rows) => ({
+      fileName: "회원목록.xlsx",
+      body: toXlsxBuffer([
+        ["ID", "이메일", "닉네임", "가입일"],
+        ...rows.map((user) => [
+          String(user.id),
+          user.email,
+          user.nickname,
+          toKstDateTime(user.date_joined),
+        ]),
+      ]),
+    }),
+  },
+  "/commerce/product/excel/": {
+    list: "/commerce/product/",
+    build: (rows) => ({
+      fileName: "대분류목록.xlsx",
+      body: toXlsxBuffer([
+        ["ID", "대분류명", "노출여부", "등록일"],
+        ...rows.map((product) => [
+          String(product.id),
+          product.name,
+          product.is_display ? "Y" : "N",
+          toKstDateTime(product.created_at),
+        ]),
+      ]),
+    }),
+  },
+  "/commerce/sku/excel/": {
+    list: "/commerce/sku/",
+    build: (rows) => ({
+      fileName: "SKU목록.xlsx",
+      body: toXlsxBuffer([
+        ["SKU코드", "SKU명", "재고"],
+        ...rows.map((sku) => [
+          sku.sku_code,
+          sku.name,
+          Number(sku.stock).toLocaleString("en-US"),
+        ]),
+      ]),
+    }),
+  },
+};
+
+function sendDownload(res, fileName, body) {
+  const asciiName = fileName.endsWith(".zip") ? "export.zip" : "export.xlsx";
+  res.writeHead(200, {
+    "Content-Type": fileName.endsWith(".zip")
+      ? "application/zip"
+      : "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    "Content-Disposition": `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+  });
+  res.end(body);
+}
+
+// ============================================================================
+// HTTP 서버
+// ============================================================================
+
+/** 화면 경로 → 첫 목록 API + 엑셀 다운로드 버튼(Admin과 같은 문구) */
+const PAGE_SHELLS = {
+  "/order/list": {
+    list: "/commerce/order/",
+    buttons: {
+      "주문 엑셀 다운로드 V2": "/commerce/order/excel/?version=v2",
+      "주문 엑셀 다운로드": "/commerce/order/excel/?version=v1",
+      엑셀다운받기: "/commerce/order/excel/?version=basic",
+      "주문-SKU 엑셀 다운로드": "/commerce/order/excel_sku/",
+    },
+  },
+  "/user/list": {
+    list: "/user/list_new_commerce_user/",
+    buttons: { 엑셀다운받기: "/user/list_new_commerce_user/excel/" },
+  },
+  "/product/new/list": {
+    list: "/commerce/product/",
+    buttons: { 엑셀다운받기: "/commerce/product/excel/" },
+  },
+  "/sku/list": {
+    list: "/commerce/sku/",
+    buttons: { 엑셀다운받기: "/commerce/sku/excel/" },
+  },
+};
+
+function renderShell(pathname) {
+  const shell = PAGE_SHELLS[pathname];
+  const bootstrap = shell
+    ? `<script>fetch(${JSON.stringify(`${API_PREFIX}${shell.list}?page=1&size=10`)}, { headers: { Accept: "application/json" } });</script>`
+    : "";
+  const buttons = Object.entries(shell?.buttons ?? {})
+    .map(
+      ([label, endpoint]) =>
+        `<button type="button" onclick="location.href=${JSON.stringify(`${API_PREFIX}${endpoint}`).replace(/"/g, "&quot;")}">${label}</button>`,
+    )
+    .join("");
+  return `<!doctype html><html><head><title>Admin stand-in</title></head><body><main><h1>Admin stand-in ${pathname}</h1>${buttons}</main>${bootstrap}</body></html>`;
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    req.on("error", reject);
+  });
+}
+
+function createAdminApiServer(options = {}) {
+  let data = options.fixtures
+    ? normalizeFixtures(options.fixtures)
+    : loadFixtures(options.env);
+
+  return http.createServer(async (req, res) => {
+    // fetchJson은 page.evaluate 안에서 credentials: "include"로 호출한다
+    const origin = req.headers.origin;
+    if (origin) {
+      res.setHeader("Access-Control-Allow-Origin", origin);
+      res.setHeader("Access-Control-Allow-Credentials", "true");
+      res.setHeader(
+        "Access-Control-Allow-Headers",
+        "Authorization, Accept, Content-Type",
+      );
+    }
+    if (req.method === "OPTIONS") {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url || "/", `http://${req.headers.host}`);
+
+    try {
+      if (url.pathname === "/__stand-in/seed" && req.method === "POST") {
+        const body = JSON.parse((await readBody(req)) || "{}");
+        data = body.fixtures
+          ? normalizeFixtures(body.fixtures)
+          : generateFixtures(Number(body.seed) || DEFAULT_SEED, body.counts);
+        sendJson(res, 200, stateOf(data));
+        return;
+      }
+      if (url.pathname === "/__stand-in/state") {
+        sendJson(res, 200, stateOf(data));
+        return;
+      }
+
+      const exportEndpoint = url.pathname.startsWith(API_PREFIX)
+        ? EXPORT_ENDPOINTS[url.pathname.slice(API_PREFIX.length)]
+        : null;
+      if (exportEndpoint && req.method === "GET") {
+        const list = LIST_ENDPOINTS[exportEndpoint.list];
+        const rows = data[list.collection]
+          .filter((row) => list.filter(row, url.searchParams))
+          .sort((a, b) => Number(b.id) - Number(a.id));
+        const { fileName, body } = exportEndpoint.build(
+          rows,
+          data,
+          url.searchParams,
+        );
+        sendDownload(res, fileName, body);
+        return;
+      }
+
+      if (url.pathname.startsWith(API_PREFIX)) {
+        const endpoint = LIST_ENDPOINTS[url.pathname.slice(API_PREFIX.length)];
+        if (!endpoint || req.method !== "GET") {
+          sendJson(res, 404, { detail: "Not found." });
+          return;
+        }
+        const rows = data[endpoint.collection].filter((row) =>
+          endpoint.filter(row, url.searchParams),
+        );
+        sendJson(res, 200, paginate(rows, url.searchParams, url.toString()));
+        return;
+      }
+
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(renderShell(url.pathname.replace(/\/+$/, "") || "/"));
+    } catch (error) {
+      sendJson(res, 500, {
+        detail: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+}
+
+function stateOf(data) {
+  return Object.fromEntries(
+    Object.entries(data).map(([key, rows]) => [key, rows.length]),
+  );
+}
+
+module.exports = {
+  API_PREFIX,
+  DEFAULT_PORT,
+  createAdminApiServer,
+  generateFixtures,
+};
+
+if (require.main === module) {
+  const port = Number(process.env.ADMIN_STAND_IN_PORT) || DEFAULT_PORT;
+  const server = createAdminApiServer();
+  server.listen(port, "127.0.0.1", () => {
+    console.log(`✅ Admin API stand-in: http://127.0.0.1:${port}`);
+  });
+  const shutdown = () => server.close(() => process.exit(0));
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
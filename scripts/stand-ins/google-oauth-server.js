@@ -0,0 +1,603 @@
+#!/usr/bin/env node
+
+/**
+ * Google OAuth + 인증 서버 + Admin 로컬 stand-in
+ *
+ * performGoogleLogin (tests/helpers/admin/google-login.ts)과
+ * setupGoogleSession (auto-refresh-token.js)이 사람·실제 Google 계정 없이
+ * headless로 끝까지 돌 수 있도록 로그인 redirect 체인 전체를 흉내 낸다.
+ *
+ * 세 origin을 각각 다른 포트로 띄운다 (쿠키는 포트를 구분하지 않으므로
+ * auth가 심은 refresh_token 쿠키를 admin이 그대로 읽는다):
+ *
+ *   google (기본 4330) — accounts.google.com 대역
+ *     GET  /o/oauth2/v2/auth    — scenario에 따라 즉시 승인 / 동의 화면 / 2단계 인증 / 취소
+ *     POST /o/oauth2/consent    — decision=allow|deny
+ *     POST /o/oauth2/challenge  — code가 challengeCode와 같으면 승인
+ *   auth (기본 4331) — stage-auth.makeuni2026.com 대역
+ *     GET  /auth/login              — "Google" 버튼이 있는 로그인 페이지 (?error 표시)
+ *     GET  /auth/google/start       — state 발급 후 google authorize로 이동
+ *     GET  /auth/google/callback    — code 교환 → 쿠키 설정 → admin?access_token&refresh_token
+ *   admin (기본 4332) — stage-new-admin.makeuni2026.com 대역
+ *     GET  /dashboard, /sku/list 등 — 미인증이면 auth 로그인으로 302
+ *     GET  /auth/logout             — 인증 쿠키 삭제
+ *     GET  /api/...                 — Bearer 또는 refresh_token 쿠키가 유효하면 200, 아니면 401
+ *
+ * 시나리오 (scenario):
+ *   success    — 이미 로그인된 Google 세션처럼 즉시 승인
+ *   challenge  — 2단계 인증 화면에서 멈춤 (code 입력 시에만 통과)
+ *   consent    — 동의 화면에서 멈춤 (허용 클릭 시에만 통과)
+ *   cancelled  — 사용자가 취소한 것처럼 error=access_denied로 돌아감
+ *
+ * 토큰은 token-refresh-server.js와 같은 secret/형식으로 서명하므로
+ * AUTH_REFRESH_ORIGIN stand-in으로 바로 refresh grant를 이어서 검증할 수 있다.
+ *
+ * 제어 엔드포인트 (google origin):
+ *   POST /__stand-in/config — body: { scenario?, challengeCode?, account? }
+ *   GET  /__stand-in/state  — 현재 scenario, origin, 이벤트 기록
+ *
+ * 환경변수:
+ *   GOOGLE_OAUTH_STAND_IN_PORT      — google 포트 (auth = +1, admin = +2, 기본: 4330)
+ *   GOOGLE_OAUTH_STAND_IN_SCENARIO  — success | challenge | consent | cancelled (기본: success)
+ *   TOKEN_STAND_IN_SECRET           — 토큰 서명 키 (token-refresh-server.js와 공유)
+ *
+ * 사용법:
+ *   node scripts/stand-ins/google-oauth-server.js
+ *   GOOGLE_OAUTH_STAND_IN=true npx playwright test --project=admin-setup
+ */
+
+const crypto = require("crypto");
+const http = require("http");
+const {
+  DEFAULT_SECRET,
+  issueTokenPair,
+  verifyJwt,
+} = require("./token-refresh-server");
+
+const DEFAULT_PORT = 4330;
+const SCENARIOS = ["success", "challenge", "consent", "cancelled"];
+const DEFAULT_CHALLENGE_CODE = "123456";
+const DEFAULT_ACCOUNT = {
+  userId: 1,
+  email: "qa.admin@makestar.test",
+  name: "QA Admin",
+};
+const OAUTH_CLIENT_ID = "makestar-admin-stand-in.apps.googleusercontent.com";
+
+/** admin 페이지 경로 → 헤딩. SKUListPage 등 POM 검증에 필요한 최소 요소만 그린다 */
+const ADMIN_PAGES = {
+  "/": "대시보드",
+  "/dashboard": "대시보드",
+  "/sku/list": "SKU 목록",
+};
+
+function resolveOptions(env = process.env) {
+  const scenario = env.GOOGLE_OAUTH_STAND_IN_SCENARIO || "success";
+  assertScenario(scenario);
+  const port = Number(env.GOOGLE_OAUTH_STAND_IN_PORT) || DEFAULT_PORT;
+  return {
+    scenario,
+    secret: env.TOKEN_STAND_IN_SECRET || DEFAULT_SECRET,
+    challengeCode: DEFAULT_CHALLENGE_CODE,
+    account: { ...DEFAULT_ACCOUNT },
+    ports: { google: port, auth: port + 1, admin: port + 2 },
+  };
+}
+
+function assertScenario(scenario) {
+  if (!SCENARIOS.includes(scenario)) {
+    throw new Error(
+      `알 수 없는 Google OAuth stand-in scenario: ${scenario} (${SCENARIOS.join(" | ")})`,
+    );
+  }
+}
+
+// ============================================================================
+// HTTP 유틸
+// ============================================================================
+
+function escapeHtml(value) {
+  return String(value ?? "").replace(
+    /[&<>"']/g,
+    (ch) =>
+      ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[
+        ch
+      ],
+  );
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+  res.end(JSON.stringify(body));
+}
+
+function sendHtml(res, status, title, body) {
+  res.writeHead(status, { "Content-Type": "text/html; charset=utf-8" });
+  res.end(
+    `<!doctype html><html lang="ko"><head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head><body>${body}</body></html>`,
+  );
+}
+
+function redirect(res, location, cookies = []) {
+  res.writeHead(302, {
+    Location: location,
+    ...(cookies.length > 0 ? { "Set-Cookie": cookies } : {}),
+  });
+  res.end();
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    req.on("error", reject);
+  });
+}
+
+async function readParams(req) {
+  const raw = await readBody(req);
+  if ((req.headers["content-type"] || "").includes("application/json")) {
+    try {
+      return raw ? JSON.parse(raw) : {};
+    } catch {
+      return {};
+    }
+  }
+  return Object.fromEntries(new URLSearchParams(raw));
+}
+
+function parseCookies(header) {
+  const cookies = {};
+  for (const part of String(header || "").split(";")) {
+    const index = part.indexOf("=");
+    if (index === -1) continue;
+    cookies[part.slice(0, index).trim()] = decodeURIComponent(
+      part.slice(index + 1).trim(),
+    );
+  }
+  return cookies;
+}
+
+function randomToken() {
+  return crypto.randomBytes(16).toString("hex");
+}
+
+function withQuery(base, params) {
+  const url = new URL(base);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null) url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
+
+// ============================================================================
+// stand-in
+// ============================================================================
+
+/**
+ * @param {Partial<ReturnType<typeof resolveOptions>>} [overrides]
+ */
+function createGoogleOAuthStandIn(overrides = {}) {
+  const options = { ...resolveOptions(), ...overrides };
+  assertScenario(options.scenario);
+  /** listen() 이후 채워지는 각 origin */
+  const origins = { google: "", auth: "", admin: "" };
+  /** auth가 발급한 state → 로그인 후 돌아갈 admin 경로 */
+  const pendingStates = new Map();
+  /** google이 발급한 1회용 authorization code → 계정 */
+  const authCodes = new Map();
+  /** 단계별 기록 (테스트 검증용) */
+  const events = [];
+
+  const record = (step, detail = {}) =>
+    events.push({ step, scenario: options.scenario, ...detail });
+
+  /** 토큰이 유효하면 payload, 아니면 null */
+  function verifyToken(token, tokenType) {
+    const payload = verifyJwt(token, options.secret);
+    if (
+      !payload ||
+      payload.token_type !== tokenType ||
+      typeof payload.exp !== "number" ||
+      payload.exp * 1000 <= Date.now()
+    ) {
+      return null;
+    }
+    return payload;
+  }
+
+  // --------------------------------------------------------------------------
+  // google
+  // --------------------------------------------------------------------------
+
+  /** redirect_uri는 auth origin의 callback만 허용 (open redirect 방지) */
+  const isAllowedRedirect = (redirectUri) =>
+    typeof redirectUri === "string" &&
+    redirectUri.startsWith(`${origins.auth}/`);
+
+  function rejectRedirect(res) {
+    record("authorize", { error: "redirect_uri_mismatch" });
+    sendHtml(res, 400, "400 오류", "<h1>400: redirect_uri_mismatch</h1>");
+  }
+
+  function approve(res, redirectUri, state) {
+    const code = randomToken();
+    authCodes.set(code, { ...options.account });
+    record("approved");
+    redirect(res, withQuery(redirectUri, { code, state }));
+  }
+
+  function deny(res, redirectUri, state) {
+    record("denied");
+    redirect(res, withQuery(redirectUri, { error: "access_denied", state }));
+  }
+
+  function renderConsent(res, redirectUri, state) {
+    sendHtml(
+      res,
+      200,
+      "Google 계정으로 로그인",
+      `<main data-oauth-step="consent">
+        <h1>MAKESTAR Admin에서 Google 계정에 액세스하려고 합니다</h1>
+        <p>${escapeHtml(options.account.email)}</p>
+        <form method="post" action="/o/oauth2/consent">
+          <input type="hidden" name="redirect_uri" value="${escapeHtml(redirectUri)}">
+          <input type="hidden" name="state" value="${escapeHtml(state)}">
+          <button type="submit" name="decision" value="deny">취소</button>
+          <button type="submit" name="decision" value="allow">허용</button>
+        </form>
+      </main>`,
+    );
+  }
+
+  function renderChallenge(res, redirectUri, state, error = "") {
+    sendHtml(
+      res,
+      200,
+      "2단계 인증",
+      `<main data-oauth-step="challenge">
+        <h1>본인 인증</h1>
+        <p>${escapeHtml(options.account.email)} 계정의 2단계 인증 코드를 입력하세요.</p>
+        ${error ? `<p role="alert">${escapeHtml(error)}</p>` : ""}
+        <form method="post" action="/o/oauth2/challenge">
+          <input type="hidden" name="redirect_uri" value="${escapeHtml(redirectUri)}">
+          <input type="hidden" name="state" value="${escapeHtml(state)}">
+          <input type="text" name="code" aria-label="인증 코드" autocomplete="one-time-code">
+          <button type="submit">다음</button>
+        </form>
+      </main>`,
+    );
+  }
+
+  async function handleGoogle(req, res, url) {
+    if (url.pathname === "/__stand-in/config" && req.method === "POST") {
+      const body = await readParams(req);
+      if (body.scenario) assertScenario(body.scenario);
+      Object.assign(options, body);
+      const { secret, ...visible } = options;
+      sendJson(res, 200, visible);
+      return;
+    }
+    if (url.pathname === "/__stand-in/state") {
+      sendJson(res, 200, { scenario: options.scenario, origins, events });
+      return;
+    }
+
+    if (url.pathname === "/o/oauth2/v2/auth" && req.method === "GET") {
+      const redirectUri = url.searchParams.get("redirect_uri") || "";
+      const state = url.searchParams.get("state") || "";
+      if (
+        url.searchParams.get("client_id") !== OAUTH_CLIENT_ID ||
+        !isAllowedRedirect(redirectUri)
+      ) {
+        rejectRedirect(res);
+        return;
+      }
+      record("authorize");
+
+      if (options.scenario === "success") approve(res, redirectUri, state);
+      else if (options.scenario === "cancelled") deny(res, redirectUri, state);
+      else if (options.scenario === "consent")
+        renderConsent(res, redirectUri, state);
+      else renderChallenge(res, redirectUri, state);
+      return;
+    }
+
+    if (url.pathname === "/o/oauth2/consent" && req.method === "POST") {
+      const body = await readParams(req);
+      if (!isAllowedRedirect(body.redirect_uri)) {
+        rejectRedirect(res);
+        return;
+      }
+      if (body.decision === "allow")
+        approve(res, body.redirect_uri, body.state);
+      else deny(res, body.redirect_uri, body.state);
+      return;
+    }
+
+    if (url.pathname === "/o/oauth2/challenge" && req.method === "POST") {
+      const body = await readParams(req);
+      if (!isAllowedRedirect(body.redirect_uri)) {
+        rejectRedirect(res);
+        return;
+      }
+      if (body.code === options.challengeCode) {
+        approve(res, body.redirect_uri, body.state);
+        return;
+      }
+      record("challenge_failed");
+      renderChallenge(
+        res,
+        body.redirect_uri,
+        body.state,
+        "잘못된 코드입니다. 다시 시도하세요.",
+      );
+      return;
+    }
+
+    sendJson(res, 404, { error: "not_found" });
+  }
+
+  // --------------------------------------------------------------------------
+  // auth
+  // --------------------------------------------------------------------------
+
+  function renderLogin(res, next, error) {
+    sendHtml(
+      res,
+      200,
+      "MAKESTAR Auth",
+      `<main data-auth-step="login">
+        <h1>MAKESTAR 관리자 로그인</h1>
+        ${error ? `<p role="alert">로그인에 실패했습니다 (${escapeHtml(error)})</p>` : ""}
+        <form method="get" action="/auth/google/start">
+          <input type="hidden" name="next" value="${escapeHtml(next)}">
+          <button type="submit">Google 계정으로 로그인</button>
+        </form>
+      </main>`,
+    );
+  }
+
+  function handleAuth(req, res, url) {
+    const next = url.searchParams.get("next") || "/dashboard";
+
+    if (url.pathname === "/auth/login") {
+      renderLogin(res, next, url.searchParams.get("error"));
+      return;
+    }
+
+    if (url.pathname === "/auth/google/start") {
+      const state = randomToken();
+      pendingStates.set(state, next);
+      record("start", { next });
+      redirect(
+        res,
+        withQuery(`${origins.google}/o/oauth2/v2/auth`, {
+          client_id: OAUTH_CLIENT_ID,
+          redirect_uri: `${origins.auth}/auth/google/callback`,
+          response_type: "code",
+          scope: "openid email profile",
+          state,
+        }),
+      );
+      return;
+    }
+
+    if (url.pathname === "/auth/google/callback") {
+      const state = url.searchParams.get("state") || "";
+      const returnTo = pendingStates.get(state);
+      pendingStates.delete(state);
+      if (returnTo === undefined) {
+        record("callback", { error: "state_mismatch" });
+        sendHtml(res, 400, "400 오류", "<h1>state 불일치</h1>");
+        return;
+      }
+
+      const error = url.searchParams.get("error");
+      const account = authCodes.get(url.searchParams.get("code") || "");
+      authCodes.delete(url.searchParams.get("code") || "");
+      if (error || !account) {
+        const reason = error || "invalid_grant";
+        record("callback", { error: reason });
+        redirect(
+          res,
+          withQuery(`${origins.auth}/auth/login`, {
+            error: reason,
+            next: returnTo,
+          }),
+        );
+        return;
+      }
+
+      const pair = issueTokenPair({
+        secret: options.secret,
+        userId: account.userId,
+      });
+      const refreshPayload = verifyJwt(pair.refresh, options.secret);
+      const maxAge = refreshPayload.exp - Math.floor(Date.now() / 1000);
+      record("callback", { userId: account.userId });
+      redirect(
+        res,
+        withQuery(`${origins.admin}${returnTo}`, {
+          access_token: pair.access,
+          refresh_token: pair.refresh,
+        }),
+        [
+          `refresh_token=${pair.refresh}; Path=/; Max-Age=${maxAge}; SameSite=Lax`,
+          `sessionid=${randomToken()}; Path=/; HttpOnly; SameSite=Lax`,
+          `csrftoken=${randomToken()}; Path=/; SameSite=Lax`,
+        ],
+      );
+      return;
+    }
+
+    sendJson(res, 404, { error: "not_found" });
+  }
+
+  // --------------------------------------------------------------------------
+  // admin
+  // --------------------------------------------------------------------------
+
+  /** Bearer access → refresh_token 쿠키 → URL access_token 순서로 인증 확인 */
+  function authenticate(req, url) {
+    const bearer = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || "");
+    return (
+      (bearer && verifyToken(bearer[1], "access")) ||
+      verifyToken(parseCookies(req.headers.cookie).refresh_token, "refresh") ||
+      verifyToken(url.searchParams.get("access_token"), "access")
+    );
+  }
+
+  function renderAdminPage(res, pathname) {
+    const heading = ADMIN_PAGES[pathname];
+    const userInfo = JSON.stringify(options.account).replace(/</g, "\\u003c");
+    const searchInput =
+      pathname === "/sku/list"
+        ? '<input type="text" placeholder="SKU코드 /상품명 입력">'
+        : "";
+    sendHtml(
+      res,
+      200,
+      `${heading} | MAKESTAR Admin`,
+      `<aside><nav><a href="/dashboard">대시보드</a><a href="/sku/list">SKU 목록</a></nav></aside>
+      <main><h1>${escapeHtml(heading)}</h1>${searchInput}<table><tbody></tbody></table></main>
+      <script>
+        const params = new URLSearchParams(location.search);
+        for (const key of ["access_token", "refresh_token"]) {
+          if (params.get(key)) localStorage.setItem(key, params.get(key));
+        }
+        localStorage.setItem("user_info", JSON.stringify(${userInfo}));
+        const access = localStorage.getItem("access_token");
+        fetch("/api/external/admin/apis/admin/commerce/sku/?page=1&size=10", {
+          credentials: "include",
+          headers: access ? { Authorization: "Bearer " + access } : {},
+        });
+      </script>`,
+    );
+  }
+
+  function handleAdmin(req, res, url) {
+    if (url.pathname === "/auth/logout") {
+      record("logout");
+      redirect(res, `${origins.auth}/auth/login`, [
+        "refresh_token=; Path=/; Max-Age=0",
+        "sessionid=; Path=/; Max-Age=0",
+      ]);
+      return;
+    }
+
+    const user = authenticate(req, url);
+
+    if (url.pathname.startsWith("/api/")) {
+      if (!user) {
+        sendJson(res, 401, {
+          detail: "Authentication credentials were not provided.",
+        });
+        return;
+      }
+      sendJson(res, 200, { count: 0, next: null, previous: null, results: [] });
+      return;
+    }
+
+    const pathname = url.pathname.replace(/\/+$/, "") || "/";
+    if (!(pathname in ADMIN_PAGES)) {
+      sendJson(res, 404, { detail: "Not found." });
+      return;
+    }
+    if (!user) {
+      redirect(
+        res,
+        withQuery(`${origins.auth}/auth/login`, { next: pathname }),
+      );
+      return;
+    }
+    renderAdminPage(res, pathname);
+  }
+
+  // --------------------------------------------------------------------------
+
+  const toServer = (handler) =>
+    http.createServer(async (req, res) => {
+      const url = new URL(req.url || "/", `http://${req.headers.host}`);
+      try {
+        await handler(req, res, url);
+      } catch (error) {
+        if (!res.headersSent) {
+          sendJson(res, 500, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    });
+
+  const servers = {
+    google: toServer(handleGoogle),
+    auth: toServer(handleAuth),
+    admin: toServer(handleAdmin),
+  };
+
+  /**
+   * 세 서버를 띄우고 origin을 채운다. 포트 0이면 자동 할당.
+   * @param {{ google: number, auth: number, admin: number }} [ports]
+   */
+  async function listen(ports = options.ports) {
+    for (const role of /** @type {const} */ (["google", "auth", "admin"])) {
+      const server = servers[role];
+      await new Promise((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(ports[role], "127.0.0.1", () => resolve(undefined));
+      });
+      const address = /** @type {import("net").AddressInfo} */ (
+        server.address()
+      );
+      origins[role] = `http://127.0.0.1:${address.port}`;
+    }
+    return { ...origins };
+  }
+
+  async function close() {
+    await Promise.all(
+      Object.values(servers).map(
+        (server) =>
+          new Promise((resolve) => {
+            if (!server.listening) return resolve(undefined);
+            server.closeAllConnections();
+            server.close(() => resolve(undefined));
+          }),
+      ),
+    );
+  }
+
+  return { options, origins, events, servers, listen, close };
+}
+
+module.exports = {
+  DEFAULT_ACCOUNT,
+  DEFAULT_CHALLENGE_CODE,
+  DEFAULT_PORT,
+  OAUTH_CLIENT_ID,
+  SCENARIOS,
+  createGoogleOAuthStandIn,
+};
+
+if (require.main === module) {
+  const standIn = createGoogleOAuthStandIn();
+  standIn
+    .listen()
+    .then((origins) => {
+      console.log(
+        `✅ Google OAuth stand-in (scenario=${standIn.options.scenario})`,
+      );
+      console.log(`   google: ${origins.google}`);
+      console.log(`   auth:   ${origins.auth}`);
+      console.log(`   admin:  ${origins.admin}`);
+    })
+    .catch((error) => {
+      console.error(`❌ stand-in 시작 실패: ${error.message}`);
+      process.exit(1);
+    });
+  const shutdown = () => standIn.close().then(() => process.exit(0));
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
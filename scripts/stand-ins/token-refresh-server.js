@@ -0,0 +1,278 @@
+#!/usr/bin/env node
+
+/**
+ * SimpleJWT token_refresh 로컬 stand-in 서버
+ *
+ * scripts/refresh-grant.js가 호출하는 POST /apis/user/registration/token_refresh/를
+ * 흉내 내어, auth.makestar.com / stage-auth.makeuni2026.com 없이 refresh grant와
+ * 토큰 rotation 흐름을 검증할 수 있게 한다.
+ *
+ * 동작 (실제 서버 응답 형식 기준):
+ *   200 — { result, message, code, external_data, access_token, refresh_token? }
+ *         rotate=true면 매 호출 새 refresh_token을 발급하고 이전 것은 blacklist 처리
+ *   400 — refresh 필드 누락
+ *   401 — 서명 불일치 / 만료 / blacklist ({ detail, code: "token_not_valid" })
+ *   404 — refreshPath 이외 경로 (축약형 /user/registration/token_refresh/ 포함)
+ *
+ * 토큰은 HS256으로 서명하며 payload는 SimpleJWT 형식
+ * { token_type, exp, iat, jti, user_id }을 따른다.
+ *
+ * 제어 엔드포인트:
+ *   POST /__stand-in/config — body: 아래 옵션 일부를 런타임에 변경
+ *   POST /__stand-in/issue  — body: { userId?, accessTtlSec?, refreshTtlSec? } 로 토큰 쌍 발급
+ *
+ * 옵션 / 환경변수:
+ *   secret           TOKEN_STAND_IN_SECRET        서명 키
+ *   accessTtlSec     TOKEN_STAND_IN_ACCESS_TTL    access 수명 (기본 3일)
+ *   refreshTtlSec    TOKEN_STAND_IN_REFRESH_TTL   refresh 수명 (기본 7일)
+ *   rotate           TOKEN_STAND_IN_ROTATE=false  refresh rotation 끄기
+ *   forceStatus      —                            모든 refresh 요청을 지정 status로 실패
+ *   delayMs          —                            응답 지연 (타임아웃 검증용)
+ *   port             TOKEN_STAND_IN_PORT          포트 (기본: 4320)
+ *
+ * 사용법:
+ *   node scripts/stand-ins/token-refresh-server.js
+ *   AUTH_REFRESH_ORIGIN=http://127.0.0.1:4320 node scripts/ci-refresh-auth.js --force
+ */
+
+const crypto = require("crypto");
+const http = require("http");
+const { TOKEN_REFRESH_PATH } = require("../refresh-grant");
+
+const DEFAULT_PORT = 4320;
+const DEFAULT_SECRET = "token-refresh-stand-in";
+const DAY_SEC = 24 * 60 * 60;
+
+function base64UrlJson(value) {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function signJwt(payload, secret = DEFAULT_SECRET) {
+  const unsigned = `${base64UrlJson({ alg: "HS256", typ: "JWT" })}.${base64UrlJson(payload)}`;
+  const signature = crypto
+    .createHmac("sha256", secret)
+    .update(unsigned)
+    .digest("base64url");
+  return `${unsigned}.${signature}`;
+}
+
+/** 서명이 맞으면 payload, 아니면 null */
+function verifyJwt(token, secret = DEFAULT_SECRET) {
+  const parts = String(token || "").split(".");
+  if (parts.length !== 3) return null;
+  const expected = crypto
+    .createHmac("sha256", secret)
+    .update(`${parts[0]}.${parts[1]}`)
+    .digest();
+  const actual = Buffer.from(parts[2], "base64url");
+  if (
+    actual.length !== expected.length ||
+    !crypto.timingSafeEqual(actual, expected)
+  ) {
+    return null;
+  }
+  try {
+    return JSON.parse(Buffer.from(parts[1], "base64url").toString());
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * access/refresh 토큰 쌍을 발급한다.
+ * exp를 직접 지정하면 TTL보다 우선한다 (만료 경계값 테스트용).
+ */
+function issueTokenPair({
+  secret = DEFAULT_SECRET,
+  userId = 1,
+  accessTtlSec = 3 * DAY_SEC,
+  refreshTtlSec = 7 * DAY_SEC,
+  accessExp,
+  refreshExp,
+  now = Date.now(),
+} = {}) {
+  const iat = Math.floor(now / 1000);
+  const sign = (tokenType, exp) =>
+    signJwt(
+      {
+        token_type: tokenType,
+        exp,
+        iat,
+        jti: crypto.randomUUID().replace(/-/g, ""),
+        user_id: userId,
+      },
+      secret,
+    );
+  return {
+    access: sign("access", accessExp ?? iat + accessTtlSec),
+    refresh: sign("refresh", refreshExp ?? iat + refreshTtlSec),
+  };
+}
+
+function resolveOptions(env = process.env) {
+  return {
+    secret: env.TOKEN_STAND_IN_SECRET || DEFAULT_SECRET,
+    accessTtlSec: Number(env.TOKEN_STAND_IN_ACCESS_TTL) || 3 * DAY_SEC,
+    refreshTtlSec: Number(env.TOKEN_STAND_IN_REFRESH_TTL) || 7 * DAY_SEC,
+    rotate: env.TOKEN_STAND_IN_ROTATE !== "false",
+    forceStatus: null,
+    delayMs: 0,
+    refreshPath: TOKEN_REFRESH_PATH,
+  };
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+  res.end(JSON.stringify(body));
+}
+
+function readJsonBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => {
+      const raw = Buffer.concat(chunks).toString("utf-8");
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch {
+        resolve(null);
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+const INVALID_TOKEN = {
+  detail: "Token is invalid or expired",
+  code: "token_not_valid",
+};
+const BLACKLISTED_TOKEN = {
+  detail: "Token is blacklisted",
+  code: "token_not_valid",
+};
+
+/**
+ * @param {Partial<ReturnType<typeof resolveOptions>>} [overrides]
+ */
+function createTokenRefreshServer(overrides = {}) {
+  const options = { ...resolveOptions(), ...overrides };
+  /** rotation으로 폐기된 refresh jti */
+  const blacklist = new Set();
+  /** 호출 기록 (테스트 검증용) */
+  const calls = [];
+
+  function handleRefresh(body) {
+    if (options.forceStatus) {
+      return {
+        status: options.forceStatus,
+        body: { detail: `forced ${options.forceStatus}` },
+      };
+    }
+    if (!body || typeof body.refresh !== "string" || !body.refresh) {
+      return { status: 400, body: { refresh: ["This field is required."] } };
+    }
+
+    const payload = verifyJwt(body.refresh, options.secret);
+    if (
+      !payload ||
+      payload.token_type !== "refresh" ||
+      typeof payload.exp !== "number" ||
+      payload.exp * 1000 <= Date.now()
+    ) {
+      return { status: 401, body: INVALID_TOKEN };
+    }
+    if (blacklist.has(payload.jti)) {
+      return { status: 401, body: BLACKLISTED_TOKEN };
+    }
+
+    const pair = issueTokenPair({
+      secret: options.secret,
+      userId: payload.user_id,
+      accessTtlSec: options.accessTtlSec,
+      refreshTtlSec: options.refreshTtlSec,
+    });
+    if (options.rotate) blacklist.add(payload.jti);
+
+    return {
+      status: 200,
+      body: {
+        result: true,
+        message: "success",
+        code: "0000",
+        external_data: {},
+        access_token: pair.access,
+        ...(options.rotate ? { refresh_token: pair.refresh } : {}),
+      },
+    };
+  }
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || "/", `http://${req.headers.host}`);
+    const body = req.method === "POST" ? await readJsonBody(req) : null;
+
+    if (url.pathname === "/__stand-in/config" && req.method === "POST") {
+      Object.assign(options, body || {});
+      const { secret, ...visible } = options;
+      sendJson(res, 200, visible);
+      return;
+    }
+    if (url.pathname === "/__stand-in/issue" && req.method === "POST") {
+      sendJson(
+        res,
+        200,
+        issueTokenPair({
+          secret: options.secret,
+          accessTtlSec: options.accessTtlSec,
+          refreshTtlSec: options.refreshTtlSec,
+          ...(body || {}),
+        }),
+      );
+      return;
+    }
+
+    if (url.pathname !== options.refreshPath || req.method !== "POST") {
+      sendJson(res, 404, { detail: "Not found." });
+      return;
+    }
+
+    const result = handleRefresh(body);
+    calls.push({ path: url.pathname, status: result.status });
+    if (options.delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, options.delayMs));
+    }
+    if (!res.destroyed) sendJson(res, result.status, result.body);
+  });
+
+  return Object.assign(server, {
+    options,
+    calls,
+    /** 현재 옵션(secret)으로 서명된 토큰 쌍 발급 */
+    issueTokenPair: (params = {}) =>
+      issueTokenPair({
+        secret: options.secret,
+        accessTtlSec: options.accessTtlSec,
+        refreshTtlSec: options.refreshTtlSec,
+        ...params,
+      }),
+  });
+}
+
+module.exports = {
+  DEFAULT_PORT,
+  DEFAULT_SECRET,
+  createTokenRefreshServer,
+  issueTokenPair,
+  signJwt,
+  verifyJwt,
+};
+
+if (require.main === module) {
+  const port = Number(process.env.TOKEN_STAND_IN_PORT) || DEFAULT_PORT;
+  const server = createTokenRefreshServer();
+  server.listen(port, "127.0.0.1", () => {
+    console.log(`✅ token_refresh stand-in: http://127.0.0.1:${port}`);
+  });
+  const shutdown = () => server.close(() => process.exit(0));
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
@@ -0,0 +1,148 @@
+#!/usr/bin/env node
+
+/**
+ * Slack 호환 Incoming Webhook 로컬 stand-in 서버
+ *
+ * lib/live-sinks.js의 webhook sink(LIVE_RESULTS_WEBHOOK_URL)가 보내는 메시지를
+ * 실제 Slack 없이 받아 확인할 수 있게 한다.
+ *
+ * 동작 (Slack Incoming Webhook 응답 형식 기준):
+ *   200 "ok"              — text 또는 blocks가 있는 JSON
+ *   400 "invalid_payload" — JSON이 아님
+ *   400 "no_text"         — text / blocks 둘 다 없음
+ *   404 "no_service"      — webhookPath 이외 경로
+ *
+ * 제어 엔드포인트:
+ *   GET  /__stand-in/messages — 받은 메시지 목록 (JSON)
+ *   POST /__stand-in/config   — body: 아래 옵션 일부를 런타임에 변경
+ *   POST /__stand-in/reset    — 받은 메시지 초기화
+ *
+ * 옵션 / 환경변수:
+ *   webhookPath   WEBHOOK_STAND_IN_PATH   수신 경로 (기본: /webhook)
+ *   forceStatus   —                       모든 webhook 요청을 지정 status로 실패 (재시도 검증용)
+ *   logMessages   —                       받은 메시지 text를 콘솔에 출력 (단독 실행 시 기본)
+ *   port          WEBHOOK_STAND_IN_PORT   포트 (기본: 4340)
+ *
+ * 사용법:
+ *   node scripts/stand-ins/webhook-server.js
+ *   LIVE_REPORTER_SINKS=webhook LIVE_RESULTS_WEBHOOK_URL=http://127.0.0.1:4340/webhook npx playwright test ...
+ */
+
+const http = require("http");
+
+const DEFAULT_PORT = 4340;
+const DEFAULT_WEBHOOK_PATH = "/webhook";
+
+function resolveOptions(env = process.env) {
+  return {
+    webhookPath: env.WEBHOOK_STAND_IN_PATH || DEFAULT_WEBHOOK_PATH,
+    forceStatus: null,
+    logMessages: false,
+  };
+}
+
+function sendText(res, status, body) {
+  res.writeHead(status, { "Content-Type": "text/plain; charset=utf-8" });
+  res.end(body);
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * @param {Partial<ReturnType<typeof resolveOptions>>} [overrides]
+ */
+function createWebhookServer(overrides = {}) {
+  const options = { ...resolveOptions(), ...overrides };
+  /** 받은 메시지 (테스트 검증용) */
+  const messages = [];
+  /** 호출 기록 (실패 응답 포함) */
+  const calls = [];
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || "/", `http://${req.headers.host}`);
+    const raw = req.method === "POST" ? await readBody(req) : "";
+
+    if (url.pathname === "/__stand-in/messages" && req.method === "GET") {
+      res.writeHead(200, { "Content-Type": "application/json; charset=utf-8" });
+      res.end(JSON.stringify(messages));
+      return;
+    }
+    if (url.pathname === "/__stand-in/config" && req.method === "POST") {
+      try {
+        Object.assign(options, raw ? JSON.parse(raw) : {});
+      } catch {
+        sendText(res, 400, "invalid_payload");
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json; charset=utf-8" });
+      res.end(JSON.stringify(options));
+      return;
+    }
+    if (url.pathname === "/__stand-in/reset" && req.method === "POST") {
+      messages.length = 0;
+      calls.length = 0;
+      sendText(res, 200, "ok");
+      return;
+    }
+
+    if (url.pathname !== options.webhookPath || req.method !== "POST") {
+      sendText(res, 404, "no_service");
+      return;
+    }
+    if (options.forceStatus) {
+      calls.push({ status: options.forceStatus });
+      sendText(res, options.forceStatus, `forced ${options.forceStatus}`);
+      return;
+    }
+
+    let body;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      calls.push({ status: 400 });
+      sendText(res, 400, "invalid_payload");
+      return;
+    }
+    if (
+      !body ||
+      (typeof body.text !== "string" && !Array.isArray(body.blocks))
+    ) {
+      calls.push({ status: 400 });
+      sendText(res, 400, "no_text");
+      return;
+    }
+
+    calls.push({ status: 200 });
+    messages.push(body);
+    if (options.logMessages) console.log(`\n${body.text ?? ""}`);
+    sendText(res, 200, "ok");
+  });
+
+  return Object.assign(server, { options, messages, calls });
+}
+
+module.exports = {
+  DEFAULT_PORT,
+  DEFAULT_WEBHOOK_PATH,
+  createWebhookServer,
+};
+
+if (require.main === module) {
+  const port = Number(process.env.WEBHOOK_STAND_IN_PORT) || DEFAULT_PORT;
+  const server = createWebhookServer({ logMessages: true });
+  server.listen(port, "127.0.0.1", () => {
+    console.log(
+      `✅ webhook stand-in: http://127.0.0.1:${port}${server.options.webhookPath}`,
+    );
+  });
+  const shutdown = () => server.close(() => process.exit(0));
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
@@ -15,7 +15,8 @@
  *
  * 환경변수:
  *   AUTH_WARN_HOURS  — 경고 임계치 (기본: 6시간)
- *   AUTH_FILE_PATH   — auth.json 경로 (기본: ./auth.json)
+ *   AUTH_PRODUCT     — cmr(기본) / admin / albumbuddy. 파일·도메인은 scripts/auth-store.js 기준
+ *   AUTH_FILE_PATH   — auth.json 경로 직접 지정 (기본: 제품 / 환경별 파일)
  *   AUTH_TARGET_DOMAIN — 검증할 refresh_token 도메인 직접 지정
  *   AUTH_LIVE_CHECK=false — live auth API 검증 비활성화
  *   AUTH_PAGE_CHECK=true — Playwright로 /my-page 진입 검증 활성화
@@ -31,9 +32,8 @@ const {
   findRefreshTokens,
   formatRemaining,
   getRefreshTokenStatuses,
-  readStorageState,
-  resolveTargetDomain,
 } = require("./auth-state");
+const { AuthStore } = require("./auth-store");
 const {
   checkCartFlowAuth,
   checkLiveAuth,
@@ -41,15 +41,19 @@ const {
   checkProtectedApi,
 } = require("./live-auth-check");
 
-const AUTH_FILE =
-  process.env.AUTH_FILE_PATH || path.join(process.cwd(), "auth.json");
+const authStore = new AuthStore(process.env.AUTH_PRODUCT || "cmr");
+const AUTH_FILE = authStore.storageStatePath;
 const AUTH_FILE_LABEL = path.basename(AUTH_FILE);
 const WARN_HOURS = Number(process.env.AUTH_WARN_HOURS) || 6;
 const WARN_THRESHOLD_MS = WARN_HOURS * 60 * 60 * 1000;
-const TARGET_DOMAIN = resolveTargetDomain();
+const TARGET_DOMAIN = authStore.targetDomain;
+// live 검증도 AuthStore가 정한 refresh_token 도메인 기준으로 쿠키를 보낸다
+const LIVE_CHECK_OPTIONS = {
+  env: { ...process.env, AUTH_TARGET_DOMAIN: TARGET_DOMAIN },
+};
 
 async function main() {
-  const authState = readStorageState(AUTH_FILE);
+  const authState = authStore.readStorageState();
   if (!authState.ok) {
     const message =
       authState.code === "missing"
@@ -140,7 +144,7 @@ async function main() {
 
   const shouldCheckLivePage = process.env.AUTH_PAGE_CHECK === "true";
   let liveAuthFailed = false;
-  const liveAuth = await checkLiveAuth(authState.state);
+  const liveAuth = await checkLiveAuth(authState.state, LIVE_CHECK_OPTIONS);
   if (liveAuth.skipped) {
     console.log(`\nℹ️ live auth 검증 건너뜀 (${liveAuth.message})`);
   } else if (!liveAuth.ok) {
@@ -170,7 +174,10 @@ async function main() {
   // access_token으로도 렌더링되지만 PUT 흐름에서는 클라이언트가 401로 막힌다. 즉
   // page-check 통과 = cart/checkout 동작 가능이 아니다. AUTH_PROTECTED_CHECK=false로
   // 명시 비활성화하지 않는 한 fail-fast로 잡 중단.
-  const protectedAuth = await checkProtectedApi(authState.state);
+  const protectedAuth = await checkProtectedApi(
+    authState.state,
+    LIVE_CHECK_OPTIONS,
+  );
   if (protectedAuth.skipped) {
     console.log(`\nℹ️ protected api 검증 건너뜀 (${protectedAuth.message})`);
   } else if (!protectedAuth.ok) {
@@ -190,7 +197,10 @@ async function main() {
   // fail-fast로 다루면 cart와 무관한 모든 monitoring 영역이 함께 스킵되어
   // blast radius가 너무 크다 — cart 회귀는 cart 관련 spec이 직접 fail 시켜
   // 시그널을 노출하면 충분하므로 여기서는 warning만 남긴다.
-  const cartFlowAuth = await checkCartFlowAuth(authState.state);
+  const cartFlowAuth = await checkCartFlowAuth(
+    authState.state,
+    LIVE_CHECK_OPTIONS,
+  );
   if (cartFlowAuth.skipped) {
     console.log(`ℹ️ cart flow auth 검증 건너뜀 (${cartFlowAuth.message})`);
   } else if (!cartFlowAuth.ok) {
@@ -203,7 +213,10 @@ async function main() {
     console.log(`✅ cart flow auth 검증 통과 (${cartFlowAuth.status})`);
   }
 
-  const livePageAuth = await checkLivePageAuth(authState.state);
+  const livePageAuth = await checkLivePageAuth(
+    authState.state,
+    LIVE_CHECK_OPTIONS,
+  );
   if (livePageAuth.skipped) {
     console.log(`ℹ️ live page auth 검증 건너뜀 (${livePageAuth.message})`);
   } else if (!livePageAuth.ok) {
@@ -11,6 +11,10 @@ import { test, expect, Page, Browser, BrowserContext } from "@playwright/test";
 import * as fs from "fs";
 import * as path from "path";
 import { runOptionalStep } from "./helpers/optional-step";
+import {
+  readAuthJsonFile,
+  writeAuthJsonFile,
+} from "../scripts/auth-crypto";
 
 type StoredCookie = { name: string; value: string; expires?: number };
 type StorageState = Awaited<ReturnType<BrowserContext["storageState"]>>;
@@ -211,17 +215,10 @@ async function saveAlbumBuddySessionStorage(page: Page): Promise<void> {
     return data;
   });
 
-  fs.writeFileSync(
-    AB_SESSION_FILE,
-    JSON.stringify(
-      {
-        origin: ALBUMBUDDY_BASE_URL,
-        entries,
-      },
-      null,
-      2,
-    ),
-  );
+  writeAuthJsonFile(AB_SESSION_FILE, {
+    origin: ALBUMBUDDY_BASE_URL,
+    entries,
+  });
 }
 
 async function restoreAlbumBuddySessionStorage(page: Page): Promise<void> {
@@ -229,7 +226,7 @@ async function restoreAlbumBuddySessionStorage(page: Page): Promise<void> {
     return;
   }
 
-  const payload = JSON.parse(fs.readFileSync(AB_SESSION_FILE, "utf-8"));
+  const payload = readAuthJsonFile(AB_SESSION_FILE);
   await page.addInitScript((data) => {
     if (window.location.origin !== data.origin) {
       return;
@@ -334,7 +331,10 @@ async function verifySavedSession(browser: Browser | null): Promise<boolean> {
     return false;
   }
 
-  const verifyContext = await browser.newContext({ storageState: AB_AUTH_FILE });
+  // AUTH_ENCRYPTION_KEY로 암호화된 파일도 읽을 수 있도록 복호화한 객체로 넘긴다
+  const verifyContext = await browser.newContext({
+    storageState: readAuthJsonFile(AB_AUTH_FILE),
+  });
   const verifyPage = await verifyContext.newPage();
   await restoreAlbumBuddySessionStorage(verifyPage);
   await gotoWithRetry(verifyPage, `${ALBUMBUDDY_BASE_URL}/dashboard/purchasing`);
@@ -352,14 +352,14 @@ async function tryBootstrapFromGlobalAuth(
   }
 
   try {
-    const authData = JSON.parse(fs.readFileSync(GLOBAL_AUTH_FILE, "utf-8"));
+    const authData = readAuthJsonFile(GLOBAL_AUTH_FILE);
     const snapshot = getAuthSnapshotFromState(authData);
     if (!snapshot.hasRefreshToken || !snapshot.hasLoggedInUser) {
       return false;
     }
 
     const seededContext = await browser.newContext({
-      storageState: GLOBAL_AUTH_FILE,
+      storageState: authData,
     });
     const seededPage = await seededContext.newPage();
     await gotoWithRetry(seededPage, ALBUMBUDDY_AUTH_URL);
@@ -421,7 +421,10 @@ async function tryBootstrapFromGlobalAuth(
       return false;
     }
 
-    await seededContext.storageState({ path: AB_AUTH_FILE, indexedDB: true });
+    writeAuthJsonFile(
+      AB_AUTH_FILE,
+      await seededContext.storageState({ indexedDB: true }),
+    );
     await saveAlbumBuddySessionStorage(activeSeededPage);
     await seededContext.close();
 
@@ -440,7 +443,7 @@ async function checkExistingSession(page: Page): Promise<boolean> {
   }
 
   try {
-    const authData = JSON.parse(fs.readFileSync(AB_AUTH_FILE, "utf-8"));
+    const authData = readAuthJsonFile(AB_AUTH_FILE);
     const cookies = authData.cookies || [];
     const snapshot = getAuthSnapshotFromState(authData);
     if (!snapshot.hasRefreshToken || !snapshot.hasLoggedInUser) {
@@ -601,7 +604,11 @@ test("AlbumBuddy 로그인 세션 저장 (수동 로그인)", async ({
 
   if (loginSuccess) {
     // 세션 저장
-    await context.storageState({ path: AB_AUTH_FILE, indexedDB: true });
+    // AUTH_ENCRYPTION_KEY가 있으면 암호화해서 저장 (scripts/auth-crypto.js)
+    writeAuthJsonFile(
+      AB_AUTH_FILE,
+      await context.storageState({ indexedDB: true }),
+    );
     await saveAlbumBuddySessionStorage(activePage);
 
     console.log("");
@@ -620,7 +627,7 @@ test("AlbumBuddy 로그인 세션 저장 (수동 로그인)", async ({
 
     // 저장된 세션 확인
     expect(fs.existsSync(AB_AUTH_FILE)).toBeTruthy();
-    const authData = JSON.parse(fs.readFileSync(AB_AUTH_FILE, "utf-8"));
+    const authData = readAuthJsonFile(AB_AUTH_FILE);
     console.log(`🍪 저장된 쿠키 수: ${authData.cookies?.length || 0}개`);
     console.log(`🧠 저장된 sessionStorage 파일: ${AB_SESSION_FILE}`);
     console.log("");
@@ -654,7 +661,7 @@ test("기존 AlbumBuddy 세션 유효성 확인", async ({ page }) => {
   }
 
   // 세션 로드
-  const authData = JSON.parse(fs.readFileSync(AB_AUTH_FILE, "utf-8"));
+  const authData = readAuthJsonFile(AB_AUTH_FILE);
   const cookies = authData.cookies || [];
   const fileSnapshot = getAuthSnapshotFromState(authData);
 
@@ -698,7 +705,10 @@ test("기존 AlbumBuddy 세션 유효성 확인", async ({ page }) => {
     throw new Error("브라우저 인스턴스를 찾을 수 없습니다");
   }
 
-  const verifyContext = await browser.newContext({ storageState: AB_AUTH_FILE });
+  // AUTH_ENCRYPTION_KEY로 암호화된 파일도 읽을 수 있도록 복호화한 객체로 넘긴다
+  const verifyContext = await browser.newContext({
+    storageState: readAuthJsonFile(AB_AUTH_FILE),
+  });
   const verifyPage = await verifyContext.newPage();
   await restoreAlbumBuddySessionStorage(verifyPage);
   await gotoWithRetry(verifyPage, `${ALBUMBUDDY_BASE_URL}/dashboard/purchasing`);
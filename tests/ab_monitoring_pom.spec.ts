@@ -21,6 +21,8 @@
 
 import { test, expect } from "@playwright/test";
 import { runOptionalStep } from "./helpers/optional-step";
+import { recordDomSnapshot } from "./helpers/dom-snapshot";
+import { formatPerfTrend, recordPerfSample } from "./helpers/perf-trend";
 import {
   AlbumBuddyPage,
   ALBUMBUDDY_PAGES,
@@ -29,6 +31,8 @@ import {
 } from "./pages";
 import * as path from "path";
 import { checkAuthFile } from "./helpers/auth-utils";
+import { skipIfAuthUnusable } from "./helpers/auth-gate";
+import { materializeStorageState } from "../scripts/auth-crypto";
 
 // ============================================================================
 // 상수 및 헬퍼
@@ -79,9 +83,22 @@ test.describe.serial("Health Check", () => {
   }) => {
     albumbuddy = new AlbumBuddyPage(page);
     const result = await albumbuddy.measureHomePagePerformance();
+    // 예산(tests/fixtures/perf-budgets.json) + (PERF_HISTORY=true면) 최근 실행 p75 대비 회귀 판정
+    const trend = recordPerfSample(
+      "albumbuddy:home",
+      { loadTime: result.loadTime },
+      { retry: test.info().retry },
+    );
+    for (const finding of trend.findings) {
+      test.info().annotations.push({
+        type: `perf-${finding.kind}-${finding.severity}`,
+        description: `[albumbuddy:home] ${finding.message}`,
+      });
+    }
 
     console.log(`홈페이지 로드 시간: ${result.loadTime}ms`);
-    expect(result.passed).toBe(true);
+    console.log(formatPerfTrend(trend));
+    expect(trend.errors, formatPerfTrend(trend)).toEqual([]);
   });
 
   test("AB-HC-03: 네트워크 에러 모니터링 @feature:albumbuddy.home", async ({
@@ -130,6 +147,7 @@ test.describe("홈페이지", () => {
     }) => {
       albumbuddy = new AlbumBuddyPage(page);
       await albumbuddy.gotoHome();
+      await recordDomSnapshot(page, "albumbuddy/home");
 
       const { hasBrand, hasMakestar, hasCurrency } =
         await albumbuddy.verifyBrandElements();
@@ -622,10 +640,11 @@ test.describe("Dashboard", () => {
   // 로그인 상태 테스트
   test.describe("인증 세션 검증 @feature:albumbuddy.dashboard.auth", () => {
     const authStatus = checkAuthFile(AUTH_FILE, AB_AUTH_REQUIREMENTS);
+    test.beforeEach(() => skipIfAuthUnusable("albumbuddy"));
 
     test.use({
       storageState: authStatus.available
-        ? AUTH_FILE
+        ? materializeStorageState(AUTH_FILE)
         : { cookies: [], origins: [] },
     });
 
@@ -659,10 +678,11 @@ test.describe("Dashboard", () => {
 
   test.describe("Purchasing @feature:albumbuddy.dashboard.purchasing", () => {
     const authStatus = checkAuthFile(AUTH_FILE, AB_AUTH_REQUIREMENTS);
+    test.beforeEach(() => skipIfAuthUnusable("albumbuddy"));
 
     test.use({
       storageState: authStatus.available
-        ? AUTH_FILE
+        ? materializeStorageState(AUTH_FILE)
         : { cookies: [], origins: [] },
     });
 
@@ -723,10 +743,11 @@ test.describe("Dashboard", () => {
 
   test.describe("Package @feature:albumbuddy.dashboard.package", () => {
     const authStatus = checkAuthFile(AUTH_FILE, AB_AUTH_REQUIREMENTS);
+    test.beforeEach(() => skipIfAuthUnusable("albumbuddy"));
 
     test.use({
       storageState: authStatus.available
-        ? AUTH_FILE
+        ? materializeStorageState(AUTH_FILE)
         : { cookies: [], origins: [] },
     });
 
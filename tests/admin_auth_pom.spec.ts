@@ -7,6 +7,7 @@
  * 흐름:
  * 1. 토큰 유효성 확인
  * 2. 토큰 만료 시 → 자동 로그인 시도 (브라우저 열림)
+ *    GOOGLE_OAUTH_STAND_IN=true면 로컬 Google OAuth stand-in으로 headless 실행
  * 3. 로그인 완료 후 → 인증 검증
  * 4. 인증 성공 → 다른 테스트 실행 가능
  *
@@ -20,6 +21,7 @@ import {
   resetAuthCache,
   setupApiInterceptor,
   performGoogleLogin,
+  ADMIN_BASE_URL,
 } from "./helpers/admin";
 import { SKUListPage } from "./pages";
 import {
@@ -28,6 +30,7 @@ import {
   clearAuthFailed,
   isTokenValidSync,
   getTokenRemaining,
+  ensureAdminTokenFresh,
   verifyAuthentication,
   PAGE_LOAD_TIMEOUT,
 } from "./helpers/admin/test-helpers";
@@ -42,20 +45,19 @@ type ApiResponseSnapshot = {
   status: number;
 };
 
-type AdminIdentity =
-  | {
-      source: string;
-      value: string;
-    }
-  | null;
+type AdminIdentity = {
+  source: string;
+  value: string;
+} | null;
 
 function isAdminCoreApiResponse(response: Response): boolean {
   const url = response.url();
   const resourceType = response.request().resourceType();
   return (
-    /^https:\/\/(stage-new-admin|stage-api|stage-auth)\.makeuni2026\.com\//.test(
+    (/^https:\/\/(stage-new-admin|stage-api|stage-auth)\.makeuni2026\.com\//.test(
       url,
-    ) &&
+    ) ||
+      url.startsWith(`${new URL(ADMIN_BASE_URL).origin}/`)) &&
     url.includes("/api/") &&
     (resourceType === "fetch" || resourceType === "xhr")
   );
@@ -120,7 +122,10 @@ async function readAdminIdentity(page: Page): Promise<AdminIdentity> {
 // ============================================================================
 // 전역 설정
 // ============================================================================
-test.beforeAll(async () => {
+test.beforeAll(async ({}, workerInfo) => {
+  // 만료가 가까우면 Google 로그인 전에 refresh grant로 먼저 갱신 (worker 간 lock)
+  tokenValid = (await ensureAdminTokenFresh(`worker-${workerInfo.workerIndex}`))
+    .valid;
   resetAuthCache();
   clearAuthFailed(); // 이전 인증 실패 상태 초기화
 
@@ -174,7 +179,8 @@ test.beforeEach(async ({ page }, testInfo) => {
 test.describe.serial("인증 검증", () => {
   test("AUTH-VERIFY-01: 어드민 페이지 접근 인증 확인", async ({ page }) => {
     // 이 테스트가 실패하면 이후 모든 테스트는 스킵됨 (파일 기반 상태 공유)
-    const adminUrl = "https://stage-new-admin.makeuni2026.com/sku/list";
+    // GOOGLE_OAUTH_STAND_IN=true면 로컬 stand-in Admin origin을 사용한다.
+    const adminUrl = `${ADMIN_BASE_URL}/sku/list`;
     const adminApiResponses: ApiResponseSnapshot[] = [];
     page.on("response", (response) => {
       if (!isAdminCoreApiResponse(response)) return;
@@ -248,7 +254,9 @@ test.describe.serial("인증 검증", () => {
     const skuPage = new SKUListPage(page);
 
     // 페이지, 권한 있는 메뉴, 핵심 API, 사용자 식별자를 함께 확인한다.
-    await expect(page).toHaveURL(/stage-new-admin\.makeuni2026\.com/);
+    await expect(page).toHaveURL(
+      (url) => url.origin === new URL(ADMIN_BASE_URL).origin,
+    );
     await skuPage.assertPageTitle();
     await skuPage.assertHeading();
     await expect(
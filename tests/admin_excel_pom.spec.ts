@@ -9,6 +9,9 @@
  *  2. 사유 모달 출현 여부 일치
  *  3. 파일 무결성 (xlsx 파싱 성공, 시트/헤더/row 존재)
  *  4. ZIP은 내부 xlsx 전체 파싱
+ *  5. 스키마가 선언된 export는 필수 헤더 / 컬럼 형식 (helpers/excel-schema.ts)
+ *  6. 개인정보 정책이 선언된 export는 모든 시트의 마스킹 (helpers/excel-pii.ts)
+ *  7. EXCEL_BASELINE=true면 직전 실행 baseline 대비 컬럼 삭제 / 이름 변경 (helpers/excel-baseline.ts)
  */
 
 import { test, expect } from "@playwright/test";
@@ -16,6 +19,28 @@ import type { Locator, Page } from "@playwright/test";
 import { setupAuthCookies, resetAuthCache } from "./helpers/admin/auth-helper";
 import { clickAndDownloadExcel } from "./helpers/admin/excel-export";
 import { parseExcelOrZip } from "./helpers/excel-parser";
+import {
+  formatBaselineDiff,
+  recordExcelBaseline,
+} from "./helpers/excel-baseline";
+import {
+  CATEGORY_EXPORT_SCHEMA,
+  EVENT_SHIPMENT_EXPORT_SCHEMA,
+  ORDER_EXPORT_SCHEMA,
+  ORDER_SKU_EXPORT_SCHEMA,
+  USER_EXPORT_SCHEMA,
+  formatViolations,
+  validateExcelSheet,
+  type ExcelSchema,
+} from "./helpers/excel-schema";
+import {
+  EVENT_WINNER_PII_POLICY,
+  ORDER_PII_POLICY,
+  USER_PII_POLICY,
+  formatPiiReport,
+  scanPii,
+  type PiiPolicy,
+} from "./helpers/excel-pii";
 
 const BASE =
   process.env.ADMIN_BASE_URL || "https://stage-new-admin.makeuni2026.com";
@@ -35,6 +60,10 @@ type Target = {
     /** ZIP이면 내부 파일 최소 수 */
     minFiles?: number;
   };
+  /** 첫 파일 첫 시트에 적용할 export 스키마 */
+  schema?: ExcelSchema;
+  /** 모든 파일 / 시트에 적용할 개인정보 마스킹 정책 */
+  piiPolicy?: PiiPolicy;
 };
 
 const TARGETS: Target[] = [
@@ -46,6 +75,7 @@ const TARGETS: Target[] = [
     buttonText: "엑셀다운받기",
     exact: true,
     expect: { hasReasonModal: false, isZip: false },
+    schema: CATEGORY_EXPORT_SCHEMA,
   },
   {
     id: "PRD-EXCEL-01",
@@ -62,6 +92,7 @@ const TARGETS: Target[] = [
     buttonText: "출고엑셀다운받기",
     exact: true,
     expect: { hasReasonModal: false, isZip: false },
+    schema: EVENT_SHIPMENT_EXPORT_SCHEMA,
   },
   // === 주문 ===
   {
@@ -71,6 +102,8 @@ const TARGETS: Target[] = [
     buttonText: "주문-SKU 엑셀 다운로드",
     exact: true,
     expect: { hasReasonModal: true, isZip: true, minFiles: 1 },
+    schema: ORDER_SKU_EXPORT_SCHEMA,
+    piiPolicy: ORDER_PII_POLICY,
   },
   {
     id: "ORD-V1-01",
@@ -79,6 +112,8 @@ const TARGETS: Target[] = [
     buttonText: "주문 엑셀 다운로드",
     exact: true,
     expect: { hasReasonModal: true, isZip: false },
+    schema: ORDER_EXPORT_SCHEMA,
+    piiPolicy: ORDER_PII_POLICY,
   },
   {
     id: "ORD-V2-01",
@@ -87,6 +122,8 @@ const TARGETS: Target[] = [
     buttonText: "주문 엑셀 다운로드 V2",
     exact: true,
     expect: { hasReasonModal: true, isZip: false },
+    schema: ORDER_EXPORT_SCHEMA,
+    piiPolicy: ORDER_PII_POLICY,
   },
   {
     id: "ORD-BASIC-01",
@@ -95,6 +132,8 @@ const TARGETS: Target[] = [
     buttonText: "엑셀다운받기",
     exact: true,
     expect: { hasReasonModal: true, isZip: false },
+    schema: ORDER_EXPORT_SCHEMA,
+    piiPolicy: ORDER_PII_POLICY,
   },
   // === 회원 ===
   {
@@ -104,6 +143,8 @@ const TARGETS: Target[] = [
     buttonText: "엑셀다운받기",
     exact: true,
     expect: { hasReasonModal: true, isZip: false },
+    schema: USER_EXPORT_SCHEMA,
+    piiPolicy: USER_PII_POLICY,
   },
   {
     id: "USR-B2B-01",
@@ -113,6 +154,7 @@ const TARGETS: Target[] = [
     exact: true,
     preAction: "user-b2b-tab",
     expect: { hasReasonModal: true, isZip: false },
+    piiPolicy: USER_PII_POLICY,
   },
   // === 이벤트 ===
   {
@@ -123,6 +165,7 @@ const TARGETS: Target[] = [
     exact: false,
     preAction: "event-winner-menu",
     expect: { hasReasonModal: true, isZip: false },
+    piiPolicy: EVENT_WINNER_PII_POLICY,
   },
   {
     id: "EVT-SALES-01",
@@ -240,6 +283,49 @@ test.describe("Admin 엑셀 다운로드 검증", () => {
       }
 
       const head = parsed.files[0].sheets[0];
+
+      // === 3) 스키마 (필수 헤더 / 형식 / null / 유일성) ===
+      if (t.schema) {
+        const validation = validateExcelSheet(head, t.schema);
+        expect(validation.violations, formatViolations(validation)).toEqual([]);
+        // 실제 export로 확인하지 못한 허용 값(주문상태 등)은 실패 대신 경고로만 남긴다
+        if (validation.warnings.length > 0) {
+          console.warn(formatViolations(validation));
+        }
+      }
+
+      // === 4) 개인정보 마스킹 (위반 메시지에는 셀 좌표와 값 형태만 남는다) ===
+      if (t.piiPolicy) {
+        for (const f of parsed.files) {
+          for (const sheet of f.sheets) {
+            const report = scanPii(sheet, t.piiPolicy);
+            expect(
+              report.violations,
+              `${f.fileName}\n${formatPiiReport(report)}`,
+            ).toEqual([]);
+          }
+        }
+      }
+
+      // === 5) 직전 실행 baseline 대비 (EXCEL_BASELINE=true일 때만) ===
+      // 헤더 순서 / row 수 급변 같은 경고는 annotation으로만 남긴다
+      const baselineDiff = recordExcelBaseline(t.id, parsed, {
+        keyColumn:
+          t.schema?.continuationKey ??
+          t.schema?.columns.find((column) => column.unique)?.header,
+      });
+      if (baselineDiff) {
+        for (const finding of baselineDiff.findings) {
+          test.info().annotations.push({
+            type: `excel-baseline-${finding.severity}`,
+            description: `[${finding.kind}] ${finding.message}`,
+          });
+        }
+        expect(baselineDiff.errors, formatBaselineDiff(baselineDiff)).toEqual(
+          [],
+        );
+      }
+
       const summary =
         `[${t.id}] ✅ "${result.fileName}" ${result.sizeBytes}B ${result.elapsedMs}ms ` +
         `files=${parsed.files.length} headers=${head.headers.length} rows=${head.rowCount}`;
@@ -8,6 +8,8 @@
  *  2. 주문 Excel → API 역검증 (유령 데이터 없음): V1 / V2 / 기본 / SKU(ZIP)
  *  3. 필터 조합 (주문 상태 / 주문번호 검색)
  *
+ * 키 join / 누락 / 필드 비교는 helpers/admin/excel-reconcile.ts 엔진을 사용한다.
+ *
  * 제외:
  *  - 주문 엑셀은 상한이 비최신순이라 키 교집합 검증 부적합 → 역방향 검증으로 대체
  *  - 이벤트/상품 : API ↔ Excel 집계 레벨 상이 (그룹 vs 개인 등)
@@ -20,6 +22,14 @@ import { setupAuthCookies, resetAuthCache } from "./helpers/admin/auth-helper";
 import { initPageWithRecovery } from "./helpers/admin";
 import { clickAndDownloadExcel } from "./helpers/admin/excel-export";
 import { parseExcelOrZip } from "./helpers/excel-parser";
+import {
+  CATEGORY_RECONCILE,
+  ORDER_RECONCILE,
+  USER_RECONCILE,
+  formatReconcileReport,
+  reconcileExcelWithApi,
+  type ReconcileConfig,
+} from "./helpers/admin/excel-reconcile";
 import { captureApi, extractRows } from "./helpers/admin/api-capture";
 import { fetchJson } from "./helpers/admin/api-fetch";
 
@@ -33,14 +43,6 @@ const ORDER_SEARCH_API = (userOrderNumber: string) =>
     userOrderNumber,
   )}&payment_status=&page=1&size=10`;
 
-type OrderSearchRow = {
-  user_order_number?: unknown;
-};
-
-function isOrderSearchRow(row: unknown): row is OrderSearchRow {
-  return typeof row === "object" && row !== null;
-}
-
 async function fetchOrderSearchRows(
   page: Page,
   orderNo: string,
@@ -128,15 +130,6 @@ async function findButton(
   return candidates.first();
 }
 
-function findColumn(headers: string[], preferred: string): string | null {
-  if (headers.includes(preferred)) return preferred;
-  const norm = (s: string) => s.replace(/\s+/g, "").toLowerCase();
-  const target = norm(preferred);
-  for (const h of headers) if (norm(h) === target) return h;
-  for (const h of headers) if (norm(h).includes(target)) return h;
-  return null;
-}
-
 // ===========================================================================
 // 1) 키 컬럼 교집합 검증 (API 최신 N건 → Excel 존재)
 // ===========================================================================
@@ -148,9 +141,7 @@ type KeyMatchTarget = {
   buttonText: string;
   preAction?: "user-b2b-tab";
   listApiPattern: RegExp;
-  apiIdGetter: (row: any) => string | number | null;
-  excelIdHeader: string;
-  sampleSize: number;
+  reconcile: ReconcileConfig;
 };
 
 const KEY_MATCH_TARGETS: KeyMatchTarget[] = [
@@ -160,9 +151,7 @@ const KEY_MATCH_TARGETS: KeyMatchTarget[] = [
     url: `${BASE}/product/new/list`,
     buttonText: "엑셀다운받기",
     listApiPattern: /\/admin\/commerce\/product\/\?/,
-    apiIdGetter: (r) => r?.id ?? null,
-    excelIdHeader: "ID",
-    sampleSize: 10,
+    reconcile: { ...CATEGORY_RECONCILE, sampleSize: 10 },
   },
   {
     id: "USR-KEY-B2C",
@@ -170,9 +159,7 @@ const KEY_MATCH_TARGETS: KeyMatchTarget[] = [
     url: `${BASE}/user/list`,
     buttonText: "엑셀다운받기",
     listApiPattern: /\/admin\/user\/list_new_commerce_user\/\?/,
-    apiIdGetter: (r) => r?.id ?? r?.user_id ?? null,
-    excelIdHeader: "ID",
-    sampleSize: 10,
+    reconcile: { ...USER_RECONCILE, sampleSize: 10 },
   },
 ];
 
@@ -200,13 +187,6 @@ test.describe("Admin 엑셀 키 컬럼 교집합 (API → Excel) @feature:admin_
       const { rows: apiRows } = extractRows(lastApi.body);
       expect(apiRows.length, "API row 없음").toBeGreaterThan(0);
 
-      const apiIds = apiRows
-        .slice(0, t.sampleSize)
-        .map(t.apiIdGetter)
-        .filter((v) => v !== null && v !== undefined && v !== "")
-        .map((v) => String(v));
-      expect(apiIds.length, "API ID 추출 실패").toBeGreaterThan(0);
-
       const button = await findButton(page, t.buttonText, true);
       await expect(button).toBeVisible({ timeout: 20000 });
       const dl = await clickAndDownloadExcel(page, button, {
@@ -215,22 +195,14 @@ test.describe("Admin 엑셀 키 컬럼 교집합 (API → Excel) @feature:admin_
       const parsed = parseExcelOrZip(dl.filePath);
       const sheet = parsed.files[0].sheets[0];
 
-      const col = findColumn(sheet.headers, t.excelIdHeader);
-      expect(col, `엑셀에서 "${t.excelIdHeader}" 컬럼 없음`).not.toBeNull();
-
-      const excelIds = new Set(
-        sheet.rows.map((r) => String(r[col!] ?? "").trim()).filter((v) => v),
-      );
-      const missing = apiIds.filter((id) => !excelIds.has(id));
-
-      console.log(
-        `[${t.id}] API 최신 ${apiIds.length}건 vs Excel ${excelIds.size}건 unique → 누락 ${missing.length}`,
-      );
+      // 화면이 받은 최신 목록 응답을 그대로 API 쪽으로 사용한다
+      const report = await reconcileExcelWithApi(sheet, t.reconcile, {
+        list: async () => ({ status: lastApi.status, rows: apiRows }),
+      });
+      console.log(formatReconcileReport(report));
 
-      expect(
-        missing.length,
-        `API 최신 ${apiIds.length}건 중 ${missing.length}건이 엑셀에 없음: ${missing.slice(0, 3).join(", ")}`,
-      ).toBe(0);
+      expect(report.apiKeys, "API ID 추출 실패").toBeGreaterThan(0);
+      expect(report.ok, formatReconcileReport(report)).toBe(true);
 
       capture.stop();
     });
@@ -245,7 +217,6 @@ type OrderVerifyTarget = {
   id: string;
   name: string;
   buttonText: string;
-  excelOrderNumberHeader: string;
   zipPrimaryFileMatcher?: RegExp;
   sampleSize: number;
 };
@@ -255,28 +226,24 @@ const ORDER_VERIFY_TARGETS: OrderVerifyTarget[] = [
     id: "ORD-VERIFY-V2",
     name: "주문 V2 엑셀 → API",
     buttonText: "주문 엑셀 다운로드 V2",
-    excelOrderNumberHeader: "주문번호",
     sampleSize: 5,
   },
   {
     id: "ORD-VERIFY-V1",
     name: "주문 V1 엑셀 → API",
     buttonText: "주문 엑셀 다운로드",
-    excelOrderNumberHeader: "주문번호",
     sampleSize: 5,
   },
   {
     id: "ORD-VERIFY-BASIC",
     name: "주문 엑셀다운받기 → API",
     buttonText: "엑셀다운받기",
-    excelOrderNumberHeader: "주문번호",
     sampleSize: 5,
   },
   {
     id: "ORD-VERIFY-SKU",
     name: "주문-SKU ZIP 엑셀 → API",
     buttonText: "주문-SKU 엑셀 다운로드",
-    excelOrderNumberHeader: "주문번호",
     zipPrimaryFileMatcher: /\.xlsx$/i,
     sampleSize: 5,
   },
@@ -309,55 +276,19 @@ test.describe("Admin 주문 엑셀 → API 역검증 @feature:admin_makestar.ord
         : parsed.files[0];
       const sheet = targetFile.sheets[0];
 
-      const col = findColumn(sheet.headers, t.excelOrderNumberHeader);
-      expect(
-        col,
-        `엑셀에서 "${t.excelOrderNumberHeader}" 컬럼 없음`,
-      ).not.toBeNull();
-
-      // 주문번호는 [A-Z]-XXX 포맷. 숫자 전용(송장번호 등) 값은 제외.
-      const ORDER_NUMBER_PATTERN = /^[A-Z]-[A-Z0-9]+$/i;
-      const allOrderNumbers = Array.from(
-        new Set(
-          sheet.rows
-            .map((r) => String(r[col!] ?? "").trim())
-            .filter((v) => v && ORDER_NUMBER_PATTERN.test(v)),
-        ),
-      );
-      expect(
-        allOrderNumbers.length,
-        "엑셀에서 주문번호 추출 실패",
-      ).toBeGreaterThan(0);
-
-      const samples = allOrderNumbers.slice(0, t.sampleSize);
-      const notFound: string[] = [];
-      const apiErrors: Array<{ orderNo: string; status: number }> = [];
-
-      for (const orderNo of samples) {
-        const { status, rows } = await fetchOrderSearchRows(page, orderNo);
-        if (status !== 200) {
-          apiErrors.push({ orderNo, status });
-          continue;
-        }
-        const found = rows.some(
-          (row) =>
-            isOrderSearchRow(row) &&
-            String(row.user_order_number ?? "") === orderNo,
-        );
-        if (!found) notFound.push(orderNo);
-      }
-
-      console.log(
-        `[${t.id}] 파일="${targetFile.fileName}" 고유주문=${allOrderNumbers.length}건 검증=${samples.length}건 → 존재 ${samples.length - notFound.length - apiErrors.length} / 누락 ${notFound.length} / 오류 ${apiErrors.length}`,
+      // 주문번호는 [A-Z]-XXX 포맷. 숫자 전용(송장번호 등) 값은 ORDER_RECONCILE.keyFilter로 제외.
+      const report = await reconcileExcelWithApi(
+        sheet,
+        { ...ORDER_RECONCILE, sampleSize: t.sampleSize },
+        { lookup: (orderNo) => fetchOrderSearchRows(page, orderNo) },
       );
+      console.log(`[${t.id}] 파일="${targetFile.fileName}"`);
+      console.log(formatReconcileReport(report));
 
-      expect(apiErrors.length, `API 오류: ${JSON.stringify(apiErrors)}`).toBe(
+      expect(report.excelKeys, "엑셀에서 주문번호 추출 실패").toBeGreaterThan(
         0,
       );
-      expect(
-        notFound.length,
-        `엑셀 주문번호 중 ${notFound.length}건 API에 없음 (유령 데이터 가능성): ${notFound.join(", ")}`,
-      ).toBe(0);
+      expect(report.ok, formatReconcileReport(report)).toBe(true);
     });
   }
 });
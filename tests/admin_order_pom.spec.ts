@@ -21,6 +21,8 @@ import {
   type PurchaseTabKey,
 } from "./pages";
 import { initPageWithRecovery } from "./helpers/admin";
+import { recordDomSnapshot } from "./helpers/dom-snapshot";
+import { markFailureClass } from "./helpers/failure-class";
 import {
   ELEMENT_TIMEOUT,
   applyAdminTestConfig,
@@ -42,6 +44,7 @@ test.describe.serial("주문관리 목록 @feature:admin_makestar.order.list", (
   });
 
   test("ORD-PAGE-01: 페이지 기본 요소 및 탭 노출 검증", async () => {
+    await recordDomSnapshot(orderPage.page, "admin/order-list");
     await orderPage.assertPageTitle();
     await orderPage.assertHeading();
     await expect(orderPage.breadcrumb).toBeVisible({
@@ -106,17 +109,17 @@ test.describe.serial("주문관리 목록 @feature:admin_makestar.order.list", (
       (count) => count > 0,
     );
     if (!hasDataInAnyTab) {
-      test.info().annotations.push({
-        type: "STG seed required",
-        description: JSON.stringify({
-          allCount,
-          b2cCount,
-          b2bCount,
-          projectTab: { hasSummary, hasNoResult },
-          reason:
-            "전체/B2C/B2B 주문 탭 모두 데이터가 없어 주문관리 탭 검증을 완료할 수 없습니다.",
-        }),
+      // 앱 결함이 아니라 STG 주문 seed 부족 — 실패는 유지하고 분류만 test-data-unavailable로
+      const counts = JSON.stringify({
+        allCount,
+        b2cCount,
+        b2bCount,
+        projectTab: { hasSummary, hasNoResult },
       });
+      markFailureClass(
+        "test-data-unavailable",
+        `STG seed required — 전체/B2C/B2B 주문 탭 모두 데이터 없음 ${counts}`,
+      );
     }
     expect(
       hasDataInAnyTab,
@@ -20,6 +20,7 @@ import { test, expect } from "@playwright/test";
 import { runOptionalStep } from "./helpers/optional-step";
 import { UserListPage, UserDetailPage } from "./pages";
 import { initPageWithRecovery } from "./helpers/admin";
+import { recordDomSnapshot } from "./helpers/dom-snapshot";
 import {
   ELEMENT_TIMEOUT,
   applyAdminTestConfig,
@@ -60,6 +61,7 @@ test.describe.serial("회원관리 목록 @feature:admin_makestar.user.list", ()
   });
 
   test("USR-PAGE-03: 테이블 데이터 로드 검증", async () => {
+    await recordDomSnapshot(userPage.page, "admin/user-list");
     const metrics = await userPage.getResultMetrics();
 
     if (metrics.noResultState) {
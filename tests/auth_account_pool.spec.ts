@@ -0,0 +1,253 @@
+/**
+ * 테스트 계정 풀 / 파일 lock 회귀 테스트 (브라우저 / 네트워크 불필요)
+ *
+ *  - ACCOUNT-LOCK-01~04: 파일 lock 배타성, 죽은 소유자 lock 회수, token 기반 release, 동시 회수
+ *  - ACCOUNT-POOL-01~04: 계정 풀 설정 검증, worker별 계정 lease, 대기 시간 초과, 죽은 worker lease 회수
+ *
+ * 실행: npm run test:auth (globalSetup 없는 CI 설정의 auth-offline project)
+ */
+
+import { test, expect } from "@playwright/test";
+import { spawnSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  acquireFileLock,
+  readFileLock,
+  reclaimStaleLock,
+  tryAcquireFileLock,
+} from "../scripts/file-lock";
+import {
+  DEFAULT_TEST_ACCOUNTS,
+  loadTestAccountPool,
+  type TestAccount,
+} from "./fixtures/test-account";
+import { getLeasableAccounts, leaseTestAccount } from "./helpers/account-pool";
+
+let rootDir: string;
+
+test.beforeEach(() => {
+  rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "account-pool-spec-"));
+});
+
+test.afterEach(() => {
+  fs.rmSync(rootDir, { recursive: true, force: true });
+});
+
+function account(id: string, storageState?: string): TestAccount {
+  return {
+    id,
+    email: `${id}@example.com`,
+    storageState,
+    krDefaultAddressId: 1,
+  };
+}
+
+/** 이미 종료된 프로세스의 pid로 남은 lock */
+function writeCrashedLock(lockPath: string) {
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+  fs.writeFileSync(
+    lockPath,
+    JSON.stringify({
+      owner: "crashed",
+      pid: spawnSync(process.execPath, ["-e", ""]).pid,
+      token: "crashed-token",
+      acquiredAt: new Date().toISOString(),
+    }),
+  );
+}
+
+function writeStorageState(file: string) {
+  fs.writeFileSync(
+    path.join(rootDir, file),
+    JSON.stringify({ cookies: [], origins: [] }),
+  );
+}
+
+test.describe("파일 lock", () => {
+  test("ACCOUNT-LOCK-01: 잡힌 lock은 다른 소유자가 얻지 못하고 release 후 다시 얻는다", async () => {
+    const lockPath = path.join(rootDir, "locks", "a.lock");
+    const first = tryAcquireFileLock(lockPath, { owner: "worker-0" });
+    expect(first).not.toBeNull();
+    expect(readFileLock(lockPath)).toMatchObject({
+      owner: "worker-0",
+      pid: process.pid,
+    });
+    expect(tryAcquireFileLock(lockPath, { owner: "worker-1" })).toBeNull();
+
+    await expect(
+      acquireFileLock(lockPath, {
+        owner: "worker-1",
+        timeoutMs: 100,
+        pollMs: 20,
+      }),
+    ).rejects.toThrow(/worker-0/);
+
+    first!.release();
+    expect(fs.existsSync(lockPath)).toBe(false);
+    const second = tryAcquireFileLock(lockPath, { owner: "worker-1" });
+    expect(second?.owner).toBe("worker-1");
+    second!.release();
+  });
+
+  test("ACCOUNT-LOCK-02: 소유 프로세스가 죽었거나 staleMs가 지난 lock은 회수한다", () => {
+    const lockPath = path.join(rootDir, "a.lock");
+    // 이미 종료된 프로세스의 pid
+    const deadPid = spawnSync(process.execPath, ["-e", ""]).pid;
+    fs.writeFileSync(
+      lockPath,
+      JSON.stringify({
+        owner: "crashed",
+        pid: deadPid,
+        token: "t",
+        acquiredAt: new Date().toISOString(),
+      }),
+    );
+    const reclaimed = tryAcquireFileLock(lockPath, { owner: "worker-0" });
+    expect(reclaimed?.owner).toBe("worker-0");
+    reclaimed!.release();
+
+    fs.writeFileSync(
+      lockPath,
+      JSON.stringify({
+        owner: "hung",
+        pid: process.pid,
+        token: "t",
+        acquiredAt: new Date(Date.now() - 60_000).toISOString(),
+      }),
+    );
+    expect(tryAcquireFileLock(lockPath, { staleMs: 120_000 })).toBeNull();
+    expect(tryAcquireFileLock(lockPath, { staleMs: 1_000 })).not.toBeNull();
+  });
+
+  test("ACCOUNT-LOCK-03: 회수당한 lock의 release는 새 소유자의 lock을 지우지 않는다", () => {
+    const lockPath = path.join(rootDir, "a.lock");
+    const stale = tryAcquireFileLock(lockPath, { owner: "worker-0" });
+    // worker-0이 멈춘 사이 staleMs로 회수됨
+    const fresh = tryAcquireFileLock(lockPath, {
+      owner: "worker-1",
+      staleMs: -1,
+    });
+    expect(fresh?.owner).toBe("worker-1");
+
+    stale!.release();
+    expect(readFileLock(lockPath)?.owner).toBe("worker-1");
+    fresh!.release();
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+
+  test("ACCOUNT-LOCK-04: 같은 stale lock을 늦게 회수하는 쪽은 먼저 회수한 쪽의 새 lock을 지우지 않는다", () => {
+    const lockPath = path.join(rootDir, "a.lock");
+    writeCrashedLock(lockPath);
+    // worker-1이 stale 판정까지 마친 사이 worker-0이 먼저 회수하고 새로 잡음
+    const seenByLate = readFileLock(lockPath);
+    const first = tryAcquireFileLock(lockPath, { owner: "worker-0" });
+    expect(first?.owner).toBe("worker-0");
+
+    expect(reclaimStaleLock(lockPath, seenByLate)).toBe(false);
+    expect(readFileLock(lockPath)?.owner).toBe("worker-0");
+    expect(tryAcquireFileLock(lockPath, { owner: "worker-1" })).toBeNull();
+    // 회수용 임시 파일은 남지 않는다
+    expect(fs.readdirSync(rootDir)).toEqual(["a.lock"]);
+    first!.release();
+  });
+});
+
+test.describe("테스트 계정 풀", () => {
+  test("ACCOUNT-POOL-01: 설정 파일이 없으면 기본 계정, 형식 오류 / id 중복은 예외", () => {
+    expect(loadTestAccountPool({})).toEqual([...DEFAULT_TEST_ACCOUNTS]);
+
+    const poolFile = path.join(rootDir, "accounts.json");
+    const load = (accounts: unknown) => {
+      fs.writeFileSync(poolFile, JSON.stringify(accounts));
+      return loadTestAccountPool({ TEST_ACCOUNT_POOL_FILE: poolFile });
+    };
+    expect(load([account("qa-1", "qa-1-auth.json"), account("qa-2")])).toEqual([
+      account("qa-1", "qa-1-auth.json"),
+      account("qa-2"),
+    ]);
+    expect(() => load([])).toThrow(/형식 오류/);
+    expect(() =>
+      load([{ id: "../escape", email: "x", krDefaultAddressId: 1 }]),
+    ).toThrow(/형식 오류/);
+    expect(() => load([account("qa-1"), account("qa-1")])).toThrow(
+      /중복: qa-1/,
+    );
+    expect(() =>
+      loadTestAccountPool({
+        TEST_ACCOUNT_POOL_FILE: path.join(rootDir, "missing.json"),
+      }),
+    ).toThrow(/없습니다/);
+  });
+
+  test("ACCOUNT-POOL-02: worker마다 서로 다른 계정을 lease하고 release하면 다시 빌려준다", async () => {
+    writeStorageState("qa-1-auth.json");
+    writeStorageState("qa-2-auth.json");
+    const accounts = [
+      account("qa-1", "qa-1-auth.json"),
+      account("qa-2", "qa-2-auth.json"),
+      // storageState 파일이 없는 계정은 lease 대상에서 빠진다
+      account("qa-3", "qa-3-auth.json"),
+    ];
+    expect(getLeasableAccounts(accounts, rootDir).map((a) => a.id)).toEqual([
+      "qa-1",
+      "qa-2",
+    ]);
+
+    const options = { accounts, rootDir, lockDir: path.join(rootDir, "locks") };
+    const first = await leaseTestAccount({ ...options, owner: "worker-0" });
+    const second = await leaseTestAccount({ ...options, owner: "worker-1" });
+    expect([first.account.id, second.account.id]).toEqual(["qa-1", "qa-2"]);
+    expect(second.storageStatePath).toBe(path.join(rootDir, "qa-2-auth.json"));
+
+    first.release();
+    const third = await leaseTestAccount({ ...options, owner: "worker-2" });
+    expect(third.account.id).toBe("qa-1");
+    second.release();
+    third.release();
+  });
+
+  test("ACCOUNT-POOL-03: 빈 계정이 없으면 timeoutMs 뒤 예외, 돌려받으면 대기 중에 lease", async () => {
+    writeStorageState("qa-1-auth.json");
+    const options = {
+      accounts: [account("qa-1", "qa-1-auth.json")],
+      rootDir,
+      lockDir: path.join(rootDir, "locks"),
+      pollMs: 20,
+    };
+    const held = await leaseTestAccount({ ...options, owner: "worker-0" });
+    await expect(
+      leaseTestAccount({ ...options, owner: "worker-1", timeoutMs: 100 }),
+    ).rejects.toThrow(/대기 시간 초과/);
+
+    const waiting = leaseTestAccount({
+      ...options,
+      owner: "worker-1",
+      timeoutMs: 5_000,
+    });
+    setTimeout(() => held.release(), 50);
+    const lease = await waiting;
+    expect(lease.account.id).toBe("qa-1");
+    lease.release();
+  });
+
+  test("ACCOUNT-POOL-04: 강제 종료된 worker의 lease는 staleMs(12시간)를 기다리지 않고 회수한다", async () => {
+    writeStorageState("qa-1-auth.json");
+    const lockDir = path.join(rootDir, "locks");
+    writeCrashedLock(path.join(lockDir, "qa-1.lock"));
+
+    const lease = await leaseTestAccount({
+      accounts: [account("qa-1", "qa-1-auth.json")],
+      rootDir,
+      lockDir,
+      owner: "worker-1",
+      timeoutMs: 100,
+    });
+    expect(lease.account.id).toBe("qa-1");
+    expect(readFileLock(path.join(lockDir, "qa-1.lock"))?.owner).toBe(
+      "worker-1",
+    );
+    lease.release();
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * 인증 상태 종합 리포트(scripts/auth-health.js) 회귀 테스트 (브라우저 / 네트워크 불필요)
+ *
+ *  - AUTH-HEALTH-01: 파일별 도메인 토큰 만료 / mock / LOGGED_IN_USER와 제품·project 판정, spec 인증 게이트
+ *  - AUTH-HEALTH-02: 암호화 파일, admin-tokens.json 단독 유효, 만료 임박 경고
+ *  - AUTH-HEALTH-03: live 검증 주입, 표 출력, JSON 저장 / 읽기
+ *
+ * 실행: npm run test:auth (globalSetup 없는 CI 설정의 auth-offline project)
+ */
+
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { writeAuthJsonFile } from "../scripts/auth-crypto";
+import { buildAdminTokenData } from "../scripts/auth-state";
+import {
+  collectAuthHealth,
+  formatAuthHealthTable,
+  isProjectRunnable,
+  readAuthHealthReport,
+  writeAuthHealthReport,
+} from "../scripts/auth-health";
+import { issueTokenPair } from "../scripts/stand-ins/token-refresh-server";
+import { getAuthSkipReason, isAuthGateEnabled } from "./helpers/auth-gate";
+
+const PROD_DOMAIN = ".makestar.com";
+const STG_DOMAIN = ".makeuni2026.com";
+const HOUR_SEC = 60 * 60;
+
+let rootDir: string;
+
+test.beforeEach(() => {
+  rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "auth-health-spec-"));
+});
+
+test.afterEach(() => {
+  fs.rmSync(rootDir, { recursive: true, force: true });
+});
+
+function refreshCookie(domain: string, ttlSec: number, value?: string) {
+  return {
+    name: "refresh_token",
+    value: value ?? issueTokenPair({ refreshTtlSec: ttlSec }).refresh,
+    domain,
+    path: "/",
+    expires: Math.floor(Date.now() / 1000) + ttlSec,
+  };
+}
+
+function loggedInOrigin(origin: string, accessTtlSec?: number) {
+  const localStorage = [{ name: "LOGGED_IN_USER", value: '{"id":1}' }];
+  if (accessTtlSec !== undefined) {
+    localStorage.push({
+      name: "access_token",
+      value: issueTokenPair({ accessTtlSec }).access,
+    });
+  }
+  return { origin, localStorage };
+}
+
+function writeState(
+  file: string,
+  state: { cookies: unknown[]; origins: unknown[] },
+  env: NodeJS.ProcessEnv = {},
+) {
+  writeAuthJsonFile(path.join(rootDir, file), state, env);
+}
+
+function product(
+  report: Awaited<ReturnType<typeof collectAuthHealth>>,
+  name: string,
+  environment: string,
+) {
+  return report.products.find(
+    (item) => item.product === name && item.environment === environment,
+  )!;
+}
+
+test("AUTH-HEALTH-01: 파일별 도메인 토큰과 제품 / project 실행 가능 여부를 판정한다", async () => {
+  writeState("auth.json", {
+    cookies: [
+      refreshCookie(PROD_DOMAIN, 24 * HOUR_SEC),
+      refreshCookie(STG_DOMAIN, -HOUR_SEC),
+    ],
+    origins: [loggedInOrigin("https://www.makestar.com", HOUR_SEC)],
+  });
+  writeState("ab-auth.json", {
+    cookies: [refreshCookie(PROD_DOMAIN, 24 * HOUR_SEC, "mock_session")],
+    origins: [],
+  });
+
+  const report = await collectAuthHealth({ rootDir, env: {} });
+  expect(report.environment).toBe("prod");
+  expect(report.files.map((file) => [file.path, file.exists])).toEqual([
+    ["auth.json", true],
+    ["stg-auth.json", false],
+    ["admin-tokens.json", false],
+    ["ab-auth.json", true],
+  ]);
+
+  const authFile = report.files.find((file) => file.path === "auth.json")!;
+  expect(
+    authFile.refreshTokens.map((token) => [token.scope, token.status]),
+  ).toEqual([
+    [PROD_DOMAIN, "valid"],
+    [STG_DOMAIN, "expired"],
+  ]);
+  expect(authFile.accessTokens).toEqual([
+    expect.objectContaining({
+      scope: "https://www.makestar.com",
+      source: "localStorage",
+      status: "valid",
+    }),
+  ]);
+  expect(authFile.loggedInOrigins).toEqual(["https://www.makestar.com"]);
+
+  expect(product(report, "cmr", "prod")).toMatchObject({
+    usable: true,
+    problems: [],
+  });
+  // stg-auth.json이 없으면 auth.json의 .makeuni2026.com 토큰을 본다
+  expect(product(report, "cmr", "stg")).toMatchObject({
+    storageState: "auth.json",
+    usable: false,
+    problems: [`${STG_DOMAIN} refresh_token이 만료되었습니다`],
+  });
+  expect(product(report, "albumbuddy", "prod").problems).toEqual([
+    "ab-auth.json이 mock 세션입니다",
+    `${PROD_DOMAIN} origin에 LOGGED_IN_USER localStorage가 없습니다`,
+  ]);
+
+  expect(report.projects["cmr-payment-stg"]).toEqual({
+    product: "cmr",
+    environment: "stg",
+    usable: false,
+  });
+  // admin은 prod 실행에서도 .makeuni2026.com 토큰을 본다
+  expect(product(report, "admin", "prod")).toMatchObject({
+    storageState: "auth.json",
+    usable: false,
+    problems: [`${STG_DOMAIN} refresh_token이 만료되었습니다`],
+  });
+  expect(report.runnableProjects).toEqual(["cmr", "cmr-har", "cmr-monitoring"]);
+  expect(isProjectRunnable(report, "albumbuddy-monitoring")).toBe(false);
+  // 인증과 무관한 project는 항상 실행
+  expect(isProjectRunnable(report, "auth-offline")).toBe(true);
+
+  // spec 게이트: 기본은 경고만, AUTH_HEALTH_GATE=true일 때 사용 불가 제품만 사유와 함께 skip
+  expect(isAuthGateEnabled({})).toBe(false);
+  expect(isAuthGateEnabled({ AUTH_HEALTH_GATE: "true" })).toBe(true);
+  expect(getAuthSkipReason(report, "cmr")).toBeNull();
+  expect(getAuthSkipReason(report, "cmr", "stg")).toBe(
+    `cmr stg 인증 불충분 — ${STG_DOMAIN} refresh_token이 만료되었습니다`,
+  );
+  expect(getAuthSkipReason(null, "admin")).toBeNull();
+});
+
+test("AUTH-HEALTH-02: 암호화 파일은 키가 있어야 읽고, admin은 admin-tokens.json만 유효해도 쓸 수 있다", async () => {
+  const keyEnv = { AUTH_ENCRYPTION_KEY: "spec-key" };
+  writeState(
+    "auth.json",
+    {
+      cookies: [refreshCookie(PROD_DOMAIN, 2 * HOUR_SEC)],
+      origins: [loggedInOrigin("https://www.makestar.com")],
+    },
+    keyEnv,
+  );
+
+  const withoutKey = await collectAuthHealth({ rootDir, env: {} });
+  expect(withoutKey.files[0]).toMatchObject({
+    path: "auth.json",
+    encrypted: true,
+    error: expect.stringMatching(/AUTH_ENCRYPTION_KEY/),
+  });
+  expect(product(withoutKey, "cmr", "prod").usable).toBe(false);
+
+  const withKey = await collectAuthHealth({ rootDir, env: keyEnv });
+  expect(product(withKey, "cmr", "prod")).toMatchObject({
+    usable: true,
+    warnings: [expect.stringMatching(/^만료 임박/)],
+  });
+
+  // refresh_token은 만료됐지만 admin-tokens.json이 유효
+  writeState("auth.json", {
+    cookies: [refreshCookie(STG_DOMAIN, -HOUR_SEC)],
+    origins: [],
+  });
+  const { access, refresh } = issueTokenPair({ accessTtlSec: 24 * HOUR_SEC });
+  writeAuthJsonFile(
+    path.join(rootDir, "admin-tokens.json"),
+    buildAdminTokenData({ accessToken: access, refreshToken: refresh }),
+    {},
+  );
+  const report = await collectAuthHealth({ rootDir, env: {} });
+  expect(
+    report.files.find((file) => file.path === "admin-tokens.json"),
+  ).toMatchObject({
+    kind: "adminTokens",
+    accessTokens: [{ scope: "admin", source: "admin-tokens", status: "valid" }],
+    refreshTokens: [
+      { scope: "admin", source: "admin-tokens", status: "valid" },
+    ],
+  });
+  expect(product(report, "admin", "prod")).toMatchObject({
+    usable: true,
+    problems: [],
+    warnings: [
+      `${STG_DOMAIN} refresh_token이 만료되었습니다`,
+      `${STG_DOMAIN} origin에 LOGGED_IN_USER localStorage가 없습니다`,
+    ],
+  });
+  expect(product(report, "cmr", "prod").usable).toBe(false);
+});
+
+test("AUTH-HEALTH-03: live 검증 결과를 반영하고 표 / JSON으로 남긴다", async () => {
+  writeState("auth.json", {
+    cookies: [
+      refreshCookie(PROD_DOMAIN, 24 * HOUR_SEC),
+      refreshCookie(STG_DOMAIN, 24 * HOUR_SEC),
+    ],
+    origins: [loggedInOrigin("https://www.makestar.com")],
+  });
+
+  const liveCalls: string[] = [];
+  const report = await collectAuthHealth({
+    rootDir,
+    env: {},
+    live: true,
+    checkLive: async (_state, options) => {
+      const environment = options?.env?.ENVIRONMENT_INPUT ?? "";
+      liveCalls.push(`${environment} ${options?.env?.AUTH_TARGET_DOMAIN}`);
+      return environment === "stg"
+        ? { ok: false, status: 401, message: "live auth 실패: HTTP 401" }
+        : { ok: true, status: 200, message: "live auth OK (200)" };
+    },
+  });
+  // admin은 prod / stg 모두 cmr stg와 같은 파일·도메인(STG auth host)이라 한 번만 호출
+  expect(liveCalls.sort()).toEqual([
+    `prod ${PROD_DOMAIN}`,
+    `stg ${STG_DOMAIN}`,
+  ]);
+  expect(product(report, "admin", "prod").live).toEqual({
+    ok: false,
+    status: 401,
+    message: "live auth 실패: HTTP 401",
+  });
+  expect(product(report, "cmr", "stg")).toMatchObject({
+    usable: false,
+    problems: ["live profile 검증 실패: live auth 실패: HTTP 401"],
+  });
+  // 파일이 없는 제품은 live 검증을 하지 않는다
+  expect(product(report, "albumbuddy", "prod").live).toBeNull();
+
+  const table = formatAuthHealthTable(report);
+  expect(table).toContain("refresh (cookie)");
+  expect(table).toMatch(/cmr\s+stg\s+auth\.json\s+❌/);
+  expect(table).toContain(
+    "인증 불충분 project: cmr-payment-stg, admin-pc, admin-full, admin-gate, albumbuddy-monitoring",
+  );
+
+  const reportPath = path.join(rootDir, "out", ".auth-health.json");
+  writeAuthHealthReport(report, reportPath);
+  expect(readAuthHealthReport(reportPath)).toEqual(report);
+  fs.writeFileSync(reportPath, "{");
+  expect(readAuthHealthReport(reportPath)).toBeNull();
+});
@@ -0,0 +1,1017 @@
+/**
+ * 토큰 갱신 로직 회귀 테스트 (브라우저 / 네트워크 불필요)
+ *
+ * scripts/stand-ins/token-refresh-server.js(SimpleJWT stand-in)를 로컬에 띄워
+ * refresh-grant / auth-state / auto-refresh-token의 토큰 처리 규칙을 검증한다.
+ *
+ *  - AUTH-REFRESH-01~06: refresh grant rotation / blacklist / 만료 경계 / 404 / 타임아웃 / loopback 외 origin 거부
+ *  - AUTH-STATE-01~04: 도메인 스코프 쿠키(.makestar.com vs .makeuni2026.com)와 merge 규칙
+ *  - AUTH-VALID-01~02: auto-refresh-token의 admin-tokens.json / auth.json 유효성 판정
+ *  - AUTH-STORE-01~03: AuthStore 제품 / 환경별 파일 선택, 만료 요약, 토큰 반영
+ *  - AUTH-COORD-01~04: 선제 갱신 임계값, worker 간 lock 대기, 실패 기록 / cooldown, 저장 파일 반영 / 실패 시 보존
+ *  - AUTH-CRYPTO-01~03: 인증 파일 암호화 round trip, AuthStore 암호화 저장, Playwright용 임시 복호화본
+ *
+ * 실행: npm run test:auth (globalSetup 없는 CI 설정의 auth-offline project)
+ */
+
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { AddressInfo } from "net";
+import {
+  isLoopbackOrigin,
+  refreshAccessToken,
+  TOKEN_REFRESH_PATH,
+} from "../scripts/refresh-grant";
+import {
+  applyTokenPair,
+  buildAdminTokenData,
+  domainMatches,
+  getLatestRefreshTokenExpiry,
+  getRefreshTokenStatuses,
+  mergeCookies,
+  mergeTokenPairs,
+  resolveTargetDomain,
+} from "../scripts/auth-state";
+import {
+  decryptAuthJson,
+  encryptAuthJson,
+  isEncryptedAuthFile,
+  materializeStorageState,
+  readAuthJsonFile,
+  writeAuthJsonFile,
+} from "../scripts/auth-crypto";
+import { AuthStore } from "../scripts/auth-store";
+import {
+  createRefreshGrantRefresher,
+  ensureFreshToken,
+  getRecentRefreshFailure,
+  getRefreshLockPath,
+  readRefreshHistory,
+} from "../scripts/refresh-coordinator";
+import {
+  createTokenRefreshServer,
+  verifyJwt,
+} from "../scripts/stand-ins/token-refresh-server";
+
+const PROD_DOMAIN = ".makestar.com";
+const STG_DOMAIN = ".makeuni2026.com";
+const HOUR_MS = 60 * 60 * 1000;
+
+function refreshCookie(domain: string, value: string, expires = -1) {
+  return {
+    name: "refresh_token",
+    value,
+    domain,
+    path: "/",
+    expires,
+    httpOnly: true,
+    secure: true,
+    sameSite: "Lax" as const,
+  };
+}
+
+test.describe("refresh grant (token_refresh stand-in)", () => {
+  let server: ReturnType<typeof createTokenRefreshServer>;
+  let authOrigin: string;
+
+  test.beforeEach(async () => {
+    server = createTokenRefreshServer({ secret: "spec-secret" });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    authOrigin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  test.afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test("AUTH-REFRESH-01: rotation 시 새 refresh 발급 + 이전 refresh는 blacklist", async () => {
+    const { refresh } = server.issueTokenPair({ userId: 42 });
+
+    const first = await refreshAccessToken({
+      refreshToken: refresh,
+      authOrigin,
+    });
+    if (!first.ok)
+      throw new Error(`refresh grant 실패: ${JSON.stringify(first)}`);
+    expect(verifyJwt(first.access, "spec-secret")).toMatchObject({
+      token_type: "access",
+      user_id: 42,
+    });
+    expect(
+      first.refresh,
+      "rotation이면 새 refresh_token이 내려와야 함",
+    ).toBeTruthy();
+    expect(first.refresh).not.toBe(refresh);
+
+    const reused = await refreshAccessToken({
+      refreshToken: refresh,
+      authOrigin,
+    });
+    expect(reused).toEqual({
+      ok: false,
+      status: 401,
+      message: "token_refresh 401 (Token is blacklisted)",
+    });
+
+    const rotated = await refreshAccessToken({
+      refreshToken: first.refresh!,
+      authOrigin,
+    });
+    expect(rotated.ok, "rotation된 refresh로는 재발급 가능").toBe(true);
+  });
+
+  test("AUTH-REFRESH-02: rotation 비활성 시 refresh는 null, 같은 refresh 재사용 가능", async () => {
+    server.options.rotate = false;
+    const { refresh } = server.issueTokenPair();
+
+    for (let i = 0; i < 2; i++) {
+      const result = await refreshAccessToken({
+        refreshToken: refresh,
+        authOrigin,
+      });
+      expect(result).toMatchObject({ ok: true, status: 200, refresh: null });
+    }
+  });
+
+  test("AUTH-REFRESH-03: refresh 만료 경계 — 남아 있으면 성공, 지나면 401", async () => {
+    const nowSec = Math.floor(Date.now() / 1000);
+    const alive = server.issueTokenPair({ refreshExp: nowSec + 30 });
+    const expired = server.issueTokenPair({ refreshExp: nowSec - 1 });
+
+    expect(
+      (await refreshAccessToken({ refreshToken: alive.refresh, authOrigin }))
+        .ok,
+    ).toBe(true);
+    expect(
+      await refreshAccessToken({ refreshToken: expired.refresh, authOrigin }),
+    ).toEqual({
+      ok: false,
+      status: 401,
+      message: "token_refresh 401 (Token is invalid or expired)",
+    });
+
+    // access 토큰이나 다른 키로 서명된 토큰은 refresh로 인정하지 않는다
+    expect(
+      (await refreshAccessToken({ refreshToken: alive.access, authOrigin }))
+        .status,
+    ).toBe(401);
+    const foreign = createTokenRefreshServer({
+      secret: "other",
+    }).issueTokenPair();
+    expect(
+      (await refreshAccessToken({ refreshToken: foreign.refresh, authOrigin }))
+        .status,
+    ).toBe(401);
+  });
+
+  test("AUTH-REFRESH-04: 서버 경로가 다르면 404를 실패로 반환", async () => {
+    expect(TOKEN_REFRESH_PATH).toBe("/apis/user/registration/token_refresh/");
+    // 축약형 경로만 제공하는 서버 = /apis/ prefix 누락 시 live에서 보던 404
+    server.options.refreshPath = "/user/registration/token_refresh/";
+    const { refresh } = server.issueTokenPair();
+
+    expect(
+      await refreshAccessToken({ refreshToken: refresh, authOrigin }),
+    ).toEqual({
+      ok: false,
+      status: 404,
+      message: "token_refresh 404 (Not found.)",
+    });
+  });
+
+  test("AUTH-REFRESH-05: 입력 누락 / 타임아웃 / 서버 오류", async () => {
+    expect(
+      await refreshAccessToken({ refreshToken: "", authOrigin }),
+    ).toMatchObject({ ok: false, status: 0, message: "refresh_token 없음" });
+    expect(
+      await refreshAccessToken({
+        refreshToken: "x",
+        authHost: "",
+        authOrigin: "",
+      }),
+    ).toMatchObject({ ok: false, status: 0, message: "authHost 없음" });
+
+    const { refresh } = server.issueTokenPair();
+    server.options.delayMs = 1000;
+    expect(
+      await refreshAccessToken({
+        refreshToken: refresh,
+        authOrigin,
+        timeoutMs: 200,
+      }),
+    ).toEqual({ ok: false, status: 0, message: "타임아웃 (200ms)" });
+
+    server.options.delayMs = 0;
+    server.options.forceStatus = 500;
+    expect(
+      await refreshAccessToken({ refreshToken: refresh, authOrigin }),
+    ).toMatchObject({ ok: false, status: 500 });
+  });
+
+  test("AUTH-REFRESH-06: origin 직접 지정은 loopback만 허용 (인자 / AUTH_REFRESH_ORIGIN)", async () => {
+    const { refresh } = server.issueTokenPair();
+    const rejected = {
+      ok: false,
+      status: 0,
+      message:
+        "authOrigin은 loopback 주소만 허용합니다 (https://evil.example.com)",
+    };
+    expect(
+      await refreshAccessToken({
+        refreshToken: refresh,
+        authOrigin: "https://evil.example.com",
+      }),
+    ).toEqual(rejected);
+
+    const saved = process.env.AUTH_REFRESH_ORIGIN;
+    process.env.AUTH_REFRESH_ORIGIN = "https://evil.example.com";
+    try {
+      expect(
+        await refreshAccessToken({
+          refreshToken: refresh,
+          authHost: "auth.makeuni2026.com",
+        }),
+      ).toEqual(rejected);
+    } finally {
+      if (saved === undefined) delete process.env.AUTH_REFRESH_ORIGIN;
+      else process.env.AUTH_REFRESH_ORIGIN = saved;
+    }
+
+    expect(isLoopbackOrigin(authOrigin)).toBe(true);
+    expect(isLoopbackOrigin("http://localhost:3000")).toBe(true);
+    expect(isLoopbackOrigin("http://[::1]:3000")).toBe(true);
+    expect(isLoopbackOrigin("http://127.0.0.1.evil.com")).toBe(false);
+    expect(isLoopbackOrigin("not a url")).toBe(false);
+    // 거부된 요청은 서버까지 가지 않아 refresh는 그대로 쓸 수 있다
+    expect(
+      (await refreshAccessToken({ refreshToken: refresh, authOrigin })).ok,
+    ).toBe(true);
+  });
+});
+
+test.describe("auth-state 도메인 스코프 / merge", () => {
+  test("AUTH-STATE-01: target 도메인은 환경 기준으로 결정되고 leading dot은 무시", () => {
+    expect(resolveTargetDomain({})).toBe(PROD_DOMAIN);
+    expect(
+      resolveTargetDomain({
+        MAKESTAR_BASE_URL: "https://stage-new.makeuni2026.com",
+      }),
+    ).toBe(STG_DOMAIN);
+    expect(resolveTargetDomain({ ENVIRONMENT_INPUT: "stg" })).toBe(STG_DOMAIN);
+    expect(
+      resolveTargetDomain({
+        AUTH_TARGET_DOMAIN: ".example.com",
+        ENVIRONMENT_INPUT: "stg",
+      }),
+    ).toBe(".example.com");
+
+    expect(domainMatches("makestar.com", PROD_DOMAIN)).toBe(true);
+    expect(domainMatches("www.makestar.com", PROD_DOMAIN)).toBe(false);
+    expect(domainMatches(STG_DOMAIN, PROD_DOMAIN)).toBe(false);
+  });
+
+  test("AUTH-STATE-02: refresh_token 만료 계산은 target 도메인 쿠키만 사용", () => {
+    const now = Date.now();
+    const server = createTokenRefreshServer();
+    const prod = server.issueTokenPair({ refreshTtlSec: 30 * 24 * 3600, now });
+    const stg = server.issueTokenPair({ refreshTtlSec: 3600, now });
+    const cookies = [
+      refreshCookie(PROD_DOMAIN, prod.refresh),
+      refreshCookie(STG_DOMAIN, stg.refresh),
+    ];
+
+    const stgExpiry = getLatestRefreshTokenExpiry(cookies, STG_DOMAIN);
+    expect(stgExpiry).toBe((Math.floor(now / 1000) + 3600) * 1000);
+    expect(getLatestRefreshTokenExpiry(cookies, PROD_DOMAIN)).toBeGreaterThan(
+      stgExpiry!,
+    );
+    expect(getLatestRefreshTokenExpiry(cookies, ".other.com")).toBeNull();
+
+    // 쿠키 expires가 있으면 JWT exp보다 우선한다
+    const withExpires = [
+      refreshCookie(STG_DOMAIN, stg.refresh, now / 1000 - 10),
+    ];
+    expect(getRefreshTokenStatuses(withExpires, STG_DOMAIN, now)).toEqual([
+      expect.objectContaining({ isTarget: true, status: "expired" }),
+    ]);
+    expect(
+      getRefreshTokenStatuses(
+        [refreshCookie(PROD_DOMAIN, "not-a-jwt")],
+        STG_DOMAIN,
+      ),
+    ).toEqual([
+      {
+        domain: PROD_DOMAIN,
+        isTarget: false,
+        remaining: null,
+        status: "unknown",
+      },
+    ]);
+  });
+
+  test("AUTH-STATE-03: applyTokenPair는 cookieDomain의 refresh 쿠키만 rotation", () => {
+    const server = createTokenRefreshServer();
+    const old = server.issueTokenPair();
+    const next = server.issueTokenPair({ refreshTtlSec: 7 * 24 * 3600 });
+    const appOrigin = "https://stage-new.makeuni2026.com";
+    const state = {
+      cookies: [
+        refreshCookie(PROD_DOMAIN, old.refresh, 100),
+        refreshCookie(STG_DOMAIN, old.refresh, 100),
+      ],
+      origins: [
+        {
+          origin: appOrigin,
+          localStorage: [{ name: "access_token", value: old.access }],
+        },
+      ],
+    };
+
+    applyTokenPair(state, {
+      access: next.access,
+      refresh: next.refresh,
+      appOrigin,
+      cookieDomain: STG_DOMAIN,
+    });
+
+    const [prodCookie, stgCookie] = state.cookies;
+    expect(prodCookie).toMatchObject({ value: old.refresh, expires: 100 });
+    expect(stgCookie.value).toBe(next.refresh);
+    expect(stgCookie.expires).toBe(
+      (verifyJwt(next.refresh, server.options.secret) as { exp: number }).exp,
+    );
+    expect(state.origins).toHaveLength(1);
+    expect(state.origins[0].localStorage).toEqual([
+      { name: "access_token", value: next.access },
+      { name: "refresh_token", value: next.refresh },
+    ]);
+
+    // rotation 없는 응답(refresh=null)은 쿠키를 건드리지 않고 새 origin만 추가
+    applyTokenPair(state, {
+      access: "access-only",
+      refresh: null,
+      appOrigin: "https://www.makestar.com",
+      cookieDomain: PROD_DOMAIN,
+    });
+    expect(state.cookies[0].value).toBe(old.refresh);
+    expect(state.origins[1]).toEqual({
+      origin: "https://www.makestar.com",
+      localStorage: [{ name: "access_token", value: "access-only" }],
+    });
+  });
+
+  test("AUTH-STATE-04: mergeCookies는 name+domain 단위로 새 값 우선, mergeTokenPairs는 앞 값 우선", () => {
+    const merged = mergeCookies(
+      [
+        refreshCookie(PROD_DOMAIN, "prod-old"),
+        refreshCookie(STG_DOMAIN, "stg-old"),
+        { ...refreshCookie(PROD_DOMAIN, "sid"), name: "sessionid" },
+      ],
+      [refreshCookie(STG_DOMAIN, "stg-new")],
+    );
+    expect(merged.map((c) => `${c.name}@${c.domain}=${c.value}`)).toEqual([
+      "refresh_token@.makestar.com=prod-old",
+      "refresh_token@.makeuni2026.com=stg-new",
+      "sessionid@.makestar.com=sid",
+    ]);
+
+    expect(
+      mergeTokenPairs(
+        { accessToken: null, refreshToken: "from-url" },
+        { accessToken: "from-storage", refreshToken: "from-storage" },
+        { accessToken: "from-cookie", refreshToken: null },
+      ),
+    ).toEqual({
+      accessToken: "from-storage",
+      refreshToken: "from-url",
+      expiresAt: null,
+      userInfo: null,
+    });
+  });
+});
+
+test.describe("auto-refresh-token 유효성 판정", () => {
+  let tmpDir: string;
+
+  test.beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "auth-refresh-spec-"));
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  /** 모듈 로드 시점에 파일 경로/도메인을 확정하므로 env를 바꿔 새로 로드한다 */
+  function loadAutoRefreshToken(env: Record<string, string>) {
+    const modulePath = require.resolve("../auto-refresh-token");
+    const keys = [
+      "MAKESTAR_BASE_URL",
+      "AUTH_TARGET_DOMAIN",
+      ...Object.keys(env),
+    ];
+    const saved = Object.fromEntries(
+      keys.map((key) => [key, process.env[key]]),
+    );
+    // 실행 환경의 STG 판정 변수가 섞이지 않도록 기본값을 비워 둔다
+    Object.assign(process.env, {
+      MAKESTAR_BASE_URL: "",
+      AUTH_TARGET_DOMAIN: "",
+      ...env,
+    });
+    try {
+      delete require.cache[modulePath];
+      return require(modulePath) as typeof import("../auto-refresh-token");
+    } finally {
+      for (const [key, value] of Object.entries(saved)) {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+      }
+      delete require.cache[modulePath];
+    }
+  }
+
+  function writeFiles(adminExpiresAt: string | null, cookies: unknown[]) {
+    const adminTokensFile = path.join(tmpDir, "admin-tokens.json");
+    const authFile = path.join(tmpDir, "auth.json");
+    if (adminExpiresAt) {
+      const server = createTokenRefreshServer();
+      const pair = server.issueTokenPair();
+      fs.writeFileSync(
+        adminTokensFile,
+        JSON.stringify(
+          buildAdminTokenData({
+            accessToken: pair.access,
+            refreshToken: pair.refresh,
+            userInfo: null,
+            expiresAt: adminExpiresAt,
+            fallbackExpiresInMs: undefined,
+          }),
+        ),
+      );
+    }
+    fs.writeFileSync(authFile, JSON.stringify({ cookies, origins: [] }));
+    return {
+      ADMIN_TOKENS_FILE_PATH: adminTokensFile,
+      AUTH_FILE_PATH: authFile,
+    };
+  }
+
+  test("AUTH-VALID-01: admin 토큰이 만료돼도 target 도메인 refresh_token이 유효하면 valid", () => {
+    const server = createTokenRefreshServer();
+    const stg = server.issueTokenPair({ refreshTtlSec: 2 * 3600 });
+    const files = writeFiles(new Date(Date.now() - HOUR_MS).toISOString(), [
+      refreshCookie(STG_DOMAIN, stg.refresh),
+    ]);
+
+    const stgModule = loadAutoRefreshToken({
+      ...files,
+      ENVIRONMENT_INPUT: "stg",
+    });
+    expect(stgModule.isTokenValid()).toBe(true);
+    expect(stgModule.getTokenRemaining().hours).toBe(1);
+
+    // admin은 STG 도메인이 고정이라 prod 기준이어도 같은 .makeuni2026.com 쿠키를 본다
+    const prodModule = loadAutoRefreshToken({
+      ...files,
+      ENVIRONMENT_INPUT: "prod",
+    });
+    expect(prodModule.isTokenValid()).toBe(true);
+    expect(prodModule.getTokenRemaining().hours).toBe(1);
+
+    // target 도메인을 직접 바꾸면 .makeuni2026.com 쿠키는 무시된다
+    const overridden = loadAutoRefreshToken({
+      ...files,
+      ENVIRONMENT_INPUT: "prod",
+      AUTH_TARGET_DOMAIN: PROD_DOMAIN,
+    });
+    expect(overridden.isTokenValid()).toBe(false);
+    expect(overridden.getTokenRemaining()).toEqual({ hours: 0, minutes: 0 });
+  });
+
+  test("AUTH-VALID-02: 만료 1분 이내는 버퍼로 인해 invalid", () => {
+    const files = writeFiles(
+      new Date(Date.now() + 30 * 1000).toISOString(),
+      [],
+    );
+    expect(
+      loadAutoRefreshToken({
+        ...files,
+        ENVIRONMENT_INPUT: "prod",
+      }).isTokenValid(),
+    ).toBe(false);
+
+    const later = writeFiles(
+      new Date(Date.now() + 5 * 60 * 1000).toISOString(),
+      [],
+    );
+    expect(
+      loadAutoRefreshToken({
+        ...later,
+        ENVIRONMENT_INPUT: "prod",
+      }).isTokenValid(),
+    ).toBe(true);
+  });
+});
+
+test.describe("AuthStore 제품 / 환경별 저장소", () => {
+  let rootDir: string;
+
+  test.beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "auth-store-spec-"));
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  function writeState(file: string, cookies: unknown[]) {
+    const filePath = path.join(rootDir, file);
+    fs.writeFileSync(filePath, JSON.stringify({ cookies, origins: [] }));
+    return filePath;
+  }
+
+  test("AUTH-STORE-01: 후보 중 존재하는 파일을 고르고 Admin / AlbumBuddy 도메인은 고정", () => {
+    const stg = () =>
+      new AuthStore("cmr", { rootDir, env: { ENVIRONMENT_INPUT: "stg" } });
+
+    // 아무 파일도 없으면 첫 후보에 새로 저장한다
+    expect(stg().storageStatePath).toBe(path.join(rootDir, "stg-auth.json"));
+    writeState("auth.json", []);
+    expect(stg().storageStatePath).toBe(path.join(rootDir, "auth.json"));
+    writeState("stg-auth.json", []);
+    expect(stg()).toMatchObject({
+      environment: "stg",
+      storageStatePath: path.join(rootDir, "stg-auth.json"),
+      targetDomain: STG_DOMAIN,
+      adminTokensPath: null,
+    });
+
+    // admin은 prod 실행에서도 STG 도메인 / auth host
+    expect(new AuthStore("admin", { rootDir, env: {} })).toMatchObject({
+      environment: "prod",
+      adminTokensPath: path.join(rootDir, "admin-tokens.json"),
+      targetDomain: STG_DOMAIN,
+      tokenEnvironment: "stg",
+    });
+    expect(
+      new AuthStore("albumbuddy", {
+        rootDir,
+        env: { MAKESTAR_BASE_URL: "https://stage-new.makeuni2026.com" },
+      }),
+    ).toMatchObject({
+      storageStatePath: path.join(rootDir, "ab-auth.json"),
+      targetDomain: PROD_DOMAIN,
+      tokenEnvironment: "prod",
+    });
+
+    const override = path.join(rootDir, "custom.json");
+    expect(
+      new AuthStore("cmr", {
+        rootDir,
+        env: { AUTH_FILE_PATH: override, AUTH_TARGET_DOMAIN: "127.0.0.1" },
+      }),
+    ).toMatchObject({ storageStatePath: override, targetDomain: "127.0.0.1" });
+  });
+
+  test("AUTH-STORE-02: inspect / isValid — target 도메인 refresh_token과 admin 토큰 중 늦은 만료", () => {
+    const server = createTokenRefreshServer();
+    const prod = server.issueTokenPair({ refreshTtlSec: 5 * 3600 });
+    const stg = server.issueTokenPair({ refreshTtlSec: 3 * 3600 });
+    writeState("auth.json", [
+      refreshCookie(PROD_DOMAIN, prod.refresh),
+      refreshCookie(STG_DOMAIN, stg.refresh),
+      { name: "sessionid", value: "mock_session", domain: PROD_DOMAIN },
+    ]);
+
+    const store = new AuthStore("admin", { rootDir, env: {} });
+    const status = store.inspect();
+    expect(status).toMatchObject({
+      product: "admin",
+      environment: "prod",
+      exists: true,
+      error: null,
+      cookieCount: 3,
+      hasMockCookies: true,
+      adminExpiresAtMs: null,
+    });
+    // admin은 prod 실행에서도 STG 도메인 refresh_token을 본다
+    expect(status.otherValidRefreshTokens.map((t) => t.domain)).toEqual([
+      PROD_DOMAIN,
+    ]);
+    expect(store.getRemaining().hours).toBe(2);
+    expect(store.isValid()).toBe(true);
+    expect(store.isValid(4 * HOUR_MS)).toBe(false);
+
+    store.writeAdminTokens({
+      expiresAt: new Date(Date.now() + 10.5 * HOUR_MS).toISOString(),
+    });
+    expect(store.getRemaining().hours).toBe(10);
+
+    const missing = new AuthStore("cmr", {
+      rootDir,
+      env: { ENVIRONMENT_INPUT: "stg", AUTH_FILE_PATH: "none.json" },
+    });
+    expect(missing.inspect()).toMatchObject({ exists: false, cookieCount: 0 });
+    expect(missing.isValid()).toBe(false);
+    expect(() => missing.writeAdminTokens({})).toThrow(
+      "admin-tokens.json을 쓰지 않습니다",
+    );
+  });
+
+  test("AUTH-STORE-03: applyTokens는 target 도메인 refresh_token 쿠키만 갱신해 저장", () => {
+    const server = createTokenRefreshServer();
+    const old = server.issueTokenPair({ refreshTtlSec: 60 });
+    const next = server.issueTokenPair({ refreshTtlSec: 7 * 24 * 3600 });
+    const filePath = writeState("auth.json", [
+      refreshCookie(PROD_DOMAIN, old.refresh),
+      refreshCookie(STG_DOMAIN, old.refresh),
+    ]);
+    const store = new AuthStore("cmr", { rootDir, env: {} });
+
+    expect(
+      store.applyTokens({
+        access: next.access,
+        refresh: next.refresh,
+        appOrigin: "https://www.makestar.com",
+      }),
+    ).toBe(true);
+
+    const saved = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    expect(
+      saved.cookies.map((c: { domain: string; value: string }) => [
+        c.domain,
+        c.value === next.refresh,
+      ]),
+    ).toEqual([
+      [PROD_DOMAIN, true],
+      [STG_DOMAIN, false],
+    ]);
+    expect(saved.origins[0].localStorage).toContainEqual({
+      name: "access_token",
+      value: next.access,
+    });
+    expect(store.getRemaining().hours).toBeGreaterThan(24);
+
+    fs.rmSync(filePath);
+    expect(
+      store.applyTokens({ access: "x", appOrigin: "https://www.makestar.com" }),
+    ).toBe(false);
+  });
+});
+
+test.describe("토큰 선제 갱신 코디네이터", () => {
+  let rootDir: string;
+  let server: ReturnType<typeof createTokenRefreshServer>;
+  let authOrigin: string;
+
+  test.beforeEach(async () => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "refresh-coord-spec-"));
+    server = createTokenRefreshServer({ secret: "spec-secret" });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    authOrigin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  test.afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  function createStore(product: "cmr" | "admin", refreshTtlSec: number) {
+    const store = new AuthStore(product, { rootDir, env: {} });
+    const { refresh } = server.issueTokenPair({ refreshTtlSec });
+    fs.writeFileSync(
+      path.join(rootDir, "auth.json"),
+      JSON.stringify({
+        cookies: [
+          refreshCookie(
+            store.targetDomain,
+            refresh,
+            Math.floor(Date.now() / 1000) + refreshTtlSec,
+          ),
+        ],
+        origins: [],
+      }),
+    );
+    return store;
+  }
+
+  function coordinatorOptions(store: AuthStore, owner: string) {
+    return {
+      owner,
+      thresholdMs: HOUR_MS,
+      historyPath: path.join(rootDir, "history.jsonl"),
+      refresh: createRefreshGrantRefresher(store, {
+        appOrigin: "https://www.makestar.com",
+        authOrigin,
+      }),
+    };
+  }
+
+  test("AUTH-COORD-01: 임계값 이상이면 갱신하지 않고, 미만이면 refresh grant로 갱신 후 history 기록", async () => {
+    const fresh = createStore("cmr", 2 * 3600);
+    expect(
+      await ensureFreshToken(fresh, coordinatorOptions(fresh, "worker-0")),
+    ).toMatchObject({ status: "fresh", valid: true, waitedMs: 0 });
+    expect(readRefreshHistory(path.join(rootDir, "history.jsonl"))).toEqual([]);
+
+    const store = createStore("admin", 30 * 60);
+    const outcome = await ensureFreshToken(
+      store,
+      coordinatorOptions(store, "worker-0"),
+    );
+    expect(outcome).toMatchObject({ status: "refreshed", valid: true });
+    expect(outcome.expiresAtMs! - Date.now()).toBeGreaterThan(HOUR_MS);
+    expect(store.getAdminTokenExpiryMs()).not.toBeNull();
+
+    const history = readRefreshHistory(path.join(rootDir, "history.jsonl"));
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({
+      owner: "worker-0",
+      product: "admin",
+      storageState: "auth.json",
+      status: "refreshed",
+      trigger: "threshold",
+      error: null,
+    });
+    expect(fs.existsSync(getRefreshLockPath(store.storageStatePath))).toBe(
+      false,
+    );
+  });
+
+  test("AUTH-COORD-02: 동시에 호출하면 한 곳만 갱신하고 나머지는 새 토큰을 기다린다", async () => {
+    const store = createStore("cmr", 10 * 60);
+    const grant = coordinatorOptions(store, "worker-0").refresh;
+    let refreshCalls = 0;
+    const slowRefresh = async () => {
+      refreshCalls++;
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      return grant();
+    };
+
+    const outcomes = await Promise.all(
+      ["worker-0", "worker-1", "worker-2"].map((owner) =>
+        ensureFreshToken(store, {
+          ...coordinatorOptions(store, owner),
+          refresh: slowRefresh,
+        }),
+      ),
+    );
+    expect(refreshCalls).toBe(1);
+    expect(outcomes.map((o) => o.status).sort()).toEqual([
+      "refreshed",
+      "refreshed-by-peer",
+      "refreshed-by-peer",
+    ]);
+    expect(outcomes.every((o) => o.valid)).toBe(true);
+    expect(
+      readRefreshHistory(path.join(rootDir, "history.jsonl")).map(
+        (entry) => entry.status,
+      ),
+    ).toEqual(["refreshed", "refreshed-by-peer", "refreshed-by-peer"]);
+  });
+
+  test("AUTH-COORD-03: 갱신 실패는 기록되고 cooldown 동안 다른 worker는 재시도하지 않는다", async () => {
+    const store = createStore("cmr", 10 * 60);
+    const options = {
+      ...coordinatorOptions(store, "worker-0"),
+      refresh: async () => {
+        throw new Error("token_refresh 401 (Token is blacklisted)");
+      },
+    };
+
+    const failed = await ensureFreshToken(store, options);
+    expect(failed).toMatchObject({
+      status: "failed",
+      valid: true, // 남은 10분은 그대로 사용 가능
+      error: "token_refresh 401 (Token is blacklisted)",
+    });
+
+    let retried = false;
+    const skipped = await ensureFreshToken(store, {
+      ...options,
+      owner: "worker-1",
+      refresh: async () => (retried = true),
+    });
+    expect(retried).toBe(false);
+    expect(skipped.status).toBe("skipped");
+    expect(skipped.error).toContain("worker-0");
+
+    const historyPath = path.join(rootDir, "history.jsonl");
+    expect(
+      getRecentRefreshFailure(store.storageStatePath, { historyPath }),
+    ).toMatchObject({ owner: "worker-0", status: "failed" });
+    expect(
+      getRecentRefreshFailure(store.storageStatePath, {
+        historyPath,
+        now: Date.now() + 10 * 60 * 1000,
+      }),
+    ).toBeNull();
+
+    const forced = await ensureFreshToken(store, {
+      ...coordinatorOptions(store, "worker-1"),
+      force: true,
+    });
+    expect(forced.status).toBe("refreshed");
+    expect(
+      readRefreshHistory(path.join(rootDir, "history.jsonl")).map((entry) => [
+        entry.status,
+        entry.trigger,
+      ]),
+    ).toEqual([
+      ["failed", "threshold"],
+      ["refreshed", "force"],
+    ]);
+    // 갱신에 성공하면 admin 테스트의 인증 실패 판정도 풀린다
+    expect(
+      getRecentRefreshFailure(store.storageStatePath, { historyPath }),
+    ).toBeNull();
+  });
+
+  test("AUTH-COORD-04: 갱신 성공은 auth.json / admin-tokens.json에 저장되고 실패하면 두 파일을 건드리지 않는다", async () => {
+    const store = createStore("admin", 30 * 60);
+    const authPath = path.join(rootDir, "auth.json");
+    const adminTokensPath = path.join(rootDir, "admin-tokens.json");
+    const old = server.issueTokenPair();
+    fs.writeFileSync(
+      adminTokensPath,
+      JSON.stringify(
+        buildAdminTokenData({
+          accessToken: old.access,
+          refreshToken: old.refresh,
+        }),
+      ),
+    );
+    const oldRefresh = (
+      readAuthJsonFile(authPath) as { cookies: { value: string }[] }
+    ).cookies[0].value;
+
+    await coordinatorOptions(store, "worker-0").refresh();
+
+    const state = readAuthJsonFile(authPath) as {
+      cookies: { domain: string; value: string }[];
+      origins: {
+        origin: string;
+        localStorage: { name: string; value: string }[];
+      }[];
+    };
+    const rotated = state.cookies[0].value;
+    expect(state.cookies[0].domain).toBe(store.targetDomain);
+    expect(rotated).not.toBe(oldRefresh);
+    expect(verifyJwt(rotated, "spec-secret")).toMatchObject({
+      token_type: "refresh",
+    });
+    const localStorage = Object.fromEntries(
+      state.origins
+        .find((o) => o.origin === "https://www.makestar.com")!
+        .localStorage.map((item) => [item.name, item.value]),
+    );
+    expect(localStorage.refresh_token).toBe(rotated);
+    expect(verifyJwt(localStorage.access_token, "spec-secret")).toMatchObject({
+      token_type: "access",
+    });
+
+    const adminTokens = readAuthJsonFile(adminTokensPath) as {
+      accessToken: string;
+      refreshToken: string;
+    };
+    expect(adminTokens).toMatchObject({
+      accessToken: localStorage.access_token,
+      refreshToken: rotated,
+    });
+
+    // 서버 오류 / 허용되지 않은 origin 모두 reject하고 저장 파일은 byte 단위로 그대로
+    const snapshot = () => [
+      fs.readFileSync(authPath, "utf-8"),
+      fs.readFileSync(adminTokensPath, "utf-8"),
+    ];
+    const before = snapshot();
+    server.options.forceStatus = 500;
+    await expect(
+      coordinatorOptions(store, "worker-0").refresh(),
+    ).rejects.toThrow("token_refresh 500");
+    await expect(
+      createRefreshGrantRefresher(store, {
+        appOrigin: "https://www.makestar.com",
+        authOrigin: "https://evil.example.com",
+      })(),
+    ).rejects.toThrow("loopback");
+    expect(snapshot()).toEqual(before);
+  });
+});
+
+test.describe("인증 파일 암호화", () => {
+  const KEY_ENV = { AUTH_ENCRYPTION_KEY: "spec-key" };
+  let rootDir: string;
+
+  test.beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "auth-crypto-spec-"));
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  test("AUTH-CRYPTO-01: 암호화 round trip, 키가 다르거나 변조되면 예외, 키 없이 읽으면 예외", () => {
+    const state = { cookies: [refreshCookie(PROD_DOMAIN, "secret")] };
+    const envelope = encryptAuthJson(state, "spec-key");
+    expect(envelope).toMatchObject({ encrypted: "aes-256-gcm", version: 1 });
+    expect(JSON.stringify(envelope)).not.toContain("secret");
+    expect(decryptAuthJson(envelope, "spec-key")).toEqual(state);
+    // 같은 내용이라도 salt / iv가 매번 달라야 함
+    expect(encryptAuthJson(state, "spec-key").data).not.toBe(envelope.data);
+
+    expect(() => decryptAuthJson(envelope, "other-key")).toThrow(/복호화 실패/);
+    expect(() =>
+      decryptAuthJson(
+        { ...envelope, data: Buffer.from("x").toString("base64") },
+        "spec-key",
+      ),
+    ).toThrow(/복호화 실패/);
+
+    const filePath = path.join(rootDir, "auth.json");
+    writeAuthJsonFile(filePath, state, KEY_ENV);
+    expect(isEncryptedAuthFile(filePath)).toBe(true);
+    expect(readAuthJsonFile(filePath, KEY_ENV)).toEqual(state);
+    expect(() => readAuthJsonFile(filePath, {})).toThrow(
+      /AUTH_ENCRYPTION_KEY를 설정하세요/,
+    );
+
+    // 키가 없으면 평문으로 저장하고, 평문 파일은 키가 있어도 그대로 읽는다
+    writeAuthJsonFile(filePath, state, {});
+    expect(isEncryptedAuthFile(filePath)).toBe(false);
+    expect(readAuthJsonFile(filePath, KEY_ENV)).toEqual(state);
+  });
+
+  test("AUTH-CRYPTO-02: AuthStore는 키가 있으면 storageState / admin-tokens를 암호화해 저장하고 그대로 읽는다", () => {
+    const server = createTokenRefreshServer();
+    const { access, refresh } = server.issueTokenPair({ refreshTtlSec: 3600 });
+    const store = new AuthStore("admin", { rootDir, env: KEY_ENV });
+
+    store.writeStorageState({
+      cookies: [
+        refreshCookie(
+          PROD_DOMAIN,
+          refresh,
+          Math.floor(Date.now() / 1000) + 3600,
+        ),
+      ],
+      origins: [],
+    });
+    store.writeAdminTokens(
+      buildAdminTokenData({ accessToken: access, refreshToken: refresh }),
+    );
+
+    for (const filePath of [store.storageStatePath, store.adminTokensPath!]) {
+      expect(isEncryptedAuthFile(filePath)).toBe(true);
+      const raw = fs.readFileSync(filePath, "utf-8");
+      expect(raw).not.toContain(refresh);
+      expect(raw).not.toContain(access);
+    }
+    expect(store.readStorageState().ok).toBe(true);
+    expect(store.getAdminTokenExpiryMs()).not.toBeNull();
+    expect(store.inspect()).toMatchObject({ error: null, cookieCount: 1 });
+    expect(store.isValid()).toBe(true);
+
+    const withoutKey = new AuthStore("admin", { rootDir, env: {} });
+    expect(withoutKey.inspect()).toMatchObject({
+      exists: true,
+      cookieCount: 0,
+      adminExpiresAtMs: null,
+      error: expect.stringMatching(/AUTH_ENCRYPTION_KEY/),
+    });
+    expect(withoutKey.isValid()).toBe(false);
+  });
+
+  test("AUTH-CRYPTO-03: materializeStorageState는 암호화된 파일만 임시 평문 파일로 푼다", () => {
+    const state = {
+      cookies: [refreshCookie(PROD_DOMAIN, "secret")],
+      origins: [],
+    };
+    const plainPath = path.join(rootDir, "plain-auth.json");
+    writeAuthJsonFile(plainPath, state, {});
+    expect(materializeStorageState(plainPath, KEY_ENV)).toBe(plainPath);
+    const missingPath = path.join(rootDir, "missing.json");
+    expect(materializeStorageState(missingPath, KEY_ENV)).toBe(missingPath);
+
+    const encryptedPath = path.join(rootDir, "auth.json");
+    writeAuthJsonFile(encryptedPath, state, KEY_ENV);
+    const materialized = materializeStorageState(encryptedPath, KEY_ENV);
+    expect(materialized).not.toBe(encryptedPath);
+    expect(path.dirname(materialized)).not.toBe(rootDir);
+    expect(JSON.parse(fs.readFileSync(materialized, "utf-8"))).toEqual(state);
+    if (process.platform !== "win32") {
+      expect(fs.statSync(materialized).mode & 0o777).toBe(0o600);
+    }
+    expect(() => materializeStorageState(encryptedPath, {})).toThrow(
+      /AUTH_ENCRYPTION_KEY/,
+    );
+  });
+});
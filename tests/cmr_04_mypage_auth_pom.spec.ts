@@ -5,15 +5,23 @@
  * 목적별 spec로 나누고, 공통 설정은 tests/helpers에서 가져옵니다.
  */
 
-import { test, expect } from "@playwright/test";
+import { mergeTests } from "@playwright/test";
+import { test as harTest, expect } from "./fixtures/cmr-har";
+import { test as accountPoolTest } from "./fixtures/account-pool";
 import { MakestarPage } from "./pages/makestar.page";
 import { TEST_TIMEOUT } from "./helpers/cmr-monitoring-config";
+import { skipIfAuthUnusable } from "./helpers/auth-gate";
+
+// 마이페이지는 worker마다 lease한 계정으로 접속한다 (tests/fixtures/account-pool.ts)
+const test = mergeTests(harTest, accountPoolTest);
 
 test.describe("마이페이지/회원 기능 @feature:cmr.mypage", () => {
   let makestar: MakestarPage;
 
-  test.beforeEach(async ({ page }, testInfo) => {
+  test.beforeEach(async ({ page, testAccount }, testInfo) => {
     testInfo.setTimeout(TEST_TIMEOUT);
+    // 계정 파일이 따로 있는 lease 계정은 auth.json 상태와 무관하다
+    if (!testAccount.account.storageState) skipIfAuthUnusable("cmr");
     makestar = new MakestarPage(page);
     await makestar.gotoHome();
   });
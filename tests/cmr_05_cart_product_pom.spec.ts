@@ -5,7 +5,8 @@
  * 목적별 spec로 나누고, 공통 설정은 tests/helpers에서 가져옵니다.
  */
 
-import { test, expect } from "@playwright/test";
+import { test, expect } from "./fixtures/cmr-har";
+import { skipDataUnavailable } from "./helpers/failure-class";
 import { runOptionalStep } from "./helpers/optional-step";
 import { BASE_URL, TEST_TIMEOUT } from "./helpers/cmr-monitoring-config";
 import { MakestarPage } from "./pages/makestar.page";
@@ -175,10 +176,19 @@ test.describe("상품/장바구니 기능 @feature:cmr.cart @feature:cmr.product
 
       // Shop 상품 중 구매 가능한 상품을 찾아 장바구니에 담기 (최대 8개 시도)
       const productCount = await makestar.shopProductCard.count();
+      // 빈 그리드는 데이터가 아니라 Shop 렌더 결함
+      expect(productCount, "Shop 상품 그리드가 비어 있습니다").toBeGreaterThan(
+        0,
+      );
+      const tryCount = Math.min(8, productCount);
       let confirmed = false;
       let authRedirectCount = 0;
+      // 카드 / 상세 품절 표시로 구매 가능한 옵션이 없다고 확인된 상품 수.
+      // 시도한 상품이 모두 여기 해당할 때만 데이터 문제로 본다 —
+      // 상세 이동 실패 / 담기 실패는 앱 결함으로 그대로 실패
+      let unavailableCount = 0;
 
-      for (let i = 0; i < Math.min(8, productCount); i++) {
+      for (let i = 0; i < tryCount; i++) {
         // 품절 상품 건너뛰기
         const card = makestar.shopProductCard.nth(i);
         const cardText = await card
@@ -187,6 +197,7 @@ test.describe("상품/장바구니 기능 @feature:cmr.cart @feature:cmr.product
           .catch(() => "");
         if (cardText && /sold out|품절/i.test(cardText)) {
           console.warn(`   ⚠️ 상품 ${i + 1}: 품절 - 건너뜀`);
+          unavailableCount++;
           continue;
         }
 
@@ -212,6 +223,18 @@ test.describe("상품/장바구니 기능 @feature:cmr.cart @feature:cmr.product
           `   옵션 선택 결과: ${optionSelected ? "성공" : "실패 (옵션 없는 상품)"}`,
         );
 
+        // 선택할 옵션이 없고 상세에 품절 표시가 있으면 구매 가능한 옵션이 없는 상품
+        if (!optionSelected && (await makestar.hasSoldOutIndicator(1000))) {
+          console.warn(
+            `   ⚠️ 상품 ${i + 1}: 구매 가능한 옵션 없음 (품절) - 건너뜀`,
+          );
+          unavailableCount++;
+          await makestar.clickLogoToHome();
+          await makestar.navigateToShop();
+          await makestar.waitForPageContent();
+          continue;
+        }
+
         // 드롭다운 패턴일 경우에만 별도 수량 설정
         if (!optionSelected) {
           await makestar.setQuantity(1);
@@ -276,6 +299,11 @@ test.describe("상품/장바구니 기능 @feature:cmr.cart @feature:cmr.product
           `인증 세션 만료: ${authRedirectCount}회 로그인 리다이렉트 — auth.json 갱신 필요`,
         );
       }
+      // docs/cmr-test-products.md: 조건 상품이 없으면 data-unavailable로 skip
+      skipDataUnavailable(
+        !confirmed && unavailableCount === tryCount,
+        `Shop 상위 ${tryCount}개 모두 품절 / 구매 가능한 옵션 없음`,
+      );
       expect(confirmed).toBeTruthy();
     });
 
@@ -337,11 +365,11 @@ test.describe("상품/장바구니 기능 @feature:cmr.cart @feature:cmr.product
   });
 
   test("CMR-ACTION-04: 비회원 상태에서 홈/이벤트 페이지 정상 접근 확인", async ({
-    browser,
+    newGuestContext,
   }) => {
     test.setTimeout(TEST_TIMEOUT);
 
-    const incognitoContext = await browser.newContext();
+    const incognitoContext = await newGuestContext();
     const incognitoPage = await incognitoContext.newPage();
 
     try {
@@ -5,7 +5,7 @@
  * 목적별 spec로 나누고, 공통 설정은 tests/helpers에서 가져옵니다.
  */
 
-import { test, expect } from "@playwright/test";
+import { test, expect } from "./fixtures/cmr-har";
 import { MakestarPage } from "./pages/makestar.page";
 import { TEST_TIMEOUT } from "./helpers/cmr-monitoring-config";
 
@@ -5,13 +5,17 @@
  * 목적별 spec로 나누고, 공통 설정은 tests/helpers에서 가져옵니다.
  */
 
-import { test, expect } from "@playwright/test";
+import { test, expect } from "./fixtures/cmr-har";
 import { BASE_URL, TEST_TIMEOUT } from "./helpers/cmr-monitoring-config";
 import { MakestarPage } from "./pages/makestar.page";
 import type { WebVitalsResult } from "./pages/makestar.page";
+import { formatPerfTrend, recordPerfSample } from "./helpers/perf-trend";
+import type { PerfTrendResult } from "./helpers/perf-trend";
 
-const PERF_PAGE_LOAD_THRESHOLD_MS =
-  Number(process.env.CMR_PAGE_LOAD_THRESHOLD) || 3000;
+/** tests/fixtures/perf-budgets.json의 totalTime 예산을 환경변수로 덮어쓸 때 */
+const PERF_PAGE_LOAD_BUDGET_OVERRIDE = process.env.CMR_PAGE_LOAD_THRESHOLD
+  ? { totalTime: Number(process.env.CMR_PAGE_LOAD_THRESHOLD) }
+  : undefined;
 const PERF_API_RESPONSE_THRESHOLD_MS =
   Number(process.env.CMR_API_RESPONSE_THRESHOLD) || 2000;
 
@@ -29,9 +33,9 @@ test.describe("응답성/성능 모니터링 @feature:cmr.home", () => {
     test.setTimeout(TEST_TIMEOUT);
 
     const pagesToTest = [
-      { name: "Home", url: `${BASE_URL}/` },
-      { name: "Event", url: `${BASE_URL}/event` },
-      { name: "Shop", url: `${BASE_URL}/shop` },
+      { name: "Home", id: "cmr:home", url: `${BASE_URL}/` },
+      { name: "Event", id: "cmr:event", url: `${BASE_URL}/event` },
+      { name: "Shop", id: "cmr:shop", url: `${BASE_URL}/shop` },
     ];
 
     const results: {
@@ -40,9 +44,12 @@ test.describe("응답성/성능 모니터링 @feature:cmr.home", () => {
       vitals: WebVitalsResult;
       passed: boolean;
     }[] = [];
+    const trends: PerfTrendResult[] = [];
 
     console.log("📊 주요 페이지 로딩 시간 측정 (Web Vitals 기반)");
-    console.log(`   기준: ${PERF_PAGE_LOAD_THRESHOLD_MS}ms 이내`);
+    console.log(
+      `   기준: tests/fixtures/perf-budgets.json 예산${PERF_PAGE_LOAD_BUDGET_OVERRIDE ? ` (totalTime ${PERF_PAGE_LOAD_BUDGET_OVERRIDE.totalTime}ms)` : ""}`,
+    );
     console.log("");
 
     for (const pageInfo of pagesToTest) {
@@ -50,7 +57,20 @@ test.describe("응답성/성능 모니터링 @feature:cmr.home", () => {
       const { totalTime, vitals } = await makestar.measurePageLoadTime(
         pageInfo.url,
       );
-      const passed = totalTime <= PERF_PAGE_LOAD_THRESHOLD_MS;
+      // 예산 + (PERF_HISTORY=true면) 최근 실행 p75 대비 회귀 판정
+      const trend = recordPerfSample(
+        pageInfo.id,
+        { totalTime, ...vitals },
+        { budget: PERF_PAGE_LOAD_BUDGET_OVERRIDE, retry: test.info().retry },
+      );
+      trends.push(trend);
+      for (const finding of trend.findings) {
+        test.info().annotations.push({
+          type: `perf-${finding.kind}-${finding.severity}`,
+          description: `[${pageInfo.id}] ${finding.message}`,
+        });
+      }
+      const passed = !trend.errors.some((finding) => finding.kind === "budget");
 
       results.push({
         name: pageInfo.name,
@@ -84,6 +104,12 @@ test.describe("응답성/성능 모니터링 @feature:cmr.home", () => {
     // 과반수 이상 통과하면 성공 (네트워크 상황에 따른 유연성 확보)
     const minPassRequired = Math.ceil(results.length / 2);
     expect(passedCount).toBeGreaterThanOrEqual(minPassRequired);
+
+    // 예산 초과는 위 과반수 규칙으로만 보고, 최근 실행 대비 통계적으로 유의한 회귀는 바로 실패
+    const regressions = trends.flatMap((trend) =>
+      trend.errors.filter((finding) => finding.kind === "regression"),
+    );
+    expect(regressions, trends.map(formatPerfTrend).join("\n")).toEqual([]);
   });
 
   test("CMR-PERF-02: API 응답 시간 및 네트워크 요청 모니터링", async ({
@@ -0,0 +1,191 @@
+/**
+ * Makestar CMR 결제 POM 오프라인 회귀 (fake Toss)
+ *
+ * cmr_payment_pom.spec.ts와 같은 MakestarPaymentPage 메서드를 live Toss sandbox 대신
+ * route interception으로 띄운 fake widget/gateway에 대해 실행한다.
+ * 네트워크/인증 없이 실행되므로 POM 셀렉터·대기 로직 변경을 바로 확인할 수 있다.
+ *
+ *  - CMR-PAY-FAKE-01: 카드 결제 승인 → processing(orderId/paymentKey/amount) → success
+ *  - CMR-PAY-FAKE-02: 카드 거절 → fail 리다이렉트, processing 미진입
+ *  - CMR-PAY-FAKE-03: 승인 API 무응답(timeout) → 결제 페이지 유지, 리다이렉트 없음
+ *  - CMR-PAY-FAKE-04: unavailable 경고 + 동의 해제 시 Proceed disabled
+ *
+ * @see tests/helpers/fake-toss.ts
+ */
+
+import { test, expect, type Page } from "@playwright/test";
+import { MakestarPaymentPage } from "./pages";
+import { TOSS_TEST_CARDS } from "./fixtures/cmr-payment";
+import {
+  FAKE_TOSS_DECLINE,
+  installFakeToss,
+  type FakeTossController,
+  type FakeTossOptions,
+} from "./helpers/fake-toss";
+
+/** 카드 입력 iframe까지 진입하고 카드 정보를 채운다 (submit 직전 상태) */
+async function fillCardUntilSubmit(
+  payment: MakestarPaymentPage,
+): Promise<void> {
+  await payment.gotoPayments();
+  await payment.waitForOrderReviewLoaded();
+  const { total } = await payment.checkAllAgreements();
+  expect(total, "동의 체크박스가 렌더링되어야 합니다").toBeGreaterThan(0);
+
+  const entry = await payment.startTossEntry();
+  expect(entry.makeOrder.status).toBe(200);
+  expect(entry.hasWidget, "payment-widget iframe이 떠야 합니다").toBe(true);
+  await payment.waitForTossWidget();
+
+  expect(await payment.closeTosspayOverlay()).toBe(true);
+  await payment.selectPaymentMethod("card");
+  await payment.selectCardIssuer("VISA");
+
+  const makeOrder2 = payment.captureMakeOrder();
+  await payment.proceedButton().click();
+  expect((await makeOrder2).status).toBe(200);
+
+  await payment.waitForCardPaymentFrame();
+  await payment.fillCardNumber(TOSS_TEST_CARDS.visa.number);
+  await payment.fillCardExpiry("12/30");
+  await payment.fillCardEmail("qa-e2e@makestar.test");
+  const agreements = await payment.checkAllCardAgreements();
+  expect(agreements.total).toBeGreaterThan(0);
+
+  const payBtn = payment
+    .cardPaymentFrame()!
+    .locator('button[aria-label^="Next-"]')
+    .first();
+  await expect(payBtn).toBeEnabled({ timeout: 5000 });
+}
+
+test.describe("CMR 결제 POM (fake Toss)", () => {
+  let toss: FakeTossController;
+  let payment: MakestarPaymentPage;
+
+  async function setup(page: Page, options: FakeTossOptions): Promise<void> {
+    toss = await installFakeToss(page.context(), options);
+    payment = new MakestarPaymentPage(page, toss.baseUrl);
+  }
+
+  test.afterEach(async () => {
+    await toss?.release();
+  });
+
+  test(
+    "CMR-PAY-FAKE-01: 카드 승인 시 processing 파라미터와 success 랜딩 확인",
+    { tag: "@feature:cmr.payments.toss.card.submit" },
+    async ({ page }) => {
+      await setup(page, { scenario: "approved", amount: 19560 });
+      await fillCardUntilSubmit(payment);
+      const expectedAmount = await payment.getTotalAmountKrw();
+      expect(expectedAmount).toBe(toss.amount);
+
+      const processingRequest = page.waitForRequest(
+        (r) =>
+          /\/payments\/toss\/processing/.test(r.url()) && r.method() === "GET",
+        { timeout: 10000 },
+      );
+      await payment.submitCardPayment();
+
+      const url = new URL((await processingRequest).url());
+      expect(url.searchParams.get("orderId")).toMatch(/^C[A-Z]{2,4}\d+$/);
+      expect(url.searchParams.get("paymentKey")).toBeTruthy();
+      expect(Number(url.searchParams.get("amount"))).toBe(expectedAmount);
+
+      await expect(page).toHaveURL(/\/payments\/toss\/success/);
+      await expect(
+        page.getByText(/successfully completed/i).first(),
+      ).toBeVisible();
+      expect(toss.makeOrderCount()).toBe(2);
+      expect(toss.confirmRequests()).toEqual([
+        expect.objectContaining({
+          issuer: "VISA",
+          cardNumber: TOSS_TEST_CARDS.visa.number,
+        }),
+      ]);
+      expect(toss.blockedRequests()).toEqual([]);
+    },
+  );
+
+  test(
+    "CMR-PAY-FAKE-02: 카드 거절 시 fail 페이지로 이동하고 processing 미진입",
+    { tag: "@feature:cmr.payments.toss.card.submit" },
+    async ({ page }) => {
+      await setup(page, { scenario: "declined" });
+      await fillCardUntilSubmit(payment);
+
+      const processingUrls: string[] = [];
+      page.on("request", (r) => {
+        if (/\/payments\/toss\/processing/.test(r.url())) {
+          processingUrls.push(r.url());
+        }
+      });
+
+      await payment.submitCardPayment();
+
+      await expect(page).toHaveURL(/\/payments\/toss\/fail/);
+      const failUrl = new URL(page.url());
+      expect(failUrl.searchParams.get("code")).toBe(FAKE_TOSS_DECLINE.code);
+      expect(failUrl.searchParams.get("orderId")).toBe(toss.orderId);
+      await expect(page.getByText(/Payment failed/i)).toBeVisible();
+      expect(processingUrls, "거절 시 processing 진입 금지").toEqual([]);
+    },
+  );
+
+  test(
+    "CMR-PAY-FAKE-03: 승인 API 무응답 시 결제 페이지에 머물고 리다이렉트 없음",
+    { tag: "@feature:cmr.payments.toss.card.submit" },
+    async ({ page }) => {
+      await setup(page, { scenario: "timeout" });
+      await fillCardUntilSubmit(payment);
+
+      await payment.submitCardPayment();
+      await expect.poll(() => toss.confirmRequests().length).toBe(1);
+
+      const cardFrame = payment.cardPaymentFrame()!;
+      await expect(cardFrame.getByRole("status")).toHaveText("결제 진행 중");
+      await expect(
+        cardFrame.locator('button[aria-label^="Next-"]').first(),
+        "승인 대기 중에는 중복 결제를 막기 위해 Pay 버튼이 비활성화되어야 합니다",
+      ).toBeDisabled();
+
+      await expect(
+        page.waitForRequest((r) => /\/payments\/toss\//.test(r.url()), {
+          timeout: 3000,
+        }),
+        "승인 응답 전 리다이렉트 금지",
+      ).rejects.toThrow(/Timeout/);
+      await expect(page).toHaveURL(/\/payments$/);
+
+      // 보류 중인 승인 요청을 끊으면 카드 iframe이 오류 상태로 전환된다
+      await toss.release();
+      await expect(cardFrame.getByRole("status")).toHaveText("결제 응답 없음");
+    },
+  );
+
+  test(
+    "CMR-PAY-FAKE-04: unavailable 경고와 동의 해제 시 Proceed disabled",
+    { tag: "@feature:cmr.payments.agreements" },
+    async ({ page }) => {
+      await setup(page, { scenario: "approved" });
+      await payment.gotoPayments();
+      await payment.waitForOrderReviewLoaded();
+
+      expect(await payment.hasUnavailableItemsWarning(500)).toBe(false);
+      const { total } = await payment.checkAllAgreements();
+      expect(total).toBe(6);
+      expect(await payment.isProceedDisabled()).toBe(false);
+
+      expect(await payment.uncheckAgreementAt(0)).toBe(true);
+      expect(await payment.isProceedDisabled()).toBe(true);
+
+      await setup(page, { scenario: "approved", unavailableItems: true });
+      await payment.gotoPayments();
+      await payment.waitForOrderReviewLoaded();
+      await payment.checkAllAgreements();
+      expect(await payment.hasUnavailableItemsWarning()).toBe(true);
+      expect(await payment.isProceedDisabled()).toBe(true);
+    },
+  );
+});
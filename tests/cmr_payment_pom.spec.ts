@@ -32,6 +32,8 @@ import {
   RESTRICTED_PRODUCT_IDS,
   TOSS_TEST_CARDS,
 } from "./fixtures/cmr-payment";
+import { getAccountPoolSize } from "./helpers/account-pool";
+import { skipIfAuthUnusable } from "./helpers/auth-gate";
 
 const BASE_URL =
   process.env.MAKESTAR_BASE_URL || "https://stage-new.makeuni2026.com";
@@ -41,7 +43,12 @@ const TEST_TIMEOUT = 90000;
 // URL에 "stage"/"staging" 문자열이 포함된 경우만 실행으로 간주한다.
 const IS_STAGE_ENV = /stage|staging/i.test(BASE_URL);
 
-test.describe.serial("CMR 결제 회귀", () => {
+test.describe("CMR 결제 회귀", () => {
+  // worker마다 계정을 lease하므로 계정이 둘 이상이면 병렬, 하나면 기존처럼 직렬.
+  test.describe.configure({
+    mode: getAccountPoolSize() > 1 ? "parallel" : "serial",
+  });
+
   // 같은 소스가 prod에도 배포되는 구조 — prod 실행 방지를 위한 환경 가드.
   test.skip(
     !IS_STAGE_ENV,
@@ -50,8 +57,9 @@ test.describe.serial("CMR 결제 회귀", () => {
 
   let payment: MakestarPaymentPage;
 
-  test.beforeEach(async ({ page, resetUserState }, testInfo) => {
+  test.beforeEach(async ({ page, resetUserState, testAccount }, testInfo) => {
     testInfo.setTimeout(TEST_TIMEOUT);
+    if (!testAccount.account.storageState) skipIfAuthUnusable("cmr", "stg");
     payment = new MakestarPaymentPage(page, BASE_URL);
 
     // 테스트 간 격리: 카트(amount 누적 차단) + 통화(KRW 강제) + 배송지(KR 강제).
@@ -0,0 +1,262 @@
+/**
+ * Admin API stand-in(scripts/stand-ins/admin-api-server.js) 목록 API 회귀 (브라우저 / STG 불필요)
+ *
+ *  - STANDIN-ADMIN-01: 최신순 page / size 자르기, count / next / previous, size 상한
+ *  - STANDIN-ADMIN-02: 목록별 search / 필드 / 기간 / 서비스 필터, 미지원 경로 404
+ *  - STANDIN-ADMIN-03: /__stand-in/seed로 데이터 교체, 화면 경로는 목록 API를 부르는 HTML shell
+ *  - STANDIN-ADMIN-04: 엑셀 export(주문 / 주문-SKU ZIP / 대분류)가 스키마 / 대조를 통과하고 shell 버튼이 가리킨다
+ *
+ * 실행: npm run test:excel
+ */
+
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { parseExcelOrZip } from "./helpers/excel-parser";
+import {
+  ORDER_EXPORT_SCHEMA,
+  ORDER_SKU_EXPORT_SCHEMA,
+  formatViolations,
+  validateExcelSheet,
+} from "./helpers/excel-schema";
+import { extractRows } from "./helpers/admin/api-capture";
+import {
+  CATEGORY_RECONCILE,
+  ORDER_RECONCILE,
+  formatReconcileReport,
+  reconcileExcelWithApi,
+} from "./helpers/admin/excel-reconcile";
+import {
+  API_PREFIX,
+  createAdminApiServer,
+  generateFixtures,
+} from "../scripts/stand-ins/admin-api-server";
+
+const fixtures = generateFixtures(20260101, {
+  orders: 25,
+  users: 12,
+  products: 3,
+  skus: 4,
+});
+
+let server: Server;
+let baseUrl: string;
+
+test.beforeAll(async () => {
+  server = createAdminApiServer({ fixtures });
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve()),
+  );
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+test.afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+test("STANDIN-ADMIN-01: 최신순으로 page / size를 자르고 count / next / previous를 돌려준다", async ({
+  request,
+}) => {
+  const latestIds = [...fixtures.orders]
+    .sort((a, b) => b.id - a.id)
+    .map((order) => order.id);
+  const list = `${baseUrl}${API_PREFIX}/commerce/order/`;
+
+  const first = await (await request.get(list)).json();
+  expect(first.count).toBe(25);
+  expect(first.results.map((row) => row.id)).toEqual(latestIds.slice(0, 10));
+  expect(first.previous).toBeNull();
+  expect(new URL(first.next).searchParams.get("page")).toBe("2");
+
+  const last = await (await request.get(`${list}?page=3&size=10`)).json();
+  expect(last.results.map((row) => row.id)).toEqual(latestIds.slice(20));
+  expect(last.next).toBeNull();
+  expect(new URL(last.previous).searchParams.get("page")).toBe("2");
+
+  // 범위 밖 page는 빈 목록, 잘못된 값은 기본값, size는 최대 1000
+  const beyond = await (await request.get(`${list}?page=9&size=10`)).json();
+  expect(beyond).toMatchObject({ count: 25, results: [], next: null });
+  const invalid = await (await request.get(`${list}?page=0&size=abc`)).json();
+  expect(invalid.results).toHaveLength(10);
+  const all = await (await request.get(`${list}?size=5000`)).json();
+  expect(all.results).toHaveLength(25);
+  expect(all.next).toBeNull();
+});
+
+test("STANDIN-ADMIN-02: 목록별 search / 필드 / 기간 / 서비스 필터를 적용한다", async ({
+  request,
+}) => {
+  const api = (pathname: string, query: Record<string, string>) =>
+    request
+      .get(`${baseUrl}${API_PREFIX}${pathname}`, {
+        params: { size: "1000", ...query },
+      })
+      .then((response) => response.json());
+
+  // 주문: search(주문번호 / 이메일, 대소문자 무시) + 결제 상태 + 기간
+  const target = fixtures.orders[7];
+  const bySearch = await api("/commerce/order/", {
+    search: target.user_order_number.toLowerCase(),
+  });
+  expect(bySearch.results.map((row) => row.id)).toContain(target.id);
+  expect(
+    bySearch.results.every((row) =>
+      row.user_order_number
+        .toLowerCase()
+        .includes(target.user_order_number.toLowerCase()),
+    ),
+  ).toBe(true);
+
+  const paid = await api("/commerce/order/", { payment_status: "paid" });
+  expect(paid.count).toBe(
+    fixtures.orders.filter((order) => order.payment_status === "paid").length,
+  );
+
+  const day = target.created_at.slice(0, 10);
+  const sameDay = await api("/commerce/order/", {
+    period_type: "created_at",
+    start_date: day,
+    end_date: day,
+  });
+  expect(sameDay.count).toBe(
+    fixtures.orders.filter((order) => order.created_at.startsWith(day)).length,
+  );
+  // period_type 없이 넘긴 날짜는 무시
+  const ignored = await api("/commerce/order/", {
+    start_date: "2099-01-01",
+  });
+  expect(ignored.count).toBe(fixtures.orders.length);
+
+  // 회원: 모든 서비스를 가진 회원만
+  const services = await api("/user/list_new_commerce_user/", {
+    available_services: "makestar, pocaalbum",
+  });
+  expect(services.count).toBe(
+    fixtures.users.filter(
+      (user) =>
+        user.available_services.includes("makestar") &&
+        user.available_services.includes("pocaalbum"),
+    ).length,
+  );
+
+  // SKU: sku_code 정확히 일치
+  const sku = await api("/commerce/sku/", { sku_code: "SKU-00002" });
+  expect(sku.results.map((row) => row.sku_code)).toEqual(["SKU-00002"]);
+
+  const missing = await request.get(`${baseUrl}${API_PREFIX}/commerce/event/`);
+  expect(missing.status()).toBe(404);
+});
+
+test("STANDIN-ADMIN-03: seed로 데이터를 교체하고 화면 경로에는 목록 API를 부르는 shell을 준다", async ({
+  request,
+}) => {
+  const seeded = await request.post(`${baseUrl}/__stand-in/seed`, {
+    data: { fixtures: { orders: fixtures.orders.slice(0, 2) } },
+  });
+  expect(await seeded.json()).toEqual({
+    orders: 2,
+    users: 0,
+    products: 0,
+    skus: 0,
+  });
+  const orders = await (
+    await request.get(`${baseUrl}${API_PREFIX}/commerce/order/`)
+  ).json();
+  expect(orders.count).toBe(2);
+
+  const shell = await (await request.get(`${baseUrl}/order/list/`)).text();
+  expect(shell).toContain(`${API_PREFIX}/commerce/order/?page=1&size=10`);
+
+  // 다음 실행을 위해 원래 데이터로 되돌림
+  await request.post(`${baseUrl}/__stand-in/seed`, { data: { fixtures } });
+});
+
+test("STANDIN-ADMIN-04: 엑셀 export는 스키마 / 엑셀↔API 대조를 통과하고 화면 shell 버튼이 그 경로를 가리킨다", async ({
+  request,
+}) => {
+  const download = async (endpoint: string, fileName: string) => {
+    const response = await request.get(`${baseUrl}${API_PREFIX}${endpoint}`);
+    expect(response.status()).toBe(200);
+    expect(response.headers()["content-disposition"]).toContain(
+      `filename*=UTF-8''${encodeURIComponent(fileName)}`,
+    );
+    const filePath = test.info().outputPath(fileName);
+    fs.writeFileSync(filePath, await response.body());
+    return parseExcelOrZip(filePath);
+  };
+  const lookupOrder = async (orderNo: string) => {
+    const response = await request.get(
+      `${baseUrl}${API_PREFIX}/commerce/order/`,
+      { params: { user_order_number: orderNo } },
+    );
+    return {
+      status: response.status(),
+      rows: extractRows(await response.json()).rows,
+    };
+  };
+
+  // 주문 엑셀: 주문 헤더 행 + SKU 연속 행(빈 칸 / 송장번호)
+  const orders = await download(
+    "/commerce/order/excel/?version=v2",
+    "주문목록_v2.xlsx",
+  );
+  const orderSheet = orders.files[0].sheets[0];
+  const orderSchema = validateExcelSheet(orderSheet, ORDER_EXPORT_SCHEMA);
+  expect(orderSchema.ok, formatViolations(orderSchema)).toBe(true);
+  expect(orderSchema.continuationRows).toBe(
+    orderSheet.rowCount - fixtures.orders.length,
+  );
+  expect(orderSchema.continuationRows).toBeGreaterThan(0);
+  const orderReport = await reconcileExcelWithApi(orderSheet, ORDER_RECONCILE, {
+    lookup: lookupOrder,
+  });
+  expect(orderReport.ok, formatReconcileReport(orderReport)).toBe(true);
+  expect(orderReport.excelKeys).toBe(fixtures.orders.length);
+
+  // 주문-SKU ZIP: 내부 xlsx 1개, SKU마다 한 행
+  const skuZip = await download("/commerce/order/excel_sku/", "주문-SKU.zip");
+  expect(skuZip.isZip).toBe(true);
+  expect(skuZip.files.map((file) => file.fileName)).toEqual(["주문-SKU.xlsx"]);
+  const skuSchema = validateExcelSheet(
+    skuZip.files[0].sheets[0],
+    ORDER_SKU_EXPORT_SCHEMA,
+  );
+  expect(skuSchema.ok, formatViolations(skuSchema)).toBe(true);
+  expect(skuSchema.rowCount).toBe(orderSheet.rowCount);
+
+  // 대분류 엑셀 ↔ 목록 API (API → 엑셀)
+  const categories = await download(
+    "/commerce/product/excel/",
+    "대분류목록.xlsx",
+  );
+  const categoryReport = await reconcileExcelWithApi(
+    categories.files[0].sheets[0],
+    CATEGORY_RECONCILE,
+    {
+      list: async () => {
+        const response = await request.get(
+          `${baseUrl}${API_PREFIX}/commerce/product/`,
+        );
+        return {
+          status: response.status(),
+          rows: extractRows(await response.json()).rows,
+        };
+      },
+    },
+  );
+  expect(categoryReport.ok, formatReconcileReport(categoryReport)).toBe(true);
+  expect(categoryReport.matched).toBe(fixtures.products.length);
+
+  // admin_excel_verify_pom.spec.ts가 찾는 버튼 문구와 export 경로
+  const shell = await (await request.get(`${baseUrl}/order/list`)).text();
+  for (const label of [
+    "주문 엑셀 다운로드 V2",
+    "주문 엑셀 다운로드",
+    "엑셀다운받기",
+    "주문-SKU 엑셀 다운로드",
+  ]) {
+    expect(shell).toContain(`>${label}</button>`);
+  }
+  expect(shell).toContain(`${API_PREFIX}/commerce/order/excel_sku/`);
+});
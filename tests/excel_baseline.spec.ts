@@ -0,0 +1,202 @@
+/**
+ * 엑셀 export baseline / 직전 실행 diff 회귀 (브라우저 / STG 불필요)
+ *
+ * 같은 export의 두 실행 결과를 buildExcelBaseline으로 요약해 diffExcelBaseline이
+ * 컬럼 삭제 / 이름 변경 / 헤더 순서 / row 수 급변을 보고하는지,
+ * recordExcelBaseline이 EXCEL_BASELINE 설정에 따라 저장 / 비교하는지 확인한다.
+ *
+ * 실행: npm run test:excel
+ */
+
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as path from "path";
+import type { ParsedResult, ParsedSheet } from "./helpers/excel-parser";
+import {
+  buildExcelBaseline,
+  diffExcelBaseline,
+  formatBaselineDiff,
+  readExcelBaseline,
+  recordExcelBaseline,
+} from "./helpers/excel-baseline";
+
+function parsedOf(headers: string[], rows: string[][]): ParsedResult {
+  const sheet: ParsedSheet = {
+    sheetName: "Sheet1",
+    headers,
+    rowCount: rows.length,
+    rows: rows.map((row) =>
+      Object.fromEntries(headers.map((header, i) => [header, row[i] ?? ""])),
+    ),
+  };
+  return {
+    isZip: false,
+    files: [
+      {
+        fileName: "export.xlsx",
+        filePath: "export.xlsx",
+        format: "xlsx",
+        sheets: [sheet],
+      },
+    ],
+  };
+}
+
+function orderRows(count: number, start: number = 1): string[][] {
+  return Array.from({ length: count }, (_, i) => [
+    `M-${String(start + i).padStart(6, "0")}`,
+    "결제완료",
+    `${(start + i) * 1000}`,
+    "2026-01-15",
+  ]);
+}
+
+const ORDER_HEADERS = ["주문번호", "주문상태", "결제금액", "주문일시"];
+
+test.describe("diffExcelBaseline", () => {
+  test("EXCEL-BASE-01: 같은 구조 / 비슷한 row 수는 변화 없음", () => {
+    const previous = buildExcelBaseline(
+      "ORD",
+      parsedOf(ORDER_HEADERS, orderRows(40)),
+      "주문번호",
+    );
+    const current = buildExcelBaseline(
+      "ORD",
+      parsedOf(ORDER_HEADERS, orderRows(44, 5)),
+      "주문번호",
+    );
+
+    const diff = diffExcelBaseline(previous, current);
+
+    expect(diff.findings, formatBaselineDiff(diff)).toEqual([]);
+    expect(current.keys).toMatchObject({ column: "주문번호", count: 44 });
+    expect(current.columns["결제금액"]).toMatchObject({
+      fillRatio: 1,
+      kind: "number",
+    });
+    expect(JSON.stringify(current)).not.toContain("M-000005");
+  });
+
+  test("EXCEL-BASE-02: 컬럼 삭제 / 이름 변경은 error, 순서 / row 수 급변은 warn", () => {
+    const previous = buildExcelBaseline(
+      "ORD",
+      parsedOf(ORDER_HEADERS, orderRows(40)),
+      "주문번호",
+    );
+    const current = buildExcelBaseline(
+      "ORD",
+      parsedOf(
+        ["주문번호", "결제 금액", "주문일시"],
+        orderRows(10).map(([no, , price, date]) => [no, price, date]),
+      ),
+      "주문번호",
+    );
+
+    const diff = diffExcelBaseline(previous, current);
+
+    expect(
+      diff.findings.map(({ severity, kind }) => `${severity}:${kind}`),
+    ).toEqual([
+      "error:column_removed",
+      "error:column_renamed",
+      "warn:row_count_swing",
+    ]);
+    expect(diff.errors.map((finding) => finding.message)).toEqual([
+      '컬럼 삭제: "주문상태"',
+      '컬럼 이름 변경 추정: "결제금액" → "결제 금액"',
+    ]);
+
+    const reordered = buildExcelBaseline(
+      "ORD",
+      parsedOf(
+        ["주문상태", "주문번호", "결제금액", "주문일시"],
+        orderRows(40).map(([no, status, ...rest]) => [status, no, ...rest]),
+      ),
+      "주문번호",
+    );
+    expect(
+      diffExcelBaseline(previous, reordered).findings.map((f) => f.kind),
+    ).toEqual(["header_order"]);
+  });
+
+  test("EXCEL-BASE-03: 키가 모두 바뀌거나 채워지던 컬럼이 비면 warn", () => {
+    const previous = buildExcelBaseline(
+      "ORD",
+      parsedOf(ORDER_HEADERS, orderRows(30)),
+      "주문번호",
+    );
+    const current = buildExcelBaseline(
+      "ORD",
+      parsedOf(
+        ORDER_HEADERS,
+        orderRows(30, 1000).map(([no, status, price]) => [
+          no,
+          status,
+          price,
+          "",
+        ]),
+      ),
+      "주문번호",
+    );
+
+    const diff = diffExcelBaseline(previous, current);
+
+    expect(diff.errors).toEqual([]);
+    expect(diff.findings.map((finding) => finding.kind)).toEqual([
+      "key_overlap",
+      "column_emptied",
+    ]);
+  });
+});
+
+test.describe("recordExcelBaseline", () => {
+  const envKeys = ["EXCEL_BASELINE", "EXCEL_BASELINE_DIR"] as const;
+  const saved: Record<string, string | undefined> = {};
+
+  test.beforeEach(() => {
+    for (const key of envKeys) saved[key] = process.env[key];
+  });
+
+  test.afterEach(() => {
+    for (const key of envKeys) {
+      if (saved[key] === undefined) delete process.env[key];
+      else process.env[key] = saved[key];
+    }
+  });
+
+  test("EXCEL-BASE-04: 비활성이면 no-op, 활성이면 첫 실행 저장 후 다음 실행에서 비교하고 error면 저장하지 않는다", () => {
+    const dir = test.info().outputPath("excel-baselines");
+    process.env.EXCEL_BASELINE_DIR = dir;
+
+    delete process.env.EXCEL_BASELINE;
+    expect(
+      recordExcelBaseline("ORD-V2-01", parsedOf(ORDER_HEADERS, orderRows(5))),
+    ).toBeNull();
+    expect(fs.existsSync(dir)).toBe(false);
+
+    process.env.EXCEL_BASELINE = "true";
+    expect(
+      recordExcelBaseline("ORD-V2-01", parsedOf(ORDER_HEADERS, orderRows(5))),
+    ).toBeNull();
+    expect(fs.existsSync(path.join(dir, "ORD-V2-01.json"))).toBe(true);
+
+    const diff = recordExcelBaseline(
+      "ORD-V2-01",
+      parsedOf(ORDER_HEADERS.slice(0, 3), orderRows(5)),
+    );
+    expect(diff?.errors.map((finding) => finding.kind)).toEqual([
+      "column_removed",
+    ]);
+    // error가 난 결과는 저장하지 않는다 — retry도 직전 정상 baseline과 비교해 다시 실패
+    expect(readExcelBaseline("ORD-V2-01", dir)?.headers).toEqual(ORDER_HEADERS);
+    expect(
+      recordExcelBaseline(
+        "ORD-V2-01",
+        parsedOf(ORDER_HEADERS.slice(0, 3), orderRows(5)),
+      )?.errors,
+    ).toHaveLength(1);
+    expect(() =>
+      recordExcelBaseline("../escape", parsedOf(ORDER_HEADERS, [])),
+    ).toThrow("잘못된 baseline id");
+  });
+});
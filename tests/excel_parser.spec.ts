@@ -0,0 +1,183 @@
+/**
+ * excel-parser 회귀 (브라우저 / STG 불필요)
+ *
+ * Admin ZIP/CSV export에서 문제가 됐던 입력을 로컬에서 만들어 parseExcelOrZip을 검증한다.
+ *  - ZIP entry 한글 파일명: UTF-8 플래그 유무 / CP949
+ *  - .xls, .csv(UTF-8 BOM / EUC-KR), 중첩 ZIP
+ *  - 디스크에 __extracted_* 디렉터리를 남기지 않음
+ *
+ * 실행: npm run test:excel
+ */
+
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as XLSX from "xlsx";
+import AdmZip from "adm-zip";
+import { parseExcelOrZip } from "./helpers/excel-parser";
+
+// EUC-KR(CP949) 바이트: Node TextEncoder는 UTF-8만 지원해 직접 적는다
+const CP949 = {
+  주문번호: Buffer.from("c1d6b9aeb9f8c8a3", "hex"),
+  주문상태: Buffer.from("c1d6b9aebbf3c5c2", "hex"),
+  결제완료: Buffer.from("b0e1c1a6bfcfb7e1", "hex"),
+  한글: Buffer.from("c7d1b1db", "hex"),
+};
+
+let tmpDir: string;
+
+test.beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "excel-parser-spec-"));
+});
+
+test.afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function workbookBuffer(
+  rows: unknown[][],
+  bookType: XLSX.BookType = "xlsx",
+): Buffer {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(rows), "Sheet1");
+  return XLSX.write(wb, { type: "buffer", bookType });
+}
+
+/**
+ * UTF-8 플래그 없이 entry 이름 바이트를 그대로 기록하는 ZIP
+ * (Windows 압축 도구가 CP949 파일명을 쓰는 방식)
+ */
+function zipWithRawNames(entries: Array<{ name: Buffer; data: Buffer }>) {
+  const names = new Map(
+    entries.map((e) => [e.name.toString("latin1"), e.name]),
+  );
+  // adm-zip 0.5의 decoder 옵션은 @types/adm-zip에 아직 없다
+  const options: Partial<AdmZip.InitOptions> & {
+    decoder: {
+      efs: boolean;
+      encode: (value: string) => Buffer;
+      decode: (bytes: Buffer) => string;
+    };
+  } = {
+    decoder: {
+      efs: false,
+      encode: (value) => names.get(value) ?? Buffer.from(value),
+      decode: (bytes) => bytes.toString("latin1"),
+    },
+  };
+  const zip = new AdmZip(undefined, options);
+  for (const entry of entries) {
+    zip.addFile(entry.name.toString("latin1"), entry.data);
+  }
+  return zip.toBuffer();
+}
+
+const ORDER_ROWS = [
+  ["주문번호", "주문상태"],
+  ["A-1001", "결제완료"],
+];
+
+test.describe("ZIP entry 파일명", () => {
+  test("EXCEL-PARSE-01: CP949 / UTF-8 한글 파일명을 원래 이름으로 복원", () => {
+    const zipPath = path.join(tmpDir, "orders.zip");
+    const cp949Zip = zipWithRawNames([
+      {
+        name: Buffer.concat([CP949.한글, Buffer.from("_a.xlsx")]),
+        data: workbookBuffer(ORDER_ROWS),
+      },
+      // 플래그 없이 UTF-8로 쓴 이름 (macOS 기본 압축)
+      {
+        name: Buffer.from("주문_b.xlsx", "utf8"),
+        data: workbookBuffer(ORDER_ROWS),
+      },
+    ]);
+    fs.writeFileSync(zipPath, cp949Zip);
+    // 예전 버전이 남긴 추출 디렉터리
+    const legacyDir = path.join(tmpDir, "__extracted_orders");
+    fs.mkdirSync(legacyDir);
+
+    const parsed = parseExcelOrZip(zipPath);
+
+    expect(parsed.isZip).toBe(true);
+    expect(parsed.files.map((f) => f.fileName)).toEqual([
+      "한글_a.xlsx",
+      "주문_b.xlsx",
+    ]);
+    expect(parsed.files[0].filePath).toBe(`${zipPath}/한글_a.xlsx`);
+    expect(parsed.files[0].sheets[0].rows).toEqual([
+      { 주문번호: "A-1001", 주문상태: "결제완료" },
+    ]);
+    expect(
+      fs.readdirSync(tmpDir),
+      "ZIP 파싱 후 __extracted_* 디렉터리가 남으면 안 됩니다",
+    ).toEqual(["orders.zip"]);
+  });
+
+  test("EXCEL-PARSE-02: 중첩 ZIP은 경로를 이어 붙이고 macOS 메타데이터는 무시", () => {
+    const inner = new AdmZip();
+    inner.addFile("주문-SKU_1.xlsx", workbookBuffer(ORDER_ROWS));
+    inner.addFile("readme.txt", Buffer.from("not excel"));
+    const outer = new AdmZip();
+    outer.addFile("주문-SKU.zip", inner.toBuffer());
+    outer.addFile("주문.csv", Buffer.from("주문번호\nB-2002\n"));
+    outer.addFile("__MACOSX/._주문.csv", Buffer.from([0, 5, 22, 7]));
+    const zipPath = path.join(tmpDir, "nested.zip");
+    fs.writeFileSync(zipPath, outer.toBuffer());
+
+    const parsed = parseExcelOrZip(zipPath);
+
+    expect(
+      parsed.files.map((f) => ({ fileName: f.fileName, format: f.format })),
+    ).toEqual([
+      { fileName: "주문-SKU.zip/주문-SKU_1.xlsx", format: "xlsx" },
+      { fileName: "주문.csv", format: "csv" },
+    ]);
+    expect(parsed.files[1].sheets[0].rows).toEqual([{ 주문번호: "B-2002" }]);
+  });
+});
+
+test.describe("파일 형식", () => {
+  test("EXCEL-PARSE-03: .xls(BIFF8)", () => {
+    const filePath = path.join(tmpDir, "주문.xls");
+    fs.writeFileSync(filePath, workbookBuffer(ORDER_ROWS, "biff8"));
+
+    const parsed = parseExcelOrZip(filePath);
+
+    expect(parsed.isZip).toBe(false);
+    expect(parsed.files[0].format).toBe("xls");
+    expect(parsed.files[0].sheets[0].headers).toEqual(["주문번호", "주문상태"]);
+    expect(parsed.files[0].sheets[0].rowCount).toBe(1);
+  });
+
+  test("EXCEL-PARSE-04: .csv — UTF-8 BOM / EUC-KR 모두 한글 헤더, 값은 원문 유지", () => {
+    const bomPath = path.join(tmpDir, "bom.csv");
+    fs.writeFileSync(
+      bomPath,
+      Buffer.concat([
+        Buffer.from([0xef, 0xbb, 0xbf]),
+        Buffer.from("주문번호,회원ID,주문일\nA-1001,00123,2026-01-15\n"),
+      ]),
+    );
+    const eucKrPath = path.join(tmpDir, "euc-kr.csv");
+    fs.writeFileSync(
+      eucKrPath,
+      Buffer.concat([
+        CP949.주문번호,
+        Buffer.from(","),
+        CP949.주문상태,
+        Buffer.from("\r\nA-1001,"),
+        CP949.결제완료,
+        Buffer.from("\r\n"),
+      ]),
+    );
+
+    const bom = parseExcelOrZip(bomPath).files[0].sheets[0];
+    const eucKr = parseExcelOrZip(eucKrPath).files[0].sheets[0];
+
+    expect(bom.rows).toEqual([
+      { 주문번호: "A-1001", 회원ID: "00123", 주문일: "2026-01-15" },
+    ]);
+    expect(eucKr.rows).toEqual([{ 주문번호: "A-1001", 주문상태: "결제완료" }]);
+  });
+});
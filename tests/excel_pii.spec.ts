@@ -0,0 +1,124 @@
+/**
+ * 엑셀 개인정보 마스킹 검증 회귀 (브라우저 / STG 불필요)
+ *
+ * 마스킹된 / 원문 셀이 섞인 시트로 scanPii가 위반 셀 좌표를 찾고,
+ * 보고(violations / formatPiiReport)에 원문 값이 남지 않는지 확인한다.
+ *
+ * 실행: npm run test:excel
+ */
+
+import { test, expect } from "@playwright/test";
+import type { ParsedSheet } from "./helpers/excel-parser";
+import {
+  ORDER_PII_POLICY,
+  USER_PII_POLICY,
+  formatPiiReport,
+  scanPii,
+} from "./helpers/excel-pii";
+
+function sheetOf(headers: string[], rows: string[][]): ParsedSheet {
+  return {
+    sheetName: "주문",
+    headers,
+    rowCount: rows.length,
+    rows: rows.map((row) =>
+      Object.fromEntries(headers.map((header, i) => [header, row[i] ?? ""])),
+    ),
+  };
+}
+
+const RAW = {
+  name: "홍길동",
+  phone: "010-1234-5678",
+  email: "gildong.hong@example.com",
+  address: "서울특별시 강남구 테헤란로 123, 101동 1001호",
+  memo: "부재 시 010-9876-5432로 연락",
+};
+
+const ORDER_HEADERS = [
+  "주문번호",
+  "주문자명",
+  "주문자 연락처",
+  "주문자 이메일",
+  "배송지 주소",
+  "배송요청사항",
+];
+
+test.describe("scanPii", () => {
+  test("EXCEL-PII-01: 마스킹된 주문 엑셀은 위반 없음", () => {
+    const sheet = sheetOf(ORDER_HEADERS, [
+      [
+        "A-1001",
+        "홍*동",
+        "010-****-5678",
+        "gi***@example.com",
+        "서울특별시 강남구 ***",
+        "문 앞에 놓아주세요",
+      ],
+      ["", "", "", "", "", ""],
+    ]);
+
+    const report = scanPii(sheet, ORDER_PII_POLICY);
+
+    expect(report.violations, formatPiiReport(report)).toEqual([]);
+    expect(report.columns).toEqual({
+      phone: ["주문자 연락처"],
+      email: ["주문자 이메일"],
+      address: ["배송지 주소"],
+      name: ["주문자명"],
+    });
+  });
+
+  test("EXCEL-PII-02: 원문 셀을 종류 / 좌표별로 보고하고 원문은 남기지 않는다", () => {
+    const sheet = sheetOf(ORDER_HEADERS, [
+      ["A-1001", "홍*동", "010-****-5678", "gi***@example.com", "서울 ***", ""],
+      ["A-1002", RAW.name, RAW.phone, RAW.email, RAW.address, RAW.memo],
+    ]);
+
+    const report = scanPii(sheet, ORDER_PII_POLICY);
+
+    expect(
+      report.violations.map(({ kind, cell, row, header }) => ({
+        kind,
+        cell,
+        row,
+        header,
+      })),
+    ).toEqual([
+      { kind: "name", cell: "B3", row: 3, header: "주문자명" },
+      { kind: "phone", cell: "C3", row: 3, header: "주문자 연락처" },
+      { kind: "email", cell: "D3", row: 3, header: "주문자 이메일" },
+      { kind: "address", cell: "E3", row: 3, header: "배송지 주소" },
+      { kind: "phone", cell: "F3", row: 3, header: "배송요청사항" },
+    ]);
+    expect(report.violations[1].shape).toBe("###-####-####");
+
+    const printed = JSON.stringify(report) + formatPiiReport(report);
+    for (const value of [RAW.name, RAW.phone, RAW.email, "테헤란로", "9876"]) {
+      expect(printed, `보고에 원문이 남음: ${value.length}자`).not.toContain(
+        value,
+      );
+    }
+  });
+
+  test("EXCEL-PII-03: 정책 밖 컬럼은 형식이 뚜렷한 휴대폰 / 이메일만 잡는다", () => {
+    const sheet = sheetOf(
+      ["ID", "닉네임", "송장번호", "가입경로"],
+      [
+        ["100001", "테스트회원", "010123456789", "qa0001@example.com"],
+        ["100002", "회원2", "6012345678901", "google"],
+      ],
+    );
+
+    const report = scanPii(sheet, USER_PII_POLICY);
+
+    expect(report.violations).toEqual([
+      expect.objectContaining({
+        kind: "email",
+        cell: "D2",
+        header: "가입경로",
+      }),
+    ]);
+    expect(formatPiiReport(report)).toContain("가입경로/email=1");
+  });
+});
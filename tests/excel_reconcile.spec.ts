@@ -0,0 +1,254 @@
+/**
+ * 엑셀 ↔ API 대조 엔진 회귀 (브라우저 / STG 불필요)
+ *
+ * scripts/stand-ins/admin-api-server.js의 목록 API와 그 데이터로 만든 시트를
+ * reconcileExcelWithApi로 대조해 누락 / 유령 / 필드 불일치 보고를 검증한다.
+ *
+ * 실행: npm run test:excel
+ */
+
+import { test, expect, type APIRequestContext } from "@playwright/test";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import type { ParsedSheet } from "./helpers/excel-parser";
+import { extractRows } from "./helpers/admin/api-capture";
+import {
+  EVENT_RECONCILE,
+  NORMALIZERS,
+  ORDER_RECONCILE,
+  SKU_RECONCILE,
+  USER_RECONCILE,
+  formatReconcileReport,
+  reconcileExcelWithApi,
+  type ApiRowsResult,
+} from "./helpers/admin/excel-reconcile";
+import {
+  API_PREFIX,
+  createAdminApiServer,
+  generateFixtures,
+} from "../scripts/stand-ins/admin-api-server";
+
+const fixtures = generateFixtures(20260101, {
+  orders: 20,
+  users: 15,
+  products: 5,
+  skus: 12,
+});
+
+let server: Server;
+let apiBase: string;
+
+test.beforeAll(async () => {
+  server = createAdminApiServer({ fixtures });
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve()),
+  );
+  apiBase = `http://127.0.0.1:${(server.address() as AddressInfo).port}${API_PREFIX}`;
+});
+
+test.afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+/** createApiList / createApiLookup과 같은 모양을 APIRequestContext로 만든다 */
+async function getRows(
+  request: APIRequestContext,
+  url: string,
+): Promise<ApiRowsResult> {
+  const response = await request.get(url);
+  return {
+    status: response.status(),
+    rows: response.ok() ? extractRows(await response.json()).rows : [],
+  };
+}
+
+function sheetOf(headers: string[], rows: string[][]): ParsedSheet {
+  return {
+    sheetName: "Sheet1",
+    headers,
+    rowCount: rows.length,
+    rows: rows.map((row) =>
+      Object.fromEntries(headers.map((header, i) => [header, row[i] ?? ""])),
+    ),
+  };
+}
+
+/** stand-in 목록과 같은 최신순 */
+const latestUsers = [...fixtures.users].sort((a, b) => b.id - a.id);
+
+test.describe("reconcileExcelWithApi", () => {
+  test("EXCEL-RECON-01: list(API → 엑셀) — 엑셀 누락 키와 필드 불일치를 보고", async ({
+    request,
+  }) => {
+    const [dropped, changed, ...rest] = latestUsers;
+    const sheet = sheetOf(
+      ["ID", "이메일", "가입일"],
+      [changed, ...rest].map((user) => [
+        String(user.id),
+        user === changed ? "other@example.com" : user.email.toUpperCase(),
+        user.date_joined.slice(0, 10).replace(/-/g, "."),
+      ]),
+    );
+
+    const report = await reconcileExcelWithApi(
+      sheet,
+      {
+        ...USER_RECONCILE,
+        sampleSize: 10,
+        fields: [
+          { excel: "이메일", api: "email", normalize: NORMALIZERS.loose },
+          { excel: "가입일", api: "date_joined", normalize: NORMALIZERS.date },
+        ],
+      },
+      {
+        list: () => getRows(request, `${apiBase}/user/list_new_commerce_user/`),
+      },
+    );
+
+    expect(report.direction).toBe("api-to-excel");
+    expect(report.apiKeys).toBe(10);
+    expect(report.missingInExcel).toEqual([String(dropped.id)]);
+    expect(report.missingInApi).toEqual([]);
+    expect(report.mismatches).toEqual([
+      {
+        key: String(changed.id),
+        field: "이메일",
+        excel: "other@example.com",
+        api: changed.email,
+      },
+    ]);
+    expect(report.ok).toBe(false);
+    expect(formatReconcileReport(report)).toContain(
+      `엑셀에 없음: ${dropped.id}`,
+    );
+  });
+
+  test("EXCEL-RECON-02: lookup(엑셀 → API) — 유령 주문번호만 보고하고 연속 행 / 송장번호는 제외", async ({
+    request,
+  }) => {
+    const [first, second] = [...fixtures.orders].sort((a, b) => b.id - a.id);
+    const sheet = sheetOf(
+      ["주문번호", "결제금액", "주문일시"],
+      [
+        [
+          first.user_order_number,
+          first.total_price.toLocaleString("en-US"),
+          first.created_at.slice(0, 10),
+        ],
+        ["", "", ""],
+        ["20260115", "", ""],
+        [second.user_order_number, `₩${second.total_price}`, ""],
+        ["Z-GHOST1", "1,000", "2026-01-01"],
+      ],
+    );
+    const lookedUp: string[] = [];
+
+    const report = await reconcileExcelWithApi(
+      sheet,
+      {
+        ...ORDER_RECONCILE,
+        fields: [
+          { excel: "결제금액", api: "total_price", normalize: NORMALIZERS.krw },
+        ],
+      },
+      {
+        lookup: (orderNo) => {
+          lookedUp.push(orderNo);
+          return getRows(
+            request,
+            `${apiBase}/commerce/order/?user_order_number=${encodeURIComponent(orderNo)}`,
+          );
+        },
+      },
+    );
+
+    expect(lookedUp).toEqual([
+      first.user_order_number,
+      second.user_order_number,
+      "Z-GHOST1",
+    ]);
+    expect(report.missingInApi).toEqual(["Z-GHOST1"]);
+    expect(report.matched).toBe(2);
+    expect(report.mismatches, formatReconcileReport(report)).toEqual([]);
+  });
+
+  test("EXCEL-RECON-03: 컬럼 누락 / API 오류는 예외 대신 report에 담긴다", async ({
+    request,
+  }) => {
+    const sheet = sheetOf(["상품명"], [["샘플"]]);
+
+    const report = await reconcileExcelWithApi(sheet, SKU_RECONCILE, {
+      list: () => getRows(request, `${apiBase}/commerce/unknown/`),
+    });
+
+    expect(report.ok).toBe(false);
+    expect(report.missingColumns).toEqual(["SKU코드", "SKU명", "재고"]);
+    expect(report.apiErrors).toEqual([{ key: null, status: 404 }]);
+    await expect(
+      reconcileExcelWithApi(sheet, SKU_RECONCILE, {}),
+    ).rejects.toThrow("lookup / list 중 하나만");
+  });
+
+  test("EXCEL-RECON-04: SKU / 이벤트 설정의 필드 normalizer — 표기 차이는 통과, 값 차이만 불일치", async ({
+    request,
+  }) => {
+    const [changedSku, ...restSkus] = [...fixtures.skus]
+      .sort((a, b) => b.id - a.id)
+      .slice(0, 10);
+    const skuSheet = sheetOf(
+      ["SKU코드", "SKU명", "재고"],
+      [changedSku, ...restSkus].map((sku) => [
+        // 코드 대소문자 / 재고 천 단위 구분은 normalizer로 흡수
+        sku.sku_code.toLowerCase(),
+        sku.name,
+        sku === changedSku
+          ? String(sku.stock + 1)
+          : sku.stock.toLocaleString("en-US"),
+      ]),
+    );
+
+    const skuReport = await reconcileExcelWithApi(skuSheet, SKU_RECONCILE, {
+      list: () => getRows(request, `${apiBase}/commerce/sku/`),
+    });
+
+    expect(skuReport.matched).toBe(10);
+    expect(skuReport.mismatches).toEqual([
+      {
+        key: changedSku.sku_code.toLowerCase(),
+        field: "재고",
+        excel: String(changedSku.stock + 1),
+        api: String(changedSku.stock),
+      },
+    ]);
+
+    const products = [...fixtures.products].sort((a, b) => b.id - a.id);
+    const [flipped] = products;
+    const eventSheet = sheetOf(
+      ["ID", "노출여부", "등록일"],
+      products.map((product) => [
+        String(product.id),
+        (product === flipped ? !product.is_display : product.is_display)
+          ? "Y"
+          : "N",
+        product.created_at.slice(0, 10),
+      ]),
+    );
+
+    const eventReport = await reconcileExcelWithApi(
+      eventSheet,
+      EVENT_RECONCILE,
+      { list: () => getRows(request, `${apiBase}/commerce/product/`) },
+    );
+
+    expect(eventReport.matched).toBe(products.length);
+    expect(eventReport.mismatches, formatReconcileReport(eventReport)).toEqual([
+      {
+        key: String(flipped.id),
+        field: "노출여부",
+        excel: String(!flipped.is_display),
+        api: String(flipped.is_display),
+      },
+    ]);
+    expect(eventReport.ok).toBe(false);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Admin 엑셀 스키마 검증 회귀 (브라우저 / STG 불필요)
+ *
+ * SheetJS로 만든 xlsx를 parseExcelOrZip → validateExcelSheet로 돌려
+ * 필수 헤더 / 타입 / null / 유일성 위반이 행·컬럼 단위로 보고되는지 확인한다.
+ *
+ * 실행: npm run test:excel (globalSetup 없는 CI 설정의 excel-offline project)
+ */
+
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as XLSX from "xlsx";
+import { parseExcelOrZip, type ParsedSheet } from "./helpers/excel-parser";
+import {
+  ORDER_EXPORT_SCHEMA,
+  USER_EXPORT_SCHEMA,
+  formatViolations,
+  parseExcelDate,
+  parseKrw,
+  validateExcelSheet,
+} from "./helpers/excel-schema";
+
+let tmpDir: string;
+
+test.beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "excel-schema-spec-"));
+});
+
+test.afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+/** 2차원 배열(첫 행 = 헤더)을 xlsx로 저장한 뒤 다시 파싱한 첫 시트 */
+function roundTrip(rows: unknown[][]): ParsedSheet {
+  const filePath = path.join(tmpDir, "export.xlsx");
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.aoa_to_sheet(rows, { cellDates: true }),
+    "Sheet1",
+  );
+  XLSX.writeFile(wb, filePath);
+  return parseExcelOrZip(filePath).files[0].sheets[0];
+}
+
+test.describe("validateExcelSheet", () => {
+  test("EXCEL-SCHEMA-01: 주문 엑셀 — SKU 연속 행(빈 주문번호 / 숫자 송장번호)과 공백 섞인 헤더를 허용", () => {
+    const sheet = roundTrip([
+      ["주문 번호", "주문상태", "주문일시", "결제금액", "SKU"],
+      ["A-1001", "결제완료", new Date(Date.UTC(2026, 0, 15)), "12,000", "S1"],
+      ["", "", "", "", "S2"],
+      ["B-1002", "배송 중", "2026-01-16 13:05", "₩8,500", "S3"],
+      // 실제 주문 엑셀은 연속 행의 주문번호 칸에 송장번호(텍스트 셀)를 넣는다 (중복돼도 위반 아님)
+      ["612345678901", "", "", "", "S4"],
+      ["612345678901", "", "", "", "S5"],
+    ]);
+
+    const result = validateExcelSheet(sheet, ORDER_EXPORT_SCHEMA);
+
+    expect(result.violations, formatViolations(result)).toEqual([]);
+    expect(result.warnings).toEqual([]);
+    expect(result.ok).toBe(true);
+    expect(result.continuationRows).toBe(3);
+    expect(result.columns).toMatchObject({
+      주문번호: "주문 번호",
+      주문상태: "주문상태",
+    });
+  });
+
+  test("EXCEL-SCHEMA-02: 형식 / 빈 값 / 중복 위반을 행 번호와 함께 보고하고 미확인 허용 값은 경고로만 남긴다", () => {
+    const sheet = roundTrip([
+      ["주문번호", "주문상태", "결제금액"],
+      ["A-1001", "결제완료", "12,000"],
+      ["20260115", "결제완료", "12,000"],
+      ["A-1002", "알수없음", "12.5"],
+      ["A-1003", "", "1000"],
+      ["A-1001", "결제취소", "1000"],
+      ["X_12", "", ""],
+      ["", "결제완료", "1000"],
+    ]);
+
+    const result = validateExcelSheet(sheet, ORDER_EXPORT_SCHEMA);
+    const brief = ({ rule, column, row, value }) => ({
+      rule,
+      column,
+      row,
+      value,
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.violations.map(brief)).toEqual([
+      // 주문 컬럼이 채워진 행의 숫자 값은 송장번호 연속 행이 아니라 잘못된 주문번호
+      { rule: "type", column: "주문번호", row: 3, value: "20260115" },
+      { rule: "type", column: "결제금액", row: 4, value: "12.5" },
+      { rule: "nullable", column: "주문상태", row: 5, value: "" },
+      { rule: "unique", column: "주문번호", row: 6, value: "A-1001" },
+      // 송장번호 형식이 아닌 값은 SKU 연속 행 모양이어도 연속 행이 아니다
+      { rule: "type", column: "주문번호", row: 7, value: "X_12" },
+      { rule: "nullable", column: "주문상태", row: 7, value: "" },
+      { rule: "nullable", column: "결제금액", row: 7, value: "" },
+      // 주문번호만 빈 주문 행
+      { rule: "nullable", column: "주문번호", row: 8, value: "" },
+    ]);
+    expect(result.violations[3].message).toContain("최초 2행");
+    // 주문상태 허용 값은 실제 export로 확인한 목록이 아니므로 경고
+    expect(result.warnings.map(brief)).toEqual([
+      { rule: "type", column: "주문상태", row: 4, value: "알수없음" },
+    ]);
+    expect(formatViolations(result)).toContain(
+      '[order] "Sheet1" 경고 1건 (주문상태/type=1)',
+    );
+    expect(result.continuationRows).toBe(0);
+    // 선택 컬럼(주문일시)은 헤더가 없어도 위반이 아니다
+    expect(result.columns["주문일시"]).toBeNull();
+  });
+
+  test("EXCEL-SCHEMA-03: 필수 헤더 누락은 header 위반, 요약에 건수 포함", () => {
+    const sheet = roundTrip([
+      ["회원번호", "이메일"],
+      ["1", "a@example.com"],
+    ]);
+
+    const result = validateExcelSheet(sheet, USER_EXPORT_SCHEMA);
+
+    expect(result.violations).toEqual([
+      expect.objectContaining({ rule: "header", column: "ID", row: null }),
+    ]);
+    const summary = formatViolations(result);
+    expect(summary).toContain("[user]");
+    expect(summary).toContain("ID/header=1");
+  });
+});
+
+test.describe("값 파서", () => {
+  test("EXCEL-SCHEMA-04: parseKrw / parseExcelDate", () => {
+    expect(parseKrw("12,000")).toBe(12000);
+    expect(parseKrw("₩ 8,500")).toBe(8500);
+    expect(parseKrw("3000원")).toBe(3000);
+    expect(parseKrw("-1,000")).toBe(-1000);
+    expect(parseKrw("12000.00")).toBe(12000);
+    expect(parseKrw("12.5")).toBeNull();
+    expect(parseKrw("1,20,00")).toBeNull();
+
+    expect(parseExcelDate("2026-01-15")?.toISOString()).toBe(
+      "2026-01-15T00:00:00.000Z",
+    );
+    expect(parseExcelDate("2026.01.15 09:30")?.toISOString()).toBe(
+      "2026-01-15T09:30:00.000Z",
+    );
+    expect(parseExcelDate("1/15/26")?.toISOString()).toBe(
+      "2026-01-15T00:00:00.000Z",
+    );
+    expect(parseExcelDate("2026-02-30")).toBeNull();
+    expect(parseExcelDate("2026-01-15 25:00")).toBeNull();
+    expect(parseExcelDate("A-1001")).toBeNull();
+  });
+});
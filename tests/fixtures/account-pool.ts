@@ -0,0 +1,56 @@
+/**
+ * account-pool fixture — worker마다 테스트 계정 하나를 lease해 storageState로 쓴다.
+ *
+ * 같은 계정을 여러 worker가 공유하면 장바구니 / 배송지 / 통화가 race 나므로,
+ * worker는 실행 내내 계정 하나를 독점한다 (tests/helpers/account-pool.ts).
+ * 계정이 하나뿐이면 spec이 serial로 돌도록 `getAccountPoolSize()`로 분기한다.
+ *
+ * 사용:
+ * ```ts
+ * import { test } from "./fixtures/account-pool";
+ * test.describe.configure({ mode: getAccountPoolSize() > 1 ? "parallel" : "serial" });
+ * test("...", async ({ page, testAccount }) => {
+ *   console.log(testAccount.account.id);
+ * });
+ * ```
+ */
+
+import { test as base, expect } from "./assertion-audit";
+import { materializeStorageState } from "../../scripts/auth-crypto";
+import { leaseTestAccount, type AccountLease } from "../helpers/account-pool";
+
+type AccountPoolWorkerFixtures = {
+  testAccount: AccountLease;
+};
+
+export const test = base.extend<{}, AccountPoolWorkerFixtures>({
+  testAccount: [
+    async ({}, use, workerInfo) => {
+      const lease = await leaseTestAccount({
+        owner: `worker-${workerInfo.workerIndex}`,
+      });
+      console.log(
+        `🔑 worker ${workerInfo.workerIndex} → 테스트 계정 ${lease.account.id}`,
+      );
+      try {
+        await use(lease);
+      } finally {
+        lease.release();
+      }
+    },
+    // lease 대기(기본 5분)가 worker fixture 기본 timeout에 걸리지 않도록
+    { scope: "worker", timeout: 6 * 60 * 1000 },
+  ],
+
+  // storageState를 지정하지 않은 계정(기본 계정)은 config의 storageState를 그대로 쓴다.
+  // 계정 파일이 암호화돼 있으면 임시 평문 파일로 풀어 넘긴다 (scripts/auth-crypto.js)
+  storageState: async ({ testAccount, storageState }, use) => {
+    await use(
+      testAccount.account.storageState
+        ? materializeStorageState(testAccount.storageStatePath)
+        : storageState,
+    );
+  },
+});
+
+export { expect };
@@ -0,0 +1,83 @@
+/**
+ * assertion-audit fixture — 테스트마다 실행된 hard / soft expect 수를 soft 메타데이터로 센다.
+ *
+ * Reporter API의 TestStep에는 soft 여부가 없고 제목만 있어서, 메시지를 넘긴
+ * `expect.soft(x, "메시지")`는 제목으로 구분할 수 없다. 이 fixture는 worker에서 expect step이
+ * 만들어질 때 Playwright가 함께 넘기는 soft 플래그(`infectParentStepsWithError` — expect.soft일 때만
+ * true)로 분류하고, 테스트가 끝나면 `assertion-counts` annotation으로 남긴다.
+ * lib/assertion-audit-reporter.js는 이 annotation이 있으면 그 값을 쓴다.
+ *
+ *  - expect.poll은 1회로 센다 (poll 안에서 반복 생성되는 expect step 제외)
+ *  - 내부 API(testInfo._addStep)가 없으면 아무것도 기록하지 않는다 → reporter는 soft 미분류로 집계
+ *
+ * 공용 fixture(account-pool / cmr-har / dom-snapshot)가 이 test를 확장하므로 그 fixture를 쓰는
+ * spec은 자동 적용된다. `@playwright/test`를 직접 import하는 spec은 여기서 test를 가져오면 된다.
+ *
+ * 사용:
+ * ```ts
+ * import { test, expect } from "./fixtures/assertion-audit";
+ *
+ * test("...", async ({ assertionCounts }) => {
+ *   expect.soft(value, "메시지").toBe(1);
+ *   console.log(assertionCounts); // { hard: 0, soft: 1 }
+ * });
+ * ```
+ */
+
+import { test as base, expect } from "@playwright/test";
+
+export const ASSERTION_COUNTS_ANNOTATION = "assertion-counts";
+
+export type AssertionCounts = { hard: number; soft: number };
+
+type StepData = { category?: string; infectParentStepsWithError?: boolean };
+
+/** testInfo 내부 step API (Playwright 1.57 lib/worker/testInfo.js) */
+type StepRecorder = {
+  _addStep?: (data: StepData, parentStep?: object) => object;
+  _parentStep?: () => object | undefined;
+};
+
+type AssertionAuditFixtures = {
+  assertionCounts: AssertionCounts;
+};
+
+export const test = base.extend<AssertionAuditFixtures>({
+  assertionCounts: [
+    async ({}, use, testInfo) => {
+      const counts: AssertionCounts = { hard: 0, soft: 0 };
+      const recorder = testInfo as unknown as StepRecorder;
+      const addStep = recorder._addStep;
+      if (typeof addStep !== "function") {
+        await use(counts);
+        return;
+      }
+
+      const expectSteps = new WeakSet<object>();
+      recorder._addStep = function (data, parentStep) {
+        const step = addStep.call(this, data, parentStep);
+        if (data.category === "expect") {
+          expectSteps.add(step);
+          const parent = parentStep ?? recorder._parentStep?.call(this);
+          if (!parent || !expectSteps.has(parent)) {
+            if (data.infectParentStepsWithError) counts.soft++;
+            else counts.hard++;
+          }
+        }
+        return step;
+      };
+      try {
+        await use(counts);
+      } finally {
+        recorder._addStep = addStep;
+        testInfo.annotations.push({
+          type: ASSERTION_COUNTS_ANNOTATION,
+          description: JSON.stringify(counts),
+        });
+      }
+    },
+    { auto: true },
+  ],
+});
+
+export { expect };
@@ -0,0 +1,103 @@
+/**
+ * cmr-har fixture — CMR 모니터링 spec을 HAR 녹화본으로 record/replay.
+ *
+ * `harMode` 옵션(기본: CMR_HAR_MODE 환경변수)에 따라 기본 `context`에 HAR 라우팅을
+ * 연결한다. off면 기존과 동일하게 live 사이트로 실행된다.
+ *
+ * 사용:
+ * ```ts
+ * import { test, expect } from "./fixtures/cmr-har";
+ *
+ * // 테스트 안에서 별도 context가 필요하면 newGuestContext로 만들어야 HAR이 적용된다.
+ * test("...", async ({ newGuestContext }) => {
+ *   const guest = await newGuestContext();
+ * });
+ * ```
+ *
+ * 실행:
+ *   npm run test:cmr:har:record   # live 트래픽 녹화
+ *   npm run test:cmr:har:replay   # 녹화본으로만 실행 (네트워크 불필요)
+ *
+ * @see tests/helpers/cmr-har.ts
+ */
+
+import { test as base, expect } from "./assertion-audit";
+import type { BrowserContext } from "@playwright/test";
+import { BASE_URL } from "../helpers/cmr-monitoring-config";
+import {
+  attachHar,
+  resolveHarMode,
+  type HarMode,
+  type HarSession,
+} from "../helpers/cmr-har";
+
+export type CmrHarOptions = {
+  harMode: HarMode;
+};
+
+type CmrHarFixtures = {
+  newGuestContext: () => Promise<BrowserContext>;
+};
+
+const isStrict = () => process.env.CMR_HAR_STRICT === "true";
+
+async function finalizeSessions(sessions: HarSession[]): Promise<number> {
+  let unmatchedCount = 0;
+  for (const session of sessions) {
+    unmatchedCount += (await session.finalize()).length;
+  }
+  return unmatchedCount;
+}
+
+export const test = base.extend<CmrHarFixtures & CmrHarOptions>({
+  harMode: [resolveHarMode(), { option: true }],
+
+  context: async ({ context, harMode }, use, testInfo) => {
+    if (harMode === "off") {
+      await use(context);
+      return;
+    }
+
+    const session = await attachHar(context, testInfo, harMode, {
+      baseUrl: BASE_URL,
+    });
+    await use(context);
+
+    const unmatchedCount = await finalizeSessions([session]);
+    if (isStrict() && unmatchedCount > 0) {
+      throw new Error(
+        `HAR replay 미매칭 요청 ${unmatchedCount}건 (CMR_HAR_STRICT=true). 녹화본을 갱신하세요.`,
+      );
+    }
+  },
+
+  newGuestContext: async ({ browser, harMode }, use, testInfo) => {
+    const contexts: BrowserContext[] = [];
+    const sessions: HarSession[] = [];
+
+    await use(async () => {
+      const context = await browser.newContext();
+      contexts.push(context);
+      if (harMode !== "off") {
+        sessions.push(
+          await attachHar(context, testInfo, harMode, {
+            baseUrl: BASE_URL,
+            label: `guest-${contexts.length}`,
+          }),
+        );
+      }
+      return context;
+    });
+
+    // record는 close 시점에 HAR이 기록되므로 finalize보다 먼저 닫는다
+    for (const context of contexts) await context.close();
+    const unmatchedCount = await finalizeSessions(sessions);
+    if (isStrict() && unmatchedCount > 0) {
+      throw new Error(
+        `HAR replay 미매칭 요청 ${unmatchedCount}건 (비회원 context, CMR_HAR_STRICT=true)`,
+      );
+    }
+  },
+});
+
+export { expect };
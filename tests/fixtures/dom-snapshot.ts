@@ -0,0 +1,100 @@
+/**
+ * dom-snapshot fixture — 저장된 DOM snapshot 위에서 POM 메서드를 실행.
+ *
+ * worker마다 snapshot 정적 서버를 1개 띄우고, `openDomSnapshot(name)`이
+ * 해당 snapshot을 열면서 서버 외 요청은 모두 차단한다 (네트워크 불필요).
+ *
+ * 사용:
+ * ```ts
+ * import { test, expect } from "./fixtures/dom-snapshot";
+ *
+ * test("...", async ({ page, domSnapshotDir, openDomSnapshot }) => {
+ *   test.skip(!hasDomSnapshot("admin/order-list", domSnapshotDir), "snapshot 없음");
+ *   await openDomSnapshot("admin/order-list");
+ *   const metrics = await new OrderListPage(page).getResultMetrics();
+ * });
+ * ```
+ *
+ * snapshot 캡처:
+ *   DOM_SNAPSHOT_CAPTURE=true npm run test:admin   # recordDomSnapshot() 호출 지점에서 저장
+ *
+ * 로드 루트는 `domSnapshotDir` option(기본: DOM_SNAPSHOT_DIR → tests/fixtures/dom-snapshots)으로,
+ * CI project는 커밋된 합성 snapshot(tests/fixtures/dom-snapshots-ci/)을 지정한다.
+ *
+ * @see tests/helpers/dom-snapshot.ts
+ */
+
+import * as path from "path";
+import { test as base, expect } from "./assertion-audit";
+import {
+  getDomSnapshotDir,
+  readDomSnapshotManifest,
+  startDomSnapshotServer,
+  type DomSnapshotMeta,
+  type DomSnapshotServer,
+} from "../helpers/dom-snapshot";
+
+type DomSnapshotFixtures = {
+  /** snapshot을 열고 원본 메타데이터를 반환. 차단된 외부 요청 수도 함께 돌려준다 */
+  openDomSnapshot: (
+    name: string,
+  ) => Promise<{ meta: DomSnapshotMeta | null; blockedRequests: () => number }>;
+};
+
+export type DomSnapshotOptions = {
+  /** snapshot 로드 루트 (절대 경로 또는 cwd 기준 상대 경로) */
+  domSnapshotDir: string;
+};
+
+type DomSnapshotWorkerFixtures = DomSnapshotOptions & {
+  domSnapshotServer: DomSnapshotServer;
+};
+
+export const test = base.extend<DomSnapshotFixtures, DomSnapshotWorkerFixtures>(
+  {
+    domSnapshotDir: [getDomSnapshotDir(), { scope: "worker", option: true }],
+
+    domSnapshotServer: [
+      async ({ domSnapshotDir }, use) => {
+        const server = await startDomSnapshotServer(
+          path.resolve(domSnapshotDir),
+        );
+        await use(server);
+        await server.close();
+      },
+      { scope: "worker" },
+    ],
+
+    openDomSnapshot: async (
+      { page, domSnapshotDir, domSnapshotServer },
+      use,
+    ) => {
+      let blocked = 0;
+      await page.route("**/*", async (route) => {
+        if (route.request().url().startsWith(domSnapshotServer.origin)) {
+          await route.continue();
+          return;
+        }
+        blocked += 1;
+        await route.abort("blockedbyclient");
+      });
+
+      await use(async (name) => {
+        const meta =
+          readDomSnapshotManifest(path.resolve(domSnapshotDir))[name] ?? null;
+        if (meta?.viewport) await page.setViewportSize(meta.viewport);
+        const response = await page.goto(domSnapshotServer.urlFor(name), {
+          waitUntil: "domcontentloaded",
+        });
+        if (!response || response.status() !== 200) {
+          throw new Error(
+            `DOM snapshot을 열 수 없습니다: ${name} (status=${response?.status()})`,
+          );
+        }
+        return { meta, blockedRequests: () => blocked };
+      });
+    },
+  },
+);
+
+export { expect };
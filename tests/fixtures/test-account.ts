@@ -1,10 +1,37 @@
 /**
- * 테스트 계정(edqatest001@gmail.com)의 STG 의존 데이터 상수.
+ * 테스트 계정(edqatest001@gmail.com)의 STG 의존 데이터 상수 + 계정 풀 설정.
  *
  * 계정 상태가 바뀌면(주소 등록/삭제) 여기 ID도 갱신해야 한다. 자동화 전용 계정
  * 분리 작업이 끝나면 이 파일도 다시 잡아야 한다.
+ *
+ * 계정 풀: worker마다 계정 하나를 lease해 장바구니 / 배송지 / 통화를 독점한다
+ * (tests/fixtures/account-pool.ts). 기본 풀은 edqatest001 한 개이고, 계정을 늘리려면
+ * test-accounts.json(또는 TEST_ACCOUNT_POOL_FILE)에 TestAccount 배열을 둔다.
+ *
+ * ```json
+ * [
+ *   { "id": "edqatest001", "email": "edqatest001@gmail.com", "krDefaultAddressId": 173397 },
+ *   { "id": "edqatest002", "email": "edqatest002@gmail.com", "storageState": "edqatest002-auth.json", "krDefaultAddressId": 0 }
+ * ]
+ * ```
  */
 
+import * as fs from "fs";
+import * as path from "path";
+
+export type TestAccount = {
+  /** lock 파일 이름으로도 쓰인다 */
+  id: string;
+  email: string;
+  /**
+   * storageState 경로 (저장소 루트 기준). 생략하면 AuthStore("cmr")의 기본 파일
+   * (auth.json / stg-auth.json / AUTH_FILE_PATH).
+   */
+  storageState?: string;
+  /** STG 마이페이지 → 배송지 관리의 한국 주소 ID (`setDefaultShippingAddress("KR")`) */
+  krDefaultAddressId: number;
+};
+
 export const STG_TEST_ACCOUNT = {
   /**
    * STG 마이페이지 → 배송지 관리에 등록된 "우리집" 한국 주소 ID.
@@ -13,3 +40,59 @@ export const STG_TEST_ACCOUNT = {
    */
   KR_DEFAULT_ADDRESS_ID: 173397,
 } as const;
+
+export const DEFAULT_TEST_ACCOUNTS: readonly TestAccount[] = [
+  {
+    id: "edqatest001",
+    email: "edqatest001@gmail.com",
+    krDefaultAddressId: STG_TEST_ACCOUNT.KR_DEFAULT_ADDRESS_ID,
+  },
+];
+
+const DEFAULT_POOL_FILE = path.join(
+  __dirname,
+  "..",
+  "..",
+  "test-accounts.json",
+);
+
+/**
+ * 계정 풀 설정을 읽는다. TEST_ACCOUNT_POOL_FILE → test-accounts.json → 기본 계정 순.
+ * 설정 파일이 있는데 형식이 틀리면 조용히 기본값으로 돌아가지 않고 예외를 던진다.
+ */
+export function loadTestAccountPool(
+  env: NodeJS.ProcessEnv = process.env,
+): TestAccount[] {
+  const poolFile = env.TEST_ACCOUNT_POOL_FILE
+    ? path.resolve(env.TEST_ACCOUNT_POOL_FILE)
+    : DEFAULT_POOL_FILE;
+  if (!fs.existsSync(poolFile)) {
+    if (env.TEST_ACCOUNT_POOL_FILE) {
+      throw new Error(`계정 풀 파일이 없습니다: ${poolFile}`);
+    }
+    return [...DEFAULT_TEST_ACCOUNTS];
+  }
+
+  const accounts: unknown = JSON.parse(fs.readFileSync(poolFile, "utf-8"));
+  if (
+    !Array.isArray(accounts) ||
+    accounts.length === 0 ||
+    !accounts.every(
+      (account) =>
+        typeof account?.id === "string" &&
+        /^[\w.-]+$/.test(account.id) &&
+        typeof account.email === "string" &&
+        typeof account.krDefaultAddressId === "number",
+    )
+  ) {
+    throw new Error(
+      `계정 풀 형식 오류: ${poolFile} — { id, email, krDefaultAddressId, storageState? } 배열이어야 합니다`,
+    );
+  }
+  const ids = accounts.map((account: TestAccount) => account.id);
+  const duplicated = ids.filter((id, i) => ids.indexOf(id) !== i);
+  if (duplicated.length > 0) {
+    throw new Error(`계정 풀 id 중복: ${duplicated.join(", ")}`);
+  }
+  return accounts as TestAccount[];
+}
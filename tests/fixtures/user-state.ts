@@ -13,11 +13,11 @@
  * });
  * ```
  *
- * 주의: 공유 계정에서 동시 워커가 같은 사용자 상태를 동시에 변경하면 race condition.
- * fixture 사용 spec은 가급적 `test.describe.configure({ mode: "serial" })` 권장.
+ * 계정 격리: account-pool fixture 위에 올라가 있어 worker마다 lease한 계정의 상태만
+ * 바꾼다. 계정 풀이 한 개뿐이면 spec은 serial로 돌아야 한다 (`getAccountPoolSize()`).
  */
 
-import { test as base, expect } from "@playwright/test";
+import { test as base, expect } from "./account-pool";
 import { MakestarMyPage } from "../pages/makestar-mypage.page";
 import { MakestarPaymentPage } from "../pages/makestar-payment.page";
 
@@ -38,7 +38,7 @@ type UserStateFixtures = {
 };
 
 export const test = base.extend<UserStateFixtures>({
-  resetUserState: async ({ page }, use) => {
+  resetUserState: async ({ page, testAccount }, use) => {
     await use(async ({ cart, currency, address }: ResetOptions) => {
       // 순서 의도: 통화 → 배송지 → 카트.
       //  - 통화는 home 진입 + reload라 먼저 두고,
@@ -50,7 +50,10 @@ export const test = base.extend<UserStateFixtures>({
       }
       if (address) {
         const mypage = new MakestarMyPage(page);
-        await mypage.setDefaultShippingAddress(address);
+        await mypage.setDefaultShippingAddress(
+          address,
+          testAccount.account.krDefaultAddressId,
+        );
       }
       if (cart) {
         const payment = new MakestarPaymentPage(page);
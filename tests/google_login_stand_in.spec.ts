@@ -0,0 +1,256 @@
+/**
+ * Google 로그인 흐름 회귀 테스트 (외부 네트워크 / Google 계정 불필요)
+ *
+ * scripts/stand-ins/google-oauth-server.js(Google OAuth + 인증 서버 + Admin stand-in)를
+ * 로컬에 띄워 performGoogleLogin의 성공/실패 분기를 headless로 검증한다.
+ *
+ *  - GLOGIN-CHAIN-01~02: redirect 체인 / state·code 검증 (HTTP만 사용)
+ *  - GLOGIN-01: success — Admin 복귀 + refresh_token 쿠키가 담긴 storageState 저장
+ *  - GLOGIN-02~04: challenge / consent / cancelled — false 반환, 세션 파일 미생성
+ *  - GLOGIN-05~06: 2단계 인증 코드 입력 / 동의 허용 시 Admin 복귀
+ *
+ * admin-setup project 전체를 stand-in으로 돌리려면:
+ *   GOOGLE_OAUTH_STAND_IN=true npx playwright test --project=admin-setup
+ *
+ * 실행: npm run test:auth:google (globalSetup 없는 CI 설정의 google-login-offline project)
+ */
+
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { performGoogleLogin } from "./helpers/admin/google-login";
+import {
+  DEFAULT_ACCOUNT,
+  DEFAULT_CHALLENGE_CODE,
+  createGoogleOAuthStandIn,
+} from "../scripts/stand-ins/google-oauth-server";
+import { verifyJwt } from "../scripts/stand-ins/token-refresh-server";
+
+const SECRET = "google-login-spec-secret";
+/** 멈춤 시나리오(challenge/consent)에서 performGoogleLogin이 포기하기까지의 대기 */
+const STALL_TIMEOUT_MS = 4000;
+
+let standIn: ReturnType<typeof createGoogleOAuthStandIn>;
+let origins: Awaited<ReturnType<typeof standIn.listen>>;
+let tmpDir: string;
+let authFile: string;
+
+test.beforeEach(async () => {
+  standIn = createGoogleOAuthStandIn({ secret: SECRET });
+  origins = await standIn.listen({ google: 0, auth: 0, admin: 0 });
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "google-login-spec-"));
+  authFile = path.join(tmpDir, "auth.json");
+});
+
+test.afterEach(async () => {
+  await standIn.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function login(timeoutMs = STALL_TIMEOUT_MS) {
+  return performGoogleLogin({
+    adminUrl: origins.admin,
+    authFile,
+    headless: true,
+    timeoutMs,
+  });
+}
+
+test.describe("redirect 체인 (HTTP)", () => {
+  test("GLOGIN-CHAIN-01: 미인증 Admin → 인증 서버 → Google → callback → Admin 복귀", async ({
+    request,
+  }) => {
+    const hop = async (url: string) => {
+      const response = await request.get(url, { maxRedirects: 0 });
+      expect(response.status(), url).toBe(302);
+      return response;
+    };
+
+    const toLogin = await hop(`${origins.admin}/sku/list`);
+    const loginUrl = new URL(toLogin.headers()["location"]);
+    expect(loginUrl.origin).toBe(origins.auth);
+    expect(loginUrl.pathname).toBe("/auth/login");
+    expect(loginUrl.searchParams.get("next")).toBe("/sku/list");
+
+    const toGoogle = await hop(
+      `${origins.auth}/auth/google/start?next=/sku/list`,
+    );
+    const authorizeUrl = new URL(toGoogle.headers()["location"]);
+    expect(authorizeUrl.origin).toBe(origins.google);
+    expect(authorizeUrl.searchParams.get("redirect_uri")).toBe(
+      `${origins.auth}/auth/google/callback`,
+    );
+
+    const toCallback = await hop(authorizeUrl.toString());
+    const callbackUrl = new URL(toCallback.headers()["location"]);
+    expect(callbackUrl.searchParams.get("code")).toBeTruthy();
+
+    const toAdmin = await hop(callbackUrl.toString());
+    const adminUrl = new URL(toAdmin.headers()["location"]);
+    expect(adminUrl.origin + adminUrl.pathname).toBe(
+      `${origins.admin}/sku/list`,
+    );
+    expect(
+      verifyJwt(adminUrl.searchParams.get("access_token"), SECRET),
+    ).toMatchObject({ token_type: "access", user_id: DEFAULT_ACCOUNT.userId });
+    expect(
+      toAdmin.headers()["set-cookie"],
+      "callback은 refresh_token 쿠키를 심어야 합니다",
+    ).toContain("refresh_token=");
+
+    // 쿠키가 생긴 뒤에는 Admin 페이지와 API가 그대로 열린다
+    const page = await request.get(`${origins.admin}/sku/list`, {
+      maxRedirects: 0,
+    });
+    expect(page.status()).toBe(200);
+    expect(await page.text()).toContain("SKU 목록");
+    const api = await request.get(
+      `${origins.admin}/api/external/admin/apis/admin/commerce/sku/`,
+    );
+    expect(api.status()).toBe(200);
+  });
+
+  test("GLOGIN-CHAIN-02: state 불일치 400 / authorization code 재사용 시 invalid_grant", async ({
+    request,
+  }) => {
+    const forged = await request.get(
+      `${origins.auth}/auth/google/callback?code=forged&state=unknown`,
+      { maxRedirects: 0 },
+    );
+    expect(forged.status()).toBe(400);
+
+    const start = await request.get(`${origins.auth}/auth/google/start`, {
+      maxRedirects: 0,
+    });
+    const authorize = await request.get(start.headers()["location"], {
+      maxRedirects: 0,
+    });
+    const callback = new URL(authorize.headers()["location"]);
+    const code = callback.searchParams.get("code");
+
+    // 같은 code를 새 state로 다시 제출 → 1회용 code라 거부되어야 한다
+    await request.get(callback.toString(), { maxRedirects: 0 });
+    const secondStart = await request.get(`${origins.auth}/auth/google/start`, {
+      maxRedirects: 0,
+    });
+    const secondState = new URL(
+      secondStart.headers()["location"],
+    ).searchParams.get("state");
+    const replay = await request.get(
+      `${origins.auth}/auth/google/callback?code=${code}&state=${secondState}`,
+      { maxRedirects: 0 },
+    );
+    expect(replay.status()).toBe(302);
+    expect(
+      new URL(replay.headers()["location"]).searchParams.get("error"),
+    ).toBe("invalid_grant");
+
+    const foreign = await request.get(
+      `${origins.google}/o/oauth2/v2/auth?client_id=other&redirect_uri=https://evil.example/cb`,
+      { maxRedirects: 0 },
+    );
+    expect(foreign.status()).toBe(400);
+  });
+});
+
+test.describe("performGoogleLogin 분기", () => {
+  test("GLOGIN-01: success — Admin 복귀 후 refresh_token이 담긴 세션 저장", async () => {
+    standIn.options.scenario = "success";
+
+    expect(await login(15000)).toBe(true);
+
+    const state = JSON.parse(fs.readFileSync(authFile, "utf-8"));
+    const refresh = state.cookies.find(
+      (cookie: { name: string }) => cookie.name === "refresh_token",
+    );
+    expect(refresh, "refresh_token 쿠키가 저장되어야 합니다").toBeTruthy();
+    expect(verifyJwt(refresh.value, SECRET)).toMatchObject({
+      token_type: "refresh",
+    });
+    expect(standIn.events.map((event) => event.step)).toEqual([
+      "start",
+      "authorize",
+      "approved",
+      "callback",
+    ]);
+  });
+
+  for (const scenario of ["challenge", "consent"] as const) {
+    test(`GLOGIN-0${scenario === "challenge" ? 2 : 3}: ${scenario} — 화면에서 멈추면 시간 초과 후 false`, async () => {
+      standIn.options.scenario = scenario;
+
+      expect(await login()).toBe(false);
+
+      expect(
+        fs.existsSync(authFile),
+        "실패 시 세션 파일을 쓰면 안 됩니다",
+      ).toBe(false);
+      expect(standIn.events.map((event) => event.step)).toEqual([
+        "start",
+        "authorize",
+      ]);
+    });
+  }
+
+  test("GLOGIN-04: cancelled — access_denied로 돌아오면 대기 없이 false", async () => {
+    standIn.options.scenario = "cancelled";
+    const timeoutMs = 30000;
+
+    const startedAt = Date.now();
+    expect(await login(timeoutMs)).toBe(false);
+
+    expect(Date.now() - startedAt).toBeLessThan(timeoutMs);
+    expect(fs.existsSync(authFile)).toBe(false);
+    expect(standIn.events.at(-1)).toMatchObject({
+      step: "callback",
+      error: "access_denied",
+    });
+  });
+});
+
+test.describe("사람이 개입하는 OAuth 화면", () => {
+  test("GLOGIN-05: 2단계 인증 — 잘못된 코드는 거부, 올바른 코드 입력 시 Admin 복귀", async ({
+    page,
+  }) => {
+    standIn.options.scenario = "challenge";
+    await page.goto(`${origins.admin}/dashboard`);
+    await page.getByRole("button", { name: /Google/ }).click();
+
+    const codeInput = page.getByLabel("인증 코드");
+    await codeInput.fill("000000");
+    await page.getByRole("button", { name: "다음" }).click();
+    await expect(page.getByRole("alert")).toContainText("잘못된 코드");
+
+    await codeInput.fill(DEFAULT_CHALLENGE_CODE);
+    await page.getByRole("button", { name: "다음" }).click();
+    await expect(page).toHaveURL(
+      (url) => url.origin === origins.admin && url.pathname === "/dashboard",
+    );
+    await expect(page.getByRole("heading", { level: 1 })).toHaveText(
+      "대시보드",
+    );
+  });
+
+  test("GLOGIN-06: 동의 화면 — 허용 시 Admin 복귀, 취소 시 로그인 페이지 오류 표시", async ({
+    page,
+  }) => {
+    standIn.options.scenario = "consent";
+    await page.goto(`${origins.admin}/sku/list`);
+    await page.getByRole("button", { name: /Google/ }).click();
+    await page.getByRole("button", { name: "취소" }).click();
+    await expect(page).toHaveURL(
+      (url) => url.searchParams.get("error") === "access_denied",
+    );
+    await expect(page.getByRole("alert")).toContainText("access_denied");
+
+    await page.getByRole("button", { name: /Google/ }).click();
+    await page.getByRole("button", { name: "허용" }).click();
+    await expect(page).toHaveURL(
+      (url) => url.origin === origins.admin && url.pathname === "/sku/list",
+    );
+    await expect(
+      page.locator('input[placeholder="SKU코드 /상품명 입력"]'),
+    ).toBeVisible();
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * 테스트 계정 풀 lease
+ *
+ * worker가 계정 하나를 파일 lock(scripts/file-lock.js)으로 잡아 실행 내내 독점한다.
+ * 같은 계정의 장바구니 / 배송지 / 통화를 여러 worker가 동시에 바꾸는 race를 막는다.
+ *
+ * lock 위치: {ACCOUNT_POOL_LOCK_DIR}/{account.id}.lock (기본: .account-locks/)
+ * storageState 파일이 없는 계정은 lease 대상에서 빠진다.
+ *
+ * 환경변수:
+ *   TEST_ACCOUNT_POOL_FILE           — 계정 풀 JSON (tests/fixtures/test-account.ts)
+ *   ACCOUNT_POOL_LOCK_DIR            — lock 디렉터리
+ *   ACCOUNT_POOL_LEASE_TIMEOUT_MS    — 빈 계정을 기다리는 최대 시간 (기본 5분)
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { AuthStore } from "../../scripts/auth-store";
+import { tryAcquireFileLock } from "../../scripts/file-lock";
+import {
+  loadTestAccountPool,
+  type TestAccount,
+} from "../fixtures/test-account";
+
+export type AccountLease = {
+  account: TestAccount;
+  storageStatePath: string;
+  release: () => void;
+};
+
+export type LeaseOptions = {
+  /** lock 소유자 이름 (진단용) */
+  owner: string;
+  accounts?: TestAccount[];
+  lockDir?: string;
+  timeoutMs?: number;
+  pollMs?: number;
+  rootDir?: string;
+};
+
+const ROOT_DIR = path.join(__dirname, "..", "..");
+const DEFAULT_LEASE_TIMEOUT_MS = 5 * 60 * 1000;
+/** worker는 실행 내내 lease를 잡고 있으므로 시간 기준 회수는 사실상 하지 않는다 (pid 기준) */
+const LEASE_STALE_MS = 12 * 60 * 60 * 1000;
+
+export function getAccountLockDir(env: NodeJS.ProcessEnv = process.env) {
+  return env.ACCOUNT_POOL_LOCK_DIR
+    ? path.resolve(env.ACCOUNT_POOL_LOCK_DIR)
+    : path.join(ROOT_DIR, ".account-locks");
+}
+
+export function resolveAccountStorageState(
+  account: TestAccount,
+  rootDir: string = ROOT_DIR,
+): string {
+  return account.storageState
+    ? path.resolve(rootDir, account.storageState)
+    : new AuthStore("cmr").storageStatePath;
+}
+
+/** storageState 파일이 있어 lease할 수 있는 계정 */
+export function getLeasableAccounts(
+  accounts: TestAccount[] = loadTestAccountPool(),
+  rootDir: string = ROOT_DIR,
+): TestAccount[] {
+  return accounts.filter((account) =>
+    fs.existsSync(resolveAccountStorageState(account, rootDir)),
+  );
+}
+
+/**
+ * 동시에 돌릴 수 있는 worker 수. spec의 describe mode(parallel / serial) 분기용.
+ * lease할 계정이 없어도 1 (기본 storageState로 직렬 실행).
+ */
+export function getAccountPoolSize(): number {
+  return Math.max(getLeasableAccounts().length, 1);
+}
+
+/**
+ * 빈 계정 하나를 lease한다. 모두 사용 중이면 timeoutMs까지 기다린 뒤 예외.
+ * lease할 계정이 하나도 없으면 첫 계정을 lock 없이 돌려준다 (로그인 세션 없이 실행하는 경우).
+ */
+export async function leaseTestAccount(
+  options: LeaseOptions,
+): Promise<AccountLease> {
+  const rootDir = options.rootDir ?? ROOT_DIR;
+  const accounts = options.accounts ?? loadTestAccountPool();
+  const leasable = getLeasableAccounts(accounts, rootDir);
+  if (leasable.length === 0) {
+    return {
+      account: accounts[0],
+      storageStatePath: resolveAccountStorageState(accounts[0], rootDir),
+      release: () => {},
+    };
+  }
+
+  const lockDir = options.lockDir ?? getAccountLockDir();
+  const timeoutMs =
+    options.timeoutMs ??
+    (Number(process.env.ACCOUNT_POOL_LEASE_TIMEOUT_MS) ||
+      DEFAULT_LEASE_TIMEOUT_MS);
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    for (const account of leasable) {
+      const lock = tryAcquireFileLock(
+        path.join(lockDir, `${account.id}.lock`),
+        {
+          owner: options.owner,
+          staleMs: LEASE_STALE_MS,
+        },
+      );
+      if (lock) {
+        return {
+          account,
+          storageStatePath: resolveAccountStorageState(account, rootDir),
+          release: lock.release,
+        };
+      }
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(
+        `테스트 계정 lease 대기 시간 초과 (${timeoutMs}ms): 계정 ${leasable.length}개가 모두 사용 중입니다. ` +
+          `worker 수를 줄이거나 test-accounts.json에 계정을 추가하세요 (lock: ${lockDir})`,
+      );
+    }
+    await new Promise((resolve) => setTimeout(resolve, options.pollMs ?? 500));
+  }
+}
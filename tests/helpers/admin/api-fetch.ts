@@ -4,8 +4,8 @@
  */
 
 import type { Page } from "@playwright/test";
-import * as fs from "fs";
 import * as path from "path";
+import { readAuthJsonFile } from "../../../scripts/auth-crypto";
 
 let cachedToken: string | null = null;
 function getAccessToken(): string | null {
@@ -14,7 +14,7 @@ function getAccessToken(): string | null {
     process.env.ADMIN_TOKENS_FILE_PATH ||
     path.resolve(__dirname, "../../../admin-tokens.json");
   try {
-    const raw = JSON.parse(fs.readFileSync(p, "utf-8")) as {
+    const raw = readAuthJsonFile(p) as {
       accessToken?: unknown;
     };
     cachedToken = typeof raw.accessToken === "string" ? raw.accessToken : null;
@@ -8,12 +8,15 @@ import * as fs from "fs";
 import * as path from "path";
 import type { BrowserContext, Page } from "@playwright/test";
 import { getCookieExpiresMs } from "../auth-utils";
+import { readAuthJsonFile } from "../../../scripts/auth-crypto";
 
 // ============================================================================
 // 상수
 // ============================================================================
 
-export const BASE_URL = "https://stage-new-admin.makeuni2026.com";
+// ADMIN_STAND_IN / GOOGLE_OAUTH_STAND_IN 실행 시 playwright.config.ts가 로컬 주소로 설정한다.
+export const BASE_URL =
+  process.env.ADMIN_BASE_URL || "https://stage-new-admin.makeuni2026.com";
 export const AUTH_DOMAIN = "stage-auth.makeuni2026.com";
 export const ROOT_DOMAIN = ".makeuni2026.com";
 
@@ -62,7 +65,7 @@ let authSetupCacheByContext = new WeakMap<BrowserContext, AuthSetupCache>();
 export function isTokenExpired(bufferMs: number = TOKEN_BUFFER_MS): boolean {
   if (!fs.existsSync(AUTH_FILE_PATH)) return true;
   try {
-    const auth: AuthData = JSON.parse(fs.readFileSync(AUTH_FILE_PATH, "utf-8"));
+    const auth: AuthData = readAuthJsonFile(AUTH_FILE_PATH);
     const rtCookie = auth.cookies?.find((c) => c.name === "refresh_token");
     if (!rtCookie?.value) return true;
     const expiresAt = getCookieExpiresMs(rtCookie);
@@ -79,7 +82,7 @@ export function isTokenExpired(bufferMs: number = TOKEN_BUFFER_MS): boolean {
 export function getTokenRemainingMinutes(): number {
   if (!fs.existsSync(AUTH_FILE_PATH)) return 0;
   try {
-    const auth: AuthData = JSON.parse(fs.readFileSync(AUTH_FILE_PATH, "utf-8"));
+    const auth: AuthData = readAuthJsonFile(AUTH_FILE_PATH);
     const rtCookie = auth.cookies?.find((c) => c.name === "refresh_token");
     if (!rtCookie?.value) return 0;
     const expiresAt = getCookieExpiresMs(rtCookie);
@@ -135,7 +138,7 @@ export async function ensureValidToken(): Promise<boolean> {
 export function hasValidSession(): boolean {
   if (!fs.existsSync(AUTH_FILE)) return false;
   try {
-    const auth: AuthData = JSON.parse(fs.readFileSync(AUTH_FILE, "utf-8"));
+    const auth: AuthData = readAuthJsonFile(AUTH_FILE);
     const sessionCookie = auth.cookies?.find((c) => c.name === "sessionid");
     if (sessionCookie?.value) {
       if (typeof sessionCookie.expires === "number") {
@@ -154,7 +157,8 @@ export function hasValidSession(): boolean {
  */
 export async function setupAuthCookies(page: Page): Promise<boolean> {
   const context = page.context();
-  const adminDomain = BASE_URL.replace(/^https?:\/\//, "").split("/")[0];
+  // 쿠키 domain에는 포트가 들어가지 않으므로 hostname만 사용
+  const adminDomain = new URL(BASE_URL).hostname;
 
   // 캐시 확인 (같은 BrowserContext에 5분 내 설정했으면 스킵)
   const now = Date.now();
@@ -172,9 +176,7 @@ export async function setupAuthCookies(page: Page): Promise<boolean> {
   }
 
   try {
-    const authData: AuthData = JSON.parse(
-      fs.readFileSync(AUTH_FILE_PATH, "utf-8"),
-    );
+    const authData: AuthData = readAuthJsonFile(AUTH_FILE_PATH);
 
     if (authData.cookies && authData.cookies.length > 0) {
       const targetDomains = [adminDomain, AUTH_DOMAIN, ROOT_DOMAIN];
@@ -187,7 +189,15 @@ export async function setupAuthCookies(page: Page): Promise<boolean> {
       const cookiesToSet: object[] = [];
 
       for (const raw of authData.cookies) {
-        if (!raw.domain || !raw.domain.includes("makeuni2026.com")) continue;
+        if (
+          !raw.domain ||
+          !(
+            raw.domain.includes("makeuni2026.com") ||
+            raw.domain.replace(/^\./, "") === adminDomain
+          )
+        ) {
+          continue;
+        }
         if (!whitelist.includes(raw.name)) continue;
 
         const base = {
@@ -308,9 +318,7 @@ export function getSystemToken(): string | null {
       return null;
     }
 
-    const tokens: AdminTokens = JSON.parse(
-      fs.readFileSync(ADMIN_TOKENS_FILE_PATH, "utf-8"),
-    );
+    const tokens: AdminTokens = readAuthJsonFile(ADMIN_TOKENS_FILE_PATH);
     if (tokens.accessToken) {
       cachedSystemToken = tokens.accessToken;
       console.log("✅ 시스템 토큰 로드 완료 (admin-tokens.json)");
@@ -347,19 +355,23 @@ export async function setupApiInterceptor(page: Page): Promise<boolean> {
     return false;
   }
 
-  // Admin API 엔드포인트 패턴
+  // Admin API 엔드포인트 패턴 (+ 로컬 stand-in Admin origin)
   const adminApiPattern =
     /^https:\/\/(stage-new-admin|stage-api|stage-auth)\.makeuni2026\.com\/.*/;
-
-  await page.route(adminApiPattern, async (route, request) => {
-    const headers = {
-      ...request.headers(),
-      Authorization: `Bearer ${token}`,
-    };
-
-    // 원래 요청을 수정된 헤더로 계속 진행
-    await route.continue({ headers });
-  });
+  const adminOrigin = new URL(BASE_URL).origin;
+
+  await page.route(
+    (url) => adminApiPattern.test(url.href) || url.origin === adminOrigin,
+    async (route, request) => {
+      const headers = {
+        ...request.headers(),
+        Authorization: `Bearer ${token}`,
+      };
+
+      // 원래 요청을 수정된 헤더로 계속 진행
+      await route.continue({ headers });
+    },
+  );
 
   console.log("✅ API 인터셉터 설정 완료 (Bearer Token 자동 주입)");
   return true;
@@ -0,0 +1,417 @@
+/**
+ * 엑셀 ↔ API 정합성 대조 엔진
+ *
+ * 엑셀 키 컬럼과 API row 키로 양쪽을 join해 아래를 보고한다.
+ *  - missingInApi  : 엑셀에는 있는데 API에서 찾을 수 없는 키 (유령 데이터)
+ *  - missingInExcel: API에는 있는데 엑셀에 없는 키 (export 누락)
+ *  - mismatches    : 같은 키의 필드 값 불일치 (normalizer 적용 후 비교)
+ *
+ * API 쪽은 둘 중 하나를 넘긴다.
+ *  - lookup(key): 키 1건 검색 (주문번호 검색 API 등) — 엑셀 → API 방향
+ *  - list()     : 목록 API 1회 조회 (최신 N건) — API → 엑셀 방향
+ *
+ * @example
+ * ```typescript
+ * const report = await reconcileExcelWithApi(sheet, USER_RECONCILE, {
+ *   list: createApiList(page, `${BASE}/api/.../list_new_commerce_user/?page=1&size=10`),
+ * });
+ * expect(report.ok, formatReconcileReport(report)).toBe(true);
+ * ```
+ */
+
+import type { Page } from "@playwright/test";
+import type { ParsedSheet } from "../excel-parser";
+import {
+  ORDER_NUMBER_PATTERN,
+  parseExcelDate,
+  parseKrw,
+  resolveColumn,
+} from "../excel-schema";
+import { extractRows } from "./api-capture";
+import { fetchJson } from "./api-fetch";
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/** 비교용 정규화. null이면 "값 없음"으로 취급 */
+export type Normalizer = (value: unknown) => string | null;
+
+/** API row에서 값을 꺼내는 방법: 필드명(a.b 경로 허용) 또는 함수 */
+export type ApiValueGetter =
+  string | ((row: Record<string, unknown>) => unknown);
+
+export type ReconcileField = {
+  /** 엑셀 컬럼 (resolveColumn으로 탐색) */
+  excel: string;
+  api: ApiValueGetter;
+  /** 양쪽에 같은 normalizer 적용 (기본 NORMALIZERS.text) */
+  normalize?: Normalizer;
+};
+
+export type ReconcileDirection = "excel-to-api" | "api-to-excel" | "both";
+
+export type ReconcileConfig = {
+  id: string;
+  /** 엑셀 키 컬럼 */
+  keyColumn: string;
+  apiKey: ApiValueGetter;
+  /** 키 정규화 (기본 NORMALIZERS.text) */
+  keyNormalizer?: Normalizer;
+  /** 엑셀 키 중 대조 대상만 남기는 필터 (예: 주문번호 형식) */
+  keyFilter?: (key: string) => boolean;
+  fields?: ReconcileField[];
+  /** 기본: lookup이면 "excel-to-api", list면 "api-to-excel" */
+  direction?: ReconcileDirection;
+  /** 방향별로 대조할 최대 키 수 (기본 전체) */
+  sampleSize?: number;
+};
+
+export type ApiRowsResult = { status: number; rows: unknown[] };
+
+export type ReconcileApi = {
+  lookup?: (key: string) => Promise<ApiRowsResult>;
+  list?: () => Promise<ApiRowsResult>;
+};
+
+export type FieldMismatch = {
+  key: string;
+  field: string;
+  excel: string | null;
+  api: string | null;
+};
+
+export type ReconcileReport = {
+  id: string;
+  direction: ReconcileDirection;
+  /** 엑셀 고유 키 수 (keyFilter 적용 후) */
+  excelKeys: number;
+  /** API에서 받은 고유 키 수 */
+  apiKeys: number;
+  /** 양쪽에서 모두 찾은 키 수 */
+  matched: number;
+  missingInApi: string[];
+  missingInExcel: string[];
+  mismatches: FieldMismatch[];
+  /** 엑셀에서 찾지 못한 키/필드 컬럼 */
+  missingColumns: string[];
+  apiErrors: Array<{ key: string | null; status: number }>;
+  ok: boolean;
+};
+
+// ============================================================================
+// Normalizer
+// ============================================================================
+
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+function toText(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  return text ? text : null;
+}
+
+export const NORMALIZERS = {
+  /** 앞뒤 공백 제거, 빈 값은 null */
+  text: toText,
+  /** 공백 제거 + 소문자 (이메일, 코드) */
+  loose: (value: unknown) =>
+    toText(value)?.replace(/\s+/g, "").toLowerCase() ?? null,
+  /** 숫자만 남김 (전화번호, "1,234"와 1234) */
+  digits: (value: unknown) => toText(value)?.replace(/\D/g, "") || null,
+  /** 원화 금액 → 정수 문자열 */
+  krw: (value: unknown) => {
+    if (typeof value === "number") return String(value);
+    const text = toText(value);
+    if (!text) return null;
+    const amount = parseKrw(text);
+    return amount === null ? text : String(amount);
+  },
+  /**
+   * 날짜 → KST YYYY-MM-DD
+   * API의 ISO 시각(Z / ±hh:mm)은 KST로 바꾸고, 엑셀 문자열은 표기 그대로의 날짜를 쓴다.
+   */
+  date: (value: unknown) => {
+    const text = toText(value);
+    if (!text) return null;
+    if (/T.*(Z|[+-]\d{2}:?\d{2})$/.test(text)) {
+      const time = Date.parse(text);
+      if (!Number.isNaN(time)) {
+        return new Date(time + KST_OFFSET_MS).toISOString().slice(0, 10);
+      }
+    }
+    return parseExcelDate(text)?.toISOString().slice(0, 10) ?? text;
+  },
+  /** "Y"/"true"/"노출" 계열 → "true", 그 외 값은 "false" */
+  boolean: (value: unknown) => {
+    const text = toText(value);
+    if (text === null) return null;
+    return /^(true|y|yes|1|o|노출|사용|활성)$/i.test(text) ? "true" : "false";
+  },
+} satisfies Record<string, Normalizer>;
+
+// ============================================================================
+// 엔진
+// ============================================================================
+
+function readApiValue(row: unknown, getter: ApiValueGetter): unknown {
+  if (typeof getter === "function") {
+    return getter((row ?? {}) as Record<string, unknown>);
+  }
+  return getter
+    .split(".")
+    .reduce<unknown>(
+      (current, part) =>
+        current == null ? current : (current as Record<string, unknown>)[part],
+      row,
+    );
+}
+
+function sample<T>(values: T[], size?: number): T[] {
+  return size === undefined ? values : values.slice(0, size);
+}
+
+/**
+ * 엑셀 시트와 API를 키로 join해 차이를 보고한다. API 오류도 예외 대신 report에 담는다.
+ *
+ * 엑셀에서 같은 키가 여러 행이면(1주문 N SKU 등) 첫 행의 필드 값을 비교한다.
+ */
+export async function reconcileExcelWithApi(
+  sheet: ParsedSheet,
+  config: ReconcileConfig,
+  api: ReconcileApi,
+): Promise<ReconcileReport> {
+  if (!api.lookup === !api.list) {
+    throw new Error(
+      `[${config.id}] reconcile API는 lookup / list 중 하나만 지정하세요`,
+    );
+  }
+  const direction =
+    config.direction ?? (api.lookup ? "excel-to-api" : "api-to-excel");
+  if (api.lookup && direction !== "excel-to-api") {
+    throw new Error(
+      `[${config.id}] lookup API로는 excel-to-api 방향만 대조할 수 있습니다`,
+    );
+  }
+  const normalizeKey = config.keyNormalizer ?? NORMALIZERS.text;
+
+  const missingColumns: string[] = [];
+  const keyHeader = resolveColumn(sheet.headers, config.keyColumn);
+  if (!keyHeader) missingColumns.push(config.keyColumn);
+  const fields = (config.fields ?? []).map((field) => {
+    const header = resolveColumn(sheet.headers, field.excel);
+    if (!header) missingColumns.push(field.excel);
+    return { ...field, header };
+  });
+
+  const excelRows = new Map<string, Record<string, string>>();
+  if (keyHeader) {
+    for (const row of sheet.rows) {
+      const key = normalizeKey(row[keyHeader]);
+      if (!key || (config.keyFilter && !config.keyFilter(key))) continue;
+      if (!excelRows.has(key)) excelRows.set(key, row);
+    }
+  }
+
+  const apiRows = new Map<string, unknown>();
+  const apiErrors: ReconcileReport["apiErrors"] = [];
+  const addApiRows = (rows: unknown[]) => {
+    for (const row of rows) {
+      const key = normalizeKey(readApiValue(row, config.apiKey));
+      if (key && !apiRows.has(key)) apiRows.set(key, row);
+    }
+  };
+
+  const missingInApi: string[] = [];
+  const missingInExcel: string[] = [];
+
+  if (api.lookup) {
+    for (const key of sample([...excelRows.keys()], config.sampleSize)) {
+      const { status, rows } = await api.lookup(key);
+      if (status !== 200) {
+        apiErrors.push({ key, status });
+        continue;
+      }
+      addApiRows(rows);
+      if (!apiRows.has(key)) missingInApi.push(key);
+    }
+  } else {
+    const { status, rows } = await api.list!();
+    if (status !== 200) apiErrors.push({ key: null, status });
+    else addApiRows(rows);
+
+    if (direction !== "excel-to-api") {
+      for (const key of sample([...apiRows.keys()], config.sampleSize)) {
+        if (!excelRows.has(key)) missingInExcel.push(key);
+      }
+    }
+    if (direction !== "api-to-excel") {
+      for (const key of sample([...excelRows.keys()], config.sampleSize)) {
+        if (!apiRows.has(key)) missingInApi.push(key);
+      }
+    }
+  }
+
+  const mismatches: FieldMismatch[] = [];
+  let matched = 0;
+  for (const [key, apiRow] of apiRows) {
+    const excelRow = excelRows.get(key);
+    if (!excelRow) continue;
+    matched++;
+    for (const field of fields) {
+      if (!field.header) continue;
+      const normalize = field.normalize ?? NORMALIZERS.text;
+      const excelValue = normalize(excelRow[field.header]);
+      const apiValue = normalize(readApiValue(apiRow, field.api));
+      if (excelValue !== apiValue) {
+        mismatches.push({
+          key,
+          field: field.excel,
+          excel: excelValue,
+          api: apiValue,
+        });
+      }
+    }
+  }
+
+  return {
+    id: config.id,
+    direction,
+    excelKeys: excelRows.size,
+    apiKeys: apiRows.size,
+    matched,
+    missingInApi,
+    missingInExcel,
+    mismatches,
+    missingColumns,
+    apiErrors,
+    ok:
+      missingColumns.length === 0 &&
+      apiErrors.length === 0 &&
+      missingInApi.length === 0 &&
+      missingInExcel.length === 0 &&
+      mismatches.length === 0,
+  };
+}
+
+/**
+ * 로그 / expect 메시지용 요약
+ */
+export function formatReconcileReport(
+  report: ReconcileReport,
+  limit: number = 5,
+): string {
+  const head = (values: string[]) =>
+    values.slice(0, limit).join(", ") +
+    (values.length > limit ? ` 외 ${values.length - limit}건` : "");
+  const lines = [
+    `[${report.id}] ${report.direction} 엑셀 ${report.excelKeys}키 / API ${report.apiKeys}키 → ` +
+      `일치 ${report.matched} / API 누락 ${report.missingInApi.length} / 엑셀 누락 ${report.missingInExcel.length} / ` +
+      `필드 불일치 ${report.mismatches.length} / API 오류 ${report.apiErrors.length}`,
+  ];
+  if (report.missingColumns.length) {
+    lines.push(`  엑셀 컬럼 없음: ${report.missingColumns.join(", ")}`);
+  }
+  if (report.apiErrors.length) {
+    lines.push(
+      `  API 오류: ${JSON.stringify(report.apiErrors.slice(0, limit))}`,
+    );
+  }
+  if (report.missingInApi.length) {
+    lines.push(
+      `  API에 없음 (유령 데이터 가능성): ${head(report.missingInApi)}`,
+    );
+  }
+  if (report.missingInExcel.length) {
+    lines.push(`  엑셀에 없음: ${head(report.missingInExcel)}`);
+  }
+  for (const m of report.mismatches.slice(0, limit)) {
+    lines.push(
+      `  ${m.key} "${m.field}": 엑셀=${JSON.stringify(m.excel)} API=${JSON.stringify(m.api)}`,
+    );
+  }
+  return lines.join("\n");
+}
+
+// ============================================================================
+// API 소스 (fetchJson + extractRows)
+// ============================================================================
+
+/** 키 1건 검색 API (예: user_order_number=...) */
+export function createApiLookup(
+  page: Page,
+  buildUrl: (key: string) => string,
+): (key: string) => Promise<ApiRowsResult> {
+  return async (key) => {
+    const { status, body } = await fetchJson(page, buildUrl(key));
+    return { status, rows: status === 200 ? extractRows(body).rows : [] };
+  };
+}
+
+/** 목록 API 1회 조회 */
+export function createApiList(
+  page: Page,
+  url: string,
+): () => Promise<ApiRowsResult> {
+  return async () => {
+    const { status, body } = await fetchJson(page, url);
+    return { status, rows: status === 200 ? extractRows(body).rows : [] };
+  };
+}
+
+// ============================================================================
+// Admin export 대조 설정
+// ============================================================================
+// ORDER / USER / CATEGORY는 라이브 export 검증(admin_excel_verify_pom.spec.ts)에서 쓴다.
+// SKU / EVENT는 아직 라이브 검증 대상이 없어 stand-in fixture 대조(excel_reconcile.spec.ts)에서만 쓴다.
+
+/** 주문 엑셀: 주문번호 형식([A-Z]-XXX)이 아닌 값(송장번호 등)은 키에서 제외 */
+export const ORDER_RECONCILE: ReconcileConfig = {
+  id: "order",
+  keyColumn: "주문번호",
+  apiKey: "user_order_number",
+  keyFilter: (key) => ORDER_NUMBER_PATTERN.test(key),
+};
+
+/** 회원 목록 (B2C) */
+export const USER_RECONCILE: ReconcileConfig = {
+  id: "user",
+  keyColumn: "ID",
+  apiKey: (row) => row.id ?? row.user_id,
+};
+
+/** 대분류 목록 */
+export const CATEGORY_RECONCILE: ReconcileConfig = {
+  id: "category",
+  keyColumn: "ID",
+  apiKey: "id",
+};
+
+/**
+ * SKU 목록 — stand-in fixture 대조 전용.
+ * 재고는 엑셀의 "1,234" 표기와 API 숫자를 digits로 맞춰 비교한다.
+ */
+export const SKU_RECONCILE: ReconcileConfig = {
+  id: "sku",
+  keyColumn: "SKU코드",
+  apiKey: "sku_code",
+  keyNormalizer: NORMALIZERS.loose,
+  fields: [
+    { excel: "SKU명", api: "name" },
+    { excel: "재고", api: "stock", normalize: NORMALIZERS.digits },
+  ],
+};
+
+/**
+ * 상품(이벤트) 목록 — stand-in fixture 대조 전용.
+ * 라이브 export는 API와 집계 레벨이 달라(그룹 vs 개인) 대조하지 않는다.
+ */
+export const EVENT_RECONCILE: ReconcileConfig = {
+  id: "event",
+  keyColumn: "ID",
+  apiKey: (row) => row.id ?? row.event_id,
+  fields: [
+    { excel: "노출여부", api: "is_display", normalize: NORMALIZERS.boolean },
+    { excel: "등록일", api: "created_at", normalize: NORMALIZERS.date },
+  ],
+};
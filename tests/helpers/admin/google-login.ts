@@ -4,24 +4,67 @@
  * 브라우저에서 Google 로그인을 실행하고 세션을 auth.json에 저장합니다.
  * 사용자가 수동으로 로그인을 완료할 때까지 대기합니다.
  *
+ * 로컬 stand-in(scripts/stand-ins/google-oauth-server.js)으로 실행할 때는
+ * ADMIN_BASE_URL / AUTH_FILE_PATH / GOOGLE_LOGIN_HEADLESS / GOOGLE_LOGIN_TIMEOUT_MS
+ * 환경변수 또는 options로 대상과 대기 시간을 바꾼다.
+ *
  * @see admin_auth_pom.spec.ts
  */
 
 import { chromium, type Browser } from "@playwright/test";
-import * as fs from "fs";
 import * as path from "path";
+import { writeAuthJsonFile } from "../../../scripts/auth-crypto";
 
 const AUTH_FILE = path.join(__dirname, "..", "..", "..", "auth.json");
 const ADMIN_URL = "https://stage-new-admin.makeuni2026.com";
+const LOGIN_TIMEOUT_MS = 180000;
 
 /** 최소 쿠키 수 (로그인 완전성 판단 기준) */
 const MIN_COOKIE_COUNT = 10;
 
+export type GoogleLoginOptions = {
+  /** 로그인 후 도달해야 하는 Admin origin (기본: ADMIN_BASE_URL 또는 STG Admin) */
+  adminUrl?: string;
+  /** storageState 저장 경로 (기본: AUTH_FILE_PATH 또는 auth.json) */
+  authFile?: string;
+  /** 기본: GOOGLE_LOGIN_HEADLESS=true일 때만 headless */
+  headless?: boolean;
+  /** 로그인 완료 대기 시간 (기본: GOOGLE_LOGIN_TIMEOUT_MS 또는 3분) */
+  timeoutMs?: number;
+};
+
+/** Admin 앱 화면인지 (인증 서버 / Google 화면 / logout 경로 제외) */
+function isAdminAppUrl(url: URL, adminOrigin: string): boolean {
+  return url.origin === adminOrigin && !url.pathname.startsWith("/auth");
+}
+
+/** 인증 서버를 거치지 않고 Google 로그인 화면으로 바로 넘어갔는지 */
+function isGoogleAccountsUrl(url: URL): boolean {
+  return url.hostname === "accounts.google.com";
+}
+
+/** OAuth 취소(access_denied)로 로그인 페이지에 돌아왔는지 */
+function isCancelledUrl(url: URL): boolean {
+  return url.searchParams.get("error") === "access_denied";
+}
+
 /**
  * 브라우저에서 Google 로그인을 실행하고 세션을 저장합니다.
- * 사용자가 수동으로 로그인을 완료할 때까지 대기합니다 (최대 3분).
+ * 사용자가 수동으로 로그인을 완료할 때까지 대기합니다 (기본 최대 3분).
+ * 취소(access_denied)로 돌아오면 대기 없이 false를 반환합니다.
  */
-export async function performGoogleLogin(): Promise<boolean> {
+export async function performGoogleLogin(
+  options: GoogleLoginOptions = {},
+): Promise<boolean> {
+  const adminUrl = options.adminUrl ?? process.env.ADMIN_BASE_URL ?? ADMIN_URL;
+  const adminOrigin = new URL(adminUrl).origin;
+  const authFile = options.authFile ?? process.env.AUTH_FILE_PATH ?? AUTH_FILE;
+  const headless =
+    options.headless ?? process.env.GOOGLE_LOGIN_HEADLESS === "true";
+  const timeoutMs =
+    options.timeoutMs ??
+    (Number(process.env.GOOGLE_LOGIN_TIMEOUT_MS) || LOGIN_TIMEOUT_MS);
+
   console.log("\n🔐 ===========================================");
   console.log("   Google 로그인이 필요합니다!");
   console.log("   브라우저가 열립니다. 로그인을 완료해주세요.");
@@ -31,8 +74,8 @@ export async function performGoogleLogin(): Promise<boolean> {
 
   try {
     browser = await chromium.launch({
-      headless: false,
-      slowMo: 100,
+      headless,
+      slowMo: headless ? 0 : 100,
     });
 
     const context = await browser.newContext({
@@ -42,32 +85,61 @@ export async function performGoogleLogin(): Promise<boolean> {
     const page = await context.newPage();
 
     // Admin 페이지로 이동 (자동으로 Google 로그인 리다이렉트)
-    await page.goto(ADMIN_URL, { waitUntil: "domcontentloaded" });
+    await page.goto(adminUrl, { waitUntil: "domcontentloaded" });
+
+    // 인증 서버 로그인 페이지에 멈춘 경우에만 Google 버튼을 눌러 OAuth로 진행.
+    // accounts.google.com / Admin으로 바로 넘어갔으면 버튼을 기다리지 않는다.
+    const googleBtn = page.locator('button:has-text("Google")').first();
+    const landing = await Promise.race(
+      [
+        googleBtn
+          .waitFor({ state: "visible", timeout: 5000 })
+          .then(() => "login-page" as const),
+        page
+          .waitForURL(
+            (url) =>
+              isGoogleAccountsUrl(url) ||
+              isAdminAppUrl(url, adminOrigin) ||
+              isCancelledUrl(url),
+            { timeout: 5000, waitUntil: "commit" },
+          )
+          .then(() => "redirected" as const),
+      ].map((pending) => pending.catch(() => null)),
+    );
+    if (landing === "login-page") {
+      await googleBtn.click({ timeout: 5000 });
+      console.log("🖱️ Google 로그인 버튼 클릭됨");
+    }
 
     console.log("👆 브라우저에서 Google 계정으로 로그인해주세요...");
     console.log("   (로그인 완료 후 자동으로 진행됩니다)\n");
 
-    // 로그인 완료 대기 (최대 3분)
+    // 로그인 완료 대기 (Admin 복귀 또는 취소 감지)
     let loginSuccess = false;
 
     try {
+      await page.waitForURL(
+        (url) => isAdminAppUrl(url, adminOrigin) || isCancelledUrl(url),
+        { timeout: timeoutMs, waitUntil: "domcontentloaded" },
+      );
+      if (isCancelledUrl(new URL(page.url()))) {
+        console.warn("⚠️ Google 로그인이 취소되었습니다 (access_denied)");
+        return false;
+      }
+
       await page.waitForSelector(
         'aside, nav, [class*="sidebar"], [class*="menu"], h1',
         {
-          timeout: 180000,
+          timeout: 30000,
           state: "visible",
         },
       );
 
-      const currentUrl = page.url();
-      if (
-        !currentUrl.includes("auth") &&
-        !currentUrl.includes("accounts.google.com")
-      ) {
+      if (isAdminAppUrl(new URL(page.url()), adminOrigin)) {
         loginSuccess = true;
       }
     } catch {
-      // 요소를 찾지 못함
+      // Admin으로 돌아오지 못함 (2단계 인증 / 동의 화면 대기 중 시간 초과 등)
     }
 
     if (!loginSuccess) {
@@ -104,10 +176,10 @@ export async function performGoogleLogin(): Promise<boolean> {
 
     // 세션 저장
     const storageState = await context.storageState();
-    fs.writeFileSync(AUTH_FILE, JSON.stringify(storageState, null, 2));
+    writeAuthJsonFile(authFile, storageState);
 
     console.log("✅ 로그인 완료! 세션이 저장되었습니다.");
-    console.log(`   저장 위치: ${AUTH_FILE}`);
+    console.log(`   저장 위치: ${authFile}`);
     console.log(`   쿠키 수: ${storageState.cookies.length}`);
 
     if (storageState.cookies.length < MIN_COOKIE_COUNT) {
@@ -30,10 +30,12 @@ export {
   resetSystemTokenCache,
 } from "./auth-helper";
 
-export { performGoogleLogin } from "./google-login";
+export { performGoogleLogin, type GoogleLoginOptions } from "./google-login";
 export { initPageWithRecovery } from "./page-recovery";
 
-export const ADMIN_BASE_URL = "https://stage-new-admin.makeuni2026.com";
+// ADMIN_STAND_IN=true 실행 시 playwright.config.ts가 로컬 stand-in 주소로 설정한다.
+export const ADMIN_BASE_URL =
+  process.env.ADMIN_BASE_URL || "https://stage-new-admin.makeuni2026.com";
 
 // 공통 타임아웃 설정
 export const TIMEOUTS = {
@@ -8,13 +8,25 @@
 import { test, expect, Page } from "@playwright/test";
 import * as fs from "fs";
 import * as path from "path";
-import { setupAuthCookies, resetAuthCache } from "./auth-helper";
-
-type StoredCookie = { name: string; value: string; expires?: number };
+import { BASE_URL, setupAuthCookies, resetAuthCache } from "./auth-helper";
+import { AuthStore } from "../../../scripts/auth-store";
+import {
+  createRefreshGrantRefresher,
+  ensureFreshToken,
+  formatRefreshOutcome,
+  getRecentRefreshFailure,
+} from "../../../scripts/refresh-coordinator";
+import { skipIfAuthUnusable } from "../auth-gate";
 
 // ============================================================================
-// 인증 실패 상태 파일 (worker 간 공유용)
+// 인증 실패 상태 (worker 간 공유)
 // ============================================================================
+
+/**
+ * AUTH-VERIFY-01이 남기는 화면 인증 실패 기록.
+ * 토큰 만료 / 갱신 실패는 토큰 갱신 코디네이터 history로 판정하고, 이 파일은 토큰이 유효한데도
+ * Admin이 세션을 거부한 경우(로그인 리다이렉트, 권한 없음)만 다룬다 — 코디네이터는 화면을 보지 않는다.
+ */
 export const AUTH_FAIL_FILE = path.join(
   __dirname,
   "..",
@@ -23,17 +35,21 @@ export const AUTH_FAIL_FILE = path.join(
   ".auth-failed",
 );
 
-const AUTH_FILE =
-  process.env.AUTH_FILE_PATH ||
-  path.join(__dirname, "..", "..", "..", "auth.json");
-const ADMIN_TOKENS_FILE =
-  process.env.ADMIN_TOKENS_FILE_PATH ||
-  path.join(__dirname, "..", "..", "..", "admin-tokens.json");
-
 /**
- * 인증 실패 상태 확인 (파일 기반)
+ * 인증 실패 상태 확인
+ * - 코디네이터 history: cooldown 안의 마지막 갱신 시도가 실패했고 토큰도 더 이상 유효하지 않음
+ * - AUTH_FAIL_FILE: 1시간 이내 AUTH-VERIFY-01의 화면 인증 실패
  */
 export function isAuthFailed(): { failed: boolean; reason: string | null } {
+  const store = new AuthStore("admin");
+  const refreshFailure = getRecentRefreshFailure(store.storageStatePath);
+  if (refreshFailure && !store.isValid()) {
+    return {
+      failed: true,
+      reason: `토큰 갱신 실패 (${refreshFailure.owner}): ${refreshFailure.error ?? "원인 미상"}`,
+    };
+  }
+
   try {
     if (fs.existsSync(AUTH_FAIL_FILE)) {
       const data = JSON.parse(fs.readFileSync(AUTH_FAIL_FILE, "utf-8"));
@@ -53,7 +69,7 @@ export function isAuthFailed(): { failed: boolean; reason: string | null } {
 }
 
 /**
- * 인증 실패 상태 기록 (파일 기반)
+ * 화면 인증 실패 기록 (AUTH-VERIFY-01)
  */
 export function markAuthFailed(reason: string): void {
   try {
@@ -89,88 +105,34 @@ export function clearAuthFailed(): void {
 // 토큰 유효성 검사 함수
 // ============================================================================
 export function isTokenValidSync(): boolean {
-  const bufferTime = 60 * 1000; // 1분 여유
-  const now = Date.now();
-
-  // 1. admin-tokens.json 확인
-  try {
-    const tokens = JSON.parse(fs.readFileSync(ADMIN_TOKENS_FILE, "utf-8"));
-    const expiresAt = new Date(tokens.expiresAt).getTime();
-    if (expiresAt - bufferTime > now) {
-      return true;
-    }
-  } catch (e) {
-    console.warn(
-      `[auth] admin-tokens.json 읽기 실패: ${e instanceof Error ? e.message : String(e)}`,
-    );
-  }
-
-  // 2. auth.json의 refresh_token 쿠키 확인
-  try {
-    const auth = JSON.parse(fs.readFileSync(AUTH_FILE, "utf-8"));
-    const rtCookie = auth.cookies?.find(
-      (c: StoredCookie) => c.name === "refresh_token",
-    );
-    if (rtCookie?.value) {
-      const payload = JSON.parse(
-        Buffer.from(rtCookie.value.split(".")[1], "base64").toString(),
-      );
-      const expiresAt = payload.exp * 1000;
-      if (expiresAt - bufferTime > now) {
-        return true;
-      }
-    }
-  } catch (e) {
-    console.warn(
-      `[auth] auth.json refresh_token 검증 실패: ${e instanceof Error ? e.message : String(e)}`,
-    );
-  }
-
-  return false;
+  // admin-tokens.json / refresh_token 중 늦은 만료 기준, 1분 여유 (scripts/auth-store.js)
+  return new AuthStore("admin").isValid();
 }
 
 /**
  * 토큰 남은 시간 반환 (시간, 분)
  */
 export function getTokenRemaining(): { hours: number; minutes: number } {
-  const now = Date.now();
-  let expiresAt = 0;
-
-  try {
-    const tokens = JSON.parse(fs.readFileSync(ADMIN_TOKENS_FILE, "utf-8"));
-    expiresAt = new Date(tokens.expiresAt).getTime();
-  } catch (err) {
-    console.warn(
-      `[auth] admin-tokens.json 읽기 실패 (getTokenRemaining): ${err instanceof Error ? err.message : String(err)}`,
-    );
-  }
+  return new AuthStore("admin").getRemaining();
+}
 
-  try {
-    const auth = JSON.parse(fs.readFileSync(AUTH_FILE, "utf-8"));
-    const rtCookie = auth.cookies?.find(
-      (c: StoredCookie) => c.name === "refresh_token",
-    );
-    if (rtCookie?.value) {
-      const payload = JSON.parse(
-        Buffer.from(rtCookie.value.split(".")[1], "base64").toString(),
-      );
-      const rtExpires = payload.exp * 1000;
-      if (rtExpires > expiresAt) {
-        expiresAt = rtExpires;
-      }
-    }
-  } catch (err) {
-    console.warn(
-      `[auth] auth.json 파싱 실패 (getTokenRemaining): ${err instanceof Error ? err.message : String(err)}`,
-    );
+/**
+ * 남은 시간이 임계값(AUTH_REFRESH_THRESHOLD_MIN) 미만이면 refresh grant로 선제 갱신.
+ * 여러 worker가 동시에 호출해도 한 worker만 갱신하고 나머지는 새 토큰을 기다린다
+ * (scripts/refresh-coordinator.js).
+ */
+export async function ensureAdminTokenFresh(owner: string) {
+  const store = new AuthStore("admin");
+  const outcome = await ensureFreshToken(store, {
+    owner,
+    refresh: createRefreshGrantRefresher(store, {
+      appOrigin: new URL(BASE_URL).origin,
+    }),
+  });
+  if (outcome.status !== "fresh") {
+    console.log(`🔄 [${owner}] ${formatRefreshOutcome(outcome)}`);
   }
-
-  const remaining = expiresAt - now;
-  if (remaining <= 0) return { hours: 0, minutes: 0 };
-
-  const hours = Math.floor(remaining / (1000 * 60 * 60));
-  const minutes = Math.floor((remaining % (1000 * 60 * 60)) / (1000 * 60));
-  return { hours, minutes };
+  return outcome;
 }
 
 // ============================================================================
@@ -345,7 +307,7 @@ export async function verifyAuthentication(
   }
 
   // 4. 어드민 도메인에 정상적으로 있으면 성공으로 간주
-  if (currentUrl.includes("stage-new-admin.makeuni2026.com")) {
+  if (currentUrl.includes(new URL(BASE_URL).host)) {
     return { success: true };
   }
 
@@ -469,7 +431,7 @@ export function formatDate(date: Date): string {
  *
  * 포함 항목:
  * - 토큰 만료 시 로컬 실행에서 Fail 테스트 추가
- * - beforeAll: resetAuthCache + 토큰 상태 로그
+ * - beforeAll: 인증 게이트(AUTH_HEALTH_GATE=true) + 토큰 선제 갱신(worker 간 lock) + resetAuthCache + 토큰 상태 로그
  * - beforeEach: 뷰포트 체크 + 인증 실패 체크 + 쿠키 설정
  *
  * @param testName - 로그에 표시할 테스트 이름 (예: "주문관리")
@@ -478,14 +440,18 @@ export function applyAdminTestConfig(testName?: string) {
   const isCi = process.env.CI === "true";
   const tokenValid = isCi ? true : isTokenValidSync();
 
-  test.beforeAll(async () => {
+  test.beforeAll(async ({}, workerInfo) => {
+    skipIfAuthUnusable("admin");
+    const refreshed = isCi
+      ? null
+      : await ensureAdminTokenFresh(`worker-${workerInfo.workerIndex}`);
     resetAuthCache();
     expect(
-      tokenValid || isCi,
+      isCi || refreshed?.valid,
       "⚠️ 토큰이 만료되었습니다! npx playwright test --project=admin-setup --project=admin-pc",
     ).toBe(true);
 
-    if (tokenValid && !isCi) {
+    if (refreshed?.valid) {
       const { hours, minutes } = getTokenRemaining();
       const label = testName ? `Admin ${testName}` : "Admin";
       console.log(
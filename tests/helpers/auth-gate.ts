@@ -0,0 +1,58 @@
+/**
+ * 인증 게이트 — global setup이 남긴 .auth-health.json(scripts/auth-health.js)으로
+ * 인증이 필요한 테스트만 사유를 남기고 skip한다.
+ *
+ * 기본은 global setup 경고만 하고 그대로 실행한다. AUTH_HEALTH_GATE=true일 때만
+ * 제품 × 환경이 사용 불가로 판정된 테스트를 skip한다 (리포트가 없으면 판단하지 않는다).
+ *
+ * 사용:
+ * ```ts
+ * test.beforeEach(() => skipIfAuthUnusable("albumbuddy"));
+ * // 환경을 고정한 spec
+ * test.beforeEach(() => skipIfAuthUnusable("cmr", "stg"));
+ * ```
+ */
+
+import { test } from "@playwright/test";
+import { readAuthHealthReport } from "../../scripts/auth-health";
+import type { AuthEnvironment, AuthProduct } from "../../scripts/auth-store";
+import { markFailureClass } from "./failure-class";
+
+type AuthHealthReport = NonNullable<ReturnType<typeof readAuthHealthReport>>;
+
+export function isAuthGateEnabled(env: NodeJS.ProcessEnv = process.env) {
+  return env.AUTH_HEALTH_GATE === "true";
+}
+
+/**
+ * 사용 불가면 사유, 사용 가능하거나 판단할 리포트가 없으면 null.
+ * environment를 생략하면 리포트의 현재 실행 환경을 본다.
+ */
+export function getAuthSkipReason(
+  report: AuthHealthReport | null,
+  product: AuthProduct,
+  environment?: AuthEnvironment,
+): string | null {
+  if (!report) return null;
+  const target = environment ?? report.environment;
+  const health = report.products.find(
+    (item) => item.product === product && item.environment === target,
+  );
+  if (!health || health.usable) return null;
+  return `${product} ${target} 인증 불충분 — ${health.problems.join(" / ")}`;
+}
+
+export function skipIfAuthUnusable(
+  product: AuthProduct,
+  environment?: AuthEnvironment,
+) {
+  if (!isAuthGateEnabled()) return;
+  const reason = getAuthSkipReason(
+    readAuthHealthReport(),
+    product,
+    environment,
+  );
+  if (!reason) return;
+  markFailureClass("auth-expired", reason);
+  test.skip(true, `auth-unusable: ${reason}`);
+}
@@ -5,6 +5,10 @@
  */
 
 import * as fs from "fs";
+import { readAuthJsonFile } from "../../scripts/auth-crypto";
+
+// JWT / 쿠키 만료 파싱은 scripts/auth-state.js 한 곳에서 관리한다
+export { getCookieExpiresMs, getJwtExpMs } from "../../scripts/auth-state";
 
 export type StoredCookie = {
   name?: string;
@@ -33,25 +37,6 @@ type AuthFileOptions = {
   requiredLocalStorage?: readonly LocalStorageRequirement[];
 };
 
-export function getJwtExpMs(token?: string): number | null {
-  if (!token) return null;
-  try {
-    const payload = JSON.parse(
-      Buffer.from(token.split(".")[1], "base64url").toString(),
-    ) as { exp?: number };
-    return payload.exp ? payload.exp * 1000 : null;
-  } catch {
-    return null;
-  }
-}
-
-export function getCookieExpiresMs(cookie?: StoredCookie): number | null {
-  if (cookie?.expires && cookie.expires > 0) return cookie.expires * 1000;
-  const jwtExp = getJwtExpMs(cookie?.value);
-  if (jwtExp) return jwtExp;
-  return null;
-}
-
 /**
  * 인증 파일의 존재 여부와 쿠키 유효성을 확인합니다.
  *
@@ -69,7 +54,7 @@ export function checkAuthFile(
     };
   }
   try {
-    const auth = JSON.parse(fs.readFileSync(authFilePath, "utf-8"));
+    const auth = readAuthJsonFile(authFilePath);
     const cookies = auth.cookies || [];
     const origins = auth.origins || [];
     if (cookies.length === 0) {
@@ -0,0 +1,250 @@
+/**
+ * CMR HAR record/replay 유틸
+ *
+ * cmr_01~07 모니터링 spec을 www.makestar.com 대신 녹화된 HAR로 실행해
+ * MakestarPage POM 변경을 오프라인/결정적으로 검증하기 위한 공통 로직.
+ *
+ * - record: spec별 디렉터리에 테스트 1건당 HAR(zip) 1개를 녹화
+ * - replay: routeFromHAR로만 응답하고, HAR에 없는 요청은 차단 후 목록화
+ *
+ * 번들 구조:
+ *   {CMR_HAR_DIR}/{version}/manifest.json
+ *   {CMR_HAR_DIR}/{version}/{spec 이름}/{테스트 slug}.zip
+ *   {CMR_HAR_DIR}/LATEST   ← 마지막 녹화 version
+ *
+ * 환경변수:
+ *   CMR_HAR_MODE     — off(기본) | record | replay
+ *   CMR_HAR_DIR      — 번들 루트 (기본: tests/fixtures/har/cmr)
+ *   CMR_HAR_VERSION  — record 시 저장할 / replay 시 읽을 version
+ *                      (record 기본: YYYYMMDD, replay 기본: LATEST 파일 값)
+ *   CMR_HAR_STRICT=true — replay 중 HAR 미매칭 요청이 있으면 테스트 실패
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { BrowserContext, TestInfo } from "@playwright/test";
+
+export type HarMode = "off" | "record" | "replay";
+
+export type HarUnmatchedRequest = {
+  method: string;
+  url: string;
+  resourceType: string;
+};
+
+export type HarSession = {
+  harFile: string;
+  /** 테스트 종료 시 호출. replay 미매칭 요청 리포트를 첨부하고 목록을 반환 */
+  finalize: () => Promise<HarUnmatchedRequest[]>;
+};
+
+const DEFAULT_HAR_DIR = path.resolve(__dirname, "../fixtures/har/cmr");
+
+/**
+ * replay 리포트에서 제외할 서드파티 비콘 호스트.
+ * 요청 시점마다 URL이 바뀌어 HAR 매칭이 원래 불가능하므로 stale 판단에서 뺀다.
+ */
+const REPORT_IGNORED_HOSTS =
+  /google-analytics\.com|googletagmanager\.com|doubleclick\.net|facebook\.(com|net)|clarity\.ms|hotjar\.com|sentry\.io|channel\.io/i;
+
+export function resolveHarMode(env: NodeJS.ProcessEnv = process.env): HarMode {
+  const mode = (env.CMR_HAR_MODE || "off").trim().toLowerCase();
+  if (mode === "record" || mode === "replay" || mode === "off") return mode;
+  throw new Error(
+    `CMR_HAR_MODE 값이 올바르지 않습니다: ${env.CMR_HAR_MODE} (off | record | replay)`,
+  );
+}
+
+export function getHarRoot(env: NodeJS.ProcessEnv = process.env): string {
+  return env.CMR_HAR_DIR ? path.resolve(env.CMR_HAR_DIR) : DEFAULT_HAR_DIR;
+}
+
+function todayVersion(): string {
+  return new Date().toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+/**
+ * 모드에 맞는 HAR version을 결정합니다.
+ * replay는 명시 version → LATEST 파일 순으로 찾고, 둘 다 없으면 실패합니다.
+ */
+export function resolveHarVersion(
+  mode: HarMode,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  if (env.CMR_HAR_VERSION) return env.CMR_HAR_VERSION.trim();
+  if (mode === "record") return todayVersion();
+
+  const latestFile = path.join(getHarRoot(env), "LATEST");
+  if (fs.existsSync(latestFile)) {
+    const latest = fs.readFileSync(latestFile, "utf-8").trim();
+    if (latest) return latest;
+  }
+  throw new Error(
+    `replay할 HAR version이 없습니다. CMR_HAR_VERSION을 지정하거나 CMR_HAR_MODE=record로 먼저 녹화하세요 (${latestFile})`,
+  );
+}
+
+function toSlug(value: string): string {
+  return value
+    .replace(/[^\p{L}\p{N}_-]+/gu, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 60);
+}
+
+/**
+ * 테스트별 HAR 파일 경로.
+ * TC ID + 제목 slug + 전체 titlePath 해시로 같은 spec 내 테스트끼리 충돌하지 않게 한다.
+ */
+export function getHarFilePath(
+  testInfo: TestInfo,
+  version: string,
+  label?: string,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  const specName = path.basename(testInfo.file, ".spec.ts");
+  const titlePath = testInfo.titlePath.slice(1).join(" > ");
+  const hash = crypto
+    .createHash("sha1")
+    .update(`${titlePath}${label ? `#${label}` : ""}`)
+    .digest("hex")
+    .slice(0, 8);
+  const fileName = `${toSlug(testInfo.title)}${label ? `.${toSlug(label)}` : ""}.${hash}.zip`;
+  return path.join(getHarRoot(env), version, specName, fileName);
+}
+
+type HarManifest = {
+  version: string;
+  baseUrl: string;
+  recordedAt: string;
+  playwrightVersion: string;
+  specs: Record<string, string[]>;
+};
+
+/**
+ * record 시 version manifest와 LATEST 포인터를 갱신합니다.
+ * 여러 worker가 동시에 쓰더라도 spec/파일 목록은 merge 방식으로 누적된다.
+ */
+function updateManifest(harFile: string, version: string, baseUrl: string) {
+  const root = getHarRoot();
+  const manifestPath = path.join(root, version, "manifest.json");
+  let manifest: HarManifest = {
+    version,
+    baseUrl,
+    recordedAt: new Date().toISOString(),
+    playwrightVersion: readPlaywrightVersion(),
+    specs: {},
+  };
+  try {
+    manifest = {
+      ...manifest,
+      specs: JSON.parse(fs.readFileSync(manifestPath, "utf-8")).specs ?? {},
+    };
+  } catch {
+    // 첫 녹화
+  }
+
+  const specName = path.basename(path.dirname(harFile));
+  const files = new Set(manifest.specs[specName] ?? []);
+  files.add(path.basename(harFile));
+  manifest.specs[specName] = [...files].sort();
+
+  fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+  fs.writeFileSync(path.join(root, "LATEST"), `${version}\n`);
+}
+
+function readPlaywrightVersion(): string {
+  try {
+    return require("@playwright/test/package.json").version;
+  } catch {
+    return "unknown";
+  }
+}
+
+/**
+ * BrowserContext에 HAR record/replay 라우팅을 연결합니다.
+ *
+ * replay에서는 catch-all route를 먼저 등록하고 routeFromHAR를 나중에 등록한다.
+ * Playwright route는 등록 역순으로 평가되므로 HAR에 없는 요청만 catch-all로
+ * fallback되어 차단 + 기록된다.
+ *
+ * @param label - 한 테스트 안에서 별도 context(비회원 등)를 구분하는 이름
+ */
+export async function attachHar(
+  context: BrowserContext,
+  testInfo: TestInfo,
+  mode: Exclude<HarMode, "off">,
+  options: { baseUrl: string; label?: string },
+): Promise<HarSession> {
+  const version = resolveHarVersion(mode);
+  const harFile = getHarFilePath(testInfo, version, options.label);
+
+  if (mode === "record") {
+    fs.mkdirSync(path.dirname(harFile), { recursive: true });
+    // HAR은 context close 시점에 기록된다 (기본 context fixture teardown)
+    await context.routeFromHAR(harFile, { update: true, updateMode: "full" });
+    updateManifest(harFile, version, options.baseUrl);
+    return { harFile, finalize: async () => [] };
+  }
+
+  if (!fs.existsSync(harFile)) {
+    throw new Error(
+      `HAR 녹화본이 없습니다: ${path.relative(process.cwd(), harFile)}\n` +
+        `   CMR_HAR_MODE=record로 해당 spec을 다시 녹화하세요 (version=${version}).`,
+    );
+  }
+
+  const unmatched: HarUnmatchedRequest[] = [];
+  await context.route("**/*", async (route) => {
+    const request = route.request();
+    unmatched.push({
+      method: request.method(),
+      url: request.url(),
+      resourceType: request.resourceType(),
+    });
+    await route.abort("internetdisconnected");
+  });
+  await context.routeFromHAR(harFile, { notFound: "fallback" });
+
+  return {
+    harFile,
+    finalize: async () => {
+      const reportable = unmatched.filter((request) => {
+        try {
+          return !REPORT_IGNORED_HOSTS.test(new URL(request.url).hostname);
+        } catch {
+          return true;
+        }
+      });
+      if (reportable.length === 0) return [];
+
+      await testInfo.attach(
+        `har-unmatched${options.label ? `-${options.label}` : ""}.json`,
+        {
+          body: JSON.stringify(
+            {
+              version,
+              harFile: path.relative(process.cwd(), harFile),
+              unmatched: reportable,
+            },
+            null,
+            2,
+          ),
+          contentType: "application/json",
+        },
+      );
+      testInfo.annotations.push({
+        type: "har-unmatched",
+        description: `${reportable.length}건 (version=${version}) 예: ${reportable
+          .slice(0, 3)
+          .map((request) => `${request.method} ${request.url}`)
+          .join(", ")}`,
+      });
+      console.warn(
+        `[cmr-har] HAR 미매칭 요청 ${reportable.length}건 — 녹화본이 오래되었을 수 있습니다 (${path.basename(harFile)})`,
+      );
+      return reportable;
+    },
+  };
+}
@@ -0,0 +1,380 @@
+/**
+ * DOM snapshot 하네스
+ *
+ * 모니터링 실행 중 주요 페이지의 DOM을 정제(sanitize)해 저장하고,
+ * 저장된 snapshot을 로컬 HTTP 서버로 띄워 POM 메서드를 네트워크 없이 실행한다.
+ * POM 셀렉터 리팩터링(getResultMetrics, verifyBrandElements 등)의 빠른 회귀 확인용.
+ *
+ * 저장 구조:
+ *   {DOM_SNAPSHOT_DIR}/{product}/{page}.html
+ *   {DOM_SNAPSHOT_DIR}/manifest.json   ← snapshot별 원본 URL / 캡처 시각
+ *
+ * 정제 규칙:
+ *   - script / noscript / 외부 리소스 link / base / meta refresh 제거
+ *   - on* 이벤트 속성, srcset 제거 / img src는 1x1 data URI로 치환
+ *   - iframe src는 about:blank로 치환 (원본은 data-snapshot-src에 보존)
+ *   - 접근 가능한 stylesheet 규칙은 <style>로 인라인 (visibility 판정 유지)
+ *   - 이메일 / 전화번호(휴대폰·유선) / 주소 / JWT / URL 토큰 파라미터 마스킹, password 입력값 제거
+ *   - 이름 / 주소 / 연락처 / 이메일 컬럼(thead 헤더 기준)과 라벨(th·dt·label) 옆 값은 자리표시 값으로
+ *     치환하고, 개인정보 입력 필드(type / autocomplete / name 힌트)의 값은 비운다
+ *   - 라벨 없이 본문에 섞인 이름은 "주문자: 김OO"처럼 라벨이 붙은 경우만 잡는다 → 저장 루트는
+ *     여전히 .gitignore 대상이고, CI는 커밋된 합성 snapshot(tests/fixtures/dom-snapshots-ci/)을 쓴다
+ *
+ * 환경변수:
+ *   DOM_SNAPSHOT_CAPTURE=true — recordDomSnapshot()이 실제로 저장 (기본: no-op)
+ *   DOM_SNAPSHOT_DIR           — 저장/로드 루트 (기본: tests/fixtures/dom-snapshots)
+ *                                 (fixture의 domSnapshotDir option이 project별로 덮어쓸 수 있음)
+ *
+ * @see tests/fixtures/dom-snapshot.ts
+ */
+
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import type { AddressInfo } from "net";
+import type { Page } from "@playwright/test";
+
+export type DomSnapshotMeta = {
+  url: string;
+  title: string;
+  capturedAt: string;
+  viewport: { width: number; height: number } | null;
+  /** cross-origin이라 인라인하지 못한 stylesheet 수 */
+  skippedStylesheets: number;
+};
+
+export type DomSnapshotManifest = Record<string, DomSnapshotMeta>;
+
+export type DomSnapshotServer = {
+  origin: string;
+  urlFor: (name: string) => string;
+  close: () => Promise<void>;
+};
+
+const DEFAULT_SNAPSHOT_DIR = path.resolve(
+  __dirname,
+  "../fixtures/dom-snapshots",
+);
+
+export const MASKED_EMAIL = "masked@example.com";
+export const MASKED_PHONE = "010-0000-0000";
+export const MASKED_NAME = "홍길동";
+export const MASKED_ADDRESS = "서울특별시 마스킹구 마스킹로 1";
+
+// 브라우저 안 정제(serializeSanitizedDom)에 그대로 넘기는 치환 값
+const PII_PLACEHOLDERS = {
+  email: MASKED_EMAIL,
+  phone: MASKED_PHONE,
+  name: MASKED_NAME,
+  address: MASKED_ADDRESS,
+};
+
+const PROVINCES =
+  "서울|부산|대구|인천|광주|대전|울산|세종|경기|강원|충북|충남|충청북도|충청남도|전북|전남|전라북도|전라남도|경북|경남|경상북도|경상남도|제주";
+// 시·도 + 시·군·구로 시작하는 도로명 / 지번 주소. 뒤따르는 읍·면·동·로·길과 번지까지 묶는다
+const ADDRESS_PATTERN = new RegExp(
+  `(?:${PROVINCES})[가-힣]*\\s+[가-힣]+(?:시|군|구)(?:\\s+[가-힣\\d]+(?:시|군|구|읍|면|동|리|로|길|가))*(?:\\s*\\d+(?:-\\d+)?(?:번지)?)?`,
+  "g",
+);
+const LABELED_NAME_PATTERN =
+  /((?:이름|성명|주문자|수령인|구매자|받는\s?분|예금주|회원명|고객명)\s*[:：]\s*)[가-힣]{2,5}/g;
+
+export function getDomSnapshotDir(env: NodeJS.ProcessEnv = process.env) {
+  return env.DOM_SNAPSHOT_DIR
+    ? path.resolve(env.DOM_SNAPSHOT_DIR)
+    : DEFAULT_SNAPSHOT_DIR;
+}
+
+export function isDomSnapshotCaptureEnabled(
+  env: NodeJS.ProcessEnv = process.env,
+): boolean {
+  return env.DOM_SNAPSHOT_CAPTURE === "true";
+}
+
+/** snapshot 이름("admin/order-list")을 파일 경로로 변환. 루트 밖 경로는 거부 */
+export function getDomSnapshotPath(
+  name: string,
+  dir: string = getDomSnapshotDir(),
+): string {
+  const filePath = path.resolve(dir, `${name}.html`);
+  if (!filePath.startsWith(`${path.resolve(dir)}${path.sep}`)) {
+    throw new Error(`잘못된 snapshot 이름입니다: ${name}`);
+  }
+  return filePath;
+}
+
+export function hasDomSnapshot(
+  name: string,
+  dir: string = getDomSnapshotDir(),
+): boolean {
+  return fs.existsSync(getDomSnapshotPath(name, dir));
+}
+
+export function readDomSnapshotManifest(
+  dir: string = getDomSnapshotDir(),
+): DomSnapshotManifest {
+  try {
+    return JSON.parse(
+      fs.readFileSync(path.join(dir, "manifest.json"), "utf-8"),
+    );
+  } catch {
+    return {};
+  }
+}
+
+/** 브라우저 밖에서 한 번 더 적용하는 텍스트 마스킹 (속성 값 포함 전체 HTML 대상) */
+export function maskSensitiveText(html: string): string {
+  return html
+    .replace(/eyJ[\w-]+\.[\w-]+\.[\w-]+/g, "[masked-jwt]")
+    .replace(
+      /([?&](?:access_token|refresh_token|id_token|token|code|state)=)[^&"'\s<]*/gi,
+      "$1masked",
+    )
+    .replace(/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, MASKED_EMAIL)
+    .replace(
+      /(?:\+82[-\s]?|\b0)(?:1[016789]|2|[3-6][1-5]|70)[-\s)]?\d{3,4}[-\s]?\d{4}\b/g,
+      MASKED_PHONE,
+    )
+    .replace(ADDRESS_PATTERN, MASKED_ADDRESS)
+    .replace(LABELED_NAME_PATTERN, `$1${MASKED_NAME}`);
+}
+
+/**
+ * 현재 페이지 DOM을 정제된 HTML 문자열로 직렬화합니다.
+ * 원본 DOM은 건드리지 않고 clone에만 정제를 적용한다.
+ */
+export async function serializeSanitizedDom(
+  page: Page,
+): Promise<{ html: string; skippedStylesheets: number }> {
+  return page.evaluate((masked) => {
+    const BLANK_IMAGE =
+      "data:image/gif;base64,R0lGODlhAQABAAAAACH5BAEKAAEALAAAAAABAAEAAAICTAEAOw==";
+
+    // 1. 접근 가능한 stylesheet 규칙 수집 (cross-origin은 cssRules 접근 시 throw)
+    const cssChunks: string[] = [];
+    let skippedStylesheets = 0;
+    for (const sheet of Array.from(document.styleSheets)) {
+      try {
+        cssChunks.push(
+          Array.from(sheet.cssRules)
+            .map((rule) => rule.cssText)
+            .join("\n"),
+        );
+      } catch {
+        skippedStylesheets += 1;
+      }
+    }
+
+    // 2. 입력 상태는 property에만 있으므로 clone 전에 attribute로 옮긴다
+    const liveInputs = Array.from(
+      document.querySelectorAll("input, textarea, select"),
+    );
+    const clone = document.documentElement.cloneNode(true) as HTMLElement;
+    const clonedInputs = Array.from(
+      clone.querySelectorAll("input, textarea, select"),
+    );
+    liveInputs.forEach((live, index) => {
+      const target = clonedInputs[index];
+      if (!target) return;
+      if (live instanceof HTMLInputElement) {
+        if (live.type === "checkbox" || live.type === "radio") {
+          if (live.checked) target.setAttribute("checked", "");
+          else target.removeAttribute("checked");
+        } else if (live.type === "password") {
+          target.removeAttribute("value");
+        } else {
+          target.setAttribute("value", live.value);
+        }
+      } else if (live instanceof HTMLTextAreaElement) {
+        target.textContent = live.value;
+      }
+    });
+
+    // 3. 개인정보 컬럼 / 라벨 값 / 입력 필드를 자리표시 값으로 치환 (행 구조는 유지)
+    const piiKind = (label: string | null | undefined) => {
+      const text = (label ?? "").replace(/\s+/g, " ").trim();
+      if (/^(?:이메일|e-?mail)(?:\s*주소)?$/i.test(text)) return masked.email;
+      if (
+        /^(?:연락처|전화|전화번호|휴대폰|휴대폰 ?번호|핸드폰|phone|mobile)$/i.test(
+          text,
+        )
+      )
+        return masked.phone;
+      if (/주소|^address$/i.test(text) && !/이메일|e-?mail/i.test(text))
+        return masked.address;
+      if (
+        /^(?:이름|성명|주문자(?:명)?|수령인(?:명)?|구매자(?:명)?|받는 ?분|예금주|회원명|고객명|name|full name|user ?name)$/i.test(
+          text,
+        )
+      )
+        return masked.name;
+      return null;
+    };
+    const maskText = (el: Element | null | undefined, value: string | null) => {
+      if (el && value && el.textContent?.trim()) el.textContent = value;
+    };
+
+    clone.querySelectorAll("table").forEach((table) => {
+      const headers = Array.from(
+        table.querySelectorAll("thead th, thead td"),
+      ).map((th) => piiKind(th.textContent));
+      if (!headers.some(Boolean)) return;
+      table.querySelectorAll("tbody tr").forEach((row) => {
+        Array.from(row.children).forEach((cell, index) =>
+          maskText(cell, headers[index] ?? null),
+        );
+      });
+    });
+    clone.querySelectorAll("th, dt, label").forEach((label) => {
+      const value = label.nextElementSibling;
+      if (value && /^(?:TD|DD|SPAN|DIV|P)$/.test(value.tagName)) {
+        maskText(value, piiKind(label.textContent));
+      }
+    });
+    clone
+      .querySelectorAll('input:not([type="password"]), textarea')
+      .forEach((field) => {
+        const hint = [
+          field.getAttribute("type"),
+          field.getAttribute("autocomplete"),
+          field.getAttribute("name"),
+          field.id,
+        ].join(" ");
+        if (
+          !/\b(?:tel|email|name|(?:full|user|receiver|recipient|orderer|buyer)_?name|street-address|address(?:-line\d)?|addr\d?|postal-code|zip(?:code)?|post_?code|phone|mobile)\b/i.test(
+            hint,
+          )
+        )
+          return;
+        if (field.tagName === "TEXTAREA") field.textContent = "";
+        else if (field.getAttribute("value")) field.setAttribute("value", "");
+      });
+
+    // 4. 실행/외부 리소스 제거
+    clone
+      .querySelectorAll(
+        'script, noscript, base, meta[http-equiv="refresh" i], link[rel~="stylesheet" i], link[rel~="preload" i], link[rel~="modulepreload" i], link[rel~="prefetch" i], link[rel~="icon" i]',
+      )
+      .forEach((el) => el.remove());
+
+    clone.querySelectorAll("*").forEach((el) => {
+      for (const attr of Array.from(el.attributes)) {
+        if (/^on/i.test(attr.name) || attr.name === "srcset") {
+          el.removeAttribute(attr.name);
+        }
+      }
+      if (el.tagName === "IMG") {
+        el.setAttribute("src", BLANK_IMAGE);
+      }
+      if (el.tagName === "IFRAME") {
+        const src = el.getAttribute("src");
+        if (src) el.setAttribute("data-snapshot-src", src);
+        el.setAttribute("src", "about:blank");
+      }
+    });
+
+    const style = document.createElement("style");
+    style.setAttribute("data-dom-snapshot", "inlined");
+    style.textContent = cssChunks.join("\n");
+    clone.querySelector("head")?.appendChild(style);
+
+    return {
+      html: `<!doctype html>\n${clone.outerHTML}`,
+      skippedStylesheets,
+    };
+  }, PII_PLACEHOLDERS);
+}
+
+/**
+ * 정제된 DOM snapshot을 저장하고 manifest를 갱신합니다.
+ * @returns 저장된 파일 경로
+ */
+export async function captureDomSnapshot(
+  page: Page,
+  name: string,
+  dir: string = getDomSnapshotDir(),
+): Promise<string> {
+  const { html, skippedStylesheets } = await serializeSanitizedDom(page);
+  const filePath = getDomSnapshotPath(name, dir);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, maskSensitiveText(html));
+
+  const manifest = readDomSnapshotManifest(dir);
+  manifest[name] = {
+    url: maskSensitiveText(page.url()),
+    title: await page.title(),
+    capturedAt: new Date().toISOString(),
+    viewport: page.viewportSize(),
+    skippedStylesheets,
+  };
+  fs.writeFileSync(
+    path.join(dir, "manifest.json"),
+    JSON.stringify(manifest, null, 2),
+  );
+  return filePath;
+}
+
+/**
+ * 모니터링 spec에서 호출하는 캡처 훅. DOM_SNAPSHOT_CAPTURE=true일 때만 저장한다.
+ * 캡처 실패가 모니터링 결과를 바꾸지 않도록 오류는 경고로만 남긴다.
+ */
+export async function recordDomSnapshot(
+  page: Page,
+  name: string,
+): Promise<string | null> {
+  if (!isDomSnapshotCaptureEnabled()) return null;
+  try {
+    const filePath = await captureDomSnapshot(page, name);
+    console.log(
+      `📸 DOM snapshot 저장: ${path.relative(process.cwd(), filePath)}`,
+    );
+    return filePath;
+  } catch (error) {
+    console.warn(
+      `[dom-snapshot] ${name} 캡처 실패: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return null;
+  }
+}
+
+/**
+ * snapshot 디렉터리를 정적으로 서빙하는 로컬 서버를 띄웁니다 (포트 자동 할당).
+ * `/{name}.html` 요청만 처리하고 나머지는 404.
+ */
+export async function startDomSnapshotServer(
+  dir: string = getDomSnapshotDir(),
+): Promise<DomSnapshotServer> {
+  const server = http.createServer((req, res) => {
+    const pathname = decodeURIComponent(
+      new URL(req.url || "/", "http://localhost").pathname,
+    );
+    const name = pathname.replace(/^\/+/, "").replace(/\.html$/, "");
+    let filePath: string;
+    try {
+      filePath = getDomSnapshotPath(name, dir);
+    } catch {
+      res.writeHead(400).end();
+      return;
+    }
+    if (!fs.existsSync(filePath)) {
+      res.writeHead(404, { "Content-Type": "text/plain; charset=utf-8" });
+      res.end(`snapshot 없음: ${name}`);
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+    fs.createReadStream(filePath).pipe(res);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    origin,
+    urlFor: (name) => `${origin}/${encodeURI(name)}.html`,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
@@ -0,0 +1,412 @@
+/**
+ * Admin 엑셀 export baseline / 직전 실행 대비 diff
+ *
+ * spec이 몇몇 컬럼만 검사하더라도 export 자체의 회귀(컬럼 삭제·이름 변경, 헤더 순서 변경,
+ * row 수 급변, 컬럼이 갑자기 비는 현상)를 잡기 위해, 다운로드한 파일을 정규화한 요약을
+ * 저장해 두고 다음 실행에서 비교한다. 원본 값은 저장하지 않는다 (키는 해시만 저장).
+ *
+ * 저장 구조:
+ *   {EXCEL_BASELINE_DIR}/{id}.json   ← 직전 실행의 ExcelBaseline
+ *
+ * 환경변수:
+ *   EXCEL_BASELINE=true   — recordExcelBaseline()이 비교 후 저장 (기본: no-op)
+ *   EXCEL_BASELINE_DIR    — 저장 루트 (기본: downloads/excel-baselines)
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { ParsedResult, ParsedSheet } from "./excel-parser";
+import { parseExcelDate, parseKrw, resolveColumn } from "./excel-schema";
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+export type ExcelValueKind = "empty" | "number" | "date" | "text";
+
+export type ExcelColumnStats = {
+  /** 값이 있는 행 비율 (0~1) */
+  fillRatio: number;
+  distinct: number;
+  /** 값이 있는 셀 중 가장 많은 형태 */
+  kind: ExcelValueKind;
+  maxLength: number;
+};
+
+export type ExcelBaseline = {
+  id: string;
+  capturedAt: string;
+  fileCount: number;
+  sheetName: string;
+  headers: string[];
+  rowCount: number;
+  columns: Record<string, ExcelColumnStats>;
+  /** 키 컬럼 값의 해시 중 작은 순서 최대 KEY_SAMPLE_SIZE개 (bottom-k 표본) */
+  keys: { column: string; count: number; hashes: string[] } | null;
+};
+
+export type BaselineFindingKind =
+  | "column_removed"
+  | "column_renamed"
+  | "column_added"
+  | "header_order"
+  | "row_count_swing"
+  | "key_overlap"
+  | "column_emptied"
+  | "column_kind";
+
+export type BaselineFinding = {
+  severity: "error" | "warn";
+  kind: BaselineFindingKind;
+  message: string;
+};
+
+export type ExcelBaselineDiff = {
+  id: string;
+  previousCapturedAt: string;
+  findings: BaselineFinding[];
+  errors: BaselineFinding[];
+};
+
+export type BaselineThresholds = {
+  /** |현재 - 이전| / 이전 이 값을 넘으면 경고 (기본 0.5) */
+  rowCountSwing: number;
+  /** 키 표본 겹침 비율이 이 값 미만이면 경고 (기본 0.3) */
+  keyOverlap: number;
+  /** 이전 fillRatio가 이 값 이상이던 컬럼이 */
+  filledBefore: number;
+  /** 이 값 미만으로 떨어지면 경고 */
+  filledAfter: number;
+};
+
+const DEFAULT_BASELINE_DIR = path.resolve(
+  __dirname,
+  "../../downloads/excel-baselines",
+);
+const KEY_SAMPLE_SIZE = 2000;
+
+export const DEFAULT_BASELINE_THRESHOLDS: BaselineThresholds = {
+  rowCountSwing: 0.5,
+  keyOverlap: 0.3,
+  filledBefore: 0.9,
+  filledAfter: 0.5,
+};
+
+export function getExcelBaselineDir(env: NodeJS.ProcessEnv = process.env) {
+  return env.EXCEL_BASELINE_DIR
+    ? path.resolve(env.EXCEL_BASELINE_DIR)
+    : DEFAULT_BASELINE_DIR;
+}
+
+export function isExcelBaselineEnabled(
+  env: NodeJS.ProcessEnv = process.env,
+): boolean {
+  return env.EXCEL_BASELINE === "true";
+}
+
+/** baseline id("ORD-V2-01")를 파일 경로로 변환. 루트 밖 경로는 거부 */
+export function getExcelBaselinePath(
+  id: string,
+  dir: string = getExcelBaselineDir(),
+): string {
+  const filePath = path.resolve(dir, `${id}.json`);
+  if (!filePath.startsWith(`${path.resolve(dir)}${path.sep}`)) {
+    throw new Error(`잘못된 baseline id입니다: ${id}`);
+  }
+  return filePath;
+}
+
+// ============================================================================
+// baseline 생성
+// ============================================================================
+
+function kindOf(value: string): ExcelValueKind {
+  if (!value) return "empty";
+  if (parseKrw(value) !== null) return "number";
+  if (parseExcelDate(value)) return "date";
+  return "text";
+}
+
+function hashKey(value: string): string {
+  return crypto.createHash("sha1").update(value).digest("hex").slice(0, 12);
+}
+
+function columnStats(sheet: ParsedSheet, header: string): ExcelColumnStats {
+  const kinds = new Map<ExcelValueKind, number>();
+  const distinct = new Set<string>();
+  let filled = 0;
+  let maxLength = 0;
+  for (const row of sheet.rows) {
+    const value = String(row[header] ?? "").trim();
+    if (!value) continue;
+    filled++;
+    distinct.add(value);
+    maxLength = Math.max(maxLength, value.length);
+    const kind = kindOf(value);
+    kinds.set(kind, (kinds.get(kind) ?? 0) + 1);
+  }
+  const [kind] = [...kinds].sort((a, b) => b[1] - a[1])[0] ?? ["empty"];
+  return {
+    fillRatio: sheet.rowCount
+      ? Number((filled / sheet.rowCount).toFixed(4))
+      : 0,
+    distinct: distinct.size,
+    kind,
+    maxLength,
+  };
+}
+
+/**
+ * 파싱 결과를 baseline으로 요약한다. 첫 파일의 첫 시트 기준.
+ * @param keyColumn - 행 식별 컬럼 (주문번호 / ID 등). 지정하면 키 해시 표본을 남긴다.
+ *   연속 행(키가 빈 행)과 중복 키는 한 번만 센다.
+ */
+export function buildExcelBaseline(
+  id: string,
+  parsed: ParsedResult,
+  keyColumn?: string,
+): ExcelBaseline {
+  const sheet = parsed.files[0]?.sheets[0];
+  if (!sheet) throw new Error(`[${id}] baseline을 만들 시트가 없습니다`);
+
+  let keys: ExcelBaseline["keys"] = null;
+  const keyHeader = keyColumn ? resolveColumn(sheet.headers, keyColumn) : null;
+  if (keyHeader) {
+    const unique = new Set(
+      sheet.rows
+        .map((row) => String(row[keyHeader] ?? "").trim())
+        .filter(Boolean),
+    );
+    keys = {
+      column: keyHeader,
+      count: unique.size,
+      hashes: [...unique].map(hashKey).sort().slice(0, KEY_SAMPLE_SIZE),
+    };
+  }
+
+  return {
+    id,
+    capturedAt: new Date().toISOString(),
+    fileCount: parsed.files.length,
+    sheetName: sheet.sheetName,
+    headers: sheet.headers,
+    rowCount: sheet.rowCount,
+    columns: Object.fromEntries(
+      sheet.headers.map((header) => [header, columnStats(sheet, header)]),
+    ),
+    keys,
+  };
+}
+
+// ============================================================================
+// diff
+// ============================================================================
+
+/**
+ * 키 겹침 비율: 작은 쪽 키 중 다른 쪽에도 있는 비율.
+ * 두 표본 모두 빠짐없이 담고 있는 해시 범위(각 표본 최댓값 중 작은 값 이하)에서만 센다.
+ */
+function keyOverlapRatio(previous: string[], current: string[]): number {
+  if (previous.length === 0 || current.length === 0) return 1;
+  const boundary =
+    previous[previous.length - 1] < current[current.length - 1]
+      ? previous[previous.length - 1]
+      : current[current.length - 1];
+  const before = new Set(previous.filter((hash) => hash <= boundary));
+  const after = current.filter((hash) => hash <= boundary);
+  const shared = after.filter((hash) => before.has(hash)).length;
+  return shared / Math.max(Math.min(before.size, after.length), 1);
+}
+
+export function diffExcelBaseline(
+  previous: ExcelBaseline,
+  current: ExcelBaseline,
+  thresholds: BaselineThresholds = DEFAULT_BASELINE_THRESHOLDS,
+): ExcelBaselineDiff {
+  const findings: BaselineFinding[] = [];
+  const add = (
+    severity: BaselineFinding["severity"],
+    kind: BaselineFindingKind,
+    message: string,
+  ) => findings.push({ severity, kind, message });
+
+  const shared = previous.headers.filter((h) => current.headers.includes(h));
+  const removed = previous.headers.filter((h) => !current.headers.includes(h));
+  const added = current.headers.filter((h) => !previous.headers.includes(h));
+
+  // 빠진 컬럼과 새 컬럼의 짝을 이름 변경으로 본다:
+  // 공백만 다르거나, 같은 공유 컬럼 뒤에 있고 값 형태가 같으면 짝
+  const anchorOf = (headers: string[], header: string) => {
+    for (let i = headers.indexOf(header) - 1; i >= 0; i--) {
+      if (shared.includes(headers[i])) return headers[i];
+    }
+    return "";
+  };
+  const compact = (header: string) => header.replace(/\s+/g, "");
+  for (const header of removed) {
+    const renamedTo =
+      added.find((h) => compact(h) === compact(header)) ??
+      added.find(
+        (h) =>
+          anchorOf(current.headers, h) === anchorOf(previous.headers, header) &&
+          current.columns[h]?.kind === previous.columns[header]?.kind,
+      );
+    if (renamedTo) {
+      added.splice(added.indexOf(renamedTo), 1);
+      add(
+        "error",
+        "column_renamed",
+        `컬럼 이름 변경 추정: "${header}" → "${renamedTo}"`,
+      );
+    } else {
+      add("error", "column_removed", `컬럼 삭제: "${header}"`);
+    }
+  }
+  for (const header of added) {
+    add("warn", "column_added", `컬럼 추가: "${header}"`);
+  }
+
+  const currentOrder = current.headers.filter((h) => shared.includes(h));
+  if (shared.join("\u0000") !== currentOrder.join("\u0000")) {
+    add(
+      "warn",
+      "header_order",
+      `헤더 순서 변경: ${shared.join(", ")} → ${currentOrder.join(", ")}`,
+    );
+  }
+
+  if (previous.rowCount > 0 && current.rowCount === 0) {
+    add("error", "row_count_swing", `row 수 ${previous.rowCount} → 0`);
+  } else if (previous.rowCount > 0) {
+    const swing =
+      Math.abs(current.rowCount - previous.rowCount) / previous.rowCount;
+    if (swing > thresholds.rowCountSwing) {
+      add(
+        "warn",
+        "row_count_swing",
+        `row 수 급변 ${previous.rowCount} → ${current.rowCount} (${Math.round(swing * 100)}%)`,
+      );
+    }
+  }
+
+  if (
+    previous.keys &&
+    current.keys &&
+    previous.keys.column === current.keys.column
+  ) {
+    const overlap = keyOverlapRatio(previous.keys.hashes, current.keys.hashes);
+    if (overlap < thresholds.keyOverlap) {
+      add(
+        "warn",
+        "key_overlap",
+        `"${current.keys.column}" 키 겹침 ${Math.round(overlap * 100)}% (이전 ${previous.keys.count}건 / 현재 ${current.keys.count}건)`,
+      );
+    }
+  }
+
+  for (const header of shared) {
+    const before = previous.columns[header];
+    const after = current.columns[header];
+    if (!before || !after || current.rowCount === 0) continue;
+    if (
+      before.fillRatio >= thresholds.filledBefore &&
+      after.fillRatio < thresholds.filledAfter
+    ) {
+      add(
+        "warn",
+        "column_emptied",
+        `"${header}" 채움 비율 ${Math.round(before.fillRatio * 100)}% → ${Math.round(after.fillRatio * 100)}%`,
+      );
+    }
+    if (
+      before.kind !== "empty" &&
+      after.kind !== "empty" &&
+      before.kind !== after.kind
+    ) {
+      add(
+        "warn",
+        "column_kind",
+        `"${header}" 값 형태 ${before.kind} → ${after.kind}`,
+      );
+    }
+  }
+
+  return {
+    id: current.id,
+    previousCapturedAt: previous.capturedAt,
+    findings,
+    errors: findings.filter((finding) => finding.severity === "error"),
+  };
+}
+
+export function formatBaselineDiff(diff: ExcelBaselineDiff): string {
+  if (diff.findings.length === 0) {
+    return `[${diff.id}] 직전 baseline(${diff.previousCapturedAt}) 대비 변화 없음`;
+  }
+  return [
+    `[${diff.id}] 직전 baseline(${diff.previousCapturedAt}) 대비 ${diff.findings.length}건 (error ${diff.errors.length})`,
+    ...diff.findings.map(
+      (finding) => `  - [${finding.severity}] ${finding.message}`,
+    ),
+  ].join("\n");
+}
+
+// ============================================================================
+// 저장 / 비교
+// ============================================================================
+
+export function readExcelBaseline(
+  id: string,
+  dir: string = getExcelBaselineDir(),
+): ExcelBaseline | null {
+  try {
+    return JSON.parse(fs.readFileSync(getExcelBaselinePath(id, dir), "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+export function writeExcelBaseline(
+  baseline: ExcelBaseline,
+  dir: string = getExcelBaselineDir(),
+): string {
+  const filePath = getExcelBaselinePath(baseline.id, dir);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(baseline, null, 2));
+  return filePath;
+}
+
+/**
+ * spec에서 호출하는 훅. EXCEL_BASELINE=true일 때만 직전 baseline과 비교한 뒤
+ * error가 없을 때만 현재 결과를 새 baseline으로 저장한다. 첫 실행(직전 baseline 없음)이면 저장만 하고 null.
+ * error가 난 결과를 저장하면 retry가 바뀐 결과를 기준으로 비교해 통과해 버린다.
+ */
+export function recordExcelBaseline(
+  id: string,
+  parsed: ParsedResult,
+  options: {
+    keyColumn?: string;
+    thresholds?: BaselineThresholds;
+    dir?: string;
+  } = {},
+): ExcelBaselineDiff | null {
+  if (!isExcelBaselineEnabled()) return null;
+  const dir = options.dir ?? getExcelBaselineDir();
+  const previous = readExcelBaseline(id, dir);
+  const current = buildExcelBaseline(id, parsed, options.keyColumn);
+  const diff = previous
+    ? diffExcelBaseline(previous, current, options.thresholds)
+    : null;
+  if (diff && diff.errors.length > 0) {
+    console.log(
+      `📐 엑셀 baseline 유지: [${id}] error ${diff.errors.length}건 — 직전 baseline(${diff.previousCapturedAt})을 그대로 둔다`,
+    );
+    return diff;
+  }
+  const filePath = writeExcelBaseline(current, dir);
+  console.log(
+    `📐 엑셀 baseline 저장: ${path.relative(process.cwd(), filePath)}`,
+  );
+  return diff;
+}
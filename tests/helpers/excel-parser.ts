@@ -1,8 +1,10 @@
 /**
  * Excel 파일 파싱 유틸 (xlsx/SheetJS + adm-zip)
  *
- * - 단일 .xlsx 파싱
- * - .zip 안에 여러 xlsx가 있는 경우 자동 해제 후 모두 파싱
+ * - .xlsx / .xls 파싱
+ * - .csv 파싱 (UTF-8 BOM / UTF-16 BOM / BOM 없는 UTF-8 / EUC-KR(CP949) 자동 판별)
+ * - .zip 안의 파일(중첩 ZIP 포함)은 디스크에 풀지 않고 메모리에서 모두 파싱
+ * - ZIP entry 이름은 UTF-8 플래그(bit 11)가 없으면 CP949로 디코딩해 원래 한글 파일명 유지
  */
 
 import * as XLSX from "xlsx";
@@ -17,9 +19,14 @@ export type ParsedSheet = {
   rowCount: number;
 };
 
+export type ExcelFileFormat = "xlsx" | "xls" | "csv";
+
 export type ParsedFile = {
+  /** ZIP 내부 파일이면 "<zip 경로>/<entry 경로>" (디스크에 존재하지 않는 표시용 경로) */
   filePath: string;
+  /** ZIP 내부 파일이면 entry 경로. 중첩 ZIP은 "inner.zip/파일.xlsx" */
   fileName: string;
+  format: ExcelFileFormat;
   sheets: ParsedSheet[];
 };
 
@@ -29,19 +36,72 @@ export type ParsedResult = {
   isZip: boolean;
 };
 
+/** ZIP 안의 ZIP을 따라 들어가는 최대 깊이 */
+const MAX_ZIP_DEPTH = 3;
+/** general purpose bit flag 11: 파일명이 UTF-8로 인코딩됨 */
+const ZIP_UTF8_FLAG = 0x800;
+const SUPPORTED_ENTRY = /\.(xlsx|xls|csv|zip)$/i;
+
 export function parseExcelOrZip(filePath: string): ParsedResult {
   const ext = path.extname(filePath).toLowerCase();
   if (ext === ".zip") {
-    return { files: parseZip(filePath), isZip: true };
+    removeLegacyExtractDir(filePath);
+    return {
+      files: parseZip(fs.readFileSync(filePath), filePath, "", 1),
+      isZip: true,
+    };
+  }
+  return {
+    files: [
+      parseBuffer(fs.readFileSync(filePath), filePath, path.basename(filePath)),
+    ],
+    isZip: false,
+  };
+}
+
+/**
+ * 바이트 → 문자열. BOM이 있으면 그대로 따르고, 없으면 UTF-8로 읽되 잘못된 시퀀스가
+ * 있으면 EUC-KR(WHATWG 기준 CP949와 동일)로 다시 읽는다.
+ */
+export function decodeKoreanText(bytes: Buffer): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return bytes.subarray(3).toString("utf8");
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return new TextDecoder("utf-16le").decode(bytes.subarray(2));
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder("utf-16be").decode(bytes.subarray(2));
+  }
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder("euc-kr").decode(bytes);
   }
-  return { files: [parseXlsx(filePath)], isZip: false };
 }
 
-function parseXlsx(filePath: string, fileName?: string): ParsedFile {
-  const wb = XLSX.readFile(filePath);
+function formatOf(fileName: string): ExcelFileFormat {
+  const ext = path.extname(fileName).toLowerCase();
+  if (ext === ".csv") return "csv";
+  if (ext === ".xls") return "xls";
+  return "xlsx";
+}
+
+function parseBuffer(
+  bytes: Buffer,
+  filePath: string,
+  fileName: string,
+): ParsedFile {
+  const format = formatOf(fileName);
+  // CSV는 raw 읽기: "00123" / "2026-01-15"가 숫자·날짜로 바뀌지 않고 원문 그대로 남는다
+  const wb =
+    format === "csv"
+      ? XLSX.read(decodeKoreanText(bytes), { type: "string", raw: true })
+      : XLSX.read(bytes, { type: "buffer" });
   return {
     filePath,
-    fileName: fileName ?? path.basename(filePath),
+    fileName,
+    format,
     sheets: wb.SheetNames.map((name) => sheetFromWb(wb, name)),
   };
 }
@@ -65,24 +125,54 @@ function sheetFromWb(wb: XLSX.WorkBook, name: string): ParsedSheet {
   };
 }
 
-function parseZip(zipPath: string): ParsedFile[] {
-  const extractDir = path.join(
-    path.dirname(zipPath),
-    `__extracted_${path.basename(zipPath, ".zip")}`,
-  );
-  fs.mkdirSync(extractDir, { recursive: true });
+function decodeEntryName(entry: AdmZip.IZipEntry): string {
+  const raw = entry.rawEntryName;
+  if (entry.header.flags & ZIP_UTF8_FLAG) return raw.toString("utf8");
+  // Windows 압축 도구는 플래그 없이 CP949로, macOS는 플래그 없이 UTF-8로 쓰는 경우가 있다
+  return decodeKoreanText(raw);
+}
 
-  const zip = new AdmZip(zipPath);
-  const entries = zip
-    .getEntries()
-    .filter((e) => !e.isDirectory && /\.xlsx$/i.test(e.entryName));
+function parseZip(
+  bytes: Buffer,
+  zipPath: string,
+  prefix: string,
+  depth: number,
+): ParsedFile[] {
   const out: ParsedFile[] = [];
-  for (const e of entries) {
-    // ZIP 내부의 한글 파일명이 CP949일 수 있음 → 그대로 추출하되 파일명은 고유화
-    const safe = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}.xlsx`;
-    const destPath = path.join(extractDir, safe);
-    fs.writeFileSync(destPath, e.getData());
-    out.push(parseXlsx(destPath, e.entryName));
+  for (const entry of new AdmZip(bytes).getEntries()) {
+    if (entry.isDirectory) continue;
+    const entryName = decodeEntryName(entry);
+    const baseName = path.posix.basename(entryName);
+    // macOS 압축 메타데이터(__MACOSX/, ._파일)는 실제 엑셀이 아니다
+    if (entryName.startsWith("__MACOSX/") || baseName.startsWith("._")) {
+      continue;
+    }
+    if (!SUPPORTED_ENTRY.test(entryName)) continue;
+
+    const fileName = prefix + entryName;
+    if (/\.zip$/i.test(entryName)) {
+      if (depth >= MAX_ZIP_DEPTH) {
+        throw new Error(
+          `중첩 ZIP 깊이 초과 (${MAX_ZIP_DEPTH}): ${zipPath}/${fileName}`,
+        );
+      }
+      out.push(
+        ...parseZip(entry.getData(), zipPath, `${fileName}/`, depth + 1),
+      );
+      continue;
+    }
+    out.push(parseBuffer(entry.getData(), `${zipPath}/${fileName}`, fileName));
   }
   return out;
 }
+
+/** 예전 버전이 ZIP 옆에 풀어 두던 __extracted_<이름> 디렉터리 정리 */
+function removeLegacyExtractDir(zipPath: string): void {
+  fs.rmSync(
+    path.join(
+      path.dirname(zipPath),
+      `__extracted_${path.basename(zipPath, ".zip")}`,
+    ),
+    { recursive: true, force: true },
+  );
+}
@@ -0,0 +1,251 @@
+/**
+ * Admin 엑셀 export 개인정보 마스킹 검증
+ *
+ * 주문 / 회원 / 이벤트 당첨자 export는 ISMS 사유 모달을 거쳐 내려받지만, 파일 안의
+ * 이름 / 휴대폰 / 이메일 / 주소가 정책대로 마스킹됐는지는 따로 확인해야 한다.
+ * export별 정책(PiiPolicy)에 따라 ParsedSheet를 훑어 마스킹되지 않은 셀을 찾는다.
+ *
+ * 위반 보고에는 원문 값을 담지 않는다. 셀 좌표(A1 표기)와 값의 형태(shape)만 남긴다.
+ *   예: "010-1234-5678" → "###-####-####", "홍길동" → "○○○"
+ *
+ * @example
+ * ```typescript
+ * const report = scanPii(sheet, ORDER_PII_POLICY);
+ * expect(report.violations, formatPiiReport(report)).toEqual([]);
+ * ```
+ */
+
+import * as XLSX from "xlsx";
+import type { ParsedSheet } from "./excel-parser";
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+export type PiiKind = "name" | "phone" | "email" | "address";
+
+export type PiiPolicy = {
+  id: string;
+  name: string;
+  /**
+   * 종류별 컬럼 키워드. 공백을 뺀 헤더에 키워드가 포함되면 해당 종류 컬럼으로 본다.
+   * 여기 지정된 컬럼은 값이 있으면 반드시 마스킹돼 있어야 한다.
+   */
+  columns: Partial<Record<PiiKind, string[]>>;
+  /**
+   * 지정 컬럼 밖의 모든 셀에서도 찾을 종류 (형식이 뚜렷한 phone / email만 지원).
+   * 메모 / 배송요청사항 같은 자유 입력 컬럼으로 새는 경우를 잡는다.
+   */
+  scanAllCells?: Array<"phone" | "email">;
+};
+
+export type PiiViolation = {
+  kind: PiiKind;
+  /** A1 표기 셀 좌표 (헤더 = 1행) */
+  cell: string;
+  /** 엑셀 행 번호 (헤더 = 1행, 첫 데이터 = 2행) */
+  row: number;
+  header: string;
+  /** 원문 대신 남기는 값 형태: 숫자 #, 한글 ○, 영문 x */
+  shape: string;
+  message: string;
+};
+
+export type PiiReport = {
+  policyId: string;
+  sheetName: string;
+  ok: boolean;
+  scannedCells: number;
+  /** 종류 → 정책 컬럼으로 인식된 실제 헤더 */
+  columns: Partial<Record<PiiKind, string[]>>;
+  violations: PiiViolation[];
+};
+
+// ============================================================================
+// 판별
+// ============================================================================
+
+/** 마스킹 문자: *, ●, •, ■, □, ○, ◯, ＊ */
+const MASK_CHARS = /[*●•■□○◯＊]/;
+
+const PHONE_PATTERN =
+  /(?:^|\D)(01[016789]|0\d{1,2})[-.\s]?\d{3,4}[-.\s]?\d{4}(?!\d)/;
+/** 자유 입력 셀 스캔용: 하이픈 포함 휴대폰 번호만 (송장번호 등 숫자열 오탐 방지) */
+const FORMATTED_PHONE_PATTERN = /\b01[016789]-\d{3,4}-\d{4}\b/;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+
+const KIND_PRIORITY: PiiKind[] = ["phone", "email", "address", "name"];
+
+const normalizeHeader = (value: string) => value.replace(/\s+/g, "");
+
+/** 원문 대신 보고에 쓰는 값 형태. 길이와 구분자만 남는다. */
+export function shapeOf(value: string): string {
+  return value
+    .replace(/\d/g, "#")
+    .replace(/[가-힣]/g, "○")
+    .replace(/[A-Za-z]/g, "x");
+}
+
+/** 종류별 "마스킹되지 않음" 판정. 위반이면 사유, 통과면 null */
+function checkMasked(kind: PiiKind, value: string): string | null {
+  switch (kind) {
+    case "phone":
+      // 가운데 자리가 가려져야 한다 (010-****-5678)
+      return PHONE_PATTERN.test(value) ? "휴대폰 번호 원문" : null;
+    case "email": {
+      const match = EMAIL_PATTERN.exec(value);
+      return match && !MASK_CHARS.test(match[0].split("@")[0])
+        ? "이메일 로컬 파트 원문"
+        : null;
+    }
+    case "name":
+      // 한 글자 이름 / 이니셜 / 숫자 ID("주문자ID" 컬럼 등)는 판단하지 않는다
+      return /[가-힣A-Za-z]{2,}/.test(value) && !MASK_CHARS.test(value)
+        ? "이름 원문"
+        : null;
+    case "address":
+      // 상세주소(번지 / 동·호수)의 숫자가 가려지지 않았으면 원문으로 본다
+      return /\d/.test(value) && !MASK_CHARS.test(value)
+        ? "상세주소 원문"
+        : null;
+  }
+}
+
+function findScanAllMatch(
+  kinds: Array<"phone" | "email">,
+  value: string,
+): "phone" | "email" | null {
+  for (const kind of kinds) {
+    if (kind === "phone" && FORMATTED_PHONE_PATTERN.test(value)) return kind;
+    if (kind === "email" && checkMasked("email", value)) return kind;
+  }
+  return null;
+}
+
+// ============================================================================
+// 검증
+// ============================================================================
+
+/**
+ * 시트를 정책으로 검사한다. 예외를 던지지 않고 위반 목록을 돌려준다.
+ */
+export function scanPii(sheet: ParsedSheet, policy: PiiPolicy): PiiReport {
+  const columns: Partial<Record<PiiKind, string[]>> = {};
+  const kindByHeader = new Map<string, PiiKind>();
+  // "주문자 연락처"처럼 이름 키워드를 품은 헤더가 있어 형식이 뚜렷한 종류부터 배정한다
+  for (const kind of KIND_PRIORITY) {
+    const keywords = policy.columns[kind] ?? [];
+    const headers = sheet.headers.filter(
+      (header) =>
+        !kindByHeader.has(header) &&
+        keywords.some((keyword) =>
+          normalizeHeader(header).includes(normalizeHeader(keyword)),
+        ),
+    );
+    for (const header of headers) kindByHeader.set(header, kind);
+    if (headers.length) columns[kind] = headers;
+  }
+
+  const violations: PiiViolation[] = [];
+  let scannedCells = 0;
+
+  sheet.rows.forEach((record, index) => {
+    sheet.headers.forEach((header, columnIndex) => {
+      const value = String(record[header] ?? "").trim();
+      if (!value) return;
+      scannedCells++;
+
+      const declared = kindByHeader.get(header);
+      const reason = declared ? checkMasked(declared, value) : null;
+      const leaked = declared
+        ? null
+        : findScanAllMatch(policy.scanAllCells ?? [], value);
+      if (!reason && !leaked) return;
+
+      violations.push({
+        kind: declared ?? leaked,
+        cell: XLSX.utils.encode_cell({ r: index + 1, c: columnIndex }),
+        row: index + 2,
+        header,
+        shape: shapeOf(value),
+        message: reason ?? `정책 밖 컬럼에 ${leaked} 원문`,
+      });
+    });
+  });
+
+  return {
+    policyId: policy.id,
+    sheetName: sheet.sheetName,
+    ok: violations.length === 0,
+    scannedCells,
+    columns,
+    violations,
+  };
+}
+
+/**
+ * expect 메시지 / 로그용 요약. 원문 값은 포함하지 않는다.
+ */
+export function formatPiiReport(report: PiiReport, limit: number = 5): string {
+  if (report.ok) {
+    return `[${report.policyId}] "${report.sheetName}" 마스킹 위반 없음 (셀 ${report.scannedCells}개)`;
+  }
+  const counts = new Map<string, number>();
+  for (const v of report.violations) {
+    const key = `${v.header}/${v.kind}`;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return [
+    `[${report.policyId}] "${report.sheetName}" 마스킹 위반 ${report.violations.length}건 ` +
+      `(${Array.from(counts, ([key, n]) => `${key}=${n}`).join(", ")})`,
+    ...report.violations
+      .slice(0, limit)
+      .map((v) => `  - ${v.cell} "${v.header}" ${v.message} (형태 ${v.shape})`),
+    ...(report.violations.length > limit
+      ? [`  ... 외 ${report.violations.length - limit}건`]
+      : []),
+  ].join("\n");
+}
+
+// ============================================================================
+// Admin export 정책
+// ============================================================================
+
+/** 주문 엑셀: 주문자 / 수령인 정보 전체 마스킹 */
+export const ORDER_PII_POLICY: PiiPolicy = {
+  id: "order",
+  name: "주문 엑셀",
+  columns: {
+    name: ["주문자명", "주문자", "수령인", "수취인", "받는분"],
+    phone: ["연락처", "휴대폰", "전화번호", "핸드폰"],
+    email: ["이메일", "email"],
+    address: ["주소", "배송지"],
+  },
+  scanAllCells: ["phone", "email"],
+};
+
+/** 회원 목록 */
+export const USER_PII_POLICY: PiiPolicy = {
+  id: "user",
+  name: "회원 엑셀",
+  columns: {
+    name: ["이름", "회원명", "성명"],
+    phone: ["연락처", "휴대폰", "전화번호"],
+    email: ["이메일", "email"],
+    address: ["주소"],
+  },
+  scanAllCells: ["phone", "email"],
+};
+
+/** 이벤트 당첨자 선정 엑셀 */
+export const EVENT_WINNER_PII_POLICY: PiiPolicy = {
+  id: "event-winner",
+  name: "이벤트 당첨자 엑셀",
+  columns: {
+    name: ["이름", "당첨자", "수령인"],
+    phone: ["연락처", "휴대폰", "전화번호"],
+    email: ["이메일", "email"],
+    address: ["주소", "배송지"],
+  },
+  scanAllCells: ["phone", "email"],
+};
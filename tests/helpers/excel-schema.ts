@@ -0,0 +1,479 @@
+/**
+ * Admin 엑셀 export 스키마 검증
+ *
+ * parseExcelOrZip 결과(ParsedSheet)는 모든 값이 문자열이라 spec마다 컬럼 탐색과
+ * 형식 검사를 직접 작성해 왔다. export별 필수 헤더 / 컬럼 타입 / null 허용 / 유일성을
+ * 선언해 두고 validateExcelSheet로 행·컬럼 단위 위반 목록을 받는다.
+ *
+ * @example
+ * ```typescript
+ * const result = validateExcelSheet(sheet, ORDER_EXPORT_SCHEMA);
+ * expect(result.violations, formatViolations(result)).toEqual([]);
+ * if (result.warnings.length) console.warn(formatViolations(result));
+ * const orderCol = result.columns["주문번호"];
+ * ```
+ */
+
+import type { ParsedSheet } from "./excel-parser";
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+export type ExcelColumnType =
+  "string" | "integer" | "date" | "krw" | "orderNumber" | "enum";
+
+export type ExcelColumnSchema = {
+  /** 대표 헤더명 (violations / columns의 key) */
+  header: string;
+  /** 환경·버전별로 다른 헤더명 */
+  aliases?: string[];
+  /** 기본 "string" */
+  type?: ExcelColumnType;
+  /** 헤더 필수 여부 (기본 true). false면 헤더가 있을 때만 값을 검사 */
+  required?: boolean;
+  /** 빈 값 허용 여부 (기본 false) */
+  nullable?: boolean;
+  /** 빈 값을 제외한 값이 시트 안에서 유일해야 하는지 */
+  unique?: boolean;
+  /** type "enum"의 허용 값 (공백 무시 비교) */
+  values?: readonly string[];
+  /** 타입 검사 이후 추가로 맞아야 하는 형식 */
+  pattern?: RegExp;
+  /**
+   * 타입 / 형식 위반을 violations 대신 warnings로만 보고한다.
+   * 실제 export로 확인하지 못한 허용 값 목록(ORDER_STATUSES 등)에 쓴다.
+   */
+  warnOnly?: boolean;
+};
+
+export type ExcelSchema = {
+  id: string;
+  name: string;
+  columns: ExcelColumnSchema[];
+  /**
+   * 1주문 N SKU처럼 주문 헤더 행 뒤에 주문 컬럼이 빈 연속 행이 오는 export의 기준 컬럼.
+   * 이 컬럼이 비어 있고 나머지 스키마 컬럼도 모두 빈 행(SKU 컬럼만 값이 있는 행)을
+   * 연속 행으로 보고 null / 유일성 검사에서 제외한다.
+   */
+  continuationKey?: string;
+  /**
+   * continuationKey 칸에 이 형식의 값이 있어도 연속 행으로 본다 (나머지 스키마 컬럼이 빈 경우만).
+   * 실제 주문 엑셀은 SKU 연속 행의 주문번호 칸에 숫자 송장번호를 넣는다.
+   */
+  continuationKeyPattern?: RegExp;
+};
+
+export type ExcelViolationRule = "header" | "nullable" | "type" | "unique";
+
+export type ExcelViolation = {
+  rule: ExcelViolationRule;
+  /** 스키마의 대표 헤더명 */
+  column: string;
+  /** 시트에서 매칭된 실제 헤더 (헤더 누락이면 null) */
+  header: string | null;
+  /** 엑셀 행 번호 (헤더 = 1행, 첫 데이터 = 2행). 헤더 위반이면 null */
+  row: number | null;
+  value: string;
+  message: string;
+};
+
+export type ExcelSchemaResult = {
+  schemaId: string;
+  sheetName: string;
+  ok: boolean;
+  rowCount: number;
+  /** continuationKey 기준 연속 행 수 */
+  continuationRows: number;
+  /** 대표 헤더명 → 시트의 실제 헤더 (없으면 null) */
+  columns: Record<string, string | null>;
+  violations: ExcelViolation[];
+  /** warnOnly 컬럼의 위반 (ok에 영향 없음) */
+  warnings: ExcelViolation[];
+};
+
+// ============================================================================
+// 값 형식
+// ============================================================================
+
+/** 주문번호는 [A-Z]-XXX 포맷. 숫자 전용(송장번호 등) 값과 구분된다. */
+export const ORDER_NUMBER_PATTERN = /^[A-Z]-[A-Z0-9]+$/i;
+
+/** 주문 엑셀 SKU 연속 행의 주문번호 칸에 들어가는 송장번호 (숫자 전용) */
+export const INVOICE_NUMBER_PATTERN = /^\d+$/;
+
+/**
+ * 주문 / 결제 상태 (Admin 주문관리 필터에서 모은 값).
+ * 실제 export 전체 값과 대조한 목록이 아니므로 스키마에서는 warnOnly로만 쓴다.
+ */
+export const ORDER_STATUSES = [
+  "주문접수",
+  "결제대기",
+  "결제완료",
+  "결제실패",
+  "결제취소",
+  "상품준비중",
+  "배송준비",
+  "배송중",
+  "배송완료",
+  "출고확정",
+  "주문취소",
+  "환불완료",
+] as const;
+
+const INTEGER_PATTERN = /^-?(\d{1,3}(,\d{3})+|\d+)$/;
+
+const normalize = (value: string) => value.replace(/\s+/g, "").toLowerCase();
+
+/**
+ * 원화 금액 문자열 → 숫자 ("12,000", "₩12,000", "12,000원", "12000.00")
+ * 원 단위 미만 값이나 숫자가 아니면 null
+ */
+export function parseKrw(value: string): number | null {
+  const trimmed = value.replace(/[₩원\s]/g, "");
+  if (!/^-?(\d{1,3}(,\d{3})+|\d+)(\.0+)?$/.test(trimmed)) return null;
+  return Number(trimmed.replace(/,/g, ""));
+}
+
+/**
+ * 엑셀 날짜 문자열 → Date (UTC 기준, 시각은 있으면 포함)
+ *
+ * - "2026-01-15", "2026.01.15", "2026/01/15 13:05(:00)"
+ * - SheetJS raw:false 기본 서식 "1/15/26", "1/15/2026 13:05"
+ *
+ * 존재하지 않는 날짜(2월 30일 등)는 null
+ */
+export function parseExcelDate(value: string): Date | null {
+  const trimmed = value.trim();
+  const time = "(?:[ T](\\d{1,2}):(\\d{2})(?::(\\d{2}))?)?";
+  let y: number, m: number, d: number;
+  let rest: string[];
+
+  const ymd = new RegExp(
+    `^(\\d{4})[-./](\\d{1,2})[-./](\\d{1,2})\\.?${time}$`,
+  ).exec(trimmed);
+  const mdy = new RegExp(`^(\\d{1,2})/(\\d{1,2})/(\\d{2}|\\d{4})${time}$`).exec(
+    trimmed,
+  );
+  if (ymd) {
+    [y, m, d] = [Number(ymd[1]), Number(ymd[2]), Number(ymd[3])];
+    rest = ymd.slice(4);
+  } else if (mdy) {
+    const year = Number(mdy[3]);
+    [y, m, d] = [
+      year < 100 ? 2000 + year : year,
+      Number(mdy[1]),
+      Number(mdy[2]),
+    ];
+    rest = mdy.slice(4);
+  } else {
+    return null;
+  }
+
+  const [hh, mm, ss] = rest.map((part) => Number(part ?? 0));
+  if (hh > 23 || mm > 59 || ss > 59) return null;
+  const date = new Date(Date.UTC(y, m - 1, d, hh, mm, ss));
+  if (
+    date.getUTCFullYear() !== y ||
+    date.getUTCMonth() !== m - 1 ||
+    date.getUTCDate() !== d
+  ) {
+    return null;
+  }
+  return date;
+}
+
+/** 위반이면 메시지, 통과면 null */
+function checkType(column: ExcelColumnSchema, value: string): string | null {
+  switch (column.type ?? "string") {
+    case "integer":
+      return INTEGER_PATTERN.test(value) ? null : "정수가 아닙니다";
+    case "krw":
+      return parseKrw(value) === null ? "원화 금액 형식이 아닙니다" : null;
+    case "date":
+      return parseExcelDate(value) ? null : "날짜 형식이 아닙니다";
+    case "orderNumber":
+      return ORDER_NUMBER_PATTERN.test(value)
+        ? null
+        : "주문번호 형식([A-Z]-XXX)이 아닙니다";
+    case "enum": {
+      const allowed = (column.values ?? []).map(normalize);
+      return allowed.includes(normalize(value))
+        ? null
+        : `허용되지 않은 값입니다 (허용: ${(column.values ?? []).join(", ")})`;
+    }
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// 검증
+// ============================================================================
+
+/**
+ * 헤더 목록에서 컬럼 찾기
+ *
+ * 정확 일치 → 공백/대소문자 무시 일치 → 공백/대소문자 무시 부분 일치 순서.
+ * aliases가 있으면 같은 순서로 이어서 시도한다.
+ */
+export function resolveColumn(
+  headers: string[],
+  preferred: string,
+  aliases: string[] = [],
+): string | null {
+  for (const name of [preferred, ...aliases]) {
+    if (headers.includes(name)) return name;
+    const target = normalize(name);
+    for (const h of headers) if (normalize(h) === target) return h;
+    for (const h of headers) if (normalize(h).includes(target)) return h;
+  }
+  return null;
+}
+
+/**
+ * 시트를 스키마로 검증한다. 예외를 던지지 않고 위반 목록을 돌려준다.
+ */
+export function validateExcelSheet(
+  sheet: ParsedSheet,
+  schema: ExcelSchema,
+): ExcelSchemaResult {
+  const violations: ExcelViolation[] = [];
+  const warnings: ExcelViolation[] = [];
+  const columns: Record<string, string | null> = {};
+
+  for (const column of schema.columns) {
+    const header = resolveColumn(sheet.headers, column.header, column.aliases);
+    columns[column.header] = header;
+    if (!header && column.required !== false) {
+      violations.push({
+        rule: "header",
+        column: column.header,
+        header: null,
+        row: null,
+        value: "",
+        message: `필수 헤더 "${column.header}" 없음 (헤더: ${sheet.headers.join(", ")})`,
+      });
+    }
+  }
+
+  const continuationHeader = schema.continuationKey
+    ? columns[schema.continuationKey]
+    : null;
+  const continuationPattern = schema.continuationKeyPattern;
+  // 연속 행이면 비어 있어야 하는 나머지 스키마 컬럼 (주문상태 / 주문일시 / 결제금액 등)
+  const orderLevelHeaders = Object.values(columns).filter(
+    (header): header is string => !!header && header !== continuationHeader,
+  );
+  let continuationRows = 0;
+  const seen = new Map<string, Map<string, number>>();
+
+  sheet.rows.forEach((record, index) => {
+    const row = index + 2;
+    const continuationValue = continuationHeader
+      ? String(record[continuationHeader] ?? "").trim()
+      : null;
+    const isContinuation =
+      continuationValue !== null &&
+      (continuationValue === "" ||
+        (!!continuationPattern &&
+          continuationPattern.test(continuationValue))) &&
+      orderLevelHeaders.every(
+        (header) => String(record[header] ?? "").trim() === "",
+      );
+    if (isContinuation) continuationRows++;
+
+    for (const column of schema.columns) {
+      const header = columns[column.header];
+      if (!header) continue;
+      // 연속 행의 기준 컬럼 값(송장번호 등)은 검사하지 않는다
+      if (isContinuation && header === continuationHeader) continue;
+      const value = String(record[header] ?? "").trim();
+      const base = { column: column.header, header, row, value };
+      const typeViolations = column.warnOnly ? warnings : violations;
+
+      if (!value) {
+        if (!column.nullable && !isContinuation) {
+          violations.push({ ...base, rule: "nullable", message: "빈 값" });
+        }
+        continue;
+      }
+
+      const typeError = checkType(column, value);
+      if (typeError) {
+        typeViolations.push({ ...base, rule: "type", message: typeError });
+      } else if (column.pattern && !column.pattern.test(value)) {
+        typeViolations.push({
+          ...base,
+          rule: "type",
+          message: `형식 ${column.pattern} 불일치`,
+        });
+      }
+
+      if (column.unique && !isContinuation) {
+        const firstRows = seen.get(column.header) ?? new Map<string, number>();
+        seen.set(column.header, firstRows);
+        const firstRow = firstRows.get(value);
+        if (firstRow !== undefined) {
+          violations.push({
+            ...base,
+            rule: "unique",
+            message: `중복 값 (최초 ${firstRow}행)`,
+          });
+        } else {
+          firstRows.set(value, row);
+        }
+      }
+    }
+  });
+
+  return {
+    schemaId: schema.id,
+    sheetName: sheet.sheetName,
+    ok: violations.length === 0,
+    rowCount: sheet.rowCount,
+    continuationRows,
+    columns,
+    violations,
+    warnings,
+  };
+}
+
+/**
+ * expect 메시지용 위반 요약. 규칙·컬럼별 건수와 앞쪽 위반 몇 건을 보여준다.
+ * warnOnly 컬럼의 경고가 있으면 같은 형식으로 이어서 붙인다.
+ */
+export function formatViolations(
+  result: ExcelSchemaResult,
+  limit: number = 5,
+): string {
+  const sections = [
+    { label: "위반", items: result.violations },
+    { label: "경고", items: result.warnings },
+  ].filter(({ items }) => items.length > 0);
+  if (sections.length === 0) {
+    return `[${result.schemaId}] "${result.sheetName}" 위반 없음 (rows=${result.rowCount})`;
+  }
+
+  return sections
+    .flatMap(({ label, items }) => {
+      const counts = new Map<string, number>();
+      for (const v of items) {
+        const key = `${v.column}/${v.rule}`;
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+      const lines = items
+        .slice(0, limit)
+        .map((v) =>
+          v.row === null
+            ? `  - ${v.message}`
+            : `  - ${v.row}행 "${v.column}"=${JSON.stringify(v.value)}: ${v.message}`,
+        );
+      const more =
+        items.length > limit ? [`  ... 외 ${items.length - limit}건`] : [];
+      return [
+        `[${result.schemaId}] "${result.sheetName}" ${label} ${items.length}건 ` +
+          `(${Array.from(counts, ([key, n]) => `${key}=${n}`).join(", ")})`,
+        ...lines,
+        ...more,
+      ];
+    })
+    .join("\n");
+}
+
+// ============================================================================
+// Admin export 스키마
+// ============================================================================
+
+/**
+ * 주문 엑셀 (V1 / V2 / 엑셀다운받기)
+ * 1주문 N SKU는 주문 헤더 행 + 주문번호·주문상태가 빈(또는 주문번호 칸에 숫자 송장번호가 있는)
+ * SKU 연속 행으로 펼쳐진다.
+ */
+export const ORDER_EXPORT_SCHEMA: ExcelSchema = {
+  id: "order",
+  name: "주문 엑셀",
+  continuationKey: "주문번호",
+  continuationKeyPattern: INVOICE_NUMBER_PATTERN,
+  columns: [
+    { header: "주문번호", type: "orderNumber", unique: true },
+    {
+      header: "주문상태",
+      type: "enum",
+      values: ORDER_STATUSES,
+      warnOnly: true,
+    },
+    { header: "주문일시", aliases: ["주문일"], type: "date", required: false },
+    {
+      header: "결제금액",
+      aliases: ["총결제금액"],
+      type: "krw",
+      required: false,
+    },
+  ],
+};
+
+/** 주문-SKU ZIP 내부 엑셀: SKU마다 한 행이라 주문번호가 반복된다. */
+export const ORDER_SKU_EXPORT_SCHEMA: ExcelSchema = {
+  id: "order-sku",
+  name: "주문-SKU 엑셀",
+  columns: [
+    { header: "주문번호", type: "orderNumber" },
+    { header: "SKU코드", aliases: ["SKU"], required: false },
+    { header: "수량", type: "integer", required: false },
+  ],
+};
+
+/** 회원 목록 (B2C) */
+export const USER_EXPORT_SCHEMA: ExcelSchema = {
+  id: "user",
+  name: "회원 엑셀",
+  columns: [
+    { header: "ID", type: "integer", unique: true },
+    {
+      header: "이메일",
+      required: false,
+      nullable: true,
+      pattern: /^[^@\s]+@[^@\s]+$/,
+    },
+    { header: "가입일", aliases: ["가입일시"], type: "date", required: false },
+  ],
+};
+
+/** SKU 목록 */
+export const SKU_EXPORT_SCHEMA: ExcelSchema = {
+  id: "sku",
+  name: "SKU 엑셀",
+  columns: [
+    { header: "SKU코드", unique: true },
+    { header: "상품명", required: false },
+    { header: "판매가", type: "krw", required: false, nullable: true },
+  ],
+};
+
+/** 대분류 목록 */
+export const CATEGORY_EXPORT_SCHEMA: ExcelSchema = {
+  id: "category",
+  name: "대분류 엑셀",
+  columns: [
+    { header: "ID", type: "integer", unique: true },
+    { header: "등록일", aliases: ["등록일시"], type: "date", required: false },
+  ],
+};
+
+/** 상품 목록 > 출고엑셀: 출고 품목마다 한 행이라 주문번호가 반복된다. */
+export const EVENT_SHIPMENT_EXPORT_SCHEMA: ExcelSchema = {
+  id: "event-shipment",
+  name: "출고 엑셀",
+  columns: [
+    { header: "주문번호", type: "orderNumber" },
+    {
+      header: "주문상태",
+      type: "enum",
+      values: ORDER_STATUSES,
+      required: false,
+      warnOnly: true,
+    },
+    { header: "수량", aliases: ["출고수량"], type: "integer", required: false },
+  ],
+};
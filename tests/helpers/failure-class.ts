@@ -0,0 +1,33 @@
+/**
+ * 실패 / skip 분류 annotation — lib/failure-class-reporter.js가 에러 메시지 규칙보다 먼저 본다.
+ *
+ * 사용:
+ * ```ts
+ * // 이후 이 테스트의 실패 / skip은 environment로 분류
+ * markFailureClass("environment", "STG 결제 PG 샌드박스 의존");
+ * // 조건 상품이 없으면 앱 실패가 아니라 data-unavailable로 skip (docs/cmr-test-products.md)
+ * skipDataUnavailable(candidates.length === 0, "가격 옵션 상품 없음");
+ * ```
+ */
+
+import { test } from "@playwright/test";
+
+export type FailureClass =
+  | "app-defect"
+  | "test-data-unavailable"
+  | "auth-expired"
+  | "environment"
+  | "selector-drift";
+
+export function markFailureClass(category: FailureClass, reason?: string) {
+  test.info().annotations.push({
+    type: "failure-class",
+    description: reason ? `${category}: ${reason}` : category,
+  });
+}
+
+export function skipDataUnavailable(condition: boolean, reason: string) {
+  if (!condition) return;
+  markFailureClass("test-data-unavailable", reason);
+  test.skip(true, `data-unavailable: ${reason}`);
+}
@@ -0,0 +1,468 @@
+/**
+ * Toss Payment Widget / Gateway 로컬 fake
+ *
+ * MakestarPaymentPage의 Toss 관련 메서드(waitForTossWidget, closeTosspayOverlay,
+ * selectPaymentMethod, selectCardIssuer, fillCardNumber, submitCardPayment 등)를
+ * live Toss sandbox 없이 검증하기 위해, 결제 페이지와 Toss iframe을 route
+ * interception으로 흉내 낸다. 모든 요청은 fulfill 또는 abort되므로 네트워크가 필요 없다.
+ *
+ * 흉내 내는 흐름 (실제 stage 결제 흐름 기준):
+ *   /payments (동의 체크박스 + Proceed)
+ *     → 1차 Proceed: make_order + payment-widget iframe + TOSSPAY(gateway) 모달
+ *     → "인증 취소"로 TOSSPAY 모달 닫기 → 위젯에서 카드/카드사 선택
+ *     → 2차 Proceed: make_order + 카드 입력 iframe (/pc/payment-method/card/option)
+ *     → Next-{카드사} Pay: card-authentication/{카드사}/confirm
+ *     → 시나리오에 따라 processing → success / fail 리다이렉트
+ *
+ * 시나리오:
+ *   approved — confirm 200 → /payments/toss/processing?orderId&paymentKey&amount
+ *              → /payments/toss/success
+ *   declined — confirm 403 (REJECT_CARD_COMPANY) → /payments/toss/fail?code&message&orderId
+ *   timeout  — confirm 응답이 오지 않음 (release() 또는 context 종료 시 abort)
+ *
+ * 사용:
+ * ```ts
+ * const toss = await installFakeToss(context, { scenario: "declined" });
+ * const payment = new MakestarPaymentPage(page, toss.baseUrl);
+ * await payment.gotoPayments();
+ * ```
+ *
+ * @see tests/pages/makestar-payment.page.ts
+ * @see tests/fixtures/cmr-payment.ts
+ */
+
+import type { BrowserContext, Route } from "@playwright/test";
+import { TOSS_IDENTIFIERS } from "../fixtures/cmr-payment";
+
+export type FakeTossScenario = "approved" | "declined" | "timeout";
+
+export type FakeTossOptions = {
+  scenario?: FakeTossScenario;
+  /** fake 결제 페이지 origin. 실제 도메인과 섞이지 않게 기본값은 .test 도메인 */
+  baseUrl?: string;
+  /** 주문 총액(KRW). Proceed 버튼 텍스트와 processing amount 파라미터에 사용 */
+  amount?: number;
+  /** 필수 동의 체크박스 수 */
+  agreementCount?: number;
+  /** true면 "items unavailable" 경고를 띄우고 Proceed를 비활성화한다 */
+  unavailableItems?: boolean;
+};
+
+export type FakeTossConfirmRequest = {
+  issuer: string;
+  orderId: string;
+  amount: number;
+  cardNumber: string;
+};
+
+export type FakeTossController = {
+  readonly baseUrl: string;
+  readonly scenario: FakeTossScenario;
+  readonly orderId: string;
+  readonly amount: number;
+  /** make_order 호출 횟수 (1차/2차 Proceed) */
+  makeOrderCount: () => number;
+  /** card-authentication confirm 요청 본문 목록 */
+  confirmRequests: () => FakeTossConfirmRequest[];
+  /** fake 외 요청(차단됨) 목록 — 페이지가 예상치 못한 리소스를 요청했는지 확인용 */
+  blockedRequests: () => string[];
+  /** timeout 시나리오에서 보류 중인 confirm 요청을 abort로 정리 */
+  release: () => Promise<void>;
+};
+
+export const FAKE_TOSS_BASE_URL = "https://fake-payments.makestar.test";
+
+export const FAKE_TOSS_DECLINE = {
+  code: "REJECT_CARD_COMPANY",
+  message: "카드사에서 결제를 거절했습니다.",
+} as const;
+
+const WIDGET_ORIGIN = `https://${TOSS_IDENTIFIERS.widgetHost}`;
+const GATEWAY_ORIGIN = `https://${TOSS_IDENTIFIERS.gatewayHost}`;
+const CARD_ISSUERS = ["VISA", "MASTER", "UNIONPAY", "JCB"] as const;
+
+// ============================================================================
+// Fake 페이지 HTML
+// ============================================================================
+
+function html(title: string, body: string): string {
+  return `<!doctype html><html lang="ko"><head><meta charset="utf-8"><title>${title}</title></head><body>${body}</body></html>`;
+}
+
+function formatKrw(amount: number): string {
+  return `₩ ${amount.toLocaleString("en-US")}`;
+}
+
+function renderPaymentsPage(
+  config: Required<Omit<FakeTossOptions, "scenario">>,
+): string {
+  const agreements = Array.from(
+    { length: config.agreementCount },
+    (_, index) =>
+      `<label><input type="checkbox" name="agreement-${index}"> 필수 동의 ${index + 1}</label>`,
+  ).join("");
+  const warning = config.unavailableItems
+    ? `<p role="alert">There are items unavailable for purchase</p>`
+    : "";
+
+  return html(
+    "Order Review",
+    `<main>
+  <h1>Order Review</h1>
+  ${warning}
+  <section id="agreements">${agreements}</section>
+  <section id="payment-widget"></section>
+  <button id="proceed" type="button" disabled>Proceed to Payment ${formatKrw(config.amount)}</button>
+</main>
+<script>
+  const config = ${JSON.stringify({
+    widgetOrigin: WIDGET_ORIGIN,
+    gatewayOrigin: GATEWAY_ORIGIN,
+    unavailableItems: config.unavailableItems,
+  })};
+  const proceed = document.getElementById("proceed");
+  const boxes = Array.from(document.querySelectorAll('input[type="checkbox"]'));
+  let issuer = null;
+
+  const sync = () => {
+    proceed.disabled = config.unavailableItems || !boxes.every((box) => box.checked);
+  };
+  boxes.forEach((box) => box.addEventListener("change", sync));
+
+  const mountFrame = (id, src) => {
+    document.getElementById(id)?.remove();
+    const frame = document.createElement("iframe");
+    frame.id = id;
+    frame.src = src;
+    frame.width = "600";
+    frame.height = "400";
+    document.getElementById("payment-widget").appendChild(frame);
+  };
+
+  window.addEventListener("message", (event) => {
+    const data = event.data || {};
+    if (data.type === "fake-toss:close-gateway") document.getElementById("tosspay")?.remove();
+    if (data.type === "fake-toss:issuer") issuer = data.issuer;
+    if (data.type === "fake-toss:redirect") location.href = data.url;
+  });
+
+  proceed.addEventListener("click", async () => {
+    const res = await fetch("/api/commerce/order/make_order/", { method: "POST" });
+    if (!res.ok) return;
+    const order = await res.json();
+
+    // 1차 Proceed: 위젯 + TOSSPAY 기본 모달
+    if (!document.getElementById("widget")) {
+      mountFrame("widget", config.widgetOrigin + "/fake/widget?orderId=" + order.order_id);
+      mountFrame("tosspay", config.gatewayOrigin + "/fake/tosspay");
+      return;
+    }
+    // 2차 Proceed: 카드사 선택 후 카드 입력 iframe
+    if (!issuer) return;
+    mountFrame(
+      "card",
+      config.gatewayOrigin + "/pc/payment-method/card/option?" +
+        new URLSearchParams({ issuer, orderId: order.order_id, amount: String(order.amount) }),
+    );
+  });
+</script>`,
+  );
+}
+
+function renderTosspayPage(): string {
+  return html(
+    "TOSSPAY",
+    `<div role="dialog" aria-label="토스페이">
+  <p>휴대폰번호로 결제</p>
+  <button type="button" aria-label="인증 취소">인증 취소</button>
+</div>
+<script>
+  document.querySelector('button[aria-label="인증 취소"]').addEventListener("click", () => {
+    parent.postMessage({ type: "fake-toss:close-gateway" }, "*");
+  });
+</script>`,
+  );
+}
+
+function renderWidgetPage(): string {
+  const methods = ["신용·체크카드", "가상계좌", "퀵계좌이체", "휴대폰"]
+    .map(
+      (label) =>
+        `<button type="button" aria-label="${label} 결제">${label}</button>`,
+    )
+    .join("");
+  const options = CARD_ISSUERS.map(
+    (issuer) => `<li role="option" aria-selected="false">${issuer}</li>`,
+  ).join("");
+
+  return html(
+    "Payment Widget",
+    `<section id="methods">${methods}</section>
+<section id="card-section"></section>
+<template id="card-template">
+  <select hidden aria-hidden="true"></select>
+  <div role="combobox" aria-label="카드사 선택" aria-expanded="false" aria-controls="issuers" tabindex="0">카드사 선택</div>
+  <ul role="listbox" id="issuers" hidden>${options}</ul>
+</template>
+<script>
+  const section = document.getElementById("card-section");
+  document.querySelector('button[aria-label^="신용·체크카드"]').addEventListener("click", () => {
+    if (section.childElementCount > 0) return;
+    section.appendChild(document.getElementById("card-template").content.cloneNode(true));
+
+    const combobox = section.querySelector('[role="combobox"]');
+    const listbox = section.querySelector('[role="listbox"]');
+    combobox.addEventListener("click", () => {
+      const expanded = combobox.getAttribute("aria-expanded") !== "true";
+      combobox.setAttribute("aria-expanded", String(expanded));
+      listbox.hidden = !expanded;
+    });
+    listbox.querySelectorAll('[role="option"]').forEach((option) => {
+      option.addEventListener("click", () => {
+        const issuer = option.textContent.trim();
+        combobox.textContent = issuer;
+        combobox.setAttribute("aria-expanded", "false");
+        listbox.hidden = true;
+        parent.postMessage({ type: "fake-toss:issuer", issuer }, "*");
+      });
+    });
+  });
+</script>`,
+  );
+}
+
+function renderCardPage(
+  issuer: string,
+  orderId: string,
+  amount: string,
+): string {
+  const cardInputs = [0, 1, 2, 3]
+    .map(
+      (index) =>
+        `<input name="cardNumber.${index}" inputmode="numeric" maxlength="4" aria-label="카드번호 ${index + 1}">`,
+    )
+    .join("");
+
+  return html(
+    "Card",
+    `<form id="card-form">
+  <fieldset>${cardInputs}</fieldset>
+  <input name="cardExpiry" placeholder="MM/YY" aria-label="유효기간">
+  <input name="email" type="email" aria-label="이메일">
+  <label><input type="checkbox" name="terms-0"> 전자금융거래 이용약관</label>
+  <label><input type="checkbox" name="terms-1"> 개인정보 수집 및 이용</label>
+  <button type="button" aria-label="Next-${issuer} Pay" disabled>${issuer} Pay</button>
+  <p id="status" role="status"></p>
+</form>
+<script>
+  const params = ${JSON.stringify({ issuer, orderId, amount })};
+  const form = document.getElementById("card-form");
+  const pay = form.querySelector('button[aria-label^="Next-"]');
+  const status = document.getElementById("status");
+  const value = (name) => form.querySelector('[name="' + name + '"]').value.trim();
+  const cardNumber = () => [0, 1, 2, 3].map((i) => value("cardNumber." + i)).join("");
+
+  const sync = () => {
+    pay.disabled =
+      !/^\\d{16}$/.test(cardNumber()) ||
+      !/^\\d{2}\\/\\d{2}$/.test(value("cardExpiry")) ||
+      !value("email").includes("@") ||
+      !Array.from(form.querySelectorAll('input[type="checkbox"]')).every((box) => box.checked);
+  };
+  form.addEventListener("input", sync);
+  form.addEventListener("change", sync);
+
+  pay.addEventListener("click", async () => {
+    pay.disabled = true;
+    status.textContent = "결제 진행 중";
+    const res = await fetch("/card-authentication/" + params.issuer + "/confirm", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...params, amount: Number(params.amount), cardNumber: cardNumber() }),
+    }).catch(() => null);
+    if (!res) {
+      status.textContent = "결제 응답 없음";
+      return;
+    }
+    const body = await res.json().catch(() => ({}));
+    parent.postMessage({ type: "fake-toss:redirect", url: body.redirectUrl }, "*");
+  });
+</script>`,
+  );
+}
+
+// ============================================================================
+// Route 설치
+// ============================================================================
+
+async function fulfillHtml(route: Route, body: string): Promise<void> {
+  await route.fulfill({
+    status: 200,
+    contentType: "text/html; charset=utf-8",
+    body,
+  });
+}
+
+/**
+ * BrowserContext에 fake Toss 라우팅을 설치합니다.
+ *
+ * catch-all abort route를 먼저 등록하고 fake route를 나중에 등록한다.
+ * Playwright route는 등록 역순으로 평가되므로 fake가 처리하지 않는 요청만
+ * 차단되어 blockedRequests()에 기록된다.
+ */
+export async function installFakeToss(
+  context: BrowserContext,
+  options: FakeTossOptions = {},
+): Promise<FakeTossController> {
+  const scenario = options.scenario ?? "approved";
+  const baseUrl = (options.baseUrl ?? FAKE_TOSS_BASE_URL).replace(/\/+$/, "");
+  const amount = options.amount ?? 19560;
+  const orderId = `CWEB${Date.now()}`;
+  const config = {
+    baseUrl,
+    amount,
+    agreementCount: options.agreementCount ?? 6,
+    unavailableItems: options.unavailableItems ?? false,
+  };
+
+  let makeOrderCount = 0;
+  const confirmRequests: FakeTossConfirmRequest[] = [];
+  const blockedRequests: string[] = [];
+  const pendingConfirms: Route[] = [];
+
+  await context.route("**/*", async (route) => {
+    blockedRequests.push(
+      `${route.request().method()} ${route.request().url()}`,
+    );
+    await route.abort("internetdisconnected");
+  });
+
+  await context.route(`${baseUrl}/**`, async (route) => {
+    const url = new URL(route.request().url());
+
+    if (/\/commerce\/order\/make_order\/$/.test(url.pathname)) {
+      makeOrderCount += 1;
+      await route.fulfill({
+        status: 200,
+        contentType: "application/json",
+        body: JSON.stringify({
+          request_id: `fake-${makeOrderCount}`,
+          order_id: orderId,
+          amount,
+        }),
+      });
+      return;
+    }
+    if (url.pathname === "/payments") {
+      await fulfillHtml(route, renderPaymentsPage(config));
+      return;
+    }
+    if (url.pathname === "/payments/toss/processing") {
+      // 실제 processing 페이지처럼 파라미터를 제거하고 success로 이동
+      await fulfillHtml(
+        route,
+        html(
+          "Processing",
+          `<p>Processing...</p><script>location.replace("/payments/toss/success");</script>`,
+        ),
+      );
+      return;
+    }
+    if (url.pathname === "/payments/toss/success") {
+      await fulfillHtml(
+        route,
+        html(
+          "Success",
+          `<h1>Your payment has been successfully completed.</h1>`,
+        ),
+      );
+      return;
+    }
+    if (url.pathname === "/payments/toss/fail") {
+      await fulfillHtml(
+        route,
+        html(
+          "Fail",
+          `<h1>Payment failed</h1><p id="code">${url.searchParams.get("code") ?? ""}</p>`,
+        ),
+      );
+      return;
+    }
+    await route.fulfill({ status: 404, body: "not found" });
+  });
+
+  await context.route(`${WIDGET_ORIGIN}/**`, (route) =>
+    fulfillHtml(route, renderWidgetPage()),
+  );
+
+  await context.route(`${GATEWAY_ORIGIN}/**`, async (route) => {
+    const url = new URL(route.request().url());
+
+    if (url.pathname === "/fake/tosspay") {
+      await fulfillHtml(route, renderTosspayPage());
+      return;
+    }
+    if (url.pathname === "/pc/payment-method/card/option") {
+      await fulfillHtml(
+        route,
+        renderCardPage(
+          url.searchParams.get("issuer") ?? "VISA",
+          url.searchParams.get("orderId") ?? orderId,
+          url.searchParams.get("amount") ?? String(amount),
+        ),
+      );
+      return;
+    }
+
+    const confirm = url.pathname.match(
+      /^\/card-authentication\/([A-Z_]+)\/confirm$/,
+    );
+    if (confirm && route.request().method() === "POST") {
+      const body = route.request().postDataJSON() as FakeTossConfirmRequest;
+      confirmRequests.push({ ...body, issuer: confirm[1] });
+
+      if (scenario === "timeout") {
+        pendingConfirms.push(route);
+        return;
+      }
+      if (scenario === "declined") {
+        const failUrl = `${baseUrl}/payments/toss/fail?${new URLSearchParams({
+          ...FAKE_TOSS_DECLINE,
+          orderId: body.orderId,
+        })}`;
+        await route.fulfill({
+          status: 403,
+          contentType: "application/json",
+          body: JSON.stringify({ ...FAKE_TOSS_DECLINE, redirectUrl: failUrl }),
+        });
+        return;
+      }
+      const paymentKey = `fake_pk_${body.orderId}`;
+      const processingUrl = `${baseUrl}/payments/toss/processing?${new URLSearchParams(
+        { orderId: body.orderId, paymentKey, amount: String(body.amount) },
+      )}`;
+      await route.fulfill({
+        status: 200,
+        contentType: "application/json",
+        body: JSON.stringify({ paymentKey, redirectUrl: processingUrl }),
+      });
+      return;
+    }
+    await route.fulfill({ status: 404, body: "not found" });
+  });
+
+  return {
+    baseUrl,
+    scenario,
+    orderId,
+    amount,
+    makeOrderCount: () => makeOrderCount,
+    confirmRequests: () => confirmRequests.slice(),
+    blockedRequests: () => blockedRequests.slice(),
+    release: async () => {
+      for (const route of pendingConfirms.splice(0)) {
+        await route.abort("timedout").catch(() => {});
+      }
+    },
+  };
+}
@@ -1,3 +1,15 @@
+/**
+ * 실패해도 테스트를 계속 진행하는 선택 단계 (팝업 닫기 등)
+ *
+ * 삼킨 에러는 테스트 안에서 호출된 경우 `optional-step-failed` annotation으로 남긴다.
+ * lib/assertion-audit-reporter.js가 이를 세어, 통과했지만 선택 단계 에러를 삼킨 테스트를
+ * "suspicious green"으로 표시한다. (global setup 등 테스트 밖에서는 기록하지 않음)
+ */
+
+import { test } from "@playwright/test";
+
+export const OPTIONAL_STEP_FAILED_ANNOTATION = "optional-step-failed";
+
 type OptionalStepOptions = {
   label?: string;
   warn?: boolean;
@@ -7,6 +19,19 @@ function formatOptionalError(error: unknown): string {
   return error instanceof Error ? error.message : String(error);
 }
 
+function recordOptionalStepFailure(label: string, message: string) {
+  let annotations: { type: string; description?: string }[];
+  try {
+    annotations = test.info().annotations;
+  } catch {
+    return; // 테스트 실행 중이 아님
+  }
+  annotations.push({
+    type: OPTIONAL_STEP_FAILED_ANNOTATION,
+    description: `${label}: ${message.split("\n")[0].slice(0, 200)}`,
+  });
+}
+
 export async function runOptionalStep<T>(
   step: () => Promise<T>,
   options: OptionalStepOptions = {},
@@ -14,10 +39,11 @@ export async function runOptionalStep<T>(
   try {
     return await step();
   } catch (error: unknown) {
+    const label = options.label ?? "unnamed";
+    const message = formatOptionalError(error);
+    recordOptionalStepFailure(label, message);
     if (options.warn) {
-      console.warn(
-        `[optional-step] ${options.label ?? "unnamed"}: ${formatOptionalError(error)}`,
-      );
+      console.warn(`[optional-step] ${label}: ${message}`);
     }
     return undefined;
   }
@@ -0,0 +1,344 @@
+/**
+ * 성능(Web Vitals / 로드 시간) 시계열 저장 + 페이지별 예산 + rolling baseline 회귀 판정
+ *
+ * `MakestarPage.measureWebVitals` / `AlbumBuddyPage.measureHomePagePerformance` 결과를
+ * 페이지 + 환경별 시계열로 남기고, 다음 실행에서 최근 N회의 p75와 비교한다.
+ *  - 예산(tests/fixtures/perf-budgets.json): 값이 예산을 넘으면 error
+ *  - 회귀: p75 × (1 + tolerancePct) 와 p75 + minDelta 를 모두 넘으면 후보(warn),
+ *    그중 최근 N회 중앙값 기준 robust z-score(MAD)가 zScore 이상인 경우만 error
+ *    → 평소에도 들쭉날쭉한 지표의 한 번 느린 실행으로는 실패하지 않는다.
+ *  - 0은 측정 실패(미수집)로 보고 비교하지 않는다 (cls 제외).
+ *  - error로 판정된 표본과 재시도 회차의 표본은 시계열에 추가하지 않는다
+ *    → 느린 실행이 baseline에 섞여 다음 실행의 기준까지 느슨해지는 것을 막는다.
+ *
+ * 저장 구조:
+ *   {PERF_HISTORY_DIR}/web-vitals-{env}.jsonl   ← 한 줄에 PerfSample 하나 (append-only)
+ *
+ * 환경변수:
+ *   PERF_HISTORY=true  — recordPerfSample()이 시계열을 읽어 비교한 뒤 현재 값을 추가 (기본: 예산만 검사)
+ *   PERF_HISTORY_DIR   — 저장 루트 (기본: perf-history)
+ *   PERF_ENV           — 시계열 환경 키 (기본: ENVIRONMENT_INPUT, 없으면 prod)
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/** 지표 이름 → 값. WebVitalsResult + totalTime, PerformanceResult.loadTime 등 */
+export type PerfMetrics = Record<string, number>;
+
+export type PerfSample = {
+  pageId: string;
+  env: string;
+  capturedAt: string;
+  runId: string | null;
+  metrics: PerfMetrics;
+};
+
+export type PerfTrendSettings = {
+  /** 회귀를 판정할 지표 (예산은 지표와 무관하게 항상 검사) */
+  metrics: string[];
+  /** baseline으로 쓸 최근 실행 수 */
+  baselineRuns: number;
+  /** 이보다 표본이 적으면 회귀 판정 생략 */
+  minSamples: number;
+  percentile: number;
+  tolerancePct: number;
+  zScore: number;
+  /** 지표별 최소 증가량 (없으면 default) */
+  minDelta: Record<string, number> & { default: number };
+};
+
+export type PerfBudgetConfig = {
+  defaults: PerfTrendSettings;
+  pages: Record<string, PerfMetrics>;
+  envs?: Record<string, Record<string, PerfMetrics>>;
+};
+
+export type PerfBaselineStats = {
+  samples: number;
+  percentile: number;
+  median: number;
+  mad: number;
+};
+
+export type PerfFinding = {
+  kind: "budget" | "regression";
+  severity: "error" | "warn";
+  metric: string;
+  value: number;
+  limit: number;
+  message: string;
+};
+
+export type PerfTrendResult = {
+  pageId: string;
+  env: string;
+  sample: PerfSample;
+  baseline: Record<string, PerfBaselineStats>;
+  findings: PerfFinding[];
+  errors: PerfFinding[];
+};
+
+const DEFAULT_HISTORY_DIR = path.resolve(__dirname, "../../perf-history");
+export const DEFAULT_PERF_BUDGETS_PATH = path.resolve(
+  __dirname,
+  "../fixtures/perf-budgets.json",
+);
+/** MAD → 정규분포 표준편차 환산 계수 */
+const MAD_TO_SIGMA = 1.4826;
+
+export function getPerfHistoryDir(env: NodeJS.ProcessEnv = process.env) {
+  return env.PERF_HISTORY_DIR
+    ? path.resolve(env.PERF_HISTORY_DIR)
+    : DEFAULT_HISTORY_DIR;
+}
+
+export function isPerfHistoryEnabled(
+  env: NodeJS.ProcessEnv = process.env,
+): boolean {
+  return env.PERF_HISTORY === "true";
+}
+
+export function getPerfEnv(env: NodeJS.ProcessEnv = process.env): string {
+  return env.PERF_ENV || env.ENVIRONMENT_INPUT || "prod";
+}
+
+/** 환경 키("prod" / "stg")를 시계열 파일 경로로 변환. 파일명에 못 쓰는 키는 거부 */
+export function getPerfHistoryPath(
+  perfEnv: string,
+  dir: string = getPerfHistoryDir(),
+): string {
+  if (!/^[A-Za-z0-9_-]+$/.test(perfEnv)) {
+    throw new Error(`잘못된 성능 시계열 환경 키입니다: ${perfEnv}`);
+  }
+  return path.join(dir, `web-vitals-${perfEnv}.jsonl`);
+}
+
+export function loadPerfBudgets(
+  filePath: string = DEFAULT_PERF_BUDGETS_PATH,
+): PerfBudgetConfig {
+  return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+}
+
+// ============================================================================
+// 통계
+// ============================================================================
+
+/** 선형 보간 백분위수 (p: 0~100) */
+export function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function isMeasured(metric: string, value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    (value > 0 || (metric === "cls" && value === 0))
+  );
+}
+
+function formatValue(metric: string, value: number): string {
+  return metric === "cls"
+    ? String(Math.round(value * 1000) / 1000)
+    : `${Math.round(value)}ms`;
+}
+
+// ============================================================================
+// 판정
+// ============================================================================
+
+/**
+ * 현재 표본을 예산과 이전 시계열(같은 페이지 / 환경, 오래된 순)로 판정한다.
+ */
+export function evaluatePerfSample(
+  sample: PerfSample,
+  history: PerfSample[],
+  budget: PerfMetrics,
+  settings: PerfTrendSettings,
+): PerfTrendResult {
+  const findings: PerfFinding[] = [];
+
+  for (const [metric, limit] of Object.entries(budget)) {
+    const value = sample.metrics[metric];
+    if (!isMeasured(metric, value) || value <= limit) continue;
+    findings.push({
+      kind: "budget",
+      severity: "error",
+      metric,
+      value,
+      limit,
+      message: `${metric} ${formatValue(metric, value)} > 예산 ${formatValue(metric, limit)}`,
+    });
+  }
+
+  const baseline: Record<string, PerfBaselineStats> = {};
+  const window = history.slice(-settings.baselineRuns);
+  for (const metric of settings.metrics) {
+    const value = sample.metrics[metric];
+    if (!isMeasured(metric, value)) continue;
+    const values = window
+      .map((item) => item.metrics[metric])
+      .filter((item): item is number => isMeasured(metric, item));
+    if (values.length < settings.minSamples) continue;
+
+    const median = percentile(values, 50);
+    const stats: PerfBaselineStats = {
+      samples: values.length,
+      percentile: percentile(values, settings.percentile),
+      median,
+      mad: percentile(
+        values.map((item) => Math.abs(item - median)),
+        50,
+      ),
+    };
+    baseline[metric] = stats;
+
+    const limit = Math.max(
+      stats.percentile * (1 + settings.tolerancePct / 100),
+      stats.percentile +
+        (settings.minDelta[metric] ?? settings.minDelta.default),
+    );
+    if (value <= limit) continue;
+
+    const sigma = stats.mad * MAD_TO_SIGMA;
+    const z = sigma > 0 ? (value - median) / sigma : Infinity;
+    const changePct = Math.round(
+      ((value - stats.percentile) / stats.percentile) * 100,
+    );
+    findings.push({
+      kind: "regression",
+      severity: z >= settings.zScore ? "error" : "warn",
+      metric,
+      value,
+      limit,
+      message: `${metric} ${formatValue(metric, value)} — 최근 ${stats.samples}회 p${settings.percentile} ${formatValue(metric, stats.percentile)} 대비 +${changePct}% (z=${Number.isFinite(z) ? z.toFixed(1) : "∞"})`,
+    });
+  }
+
+  return {
+    pageId: sample.pageId,
+    env: sample.env,
+    sample,
+    baseline,
+    findings,
+    errors: findings.filter((finding) => finding.severity === "error"),
+  };
+}
+
+export function formatPerfTrend(result: PerfTrendResult): string {
+  const head = `[${result.pageId} @ ${result.env}]`;
+  if (result.findings.length === 0) {
+    const compared = Object.keys(result.baseline);
+    return compared.length > 0
+      ? `${head} 예산 / 최근 실행 대비 이상 없음 (${compared.join(", ")})`
+      : `${head} 예산 이내 (비교할 시계열 부족)`;
+  }
+  return [
+    `${head} ${result.findings.length}건 (error ${result.errors.length})`,
+    ...result.findings.map(
+      (finding) => `  - [${finding.severity}] ${finding.message}`,
+    ),
+  ].join("\n");
+}
+
+// ============================================================================
+// 저장 / 비교
+// ============================================================================
+
+/** 페이지 하나의 시계열 (오래된 순). 깨진 줄은 건너뛴다 */
+export function readPerfHistory(
+  pageId: string,
+  perfEnv: string,
+  dir: string = getPerfHistoryDir(),
+): PerfSample[] {
+  const filePath = getPerfHistoryPath(perfEnv, dir);
+  if (!fs.existsSync(filePath)) return [];
+  const samples: PerfSample[] = [];
+  for (const line of fs.readFileSync(filePath, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const sample = JSON.parse(line) as PerfSample;
+      if (sample.pageId === pageId) samples.push(sample);
+    } catch {
+      // 중단된 기록의 잘린 줄
+    }
+  }
+  return samples;
+}
+
+export function appendPerfSample(
+  sample: PerfSample,
+  dir: string = getPerfHistoryDir(),
+): string {
+  const filePath = getPerfHistoryPath(sample.env, dir);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  // 잘린 줄로 끝나면 새 줄에서 시작해 현재 표본까지 깨지지 않게 한다
+  const size = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+  let prefix = "";
+  if (size > 0) {
+    const fd = fs.openSync(filePath, "r");
+    const last = Buffer.alloc(1);
+    fs.readSync(fd, last, 0, 1, size - 1);
+    fs.closeSync(fd);
+    if (last.toString() !== "\n") prefix = "\n";
+  }
+  fs.appendFileSync(filePath, prefix + JSON.stringify(sample) + "\n");
+  return filePath;
+}
+
+/**
+ * spec에서 호출하는 훅. 예산은 항상 검사하고, PERF_HISTORY=true일 때만
+ * 시계열과 비교한 뒤 현재 값을 추가한다 (error 판정이거나 retry > 0이면 추가하지 않음).
+ * budget을 넘기면 설정 파일의 같은 지표 예산을 덮어쓴다 (예: CMR_PAGE_LOAD_THRESHOLD).
+ */
+export function recordPerfSample(
+  pageId: string,
+  metrics: PerfMetrics,
+  options: {
+    env?: string;
+    dir?: string;
+    config?: PerfBudgetConfig;
+    budget?: PerfMetrics;
+    now?: number;
+    /** test.info().retry — 재시도 회차의 측정값은 baseline에 남기지 않는다 */
+    retry?: number;
+  } = {},
+): PerfTrendResult {
+  const config = options.config ?? loadPerfBudgets();
+  const perfEnv = options.env ?? getPerfEnv();
+  const budget = {
+    ...config.pages[pageId],
+    ...config.envs?.[perfEnv]?.[pageId],
+    ...options.budget,
+  };
+  const sample: PerfSample = {
+    pageId,
+    env: perfEnv,
+    capturedAt: new Date(options.now ?? Date.now()).toISOString(),
+    runId: process.env.GITHUB_RUN_ID ?? null,
+    metrics,
+  };
+  if (!isPerfHistoryEnabled()) {
+    return evaluatePerfSample(sample, [], budget, config.defaults);
+  }
+
+  const dir = options.dir ?? getPerfHistoryDir();
+  const result = evaluatePerfSample(
+    sample,
+    readPerfHistory(pageId, perfEnv, dir),
+    budget,
+    config.defaults,
+  );
+  if (result.errors.length === 0 && !(options.retry > 0)) {
+    appendPerfSample(sample, dir);
+  }
+  return result;
+}
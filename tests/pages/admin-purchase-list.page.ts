@@ -669,7 +669,7 @@ export class PurchaseListPage extends AdminBasePage {
   private extractKeywordFromRowText(rowText: string): string {
     const normalized = this.normalize(rowText);
     const alphaNumericTokens =
-      normalized.match(/[A-Za-z0-9][A-Za-z0-9/_\-]{3,}/g) ?? [];
+      normalized.match(/[A-Za-z0-9][A-Za-z0-9/_\-]{3,}/g) ?? ([] as string[]);
 
     const preferredAlphaToken = alphaNumericTokens.find(
       (token) => !/^\d{4,}$/.test(token) && !/^(true|false)$/i.test(token),
@@ -678,7 +678,8 @@ export class PurchaseListPage extends AdminBasePage {
       return preferredAlphaToken;
     }
 
-    const koreanTokens = normalized.match(/[가-힣][가-힣0-9]{1,}/g) ?? [];
+    const koreanTokens =
+      normalized.match(/[가-힣][가-힣0-9]{1,}/g) ?? ([] as string[]);
     const preferredKoreanToken = koreanTokens.find(
       (token) => token.length >= 2,
     );
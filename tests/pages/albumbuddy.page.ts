@@ -13,6 +13,7 @@ import {
 } from "./base.page";
 import * as fs from "fs";
 import * as path from "path";
+import { readAuthJsonFile } from "../../scripts/auth-crypto";
 
 // ============================================================================
 // 타입 정의
@@ -152,7 +153,7 @@ export class AlbumBuddyPage extends BasePage {
       return false;
     }
     try {
-      const auth = JSON.parse(fs.readFileSync(this.authFilePath, "utf-8"));
+      const auth = readAuthJsonFile(this.authFilePath);
       const cookies = auth.cookies || [];
       if (cookies.length === 0) return false;
 
@@ -64,19 +64,21 @@ export class MakestarMyPage extends BasePage {
   /**
    * 지정 국가의 등록된 주소를 기본 배송지로 강제 지정.
    *
-   * 현재는 KR만 지원하며, 테스트 계정의 KR 주소 ID를 fixture 상수로 하드코딩한다
-   * (`STG_TEST_ACCOUNT.KR_DEFAULT_ADDRESS_ID`). 해당 주소가 존재하지 않으면 fail-fast.
+   * 현재는 KR만 지원한다. addressId는 lease한 테스트 계정의 KR 주소 ID이며, 생략하면
+   * 기본 계정 상수(`STG_TEST_ACCOUNT.KR_DEFAULT_ADDRESS_ID`). 해당 주소가 존재하지 않으면 fail-fast.
    *
    * 멱등 — 이미 기본인 경우에는 저장 버튼이 disabled일 수 있으므로 저장 없이 통과한다.
    */
-  async setDefaultShippingAddress(country: ShippingCountry): Promise<void> {
+  async setDefaultShippingAddress(
+    country: ShippingCountry,
+    addressId: number = STG_TEST_ACCOUNT.KR_DEFAULT_ADDRESS_ID,
+  ): Promise<void> {
     if (country !== "KR") {
       throw new Error(
         `setDefaultShippingAddress: ${country}는 미지원. KR만 지원.`,
       );
     }
 
-    const addressId = STG_TEST_ACCOUNT.KR_DEFAULT_ADDRESS_ID;
     await this._page.goto(
       `${this.baseUrl}/my-page/address/update/${addressId}`,
       { waitUntil: "domcontentloaded" },
@@ -0,0 +1,252 @@
+/**
+ * 실행 시점 assertion 집계(lib/assertion-audit-reporter.js, tests/fixtures/assertion-audit.ts, tests/helpers/optional-step.ts) 회귀 테스트 (브라우저 / 네트워크 불필요)
+ *
+ *  - ASSERT-AUDIT-01: 실행된 hard / soft / poll expect와 선택 단계 실패를 세어 suspicious green을 표시하고 파일로 남긴다
+ *  - ASSERT-AUDIT-02: runOptionalStep이 삼킨 에러를 현재 테스트의 annotation으로 남긴다
+ *  - ASSERT-AUDIT-03: assertion-audit fixture가 메시지 유무와 관계없이 soft 메타데이터로 hard / soft를 센다
+ *
+ * 실행: npm run test:reporting (CI 설정의 reporting-offline project)
+ */
+
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import AssertionAuditReporter from "../lib/assertion-audit-reporter";
+import {
+  ASSERTION_COUNTS_ANNOTATION,
+  test as auditTest,
+} from "./fixtures/assertion-audit";
+import {
+  OPTIONAL_STEP_FAILED_ANNOTATION,
+  runOptionalStep,
+} from "./helpers/optional-step";
+
+type Annotation = { type: string; description?: string };
+type FakeStep = { category: string; title: string; parent?: FakeStep };
+
+test.describe("AssertionAuditReporter", () => {
+  let rootDir: string;
+
+  test.beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "assertion-audit-spec-"));
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  function fakeTest(id: string, title: string, retries = 1) {
+    return {
+      id,
+      title,
+      retries,
+      annotations: [] as Annotation[],
+      location: {
+        file: path.join(process.cwd(), "tests/cmr_02_nav_pom.spec.ts"),
+        line: 20,
+      },
+      titlePath: () => ["", "cmr", "cmr_02_nav_pom.spec.ts", title],
+      parent: { project: () => ({ name: "cmr-monitoring" }) },
+    };
+  }
+
+  function fakeResult(
+    status: string,
+    retry = 0,
+    annotations: Annotation[] = [],
+  ) {
+    return { status, retry, annotations };
+  }
+
+  const expectStep = (title: string, parent?: FakeStep): FakeStep => ({
+    category: "expect",
+    title,
+    parent,
+  });
+
+  test("ASSERT-AUDIT-01: assertion 0개 / 선택 단계 에러를 삼킨 통과를 suspicious green으로 표시한다", () => {
+    const outputFile = path.join(rootDir, "assertion-audit.json");
+    const reporter = new AssertionAuditReporter({ outputFile });
+
+    // hard / soft / poll + POM 안의 expect(test.step 하위) → 정상 통과
+    // hard / soft 구분은 assertion-audit fixture가 남긴 annotation 기준 (step 제목은 메시지로 바뀐다)
+    const countsAnnotation = {
+      type: ASSERTION_COUNTS_ANNOTATION,
+      description: JSON.stringify({ hard: 2, soft: 1 }),
+    };
+    const verified = fakeTest("t1", "GNB 메뉴");
+    const verifiedResult = fakeResult("passed", 0, [countsAnnotation]);
+    const pomStep: FakeStep = { category: "test.step", title: "verifyNav" };
+    const pollStep = expectStep('Expect "poll toContain"');
+    for (const step of [
+      expectStep('Expect "toBeVisible"', pomStep),
+      expectStep("GNB 문구 확인"),
+      pollStep,
+      // poll 안에서 다시 만들어진 expect step은 세지 않음
+      expectStep('Expect "toContain"', pollStep),
+      { category: "pw:api", title: "Click" },
+    ]) {
+      reporter.onStepEnd(verified, verifiedResult, step);
+    }
+    reporter.onTestEnd(verified, verifiedResult);
+
+    // expect 없이 통과
+    const noAssertion = fakeTest("t2", "로그만 남김");
+    const noAssertionResult = fakeResult("passed");
+    reporter.onStepEnd(noAssertion, noAssertionResult, {
+      category: "pw:api",
+      title: "Navigate",
+    });
+    reporter.onTestEnd(noAssertion, noAssertionResult);
+
+    // 선택 단계가 유일한 검증을 삼킴 (expect는 실행됐지만 suspicious)
+    // fixture annotation이 없으면 제목이 soft처럼 보여도 hard / soft는 미분류(null)
+    const swallowed = fakeTest("t3", "팝업 닫기 후 배너");
+    const swallowedResult = fakeResult("passed", 0, [
+      {
+        type: OPTIONAL_STEP_FAILED_ANNOTATION,
+        description: "배너 확인: Timeout 5000ms exceeded.",
+      },
+    ]);
+    reporter.onStepEnd(
+      swallowed,
+      swallowedResult,
+      expectStep('Expect "soft toBeVisible"'),
+    );
+    reporter.onTestEnd(swallowed, swallowedResult);
+
+    // 재시도 예정 실패는 건너뛰고, 최종 실패는 expect 0개여도 suspicious 아님
+    const failing = fakeTest("t4", "검색");
+    reporter.onTestEnd(failing, fakeResult("failed", 0));
+    reporter.onTestEnd(failing, fakeResult("failed", 1));
+
+    // 통과 결과는 그대로 두고 HTML / JSON reporter가 읽는 annotation만 추가
+    expect(verifiedResult.annotations).toEqual([countsAnnotation]);
+    expect(noAssertionResult.annotations).toEqual([
+      { type: "suspicious-green", description: "실행된 assertion 0개" },
+    ]);
+    expect(noAssertion.annotations).toEqual(noAssertionResult.annotations);
+    expect(swallowedResult.annotations[1]).toEqual({
+      type: "suspicious-green",
+      description: "선택 단계 실패 1건 (배너 확인: Timeout 5000ms exceeded.)",
+    });
+
+    const logs: string[] = [];
+    const originalLog = console.log;
+    console.log = (message: string) => logs.push(message);
+    try {
+      reporter.onEnd();
+    } finally {
+      console.log = originalLog;
+    }
+
+    const report = JSON.parse(fs.readFileSync(outputFile, "utf-8"));
+    expect(report.summary).toEqual({
+      tests: 4,
+      passed: 3,
+      suspicious: 2,
+      noAssertions: 1,
+      swallowedOptionalSteps: 1,
+      expects: 4,
+      softExpects: 1,
+      unclassifiedExpects: 1,
+    });
+    expect(report.results.map((item) => item.title)).toEqual([
+      "cmr_02_nav_pom.spec.ts > 로그만 남김",
+      "cmr_02_nav_pom.spec.ts > 팝업 닫기 후 배너",
+      "cmr_02_nav_pom.spec.ts > GNB 메뉴",
+      "cmr_02_nav_pom.spec.ts > 검색",
+    ]);
+    expect(report.results[0]).toEqual({
+      title: "cmr_02_nav_pom.spec.ts > 로그만 남김",
+      file: path.join("tests", "cmr_02_nav_pom.spec.ts"),
+      line: 20,
+      project: "cmr-monitoring",
+      status: "passed",
+      expects: 0,
+      hardExpects: null,
+      softExpects: null,
+      optionalStepFailures: 0,
+      optionalStepErrors: [],
+      suspicious: true,
+      reasons: ["no-assertions"],
+    });
+    expect(report.results[1]).toMatchObject({
+      expects: 1,
+      hardExpects: null,
+      softExpects: null,
+      optionalStepFailures: 1,
+      reasons: ["optional-step-failed"],
+    });
+    expect(report.results[2]).toMatchObject({
+      expects: 3,
+      hardExpects: 2,
+      softExpects: 1,
+      suspicious: false,
+    });
+    expect(report.results[3]).toMatchObject({
+      status: "failed",
+      suspicious: false,
+      reasons: [],
+    });
+    expect(logs.join("\n")).toContain(
+      "[assertion-audit] suspicious green 2/3 — assertion 0개 1, 선택 단계 에러 삼킴 1",
+    );
+  });
+});
+
+test("ASSERT-AUDIT-02: runOptionalStep이 삼킨 에러를 현재 테스트 annotation으로 남긴다", async () => {
+  const annotations = test.info().annotations;
+  const before = annotations.length;
+
+  expect(await runOptionalStep(async () => "ok", { label: "성공" })).toBe("ok");
+  const skipped = await runOptionalStep<string>(
+    async () => {
+      throw new Error("locator.click: Timeout 5000ms exceeded.\nCall log:");
+    },
+    { label: "팝업 닫기" },
+  );
+  expect(skipped).toBeUndefined();
+  await runOptionalStep(async () => {
+    throw "문자열 에러";
+  });
+
+  expect(annotations.slice(before)).toEqual([
+    {
+      type: OPTIONAL_STEP_FAILED_ANNOTATION,
+      description: "팝업 닫기: locator.click: Timeout 5000ms exceeded.",
+    },
+    {
+      type: OPTIONAL_STEP_FAILED_ANNOTATION,
+      description: "unnamed: 문자열 에러",
+    },
+  ]);
+  // 이 테스트 자체가 reporter에서 suspicious로 표시되지 않도록 기록 제거
+  annotations.splice(before);
+});
+
+auditTest(
+  "ASSERT-AUDIT-03: assertion-audit fixture는 메시지를 넘긴 expect.soft도 soft로 센다",
+  async ({ assertionCounts }) => {
+    expect.soft(1, "메시지를 넘긴 soft").toBe(1);
+    expect.soft([1, 2]).toContain(2);
+    expect(1, "메시지를 넘긴 hard").toBe(1);
+    await test.step("POM 메서드", async () => {
+      expect("GNB").toBeTruthy();
+    });
+    // poll 안에서 반복 생성되는 expect step은 세지 않는다
+    let polls = 0;
+    await expect.poll(() => ++polls, { intervals: [10] }).toBeGreaterThan(2);
+    expect(polls).toBeGreaterThan(2);
+
+    // 마지막 expect는 인자를 평가한 뒤 step이 만들어지므로 자기 자신은 포함되지 않는다
+    expect({ ...assertionCounts }).toEqual({ hard: 4, soft: 2 });
+    expect(
+      test
+        .info()
+        .annotations.some((item) => item.type === ASSERTION_COUNTS_ANNOTATION),
+      "annotation은 테스트가 끝날 때 남긴다",
+    ).toBe(false);
+  },
+);
@@ -0,0 +1,285 @@
+/**
+ * 실패 / skip 분류(lib/failure-classifier.js, lib/failure-class-reporter.js) 회귀 테스트 (브라우저 / 네트워크 불필요)
+ *
+ *  - FAIL-CLASS-01: 에러 메시지 / skip 사유 규칙과 annotation 우선순위
+ *  - FAIL-CLASS-02: reporter가 재시도 후 최종 결과만 분류하고 run 집계를 파일로 남긴다
+ *  - FAIL-CLASS-03: spec helper(markFailureClass / skipDataUnavailable) annotation 형식
+ *
+ * 실행: npm run test:reporting (CI 설정의 reporting-offline project)
+ */
+
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import FailureClassReporter from "../lib/failure-class-reporter";
+import { classifyResult } from "../lib/failure-classifier";
+import { markFailureClass, skipDataUnavailable } from "./helpers/failure-class";
+
+const failed = (message: string) =>
+  classifyResult({ status: "failed", errors: [{ message }] })?.category;
+
+test("FAIL-CLASS-01: 에러 메시지 / skip 사유 규칙과 annotation으로 분류한다", () => {
+  expect(
+    failed("page.goto: net::ERR_CONNECTION_RESET at https://www.makestar.com/"),
+  ).toBe("environment");
+  expect(failed("Error: GET /api/v1/products failed — status: 503")).toBe(
+    "environment",
+  );
+  expect(
+    failed("Error: page.goto: Target page, context or browser has been closed"),
+  ).toBe("environment");
+  expect(
+    failed(
+      'Error: expect(page).toHaveURL(expected) failed\n\nExpected pattern: /my-page/\nReceived string: "https://www.makestar.com/login?redirect=%2Fmy-page"',
+    ),
+  ).toBe("auth-expired");
+  expect(failed("Error: 인증 파일이 만료되었습니다 (auth.json)")).toBe(
+    "auth-expired",
+  );
+  expect(
+    failed(
+      "Error: RESTRICTED 후보(101, 102) 중 unavailable 경고가 나오는 상품이 없습니다 — fixture 갱신 필요",
+    ),
+  ).toBe("test-data-unavailable");
+  expect(
+    failed(
+      "Error: strict mode violation: getByRole('button', { name: '장바구니' }) resolved to 2 elements",
+    ),
+  ).toBe("selector-drift");
+  expect(
+    failed(
+      "Error: expect(locator).toBeVisible() failed\n\nLocator: getByTestId('gnb')\nExpected: visible\nReceived: <element(s) not found>",
+    ),
+  ).toBe("selector-drift");
+  // locator 대기 중 test timeout → locator 규칙이 timeout 규칙보다 먼저
+  expect(
+    failed(
+      "Test timeout of 90000ms exceeded.\nError: locator.click: Test timeout of 90000ms exceeded.\nCall log:\n  - waiting for getByRole('link', { name: 'Shop' })",
+    ),
+  ).toBe("selector-drift");
+  expect(failed("Test timeout of 90000ms exceeded.")).toBe("environment");
+  expect(
+    classifyResult({
+      status: "failed",
+      errors: [
+        {
+          message:
+            "Error: expect(received).toBe(expected)\n\nExpected: 12000\nReceived: 11000",
+        },
+      ],
+    }),
+  ).toEqual({ category: "app-defect", source: "default", reason: "assertion" });
+  expect(classifyResult({ status: "interrupted" })?.category).toBe(
+    "environment",
+  );
+  expect(classifyResult({ status: "passed" })).toBeNull();
+
+  // annotation이 에러 메시지보다 우선, 기존 spec의 annotation type도 인식
+  expect(
+    classifyResult({
+      status: "failed",
+      annotations: [
+        { type: "failure-class", description: "environment: PG 샌드박스" },
+      ],
+      errors: [{ message: "Error: expect(received).toBe(expected)" }],
+    }),
+  ).toEqual({
+    category: "environment",
+    source: "annotation",
+    reason: "PG 샌드박스",
+  });
+  expect(
+    classifyResult({
+      status: "failed",
+      annotations: [
+        { type: "failure-class", description: "unknown-bucket" },
+        { type: "STG seed required", description: '{"allCount":0}' },
+      ],
+      errors: [{ message: "Error: 전체/B2C/B2B 탭 모두 데이터가 없습니다." }],
+    }),
+  ).toEqual({
+    category: "test-data-unavailable",
+    source: "annotation",
+    reason: '{"allCount":0}',
+  });
+
+  // skip은 skip annotation 사유로 분류, 알 수 없으면 unclassified
+  expect(
+    classifyResult({
+      status: "skipped",
+      annotations: [
+        { type: "skip", description: "CMR 인증 파일이 없어 건너뜀" },
+      ],
+    }),
+  ).toEqual({
+    category: "auth-expired",
+    source: "skip-reason",
+    reason: "CMR 인증 파일이 없어 건너뜀",
+  });
+  expect(
+    classifyResult({
+      status: "skipped",
+      annotations: [
+        {
+          type: "skip",
+          description:
+            "모바일은 장바구니 UI가 데스크톱과 달라 데스크톱 전용으로 검증",
+        },
+      ],
+    }),
+  ).toMatchObject({ category: "unclassified", source: "default" });
+});
+
+test.describe("FailureClassReporter", () => {
+  let rootDir: string;
+
+  test.beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "failure-class-spec-"));
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  function fakeTest(id: string, title: string, retries = 1) {
+    return {
+      id,
+      title,
+      retries,
+      annotations: [] as Array<{ type: string; description?: string }>,
+      location: {
+        file: path.join(process.cwd(), "tests/cmr_02_search_pom.spec.ts"),
+        line: 10,
+      },
+      titlePath: () => ["", "cmr", "cmr_02_search_pom.spec.ts", title],
+      parent: { project: () => ({ name: "cmr-monitoring" }) },
+    };
+  }
+
+  test("FAIL-CLASS-02: 재시도 후 최종 결과만 분류하고 분류별 개수를 파일로 남긴다", async () => {
+    const outputFile = path.join(rootDir, "failure-classes.json");
+    const reporter = new FailureClassReporter({ outputFile });
+    const flaky = fakeTest("t1", "검색 결과");
+    const timeout = fakeTest("t2", "검색 필터");
+    const drift = fakeTest("t3", "정렬", 0);
+    const noData = fakeTest("t4", "가격 옵션");
+    noData.annotations.push({
+      type: "failure-class",
+      description: "test-data-unavailable: 가격 옵션 상품 없음",
+    });
+
+    // 첫 시도 실패 후 재시도 통과 → 분류 대상 아님
+    reporter.onTestEnd(flaky, {
+      status: "failed",
+      retry: 0,
+      errors: [{ message: "page.goto: net::ERR_TIMED_OUT" }],
+    });
+    reporter.onTestEnd(flaky, { status: "passed", retry: 1, errors: [] });
+    reporter.onTestEnd(timeout, {
+      status: "timedOut",
+      retry: 1,
+      errors: [{ message: "Error: page.goto: net::ERR_NAME_NOT_RESOLVED" }],
+    });
+    reporter.onTestEnd(drift, {
+      status: "failed",
+      retry: 0,
+      error: { message: "Error: locator.click: Timeout 10000ms exceeded." },
+    });
+    reporter.onTestEnd(noData, {
+      status: "skipped",
+      retry: 0,
+      errors: [],
+      annotations: [
+        { type: "skip", description: "data-unavailable: 가격 옵션 상품 없음" },
+      ],
+    });
+
+    const logs: string[] = [];
+    const originalLog = console.log;
+    console.log = (message: string) => logs.push(message);
+    try {
+      reporter.onEnd();
+    } finally {
+      console.log = originalLog;
+    }
+
+    const report = JSON.parse(fs.readFileSync(outputFile, "utf-8"));
+    expect(report.summary).toEqual({
+      failed: 2,
+      skipped: 1,
+      byCategory: {
+        "app-defect": 0,
+        "test-data-unavailable": 1,
+        "auth-expired": 0,
+        environment: 1,
+        "selector-drift": 1,
+        unclassified: 0,
+      },
+      failedByCategory: {
+        "app-defect": 0,
+        "test-data-unavailable": 0,
+        "auth-expired": 0,
+        environment: 1,
+        "selector-drift": 1,
+        unclassified: 0,
+      },
+      skippedByCategory: {
+        "app-defect": 0,
+        "test-data-unavailable": 1,
+        "auth-expired": 0,
+        environment: 0,
+        "selector-drift": 0,
+        unclassified: 0,
+      },
+    });
+    expect(report.results).toEqual([
+      {
+        title: "cmr_02_search_pom.spec.ts > 검색 필터",
+        file: path.join("tests", "cmr_02_search_pom.spec.ts"),
+        line: 10,
+        project: "cmr-monitoring",
+        status: "failed",
+        category: "environment",
+        source: "error",
+        reason: "network",
+        errorMessage: "Error: page.goto: net::ERR_NAME_NOT_RESOLVED",
+      },
+      expect.objectContaining({
+        title: "cmr_02_search_pom.spec.ts > 정렬",
+        category: "selector-drift",
+        reason: "locator",
+      }),
+      expect.objectContaining({
+        title: "cmr_02_search_pom.spec.ts > 가격 옵션",
+        status: "skipped",
+        category: "test-data-unavailable",
+        source: "annotation",
+        reason: "가격 옵션 상품 없음",
+        errorMessage: null,
+      }),
+    ]);
+    expect(logs.join("\n")).toContain(
+      "[failure-class] 실패 2 · skip 1 — test-data-unavailable 1, environment 1, selector-drift 1",
+    );
+  });
+});
+
+test("FAIL-CLASS-03: spec helper가 reporter가 읽는 annotation을 남긴다", () => {
+  const annotations = test.info().annotations;
+  markFailureClass("environment", "STG 결제 PG 샌드박스 의존");
+  markFailureClass("selector-drift");
+  // 조건이 false면 skip / annotation 없음
+  skipDataUnavailable(false, "가격 옵션 상품 없음");
+
+  expect(annotations).toEqual([
+    {
+      type: "failure-class",
+      description: "environment: STG 결제 PG 샌드박스 의존",
+    },
+    { type: "failure-class", description: "selector-drift" },
+  ]);
+  expect(classifyResult({ status: "failed", annotations })?.category).toBe(
+    "environment",
+  );
+});
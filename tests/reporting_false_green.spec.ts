@@ -0,0 +1,306 @@
+/**
+ * False-green 검사(scripts/check-false-green.js) assertion 규칙 회귀 테스트 (브라우저 / 네트워크 불필요)
+ *
+ *  - FALSE-GREEN-01: assertion에 닿지 않는 테스트 — POM / helper / 같은 파일 함수 안의 assertion은 인정
+ *  - FALSE-GREEN-02: assertion이 boolean POM 메서드 분기 / early return 뒤에만 있는 테스트
+ *  - FALSE-GREEN-03: 기준선(scripts/false-green-baseline.js) — 줄 이동에 강한 fingerprint, 새 위반만 실패, 기준선 축소, SARIF
+ *
+ * 실행: npm run test:reporting (CI 설정의 reporting-offline project)
+ */
+
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  RULES,
+  inspectFile,
+  loadHelperIndex,
+} from "../scripts/check-false-green";
+import {
+  buildSarif,
+  compareWithBaseline,
+  fingerprintViolations,
+  readBaseline,
+  updateBaseline,
+  writeBaseline,
+} from "../scripts/false-green-baseline";
+
+const LIST_PAGE = `
+import { expect, type Page } from "@playwright/test";
+
+export class ListPage {
+  constructor(readonly page: Page) {}
+
+  async hasTableData(): Promise<boolean> {
+    return (await this.page.locator("tbody tr").count()) > 0;
+  }
+
+  private async isMobile(): Promise<boolean> {
+    return false;
+  }
+
+  async verifyHeader(): Promise<void> {
+    await expect(this.page.locator("h1")).toBeVisible();
+  }
+
+  async openDetail(): Promise<void> {
+    await this.verifyHeader();
+  }
+
+  async submitAndExpectSaved(): Promise<void> {
+    if (!(await this.page.locator(".toast").isVisible())) {
+      throw new Error("저장 토스트 없음");
+    }
+  }
+
+  async goto(): Promise<void> {
+    await this.page.goto("/list");
+    await expect(this.page).toHaveURL(/list/);
+  }
+}
+`;
+
+const HELPER = `
+export function readFixture(name: string): string {
+  if (!name) throw new Error("이름 필요");
+  return name;
+}
+`;
+
+let testDir: string;
+
+test.beforeEach(() => {
+  testDir = fs.mkdtempSync(path.join(os.tmpdir(), "false-green-spec-"));
+  fs.mkdirSync(path.join(testDir, "pages"));
+  fs.mkdirSync(path.join(testDir, "helpers"));
+  fs.writeFileSync(path.join(testDir, "pages", "list.page.ts"), LIST_PAGE);
+  fs.writeFileSync(path.join(testDir, "helpers", "fixture.ts"), HELPER);
+});
+
+test.afterEach(() => {
+  fs.rmSync(testDir, { recursive: true, force: true });
+});
+
+function inspectSpec(source: string) {
+  const specPath = path.join(testDir, "sample.spec.ts");
+  fs.writeFileSync(specPath, source);
+  return inspectFile(specPath, {
+    strictPatterns: true,
+    helperIndex: loadHelperIndex(testDir),
+  }).map((violation) => {
+    const [, line] = violation.location.match(/:(\d+):\d+$/) ?? [];
+    return { line: Number(line), reason: violation.reason.split(".")[0] };
+  });
+}
+
+test("FALSE-GREEN-01: assertion에 닿지 않는 테스트만 보고하고 POM / helper assertion은 인정한다", () => {
+  const helperIndex = loadHelperIndex(testDir);
+  expect([...helperIndex.booleanPomMethods]).toEqual(["hasTableData"]);
+  // expect 직접 호출 / 호출 전파 / POM의 fail-fast throw는 assertion, helper의 입력 검사 throw와
+  // Playwright API와 같은 이름(goto)은 제외
+  expect([...helperIndex.assertingHelpers.methods].sort()).toEqual([
+    "openDetail",
+    "submitAndExpectSaved",
+    "verifyHeader",
+  ]);
+  expect([...helperIndex.assertingHelpers.functions]).toEqual([]);
+
+  const violations = inspectSpec(`
+import { test, expect } from "@playwright/test";
+
+async function checkTitle(page) {
+  await expect(page).toHaveTitle(/Admin/);
+}
+
+test.describe("목록", () => {
+  test("직접 expect", async ({ page }) => {
+    await expect.poll(() => page.url()).toContain("/list");
+  });
+
+  test("POM 메서드 안의 expect", async () => {
+    await listPage.openDetail();
+  });
+
+  test("POM fail-fast", async () => {
+    await listPage.submitAndExpectSaved();
+  });
+
+  test("assert* helper", async () => {
+    await listPage.assertTableHeaders(["No"]);
+  });
+
+  test("같은 파일 함수", async ({ page }) => {
+    await test.step("제목", async () => checkTitle(page));
+  });
+
+  test("로그만 남김", async ({ page }) => {
+    await page.goto("/list");
+    console.log(readFixture("list"));
+  });
+});
+`);
+
+  expect(violations).toEqual([
+    { line: 29, reason: "assertion 없는 테스트 금지" },
+  ]);
+});
+
+test("FALSE-GREEN-02: assertion이 전부 boolean POM 메서드 분기 안에 있는 테스트를 보고한다", () => {
+  const violations = inspectSpec(`
+import { test, expect } from "@playwright/test";
+
+test("분기 안에만 assertion", async () => {
+  const hasData = await listPage.hasTableData();
+  if (hasData) {
+    expect(await listPage.getRowCount()).toBeGreaterThan(0);
+  }
+});
+
+test("early return 뒤에만 assertion", async () => {
+  if (!(await listPage.hasTableData())) {
+    console.log("데이터 없음");
+    return;
+  }
+  await listPage.verifyHeader();
+});
+
+test("분기 밖에도 assertion", async () => {
+  const hasData = await listPage.hasTableData();
+  const hasNoResult = await listPage.noResult.isVisible();
+  expect(hasData || hasNoResult).toBe(true);
+  if (hasData) {
+    await listPage.verifyHeader();
+  }
+});
+
+test("boolean POM이 아닌 조건", async ({ page }) => {
+  const count = await listPage.getRowCount();
+  if (count > 0) {
+    await expect(page.locator("tr").first()).toBeVisible();
+  }
+});
+`);
+
+  expect(violations).toEqual([
+    {
+      line: 4,
+      reason:
+        "assertion이 모두 boolean POM 메서드(hasTableData() 등) 분기 안에 있음",
+    },
+    {
+      line: 11,
+      reason:
+        "assertion이 모두 boolean POM 메서드(hasTableData() 등) 분기 안에 있음",
+    },
+  ]);
+
+  // 기본 게이트(strict 아님)에는 영향 없음
+  const specPath = path.join(testDir, "sample.spec.ts");
+  expect(inspectFile(specPath, { strictPatterns: false })).toEqual([]);
+});
+
+test("FALSE-GREEN-03: 기준선에 없는 새 위반만 실패로 보고 고쳐진 위반으로 기준선을 줄인다", () => {
+  const specPath = path.join(testDir, "sample.spec.ts");
+  const baselinePath = path.join(testDir, "false-green-baseline.json");
+  const helperIndex = loadHelperIndex(testDir);
+  const inspect = (source: string) => {
+    fs.writeFileSync(specPath, source);
+    return fingerprintViolations(
+      inspectFile(specPath, { strictPatterns: true, helperIndex }),
+    );
+  };
+  const WAIT = `await page.waitForTimeout(500).catch(() => {});`;
+
+  const before = inspect(`
+test("로그만 남김", async ({ page }) => {
+  ${WAIT}
+  ${WAIT}
+});
+`);
+  expect(before.map((violation) => violation.rule)).toEqual([
+    "no-assertion",
+    "empty-catch",
+    "empty-catch",
+  ]);
+  // 같은 조각이 반복되면 순번으로 구분
+  expect(before[2].fingerprint).toBe(`${before[1].fingerprint}#2`);
+
+  // 기준선이 없으면 현재 위반으로 새로 만든다
+  expect(readBaseline(baselinePath)).toBeNull();
+  const created = updateBaseline(before, null);
+  expect(created.added).toHaveLength(3);
+  writeBaseline(created.baseline, baselinePath);
+  expect(readBaseline(baselinePath)?.violations).toHaveLength(3);
+
+  // 위에 코드가 추가돼 줄이 밀리고 catch 하나를 고침 + 새 위반(.only, 새 catch)
+  const after = inspect(`
+import { test } from "@playwright/test";
+
+test("로그만 남김", async ({ page }) => {
+  ${WAIT}
+  await page.reload().catch(() => false);
+});
+
+test.only("새 테스트", async ({ page }) => {
+  await expect(page).toHaveURL(/list/);
+});
+`);
+  const comparison = compareWithBaseline(after, readBaseline(baselinePath));
+  expect(comparison.baselined.map((violation) => violation.rule)).toEqual([
+    "no-assertion",
+    "empty-catch",
+  ]);
+  expect(comparison.newViolations.map((violation) => violation.rule)).toEqual([
+    "false-catch",
+    "focused-test",
+  ]);
+  expect(comparison.fixed).toEqual([
+    expect.objectContaining({ rule: "empty-catch" }),
+  ]);
+
+  // 갱신: 고쳐진 항목만 지우고, 새 위반은 --accept-new일 때만 (gate 규칙은 항상 거부)
+  const shrunk = updateBaseline(after, readBaseline(baselinePath));
+  expect(shrunk.baseline.violations).toHaveLength(2);
+  expect(shrunk.removed).toHaveLength(1);
+  expect(shrunk.added).toEqual([]);
+  expect(shrunk.rejected.map((violation) => violation.rule)).toEqual([
+    "false-catch",
+    "focused-test",
+  ]);
+  const accepted = updateBaseline(after, readBaseline(baselinePath), {
+    acceptNew: true,
+  });
+  expect(accepted.added.map((violation) => violation.rule)).toEqual([
+    "false-catch",
+  ]);
+  expect(accepted.rejected.map((violation) => violation.rule)).toEqual([
+    "focused-test",
+  ]);
+
+  const sarif = buildSarif(after, RULES, {
+    newFingerprints: new Set(
+      comparison.newViolations.map((violation) => violation.fingerprint),
+    ),
+  });
+  expect(sarif.version).toBe("2.1.0");
+  expect(sarif.runs[0].tool.driver.rules.map((rule) => rule.id)).toEqual(
+    Object.keys(RULES),
+  );
+  expect(
+    sarif.runs[0].results.map((result) => [
+      result.ruleId,
+      result.level,
+      result.baselineState,
+      result.locations[0].physicalLocation.region.startLine,
+    ]),
+  ).toEqual([
+    ["no-assertion", "warning", "unchanged", 4],
+    ["empty-catch", "warning", "unchanged", 5],
+    ["false-catch", "error", "new", 6],
+    ["focused-test", "error", "new", 9],
+  ]);
+  expect(sarif.runs[0].results[0].partialFingerprints).toEqual({
+    "falseGreen/v1": after[0].fingerprint,
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * 기능(@feature 태그) 커버리지 리포트(scripts/feature-coverage.js) 회귀 테스트 (브라우저 / 네트워크 불필요)
+ *
+ *  - FEAT-COV-01: 제목 / `{ tag }` 옵션의 태그 추출, describe 상속, TC ID, 반복 생성 test
+ *  - FEAT-COV-02: seed + 최신 crawl 라우트와 결합, 최근 결과, Markdown / JSON 출력
+ *  - FEAT-COV-03: 실제 spec / coverage-feature-routes.json 기준 태그 → 라우트 매핑
+ *
+ * 실행: npm run test:reporting (CI 설정의 reporting-offline project)
+ */
+
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  buildFeatureCoverage,
+  extractSpecTags,
+  formatFeatureCoverageMarkdown,
+  resolveFeatureRoute,
+  writeFeatureCoverage,
+} from "../scripts/feature-coverage";
+
+const SAMPLE_SPEC = `import { test as harTest, expect } from "./fixtures/cmr-har";
+
+harTest.describe("검색 @feature:cmr.search.results", () => {
+  harTest("CMR-SEARCH-01: 결과 표시 @feature:cmr.search.filters", async ({ page }) => {
+    harTest.skip(!page, "page fixture가 없으면 검색 검증을 건너뜀");
+    await harTest.step("검색어 입력", async () => {});
+  });
+
+  harTest.describe
+    .serial("정리 @suite:ops", () => {
+    harTest("CMR-SEARCH-99: 검색 기록 삭제", async () => {});
+  });
+});
+
+for (const t of [{ id: "CART-01" }, { id: "CART-02" }]) {
+  harTest(\`\${t.id}: 장바구니\`, { tag: ["@feature:cmr.cart", "@suite:exploratory"] }, async () => {});
+}
+
+harTest("태그 없는 테스트", async () => {});
+`;
+
+let rootDir: string;
+
+test.beforeEach(() => {
+  rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "feature-coverage-spec-"));
+});
+
+test.afterEach(() => {
+  fs.rmSync(rootDir, { recursive: true, force: true });
+});
+
+function writeFile(relativePath: string, content: unknown) {
+  const filePath = path.join(rootDir, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(
+    filePath,
+    typeof content === "string" ? content : JSON.stringify(content),
+  );
+  return filePath;
+}
+
+test("FEAT-COV-01: 제목과 tag 옵션의 태그를 describe 상속과 TC ID까지 정적으로 추출한다", () => {
+  const specPath = writeFile("tests/cmr_search.spec.ts", SAMPLE_SPEC);
+
+  expect(extractSpecTags(specPath, rootDir)).toEqual([
+    {
+      file: "tests/cmr_search.spec.ts",
+      line: 4,
+      title: "CMR-SEARCH-01: 결과 표시",
+      fullTitle: "검색 > CMR-SEARCH-01: 결과 표시",
+      tcId: "CMR-SEARCH-01",
+      features: ["cmr.search.results", "cmr.search.filters"],
+      suites: [],
+      dynamic: false,
+    },
+    {
+      file: "tests/cmr_search.spec.ts",
+      line: 11,
+      title: "CMR-SEARCH-99: 검색 기록 삭제",
+      fullTitle: "검색 > 정리 > CMR-SEARCH-99: 검색 기록 삭제",
+      tcId: "CMR-SEARCH-99",
+      features: ["cmr.search.results"],
+      suites: ["ops"],
+      dynamic: false,
+    },
+    {
+      file: "tests/cmr_search.spec.ts",
+      line: 16,
+      title: "${t.id}: 장바구니",
+      fullTitle: "${t.id}: 장바구니",
+      tcId: null,
+      features: ["cmr.cart"],
+      suites: ["exploratory"],
+      dynamic: true,
+    },
+    {
+      file: "tests/cmr_search.spec.ts",
+      line: 19,
+      title: "태그 없는 테스트",
+      fullTitle: "태그 없는 테스트",
+      tcId: null,
+      features: [],
+      suites: [],
+      dynamic: false,
+    },
+  ]);
+});
+
+test("FEAT-COV-02: seed / 최신 crawl 라우트와 최근 결과를 기능별 매트릭스로 묶는다", () => {
+  writeFile("tests/cmr_search.spec.ts", SAMPLE_SPEC);
+  writeFile("scripts/coverage-seeds.json", {
+    _comment: "seed",
+    cmr: ["/", "/search", "/cart", "/my-page"],
+  });
+  writeFile("scripts/coverage-feature-routes.json", {
+    cmr: "/",
+    "cmr.cart": "/cart",
+  });
+  const older = writeFile("coverage-crawl-cmr-old.json", [
+    { normalizedPath: "/stale", title: "old", h1: null },
+  ]);
+  writeFile("coverage-crawl-cmr.json", [
+    { normalizedPath: "/search", title: "검색 | Makestar", h1: "검색" },
+    { normalizedPath: "/event", title: "이벤트 | Makestar", h1: null },
+  ]);
+  fs.utimesSync(older, new Date(2020, 0, 1), new Date(2020, 0, 1));
+  // Playwright JSON reporter 형식 (file은 testDir 기준, 반복 생성 test는 같은 line)
+  const resultsPath = writeFile("test-results/results.json", {
+    suites: [
+      {
+        title: "cmr_search.spec.ts",
+        specs: [],
+        suites: [
+          {
+            title: "검색",
+            specs: [
+              {
+                file: "cmr_search.spec.ts",
+                line: 4,
+                tests: [{ status: "flaky", results: [] }],
+              },
+            ],
+          },
+        ],
+      },
+      {
+        title: "cmr_search.spec.ts",
+        specs: [
+          {
+            file: "cmr_search.spec.ts",
+            line: 16,
+            tests: [{ status: "expected", results: [{ status: "passed" }] }],
+          },
+          {
+            file: "cmr_search.spec.ts",
+            line: 16,
+            tests: [{ status: "unexpected", results: [{ status: "failed" }] }],
+          },
+        ],
+      },
+    ],
+  });
+
+  const report = buildFeatureCoverage({
+    rootDir,
+    resultsPath,
+    now: Date.UTC(2026, 9, 19),
+  });
+
+  expect(report.sources).toEqual({
+    seeds: "scripts/coverage-seeds.json",
+    crawl: { cmr: "coverage-crawl-cmr.json" },
+    results: "test-results/results.json",
+  });
+  expect(report.summary).toMatchObject({
+    tests: 4,
+    taggedTests: 3,
+    untaggedTests: 1,
+    products: [
+      {
+        product: "cmr",
+        routes: 5,
+        coveredRoutes: 2,
+        uncoveredRoutes: 3,
+        features: 3,
+        unmappedFeatures: 0,
+      },
+    ],
+  });
+  expect(
+    report.features.map((item) => [
+      item.feature,
+      item.routes,
+      item.testCount,
+      item.tcIds,
+      item.suites,
+      item.lastStatus,
+    ]),
+  ).toEqual([
+    ["cmr.cart", ["/cart"], 1, [], ["exploratory"], "failed"],
+    ["cmr.search.filters", ["/search"], 1, ["CMR-SEARCH-01"], [], "flaky"],
+    [
+      "cmr.search.results",
+      ["/search"],
+      2,
+      ["CMR-SEARCH-01", "CMR-SEARCH-99"],
+      ["ops"],
+      "flaky",
+    ],
+  ]);
+  expect(report.features[0]).toMatchObject({
+    dynamicTests: 1,
+    suiteOnly: true,
+  });
+  expect(report.features[2].tests[1]).toMatchObject({
+    tcId: "CMR-SEARCH-99",
+    status: "unknown",
+  });
+  expect(
+    report.routes.map((item) => [
+      item.route,
+      item.sources,
+      item.covered,
+      item.testCount,
+    ]),
+  ).toEqual([
+    ["/", ["seed"], false, 0],
+    ["/cart", ["seed"], true, 1],
+    ["/event", ["crawl"], false, 0],
+    ["/my-page", ["seed"], false, 0],
+    ["/search", ["seed", "crawl"], true, 3],
+  ]);
+  expect(report.untaggedFiles).toEqual(["tests/cmr_search.spec.ts"]);
+
+  const markdown = formatFeatureCoverageMarkdown(report);
+  expect(markdown).toContain("| cmr | 5 | 2 | 3 | 3 | 0 |");
+  expect(markdown).toContain(
+    "| cmr.cart | `/cart` | 1 (반복 1) |  | exploratory | ❌ failed |",
+  );
+  expect(markdown).toContain("- cmr `/event` (crawl) — 이벤트 | Makestar");
+
+  const outDir = path.join(rootDir, "coverage-report");
+  const { jsonPath, markdownPath } = writeFeatureCoverage(report, outDir);
+  expect(JSON.parse(fs.readFileSync(jsonPath, "utf-8"))).toEqual(report);
+  expect(fs.readFileSync(markdownPath, "utf-8")).toBe(markdown);
+
+  // 결과 파일이 없으면 최근 결과는 unknown
+  const withoutResults = buildFeatureCoverage({
+    rootDir,
+    resultsPath: path.join(rootDir, "missing.json"),
+  });
+  expect(withoutResults.sources.results).toBeNull();
+  expect(withoutResults.features.map((item) => item.lastStatus)).toEqual([
+    "unknown",
+    "unknown",
+    "unknown",
+  ]);
+});
+
+test("FEAT-COV-03: 실제 spec의 태그를 coverage-feature-routes.json으로 seed 라우트에 잇는다", () => {
+  const featureRoutes = JSON.parse(
+    fs.readFileSync(
+      path.join(__dirname, "..", "scripts", "coverage-feature-routes.json"),
+      "utf-8",
+    ),
+  );
+  expect(resolveFeatureRoute("cmr.home", featureRoutes)).toEqual({
+    product: "cmr",
+    route: "/",
+  });
+  expect(resolveFeatureRoute("cmr.mypage", featureRoutes)).toEqual({
+    product: "cmr",
+    route: "/my-page",
+  });
+  expect(
+    resolveFeatureRoute("admin_pocaalbum.fave.list", featureRoutes),
+  ).toEqual({ product: "admin", route: "/pocaalbum/fave/pack/list" });
+  expect(resolveFeatureRoute("admin_makestar.order.list", {})).toEqual({
+    product: "admin",
+    route: "/order/list",
+  });
+
+  const report = buildFeatureCoverage({
+    crawlDir: rootDir,
+    resultsPath: path.join(rootDir, "missing.json"),
+  });
+  // `{ tag }` 옵션으로만 태그한 결제 spec도 포함
+  const payment = report.features.find(
+    (item) => item.feature === "cmr.payments.toss.card.submit",
+  )!;
+  expect(payment.routes).toEqual(["/purchase"]);
+  expect(new Set(payment.tests.map((item) => item.file))).toEqual(
+    new Set([
+      "tests/cmr_payment_pom.spec.ts",
+      "tests/cmr_payment_fake_toss_pom.spec.ts",
+    ]),
+  );
+  const adminOrder = report.routes.find(
+    (item) => item.product === "admin" && item.route === "/order/list",
+  )!;
+  expect(adminOrder.features).toContain("admin_makestar.order.list");
+});
@@ -0,0 +1,238 @@
+/**
+ * flaky 분석(scripts/flakiness-report.js) 회귀 테스트 (브라우저 / 네트워크 불필요)
+ *
+ *  - FLAKY-01: run 이력별 flake율 / 실패율, flaky 순위, 실패 signature 클러스터
+ *  - FLAKY-02: duration 추이, 결과가 아닌 JSON 무시, Markdown / JSON 출력
+ *
+ * 실행: npm run test:reporting (CI 설정의 reporting-offline project)
+ */
+
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  buildFlakinessReport,
+  formatFlakinessMarkdown,
+  normalizeSignature,
+  writeFlakinessReport,
+} from "../scripts/flakiness-report";
+
+type Attempt = { status: string; duration?: number; message?: string };
+
+let historyDir: string;
+
+test.beforeEach(() => {
+  historyDir = fs.mkdtempSync(path.join(os.tmpdir(), "flakiness-spec-"));
+});
+
+test.afterEach(() => {
+  fs.rmSync(historyDir, { recursive: true, force: true });
+});
+
+function spec(title: string, status: string, attempts: Attempt[]) {
+  return {
+    title,
+    file: "cmr_search_pom.spec.ts",
+    line: 10,
+    tests: [
+      {
+        projectName: "cmr-monitoring",
+        status,
+        results: attempts.map((attempt, retry) => ({
+          retry,
+          status: attempt.status,
+          duration: attempt.duration ?? 1000,
+          errors: attempt.message ? [{ message: attempt.message }] : [],
+        })),
+      },
+    ],
+  };
+}
+
+/** Playwright JSON reporter 형식의 run 하나 (최상위 suite = spec 파일) */
+function writeRun(name: string, startTime: string, specs: unknown[]) {
+  const filePath = path.join(historyDir, name, "results.json");
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(
+    filePath,
+    JSON.stringify({
+      config: {},
+      suites: [
+        {
+          title: "cmr_search_pom.spec.ts",
+          file: "cmr_search_pom.spec.ts",
+          specs: [],
+          suites: [{ title: "검색", specs }],
+        },
+      ],
+      stats: { startTime },
+    }),
+  );
+}
+
+const TIMEOUT = (ms: number) =>
+  `\u001b[31mTimeoutError: locator.click: Timeout ${ms}ms exceeded.\u001b[39m\nCall log:\n  - waiting for getByRole('button')`;
+
+test("FLAKY-01: run 이력으로 flake율과 flaky 순위, 실패 signature를 계산한다", () => {
+  // 디렉터리 이름과 무관하게 stats.startTime 순으로 읽는다
+  writeRun("run-b", "2026-10-02T00:00:00.000Z", [
+    spec("CMR-SEARCH-01: 결과 표시", "flaky", [
+      { status: "timedOut", message: TIMEOUT(30000) },
+      { status: "passed" },
+    ]),
+    spec("CMR-SEARCH-02: 필터", "unexpected", [
+      {
+        status: "failed",
+        message: "Error: expect(received).toBe(expected)\n\nExpected: 3",
+      },
+      {
+        status: "failed",
+        message: "Error: expect(received).toBe(expected)\n\nExpected: 4",
+      },
+    ]),
+    spec("CMR-SEARCH-03: 정렬", "skipped", [{ status: "skipped" }]),
+  ]);
+  writeRun("run-a", "2026-10-01T00:00:00.000Z", [
+    spec("CMR-SEARCH-01: 결과 표시", "flaky", [
+      { status: "timedOut", message: TIMEOUT(45000) },
+      { status: "passed" },
+    ]),
+    spec("CMR-SEARCH-02: 필터", "expected", [{ status: "passed" }]),
+  ]);
+  writeRun("run-c", "2026-10-03T00:00:00.000Z", [
+    spec("CMR-SEARCH-01: 결과 표시", "expected", [{ status: "passed" }]),
+    spec("CMR-SEARCH-02: 필터", "flaky", [
+      { status: "failed", message: TIMEOUT(30000) },
+      { status: "passed" },
+    ]),
+  ]);
+
+  const report = buildFlakinessReport({
+    historyDir,
+    now: Date.UTC(2026, 9, 19),
+  });
+
+  expect(report.sources.runs.map((run) => run.file)).toEqual([
+    "run-a/results.json",
+    "run-b/results.json",
+    "run-c/results.json",
+  ]);
+  expect(report.summary).toEqual({
+    runs: 3,
+    tests: 3,
+    flakyTests: 2,
+    failingTests: 1,
+    durationIncreases: 0,
+  });
+  expect(
+    report.flaky.map((item) => [
+      item.tcId,
+      item.title,
+      item.runs,
+      item.flakyRuns,
+      item.failedRuns,
+      item.flakeRate,
+    ]),
+  ).toEqual([
+    ["CMR-SEARCH-01", "검색 > CMR-SEARCH-01: 결과 표시", 3, 2, 0, 0.667],
+    ["CMR-SEARCH-02", "검색 > CMR-SEARCH-02: 필터", 3, 1, 1, 0.333],
+  ]);
+  expect(report.flaky[0]).toMatchObject({
+    project: "cmr-monitoring",
+    file: "cmr_search_pom.spec.ts",
+    lastFlakyAt: "2026-10-02T00:00:00.000Z",
+    signatures: [
+      {
+        signature: "TimeoutError: locator.click: Timeout Nms exceeded.",
+        count: 2,
+        example: "TimeoutError: locator.click: Timeout 45000ms exceeded.",
+      },
+    ],
+  });
+  expect(report.flaky[1].failureRate).toBe(0.333);
+
+  // 같은 signature는 테스트를 넘어 하나의 클러스터
+  expect(
+    report.clusters.map((cluster) => [
+      cluster.signature,
+      cluster.count,
+      cluster.tests,
+    ]),
+  ).toEqual([
+    [
+      "TimeoutError: locator.click: Timeout Nms exceeded.",
+      3,
+      ["CMR-SEARCH-01", "CMR-SEARCH-02"],
+    ],
+    ["Error: expect(received).toBe(expected)", 2, ["CMR-SEARCH-02"]],
+  ]);
+  expect(
+    report.tests.find((item) => item.tcId === "CMR-SEARCH-03"),
+  ).toMatchObject({ runs: 0, skippedRuns: 1, flakeRate: 0 });
+
+  expect(
+    normalizeSignature(
+      "page.goto: net::ERR_CONNECTION_RESET at https://www.makestar.com/product/1234?x=1",
+    ),
+  ).toBe("page.goto: net::ERR_CONNECTION_RESET at <url>");
+  expect(normalizeSignature("order 3f2a9c1b-77d0-4e1a missing")).toBe(
+    "order <id> missing",
+  );
+});
+
+test("FLAKY-02: duration 추이와 Markdown / JSON 출력을 남긴다", () => {
+  const durations = [1000, 1200, 1100, 2000, 2200, 2100];
+  durations.forEach((duration, index) => {
+    writeRun(`run-${index}`, `2026-10-0${index + 1}T00:00:00.000Z`, [
+      spec("CMR-SEARCH-01: 결과 표시", index === 5 ? "flaky" : "expected", [
+        ...(index === 5
+          ? [{ status: "failed", message: "Error: 검색 결과 없음" }]
+          : []),
+        { status: "passed", duration },
+      ]),
+    ]);
+  });
+  // Playwright 결과가 아닌 JSON / 깨진 JSON은 무시
+  fs.writeFileSync(
+    path.join(historyDir, "coverage-crawl-cmr.json"),
+    JSON.stringify([{ normalizedPath: "/" }]),
+  );
+  fs.writeFileSync(path.join(historyDir, "broken.json"), "{");
+
+  const report = buildFlakinessReport({
+    historyDir,
+    now: Date.UTC(2026, 9, 19),
+  });
+
+  expect(report.summary.runs).toBe(6);
+  expect(report.durationIncreases).toHaveLength(1);
+  expect(report.durationIncreases[0].duration).toEqual({
+    medianMs: 1600,
+    previousMedianMs: 1100,
+    recentMedianMs: 2100,
+    changePct: 91,
+  });
+
+  const markdown = formatFlakinessMarkdown(report);
+  expect(markdown).toContain(
+    "| 1 | CMR-SEARCH-01 | 검색 > CMR-SEARCH-01: 결과 표시 | cmr-monitoring | 6 | 1 | 0 | 17% | `Error: 검색 결과 없음` ×1 |",
+  );
+  expect(markdown).toContain(
+    "| CMR-SEARCH-01 | 검색 > CMR-SEARCH-01: 결과 표시 | cmr-monitoring | 1.1s | 2.1s | +91% |",
+  );
+
+  const outDir = path.join(historyDir, "out");
+  const { jsonPath, markdownPath } = writeFlakinessReport(report, outDir);
+  expect(JSON.parse(fs.readFileSync(jsonPath, "utf-8"))).toEqual(report);
+  expect(fs.readFileSync(markdownPath, "utf-8")).toBe(markdown);
+
+  // 이력이 비어 있으면 빈 리포트
+  const empty = buildFlakinessReport({
+    historyDir: path.join(historyDir, "missing"),
+  });
+  expect(empty.summary).toMatchObject({ runs: 0, tests: 0, flakyTests: 0 });
+  expect(formatFlakinessMarkdown(empty)).toContain(
+    "## flaky 순위 (재시도로 통과한 비율)\n\n- 없음",
+  );
+});
@@ -0,0 +1,281 @@
+/**
+ * live-reporter sink(JSONL / JUnit / webhook) 회귀 테스트 (브라우저 / 외부 네트워크 불필요)
+ *
+ *  - LIVE-SINK-01: LIVE_REPORTER_SINKS / reporter 옵션으로 sink 선택, 알 수 없는 sink와 설정 누락 처리
+ *  - LIVE-SINK-02: jsonl / junit sink가 실행 메타데이터와 함께 이벤트 / project별 XML을 남긴다
+ *  - LIVE-SINK-03: webhook sink가 Slack 호환 payload를 로컬 stand-in에 보내고, sink 오류는 격리된다
+ *
+ * 실행: npm run test:reporting (CI 설정의 reporting-offline project)
+ */
+
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { AddressInfo } from "net";
+import LiveReporter from "../lib/live-reporter";
+import { createSinks } from "../lib/live-sinks";
+import { createWebhookServer } from "../scripts/stand-ins/webhook-server";
+
+const ENV_KEYS = [
+  "LIVE_REPORTER_SINKS",
+  "LIVE_RESULTS_JSONL_FILE",
+  "LIVE_RESULTS_JUNIT_DIR",
+  "LIVE_RESULTS_WEBHOOK_URL",
+  "LIVE_RESULTS_WEBHOOK_EVENTS",
+  "LIVE_RESULTS_RETRY_BASE_MS",
+  "DASHBOARD_URL",
+  "GITHUB_RUN_ID",
+  "SUITE_INPUT",
+  "RUN_REQUESTED_SUITE",
+  "RUN_EFFECTIVE_TARGETS",
+  "RUN_SKIP_REASONS",
+  "ENVIRONMENT_INPUT",
+];
+
+let rootDir: string;
+let savedEnv: Record<string, string | undefined>;
+
+test.beforeEach(() => {
+  rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "live-sinks-spec-"));
+  savedEnv = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]));
+  for (const key of ENV_KEYS) delete process.env[key];
+  Object.assign(process.env, {
+    SUITE_INPUT: "cmr",
+    RUN_REQUESTED_SUITE: "all",
+    RUN_EFFECTIVE_TARGETS: "cmr-monitoring, admin-pc",
+    RUN_SKIP_REASONS: "albumbuddy: AB_AUTH_JSON 없음||admin: VPN 필요",
+    ENVIRONMENT_INPUT: "prod",
+  });
+});
+
+test.afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  }
+  fs.rmSync(rootDir, { recursive: true, force: true });
+});
+
+function fakeTest(id: string, title: string, project: string) {
+  return {
+    id,
+    title,
+    retries: 0,
+    location: { file: path.join(process.cwd(), "tests", `${project}.spec.ts`) },
+    titlePath: () => ["", project, `${project}.spec.ts`, title],
+    parent: { project: () => ({ name: project }) },
+  };
+}
+
+/** begin → (통과 / 실패 / 스킵) → end 한 번의 실행 */
+async function runReporter(reporter: LiveReporter) {
+  const tests = [
+    fakeTest("t1", "홈 진입", "cmr-monitoring"),
+    fakeTest("t2", "검색 <결과> & 필터", "cmr-monitoring"),
+    fakeTest("t3", "주문 목록", "admin-pc"),
+  ];
+  reporter.onBegin({}, { allTests: () => tests });
+  reporter.onTestEnd(tests[0], { status: "passed", retry: 1, duration: 1500 });
+  reporter.onTestEnd(tests[1], {
+    status: "timedOut",
+    retry: 0,
+    duration: 90000,
+    error: {
+      message:
+        "\u001b[31mTimeout 90000ms exceeded\u001b[39m\nwaiting for locator",
+      stack: "Error: Timeout\n    at tests/cmr-monitoring.spec.ts:10:5",
+    },
+  });
+  reporter.onTestEnd(tests[2], { status: "skipped", retry: 0, duration: 0 });
+  await reporter.onEnd({ status: "failed" });
+}
+
+test("LIVE-SINK-01: 환경변수 / reporter 옵션으로 sink를 고르고 설정이 없는 sink는 건너뛴다", async () => {
+  const meta = new LiveReporter().meta;
+  const warnings: string[] = [];
+  const originalWarn = console.warn;
+  console.warn = (message: string) => warnings.push(message);
+  try {
+    // 기본은 dashboard — 전송 설정 / run ID가 없으면 아무 sink도 만들지 않는다
+    expect(createSinks({}, meta)).toEqual([]);
+
+    const names = (env: NodeJS.ProcessEnv, requested?: string[]) =>
+      createSinks(env, meta, requested).map((sink) => sink.name);
+    expect(
+      names({ LIVE_REPORTER_SINKS: " JSONL, junit,jsonl, teams, webhook " }),
+    ).toEqual(["jsonl", "junit"]);
+    expect(
+      names(
+        { LIVE_REPORTER_SINKS: "jsonl", LIVE_RESULTS_WEBHOOK_URL: "http://x" },
+        ["webhook"],
+      ),
+    ).toEqual(["webhook"]);
+  } finally {
+    console.warn = originalWarn;
+  }
+  expect(warnings).toEqual([
+    '[live-reporter] 알 수 없는 sink "teams" (지원: dashboard, jsonl, junit, webhook)',
+    "[live-reporter] LIVE_RESULTS_WEBHOOK_URL이 없어 webhook sink를 건너뜁니다.",
+  ]);
+});
+
+test("LIVE-SINK-02: jsonl / junit sink가 메타데이터와 함께 이벤트와 project별 XML을 남긴다", async () => {
+  const jsonlPath = path.join(rootDir, "live.jsonl");
+  const junitDir = path.join(rootDir, "junit");
+  Object.assign(process.env, {
+    LIVE_RESULTS_JSONL_FILE: jsonlPath,
+    LIVE_RESULTS_JUNIT_DIR: junitDir,
+    GITHUB_RUN_ID: "42",
+  });
+  // 이전 실행의 jsonl은 begin에서 새로 시작
+  fs.writeFileSync(jsonlPath, '{"event":"stale"}\n');
+
+  await runReporter(new LiveReporter({ sinks: ["jsonl", "junit"] }));
+
+  const lines = fs
+    .readFileSync(jsonlPath, "utf-8")
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line));
+  expect(lines.map((line) => [line.event, line.status ?? null])).toEqual([
+    ["begin", null],
+    ["test-end", "flaky"],
+    ["test-end", "failed"],
+    ["test-end", "skipped"],
+    ["end", "failed"],
+  ]);
+  expect(lines[0]).toMatchObject({
+    runId: "42",
+    suite: "cmr",
+    total: 3,
+    requestedSuite: "all",
+    effectiveTargets: ["cmr-monitoring", "admin-pc"],
+    skipReasons: ["albumbuddy: AB_AUTH_JSON 없음", "admin: VPN 필요"],
+  });
+  expect(lines[2]).toMatchObject({ suite: "cmr", project: "cmr-monitoring" });
+
+  expect(fs.readdirSync(junitDir).sort()).toEqual([
+    "admin-pc.xml",
+    "cmr-monitoring.xml",
+  ]);
+  const cmrXml = fs.readFileSync(
+    path.join(junitDir, "cmr-monitoring.xml"),
+    "utf-8",
+  );
+  expect(cmrXml).toContain('<testsuite name="cmr-monitoring" timestamp="');
+  expect(cmrXml).toMatch(/tests="2" failures="1" skipped="0" errors="0"/);
+  expect(cmrXml).toContain(
+    '<property name="effectiveTargets" value="cmr-monitoring,admin-pc"/>',
+  );
+  expect(cmrXml).toContain(
+    '<property name="skipReasons" value="albumbuddy: AB_AUTH_JSON 없음 || admin: VPN 필요"/>',
+  );
+  expect(cmrXml).toContain(
+    '<testcase name="cmr-monitoring.spec.ts &gt; 검색 &lt;결과&gt; &amp; 필터" classname="tests/cmr-monitoring.spec.ts" time="90.000">',
+  );
+  // ANSI 색상 코드는 XML에서 제거
+  expect(cmrXml).toContain(
+    '<failure message="Timeout 90000ms exceeded">Error: Timeout',
+  );
+  expect(cmrXml).not.toContain("\u001b");
+  expect(cmrXml).toContain("<system-out>flaky: 재시도 후 통과</system-out>");
+
+  const adminXml = fs.readFileSync(
+    path.join(junitDir, "admin-pc.xml"),
+    "utf-8",
+  );
+  expect(adminXml).toMatch(/tests="1" failures="0" skipped="1"/);
+  expect(adminXml).toContain("<skipped/>");
+});
+
+test("LIVE-SINK-03: webhook sink가 Slack 호환 payload를 stand-in에 보내고 다른 sink 오류와 격리된다", async () => {
+  const server = createWebhookServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  // jsonl 경로를 디렉터리로 지정해 일부러 쓰기 실패를 만든다
+  const brokenJsonl = path.join(rootDir, "as-dir");
+  fs.mkdirSync(brokenJsonl);
+  Object.assign(process.env, {
+    LIVE_REPORTER_SINKS: "jsonl,webhook",
+    LIVE_RESULTS_JSONL_FILE: brokenJsonl,
+    LIVE_RESULTS_WEBHOOK_URL: `http://127.0.0.1:${port}/webhook`,
+    LIVE_RESULTS_WEBHOOK_EVENTS: "begin,test-end,end",
+    LIVE_RESULTS_RETRY_BASE_MS: "1",
+  });
+
+  const warnings: string[] = [];
+  const originalWarn = console.warn;
+  console.warn = (message: string) => warnings.push(message);
+  try {
+    await runReporter(new LiveReporter());
+  } finally {
+    console.warn = originalWarn;
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  }
+
+  expect(warnings).toHaveLength(5);
+  expect(warnings[0]).toMatch(/^\[live-reporter\] jsonl sink 오류 \(begin\)/);
+
+  // test-end는 실패한 테스트만
+  const messages = server.messages as Array<{
+    text: string;
+    metadata: { event_type: string; event_payload: Record<string, unknown> };
+  }>;
+  expect(messages.map((message) => message.metadata.event_type)).toEqual([
+    "playwright_begin",
+    "playwright_test_end",
+    "playwright_end",
+  ]);
+  expect(messages[0].text).toContain(
+    "▶️ *Playwright CMR (prod)* — 시작 (3개 테스트)",
+  );
+  expect(messages[1].text).toContain(
+    "🔴 *Playwright CMR (prod)* — 실패: cmr-monitoring.spec.ts > 검색 <결과> & 필터",
+  );
+
+  const end = messages[2];
+  expect(end.text.split("\n")).toEqual([
+    "🔴 *Playwright CMR (prod)* — 실패",
+    "통과: 0 | 실패: 1 | Flaky: 1 | 스킵: 1",
+    "",
+    "*실패 테스트:*",
+    "• cmr-monitoring.spec.ts > 검색 <결과> & 필터",
+    "요청 suite: all",
+    "실행 대상: cmr-monitoring, admin-pc",
+    "⏭️ albumbuddy: AB_AUTH_JSON 없음",
+    "⏭️ admin: VPN 필요",
+  ]);
+  expect(end.metadata.event_payload).toMatchObject({
+    event: "end",
+    status: "failed",
+    suite: "cmr",
+    requestedSuite: "all",
+    effectiveTargets: ["cmr-monitoring", "admin-pc"],
+    skipReasons: ["albumbuddy: AB_AUTH_JSON 없음", "admin: VPN 필요"],
+    failed: 1,
+    flaky: 1,
+    skipped: 1,
+  });
+});
+
+test("LIVE-SINK-03b: webhook stand-in은 Slack처럼 text / blocks 없는 payload를 거부한다", async () => {
+  const server = createWebhookServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  try {
+    const post = (pathname: string, body: string) =>
+      fetch(`${base}${pathname}`, { method: "POST", body }).then(
+        async (res) => [res.status, await res.text()],
+      );
+    expect(await post("/webhook", "{")).toEqual([400, "invalid_payload"]);
+    expect(await post("/webhook", "{}")).toEqual([400, "no_text"]);
+    expect(await post("/other", '{"text":"hi"}')).toEqual([404, "no_service"]);
+    expect(await post("/webhook", '{"blocks":[]}')).toEqual([200, "ok"]);
+    expect(server.messages).toEqual([{ blocks: [] }]);
+  } finally {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
@@ -0,0 +1,398 @@
+/**
+ * live-reporter spool / 재시도 / replay 회귀 테스트 (브라우저 / 외부 네트워크 불필요)
+ *
+ *  - LIVE-SPOOL-01: 재시도 대상 상태 코드와 backoff, idempotency key 전달
+ *  - LIVE-SPOOL-02: LiveReporter가 payload를 spool에 남기고 순서대로 재시도 전송 후 ack
+ *  - LIVE-SPOOL-02c: 재시도 예정인 timedOut 시도는 보내지 않고 최종(flaky) 결과만 보낸다
+ *  - LIVE-SPOOL-02d: 재시도가 남아 있어도 interrupted 시도는 최종 결과(failed)로 보낸다
+ *  - LIVE-SPOOL-03: replay는 ack 없는 payload만 원래 key로 보내고 실패 지점에서 멈춘다
+ *
+ * 실행: npm run test:reporting (CI 설정의 reporting-offline project)
+ */
+
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import type { AddressInfo } from "net";
+import LiveReporter from "../lib/live-reporter";
+import {
+  appendSpoolEntry,
+  getUnsentPayloads,
+  postLiveResult,
+  readSpool,
+  replaySpool,
+} from "../lib/live-results-spool";
+
+type Received = { key: string; body: Record<string, unknown> };
+
+/** `/api/live-results` stand-in. failures 만큼 먼저 503을 돌려주고, 같은 key는 409 */
+function createDashboardServer(failures = 0) {
+  const received: Received[] = [];
+  let remainingFailures = failures;
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      if (remainingFailures > 0) {
+        remainingFailures--;
+        res.writeHead(503).end();
+        return;
+      }
+      const key = String(req.headers["idempotency-key"]);
+      if (received.some((item) => item.key === key)) {
+        res.writeHead(409).end();
+        return;
+      }
+      received.push({ key, body: JSON.parse(raw) });
+      res.writeHead(200).end("{}");
+    });
+  });
+  return { server, received };
+}
+
+async function listen(server: http.Server) {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+async function close(server: http.Server) {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+}
+
+let rootDir: string;
+
+test.beforeEach(() => {
+  rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "live-spool-spec-"));
+});
+
+test.afterEach(() => {
+  fs.rmSync(rootDir, { recursive: true, force: true });
+});
+
+test("LIVE-SPOOL-01: 네트워크 오류 / 5xx만 backoff 재시도하고 409는 이미 기록된 것으로 본다", async () => {
+  const delays: number[] = [];
+  const requests: Array<{ headers: Record<string, string>; body: string }> = [];
+  const responses = [
+    () => Promise.reject(new Error("ECONNRESET")),
+    () => Promise.resolve(new Response(null, { status: 502 })),
+    () => Promise.resolve(new Response(null, { status: 409 })),
+  ];
+  const options = {
+    dashboardUrl: "http://dashboard.test",
+    apiSecret: "secret",
+    retryBaseMs: 100,
+    sleep: async (ms: number) => {
+      delays.push(ms);
+    },
+    fetchImpl: (async (_url: string, init: RequestInit) => {
+      requests.push({
+        headers: init.headers as Record<string, string>,
+        body: String(init.body),
+      });
+      return responses.shift()!();
+    }) as unknown as typeof fetch,
+  };
+
+  expect(
+    await postLiveResult("42-1:begin", { event: "begin" }, options),
+  ).toEqual({ ok: true, status: 409, attempts: 3, error: null });
+  expect(delays).toEqual([100, 200]);
+  expect(requests[0].headers["Idempotency-Key"]).toBe("42-1:begin");
+  expect(JSON.parse(requests[0].body)).toEqual({
+    event: "begin",
+    idempotencyKey: "42-1:begin",
+  });
+
+  // 4xx(409 제외)는 재시도해도 소용없으므로 바로 실패
+  responses.push(() => Promise.resolve(new Response(null, { status: 401 })));
+  expect(
+    await postLiveResult("42-1:end", { event: "end" }, options),
+  ).toMatchObject({ ok: false, status: 401, attempts: 1, error: "HTTP 401" });
+
+  // 끝까지 5xx면 maxAttempts 후 실패
+  delays.length = 0;
+  for (let i = 0; i < 3; i++) {
+    responses.push(() => Promise.resolve(new Response(null, { status: 503 })));
+  }
+  expect(
+    await postLiveResult(
+      "42-1:end",
+      { event: "end" },
+      {
+        ...options,
+        maxAttempts: 3,
+      },
+    ),
+  ).toMatchObject({ ok: false, status: 503, attempts: 3 });
+  expect(delays).toEqual([100, 200]);
+});
+
+test.describe("LiveReporter", () => {
+  const ENV_KEYS = [
+    "DASHBOARD_URL",
+    "DASHBOARD_API_SECRET",
+    "GITHUB_RUN_ID",
+    "GITHUB_RUN_ATTEMPT",
+    "LIVE_RESULTS_SPOOL_FILE",
+    "LIVE_RESULTS_RETRY_BASE_MS",
+    "LIVE_RESULTS_MAX_ATTEMPTS",
+  ];
+  let savedEnv: Record<string, string | undefined>;
+
+  test.beforeEach(() => {
+    savedEnv = Object.fromEntries(
+      ENV_KEYS.map((key) => [key, process.env[key]]),
+    );
+  });
+
+  test.afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+  });
+
+  function fakeTest(id: string, title: string, retries = 0) {
+    return {
+      id,
+      title,
+      retries,
+      location: { file: "tests/cmr_01_home_pages_pom.spec.ts" },
+      titlePath: () => ["", "cmr", "cmr_01_home_pages_pom.spec.ts", title],
+      parent: { project: () => ({ name: "cmr-monitoring" }) },
+    };
+  }
+
+  test("LIVE-SPOOL-02: payload를 spool에 남기고 재시도로 순서대로 보낸 뒤 ack를 기록한다", async () => {
+    const { server, received } = createDashboardServer(2);
+    const spoolPath = path.join(rootDir, "spool.jsonl");
+    Object.assign(process.env, {
+      DASHBOARD_URL: await listen(server),
+      DASHBOARD_API_SECRET: "secret",
+      GITHUB_RUN_ID: "42",
+      GITHUB_RUN_ATTEMPT: "2",
+      LIVE_RESULTS_SPOOL_FILE: spoolPath,
+      LIVE_RESULTS_RETRY_BASE_MS: "1",
+    });
+
+    try {
+      const reporter = new LiveReporter();
+      const tests = [fakeTest("t1", "홈 진입"), fakeTest("t2", "검색")];
+      reporter.onBegin({}, { allTests: () => tests });
+      reporter.onTestEnd(tests[0], {
+        status: "passed",
+        retry: 0,
+        duration: 10,
+      });
+      reporter.onTestEnd(tests[1], {
+        status: "failed",
+        retry: 0,
+        duration: 20,
+        error: { message: "boom" },
+      });
+      await reporter.onEnd({ status: "failed" });
+    } finally {
+      await close(server);
+    }
+
+    const keys = [
+      "42-2:begin",
+      "42-2:test-end:t1",
+      "42-2:test-end:t2",
+      "42-2:end",
+    ];
+    expect(received.map((item) => item.key)).toEqual(keys);
+    expect(received[2].body).toMatchObject({
+      runId: 42,
+      idempotencyKey: "42-2:test-end:t2",
+      event: "test-end",
+      title: "cmr_01_home_pages_pom.spec.ts > 검색",
+      status: "failed",
+      errorMessage: "boom",
+    });
+
+    const entries = readSpool(spoolPath);
+    expect(
+      entries.filter((entry) => entry.type === "payload").map((e) => e.key),
+    ).toEqual(keys);
+    expect(
+      entries.filter((entry) => entry.type === "ack").map((e) => e.key),
+    ).toEqual(keys);
+    expect(getUnsentPayloads(entries)).toEqual([]);
+  });
+
+  test("LIVE-SPOOL-02b: 대시보드 설정이 없어도 run ID가 있으면 spool만 남긴다", async () => {
+    const spoolPath = path.join(rootDir, "spool.jsonl");
+    delete process.env.DASHBOARD_URL;
+    Object.assign(process.env, {
+      GITHUB_RUN_ID: "7",
+      LIVE_RESULTS_SPOOL_FILE: spoolPath,
+    });
+    delete process.env.GITHUB_RUN_ATTEMPT;
+
+    const reporter = new LiveReporter();
+    reporter.onBegin({}, { allTests: () => [] });
+    await reporter.onEnd({ status: "passed" });
+
+    expect(getUnsentPayloads(readSpool(spoolPath)).map((e) => e.key)).toEqual([
+      "7-1:begin",
+      "7-1:end",
+    ]);
+  });
+
+  test("LIVE-SPOOL-02c: 재시도 예정인 timedOut 시도는 건너뛰고 통과한 재시도를 flaky로 보낸다", async () => {
+    const { server, received } = createDashboardServer();
+    const spoolPath = path.join(rootDir, "spool.jsonl");
+    Object.assign(process.env, {
+      DASHBOARD_URL: await listen(server),
+      DASHBOARD_API_SECRET: "secret",
+      GITHUB_RUN_ID: "42",
+      GITHUB_RUN_ATTEMPT: "1",
+      LIVE_RESULTS_SPOOL_FILE: spoolPath,
+      LIVE_RESULTS_RETRY_BASE_MS: "1",
+    });
+
+    try {
+      const reporter = new LiveReporter();
+      const slow = fakeTest("t1", "상품 상세", 1);
+      reporter.onBegin({}, { allTests: () => [slow] });
+      reporter.onTestEnd(slow, {
+        status: "timedOut",
+        retry: 0,
+        duration: 30_000,
+        error: { message: "Test timeout of 30000ms exceeded." },
+      });
+      reporter.onTestEnd(slow, { status: "passed", retry: 1, duration: 40 });
+      await reporter.onEnd({ status: "passed" });
+    } finally {
+      await close(server);
+    }
+
+    const testEnds = received.filter((item) => item.body.event === "test-end");
+    expect(testEnds).toHaveLength(1);
+    expect(testEnds[0]).toMatchObject({
+      key: "42-1:test-end:t1",
+      body: { status: "flaky", errorMessage: null },
+    });
+    expect(getUnsentPayloads(readSpool(spoolPath))).toEqual([]);
+  });
+
+  test("LIVE-SPOOL-02d: 재시도가 남아 있어도 interrupted 시도는 최종 결과로 보낸다", async () => {
+    const { server, received } = createDashboardServer();
+    const spoolPath = path.join(rootDir, "spool.jsonl");
+    Object.assign(process.env, {
+      DASHBOARD_URL: await listen(server),
+      DASHBOARD_API_SECRET: "secret",
+      GITHUB_RUN_ID: "42",
+      GITHUB_RUN_ATTEMPT: "1",
+      LIVE_RESULTS_SPOOL_FILE: spoolPath,
+      LIVE_RESULTS_RETRY_BASE_MS: "1",
+    });
+
+    try {
+      const reporter = new LiveReporter();
+      // 첫 시도가 실패해 재시도하던 중 실행이 중단됨 (Ctrl+C / maxFailures / job 취소)
+      const stopped = fakeTest("t1", "결제 진입", 2);
+      reporter.onBegin({}, { allTests: () => [stopped] });
+      reporter.onTestEnd(stopped, {
+        status: "failed",
+        retry: 0,
+        duration: 20,
+        error: { message: "boom" },
+      });
+      reporter.onTestEnd(stopped, {
+        status: "interrupted",
+        retry: 1,
+        duration: 5,
+      });
+      await reporter.onEnd({ status: "interrupted" });
+    } finally {
+      await close(server);
+    }
+
+    const testEnds = received.filter((item) => item.body.event === "test-end");
+    expect(testEnds).toHaveLength(1);
+    expect(testEnds[0]).toMatchObject({
+      key: "42-1:test-end:t1",
+      body: {
+        status: "failed",
+        title: "cmr_01_home_pages_pom.spec.ts > 결제 진입",
+      },
+    });
+    expect(getUnsentPayloads(readSpool(spoolPath))).toEqual([]);
+  });
+});
+
+test("LIVE-SPOOL-03: replay는 ack 없는 payload만 원래 key로 보내고 실패하면 거기서 멈춘다", async () => {
+  const spoolPath = path.join(rootDir, "spool.jsonl");
+  const at = new Date().toISOString();
+  for (const key of [
+    "1-1:begin",
+    "1-1:test-end:a",
+    "1-1:test-end:b",
+    "1-1:end",
+  ]) {
+    appendSpoolEntry(spoolPath, {
+      type: "payload",
+      key,
+      at,
+      body: { runId: 1, event: key.split(":")[1] },
+    });
+  }
+  appendSpoolEntry(spoolPath, {
+    type: "ack",
+    key: "1-1:begin",
+    at,
+    status: 200,
+  });
+  // 쓰다 죽은 마지막 줄
+  fs.appendFileSync(spoolPath, '{"type":"ack","key":"1-1:te');
+
+  const down = createDashboardServer(Number.MAX_SAFE_INTEGER);
+  const downUrl = await listen(down.server);
+  try {
+    const failed = await replaySpool(spoolPath, {
+      dashboardUrl: downUrl,
+      apiSecret: "secret",
+      maxAttempts: 2,
+      retryBaseMs: 1,
+    });
+    expect(failed).toMatchObject({
+      pending: 3,
+      sent: 0,
+      remaining: 3,
+      failure: { key: "1-1:test-end:a", status: 503, attempts: 2 },
+    });
+  } finally {
+    await close(down.server);
+  }
+
+  const { server, received } = createDashboardServer();
+  const dashboardUrl = await listen(server);
+  try {
+    // 이전 실행에서 이미 받은 결과 — 다시 보내면 409로 중복 없이 ack
+    received.push({ key: "1-1:test-end:a", body: {} });
+    expect(
+      await replaySpool(spoolPath, { dashboardUrl, apiSecret: "secret" }),
+    ).toEqual({ pending: 3, sent: 3, remaining: 0, failure: null });
+    expect(received.map((item) => item.key)).toEqual([
+      "1-1:test-end:a",
+      "1-1:test-end:b",
+      "1-1:end",
+    ]);
+    expect(received[2].body).toEqual({
+      runId: 1,
+      event: "end",
+      idempotencyKey: "1-1:end",
+    });
+
+    expect(
+      await replaySpool(spoolPath, { dashboardUrl, apiSecret: "secret" }),
+    ).toEqual({ pending: 0, sent: 0, remaining: 0, failure: null });
+  } finally {
+    await close(server);
+  }
+});
@@ -0,0 +1,289 @@
+/**
+ * 성능 시계열 / 예산 / rolling baseline 회귀 판정(tests/helpers/perf-trend.ts) 회귀 테스트 (브라우저 불필요)
+ *
+ *  - PERF-TREND-01: 예산 초과, p75 대비 회귀 중 통계적으로 유의한 것만 error, 표본 부족 / 미측정 값 제외
+ *  - PERF-TREND-02: recordPerfSample이 PERF_HISTORY 설정에 따라 페이지 + 환경별 시계열을 읽고 추가
+ *  - PERF-TREND-03: 실제 perf-budgets.json이 기존 고정 기준(CMR 3000ms / AlbumBuddy PERFORMANCE_THRESHOLD)과 같다
+ *  - PERF-TREND-04: error 판정 / 재시도 회차 표본은 시계열에 추가하지 않아 baseline이 오염되지 않는다
+ *
+ * 실행: npm run test:reporting (CI 설정의 reporting-offline project)
+ */
+
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  evaluatePerfSample,
+  formatPerfTrend,
+  getPerfHistoryPath,
+  loadPerfBudgets,
+  percentile,
+  readPerfHistory,
+  recordPerfSample,
+} from "./helpers/perf-trend";
+import type {
+  PerfBudgetConfig,
+  PerfMetrics,
+  PerfSample,
+  PerfTrendSettings,
+} from "./helpers/perf-trend";
+import { PERFORMANCE_THRESHOLD } from "./pages/albumbuddy.page";
+
+const SETTINGS: PerfTrendSettings = {
+  metrics: ["totalTime", "lcp", "cls"],
+  baselineRuns: 10,
+  minSamples: 5,
+  percentile: 75,
+  tolerancePct: 25,
+  zScore: 3,
+  minDelta: { default: 300, cls: 0.05 },
+};
+
+function sampleOf(metrics: PerfMetrics, index = 0): PerfSample {
+  return {
+    pageId: "cmr:home",
+    env: "prod",
+    capturedAt: new Date(Date.UTC(2026, 9, 1 + index)).toISOString(),
+    runId: null,
+    metrics,
+  };
+}
+
+function historyOf(totalTimes: number[], lcp = 1500): PerfSample[] {
+  return totalTimes.map((totalTime, index) =>
+    sampleOf({ totalTime, lcp, cls: 0 }, index),
+  );
+}
+
+test("PERF-TREND-01: 예산과 최근 실행 p75 대비 회귀를 판정하고 유의한 회귀만 error로 본다", () => {
+  expect(percentile([1000, 1100, 1200, 1300, 1400], 75)).toBe(1300);
+  expect(percentile([1000, 2000], 50)).toBe(1500);
+
+  // 안정적인 시계열에서 크게 느려짐 → error
+  const stable = historyOf([1000, 1020, 980, 1010, 990, 1000, 1030, 970]);
+  const regressed = evaluatePerfSample(
+    sampleOf({ totalTime: 2100, lcp: 1500, cls: 0 }),
+    stable,
+    { totalTime: 3000 },
+    SETTINGS,
+  );
+  expect(regressed.baseline.totalTime).toEqual({
+    samples: 8,
+    percentile: 1012.5,
+    median: 1000,
+    mad: 15,
+  });
+  expect(regressed.errors).toEqual([
+    expect.objectContaining({
+      kind: "regression",
+      severity: "error",
+      metric: "totalTime",
+      value: 2100,
+      limit: 1312.5,
+    }),
+  ]);
+  expect(formatPerfTrend(regressed)).toContain(
+    "totalTime 2100ms — 최근 8회 p75 1013ms 대비 +107% (z=49.5)",
+  );
+
+  // 평소에도 들쭉날쭉한 시계열의 한 번 느린 실행 → warn (실패 아님)
+  const noisy = historyOf([1000, 2200, 900, 2500, 1100, 2400, 1000, 2300]);
+  const spike = evaluatePerfSample(
+    sampleOf({ totalTime: 3000, lcp: 1500, cls: 0 }),
+    noisy,
+    {},
+    SETTINGS,
+  );
+  expect(spike.findings).toEqual([
+    expect.objectContaining({
+      kind: "regression",
+      severity: "warn",
+      metric: "totalTime",
+    }),
+  ]);
+  expect(spike.errors).toEqual([]);
+
+  // 증가폭이 minDelta 미만이면 비율이 커도 회귀 아님 (cls 0.01 → 0.04)
+  const smallCls = evaluatePerfSample(
+    sampleOf({ totalTime: 1000, lcp: 1500, cls: 0.04 }),
+    historyOf([1000, 1000, 1000, 1000, 1000]).map((item) => ({
+      ...item,
+      metrics: { ...item.metrics, cls: 0.01 },
+    })),
+    {},
+    SETTINGS,
+  );
+  expect(smallCls.findings).toEqual([]);
+
+  // 예산 초과는 시계열과 무관하게 error, 표본 부족이면 회귀 판정 생략
+  const overBudget = evaluatePerfSample(
+    sampleOf({ totalTime: 3500, lcp: 0, cls: 0 }),
+    historyOf([1000, 1000, 1000]),
+    { totalTime: 3000, lcp: 2500 },
+    SETTINGS,
+  );
+  expect(overBudget.baseline).toEqual({});
+  expect(overBudget.errors).toEqual([
+    {
+      kind: "budget",
+      severity: "error",
+      metric: "totalTime",
+      value: 3500,
+      limit: 3000,
+      message: "totalTime 3500ms > 예산 3000ms",
+    },
+  ]);
+
+  // 0은 미측정 (LCP 미수집) — 예산 / baseline 모두에서 제외
+  const missingLcp = evaluatePerfSample(
+    sampleOf({ totalTime: 1000, lcp: 4000, cls: 0 }),
+    historyOf([1000, 1000, 1000, 1000, 1000, 1000], 0),
+    {},
+    SETTINGS,
+  );
+  expect(Object.keys(missingLcp.baseline)).toEqual(["totalTime", "cls"]);
+  expect(formatPerfTrend(missingLcp)).toBe(
+    "[cmr:home @ prod] 예산 / 최근 실행 대비 이상 없음 (totalTime, cls)",
+  );
+});
+
+test.describe("recordPerfSample", () => {
+  const ENV_KEYS = ["PERF_HISTORY", "PERF_ENV", "ENVIRONMENT_INPUT"];
+  const savedEnv: Record<string, string | undefined> = {};
+  let dir: string;
+
+  const CONFIG: PerfBudgetConfig = {
+    defaults: SETTINGS,
+    pages: { "cmr:home": { totalTime: 3000 } },
+    envs: { stg: { "cmr:home": { totalTime: 5000 } } },
+  };
+
+  test.beforeEach(() => {
+    for (const key of ENV_KEYS) savedEnv[key] = process.env[key];
+    for (const key of ENV_KEYS) delete process.env[key];
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "perf-trend-spec-"));
+  });
+
+  test.afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("PERF-TREND-02: PERF_HISTORY=true일 때만 페이지 + 환경별 시계열을 비교하고 추가한다", () => {
+    // 기본: 예산만 검사하고 저장하지 않음
+    const budgetOnly = recordPerfSample(
+      "cmr:home",
+      { totalTime: 3200 },
+      { dir, config: CONFIG },
+    );
+    expect(budgetOnly.env).toBe("prod");
+    expect(budgetOnly.errors.map((finding) => finding.kind)).toEqual([
+      "budget",
+    ]);
+    expect(fs.readdirSync(dir)).toEqual([]);
+
+    process.env.PERF_HISTORY = "true";
+    process.env.ENVIRONMENT_INPUT = "stg";
+    for (let i = 0; i < 6; i++) {
+      const result = recordPerfSample(
+        "cmr:home",
+        { totalTime: 1000 + i * 10 },
+        { dir, config: CONFIG, now: Date.UTC(2026, 9, 1 + i) },
+      );
+      expect(result.errors).toEqual([]);
+    }
+    recordPerfSample("cmr:event", { totalTime: 9000 }, { dir, config: CONFIG });
+    // 중단된 기록의 잘린 줄은 무시
+    fs.appendFileSync(getPerfHistoryPath("stg", dir), '{"pageId":"cmr:ho');
+
+    // stg 예산(5000)은 통과하지만 최근 6회 p75 대비 유의한 회귀
+    const regressed = recordPerfSample(
+      "cmr:home",
+      { totalTime: 4000 },
+      { dir, config: CONFIG, now: Date.UTC(2026, 9, 10) },
+    );
+    expect(regressed.env).toBe("stg");
+    expect(regressed.baseline.totalTime.samples).toBe(6);
+    expect(regressed.errors).toEqual([
+      expect.objectContaining({ kind: "regression", metric: "totalTime" }),
+    ]);
+
+    // error로 판정된 표본은 추가되지 않는다 (PERF-TREND-04)
+    const history = readPerfHistory("cmr:home", "stg", dir);
+    expect(history).toHaveLength(6);
+    expect(history[5]).toEqual({
+      pageId: "cmr:home",
+      env: "stg",
+      capturedAt: "2026-10-06T00:00:00.000Z",
+      runId: process.env.GITHUB_RUN_ID ?? null,
+      metrics: { totalTime: 1050 },
+    });
+    expect(readPerfHistory("cmr:home", "prod", dir)).toEqual([]);
+
+    // PERF_ENV가 ENVIRONMENT_INPUT보다 우선, 파일명에 못 쓰는 키는 거부
+    process.env.PERF_ENV = "../prod";
+    expect(() =>
+      recordPerfSample(
+        "cmr:home",
+        { totalTime: 1000 },
+        { dir, config: CONFIG },
+      ),
+    ).toThrow("잘못된 성능 시계열 환경 키입니다: ../prod");
+  });
+
+  test("PERF-TREND-04: error 판정과 재시도 회차 표본은 baseline 시계열에 추가하지 않는다", () => {
+    process.env.PERF_HISTORY = "true";
+    const record = (totalTime: number, day: number, retry = 0) =>
+      recordPerfSample(
+        "cmr:home",
+        { totalTime },
+        { dir, config: CONFIG, now: Date.UTC(2026, 9, day), retry },
+      );
+    for (let i = 0; i < 6; i++) record(1000 + i * 10, 1 + i);
+
+    // 재시도 회차는 판정만 하고 기록하지 않는다 (느린 첫 시도 뒤의 재측정)
+    expect(record(1200, 7, 1).errors).toEqual([]);
+    // 예산 초과 / 유의한 회귀 모두 기록하지 않는다
+    expect(record(3500, 8).errors.map((finding) => finding.kind)).toEqual([
+      "budget",
+      "regression",
+    ]);
+    expect(record(2500, 9).errors.map((finding) => finding.kind)).toEqual([
+      "regression",
+    ]);
+    expect(
+      readPerfHistory("cmr:home", "prod", dir).map(
+        (sample) => sample.metrics.totalTime,
+      ),
+    ).toEqual([1000, 1010, 1020, 1030, 1040, 1050]);
+
+    // 앞선 느린 실행이 baseline에 없으므로 같은 회귀가 계속 error로 잡힌다
+    const again = record(2500, 10);
+    expect(again.baseline.totalTime).toMatchObject({
+      samples: 6,
+      median: 1025,
+    });
+    expect(again.errors).toHaveLength(1);
+
+    // 통과한 표본은 다시 정상적으로 기록된다
+    expect(record(1060, 11).errors).toEqual([]);
+    expect(readPerfHistory("cmr:home", "prod", dir)).toHaveLength(7);
+  });
+});
+
+test("PERF-TREND-03: perf-budgets.json 예산이 기존 고정 기준과 같다", () => {
+  const config = loadPerfBudgets();
+  for (const pageId of ["cmr:home", "cmr:event", "cmr:shop"]) {
+    expect(config.pages[pageId]).toEqual({ totalTime: 3000 });
+  }
+  expect(config.pages["albumbuddy:home"]).toEqual({
+    loadTime: PERFORMANCE_THRESHOLD.pageLoad,
+  });
+  for (const metric of ["totalTime", "loadTime"]) {
+    expect(config.defaults.metrics).toContain(metric);
+  }
+});
@@ -1,6 +1,7 @@
 import { test, expect } from "@playwright/test";
 import * as fs from "fs";
 import * as path from "path";
+import { readAuthJsonFile, writeAuthJsonFile } from "../scripts/auth-crypto";
 
 const AUTH_FILE = path.join(__dirname, "..", "auth.json");
 
@@ -17,7 +18,7 @@ async function mergeAndSaveStorageState(
   // 기존 파일이 있으면 쿠키 병합
   if (fs.existsSync(filePath)) {
     try {
-      const existing = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+      const existing = readAuthJsonFile(filePath);
       if (existing.cookies && existing.cookies.length > 0) {
         // 새 쿠키를 맵으로
         const newMap = new Map<string, (typeof newState.cookies)[number]>();
@@ -49,7 +50,8 @@ async function mergeAndSaveStorageState(
     }
   }
 
-  fs.writeFileSync(filePath, JSON.stringify(newState, null, 2));
+  // AUTH_ENCRYPTION_KEY가 있으면 암호화해서 저장 (scripts/auth-crypto.js)
+  writeAuthJsonFile(filePath, newState);
   return newState.cookies.length;
 }
 
@@ -358,7 +360,7 @@ test("저장된 세션 확인", async ({ page, context }) => {
   }
 
   // 세션 로드
-  const authData = JSON.parse(fs.readFileSync(AUTH_FILE, "utf-8"));
+  const authData = readAuthJsonFile(AUTH_FILE);
   console.log(`📂 auth.json 로드됨 (쿠키 ${authData.cookies?.length || 0}개)`);
 
   // 쿠키 추가
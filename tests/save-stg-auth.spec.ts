@@ -1,6 +1,7 @@
 import { test, expect } from "@playwright/test";
 import * as fs from "fs";
 import * as path from "path";
+import { readAuthJsonFile, writeAuthJsonFile } from "../scripts/auth-crypto";
 
 const STG_AUTH_FILE = path.join(__dirname, "..", "stg-auth.json");
 
@@ -90,7 +91,8 @@ test("STG 로그인 세션 저장 (수동 로그인)", async ({ page, context })
 
   if (loginSuccess) {
     // 세션 저장
-    await context.storageState({ path: STG_AUTH_FILE });
+    // AUTH_ENCRYPTION_KEY가 있으면 암호화해서 저장 (scripts/auth-crypto.js)
+    writeAuthJsonFile(STG_AUTH_FILE, await context.storageState());
 
     console.log("");
     console.log("=".repeat(70));
@@ -108,7 +110,7 @@ test("STG 로그인 세션 저장 (수동 로그인)", async ({ page, context })
 
     // 저장된 세션 확인
     expect(fs.existsSync(STG_AUTH_FILE)).toBeTruthy();
-    const authData = JSON.parse(fs.readFileSync(STG_AUTH_FILE, "utf-8"));
+    const authData = readAuthJsonFile(STG_AUTH_FILE);
     console.log(`🍪 저장된 쿠키 수: ${authData.cookies?.length || 0}개`);
     console.log("");
   } else {
@@ -135,7 +137,7 @@ test("저장된 STG 세션 확인", async ({ page, context }) => {
   }
 
   // 세션 로드
-  const authData = JSON.parse(fs.readFileSync(STG_AUTH_FILE, "utf-8"));
+  const authData = readAuthJsonFile(STG_AUTH_FILE);
   console.log(
     `📂 stg-auth.json 로드됨 (쿠키 ${authData.cookies?.length || 0}개)`,
   );